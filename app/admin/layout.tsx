@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'admin',
+  robots: { index: false, follow: false },
+}
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return children
+}
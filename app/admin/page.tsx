@@ -0,0 +1,258 @@
+/**
+ * ============================================================================
+ * BASE DASH — Admin Dashboard
+ * Owner-only: contract state, relayer pool, flagged runs, bans, owner functions
+ * ============================================================================
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { formatEther, isAddress } from 'viem'
+import { useWallet } from '@/app/hooks/useWallet'
+import { useAdmin } from '@/app/hooks/useAdmin'
+
+const mono = { fontFamily: 'var(--font-mono, monospace)' }
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+const short = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+const eth = (wei: string) => `${Number(formatEther(BigInt(wei))).toFixed(5)} eth`
+const when = (seconds: number | null) => seconds === null ? '∞' : new Date(seconds * 1000).toLocaleString()
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border border-slate-200/60 bg-white p-4">
+      <h2 className="text-[11px] font-black text-slate-800 mb-3 lowercase tracking-wider" style={mono}>{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1 text-[10px] border-b border-slate-100 last:border-0" style={mono}>
+      <span className="text-slate-500">{label}</span>
+      <span className="text-slate-800 text-right break-all">{children}</span>
+    </div>
+  )
+}
+
+function ActionButton({ onClick, disabled, danger, children }: {
+  onClick: () => void
+  disabled?: boolean
+  danger?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-3 py-2 text-[10px] font-black lowercase tracking-widest text-white transition-all active:scale-[0.98] disabled:opacity-40 ${danger ? 'bg-[#F6465D]' : 'bg-[#0052FF]'}`}
+      style={mono}
+    >
+      {children}
+    </button>
+  )
+}
+
+/** Address input plus a button that only enables for a valid address */
+function AddressAction({ placeholder, label, disabled, danger, onSubmit }: {
+  placeholder: string
+  label: string
+  disabled: boolean
+  danger?: boolean
+  onSubmit: (address: `0x${string}`) => void
+}) {
+  const [value, setValue] = useState('')
+  const valid = isAddress(value.trim())
+  return (
+    <div className="flex gap-2">
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={placeholder}
+        className="flex-1 min-w-0 border border-slate-200 px-2 py-2 text-[10px] outline-none focus:border-[#0052FF]"
+        style={mono}
+      />
+      <ActionButton danger={danger} disabled={disabled || !valid} onClick={() => onSubmit(value.trim() as `0x${string}`)}>
+        {label}
+      </ActionButton>
+    </div>
+  )
+}
+
+/** Address, mode and reason for a new denylist entry */
+function DenyForm({ disabled, onSubmit }: {
+  disabled: boolean
+  onSubmit: (address: `0x${string}`, mode: 'ban' | 'shadow', reason: string) => void
+}) {
+  const [value, setValue] = useState('')
+  const [mode, setMode] = useState<'ban' | 'shadow'>('ban')
+  const [reason, setReason] = useState('')
+  const valid = isAddress(value.trim())
+  const input = 'border border-slate-200 px-2 py-2 text-[10px] outline-none focus:border-[#0052FF]'
+  return (
+    <div className="flex flex-wrap gap-2">
+      <input value={value} onChange={(e) => setValue(e.target.value)} placeholder="player 0x…" className={`flex-1 min-w-0 ${input}`} style={mono} />
+      <select value={mode} onChange={(e) => setMode(e.target.value as 'ban' | 'shadow')} className={input} style={mono}>
+        <option value="ban">ban</option>
+        <option value="shadow">shadow</option>
+      </select>
+      <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="reason" className={`flex-1 min-w-0 ${input}`} style={mono} />
+      <ActionButton danger disabled={disabled || !valid} onClick={() => onSubmit(value.trim() as `0x${string}`, mode, reason.trim())}>
+        add
+      </ActionButton>
+    </div>
+  )
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function AdminPage() {
+  const { address, connectWallet, isConnecting } = useWallet()
+  const admin = useAdmin(address)
+  const { state } = admin
+  const busy = admin.isTxPending
+
+  let gate: React.ReactNode = null
+  if (!admin.isContractReady) {
+    gate = <p className="text-[10px] text-slate-500" style={mono}>contract not deployed</p>
+  } else if (!address) {
+    gate = <ActionButton onClick={connectWallet} disabled={isConnecting}>connect wallet</ActionButton>
+  } else if (!admin.isOwner) {
+    gate = <p className="text-[10px] text-slate-500" style={mono}>{short(address)} is not the contract owner</p>
+  } else if (!admin.isSignedIn) {
+    gate = <ActionButton onClick={admin.signIn} disabled={admin.isSigning}>sign in as owner</ActionButton>
+  }
+
+  return (
+    <main className="h-full w-full overflow-y-auto touch-auto bg-slate-50">
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        <header className="flex items-center justify-between">
+          <h1 className="text-sm font-black text-slate-900 lowercase tracking-wider" style={mono}>base dash admin</h1>
+          {state && (
+            <button onClick={admin.refresh} disabled={admin.isLoading} className="text-[10px] text-[#0052FF] lowercase disabled:opacity-40" style={mono}>
+              {admin.isLoading ? 'loading…' : 'refresh'}
+            </button>
+          )}
+        </header>
+
+        {gate && <Section title="access">{gate}</Section>}
+
+        {admin.error && (
+          <p className="border border-[#F6465D]/40 bg-[#F6465D]/5 p-3 text-[10px] text-[#F6465D]" style={mono}>{admin.error}</p>
+        )}
+
+        {admin.lastTx && (
+          <p className="border border-slate-200 bg-white p-3 text-[10px] text-slate-700 break-all" style={mono}>
+            {admin.lastTx.label}: {admin.isConfirmed ? 'confirmed' : admin.isTxFailed ? 'failed' : 'pending'} — {admin.lastTx.hash}
+          </p>
+        )}
+
+        {state && (
+          <>
+            <Section title="contract">
+              <Row label="address">{state.contract.address}</Row>
+              <Row label="owner">{state.contract.owner}</Row>
+              {state.contract.pendingOwner !== ZERO_ADDRESS && <Row label="pending owner">{state.contract.pendingOwner}</Row>}
+              <Row label="season">{state.contract.season}</Row>
+              <Row label="board size">{state.contract.boardSize}</Row>
+              <Row label="balance">{eth(state.contract.balance)}</Row>
+              <div className="mt-3 flex gap-2">
+                <ActionButton onClick={admin.withdraw} disabled={busy || state.contract.balance === '0'}>withdraw</ActionButton>
+                <ActionButton onClick={admin.startNewSeason} disabled={busy} danger>start new season</ActionButton>
+              </div>
+            </Section>
+
+            <Section title="score signers">
+              {state.contract.signers.map((s) => (
+                <Row key={s.address} label={`${short(s.address)}${s.active ? '' : ' (inactive)'}`}>
+                  {when(s.validFrom)} → {when(s.validUntil)}
+                </Row>
+              ))}
+              <div className="mt-3 space-y-2">
+                <AddressAction placeholder="new signer 0x…" label="rotate" disabled={busy} onSubmit={admin.setScoreSigner} />
+                <AddressAction
+                  placeholder="leaked signer 0x…"
+                  label="revoke now"
+                  danger
+                  disabled={busy}
+                  onSubmit={(signer) => admin.setScoreSignerWindow(signer, BigInt(0), BigInt(Math.floor(Date.now() / 1000)))}
+                />
+              </div>
+            </Section>
+
+            <Section title="relayers">
+              {state.relayers ? (
+                <>
+                  <Row label="min balance">{eth(state.relayers.minBalance)}</Row>
+                  {state.relayers.accounts.map((r) => (
+                    <Row key={r.relayer} label={short(r.relayer)}>
+                      {eth(r.balance)} · {r.registered ? 'registered' : 'not registered'} · {r.down ? 'cooling down' : r.healthy ? 'healthy' : 'unhealthy'}
+                    </Row>
+                  ))}
+                </>
+              ) : (
+                <p className="text-[10px] text-slate-500" style={mono}>no relayer pool configured</p>
+              )}
+              <div className="mt-3 space-y-2">
+                <AddressAction placeholder="relayer 0x…" label="grant" disabled={busy} onSubmit={(r) => admin.setRelayer(r, true)} />
+                <AddressAction placeholder="relayer 0x…" label="revoke" danger disabled={busy} onSubmit={(r) => admin.setRelayer(r, false)} />
+              </div>
+            </Section>
+
+            <Section title={`flagged runs (${state.review.length})`}>
+              {state.review.length === 0 && <p className="text-[10px] text-slate-500" style={mono}>nothing to review</p>}
+              {state.review.map((r) => (
+                <div key={r.runId} className="py-2 border-b border-slate-100 last:border-0 text-[10px]" style={mono}>
+                  <div className="flex justify-between text-slate-800">
+                    <span>{r.address}</span>
+                    <span>{r.score.toLocaleString()}{r.durationMs !== null ? ` in ${(r.durationMs / 1000).toFixed(1)}s` : ''}</span>
+                  </div>
+                  <div className="text-slate-500">{new Date(r.flaggedAt).toLocaleString()} — {r.reasons.join('; ')}</div>
+                  {!state.denylist.some((d) => d.address.toLowerCase() === r.address.toLowerCase()) && (
+                    <button onClick={() => admin.denyPlayer(r.address as `0x${string}`, 'ban', `flagged run ${r.runId}: ${r.reasons.join('; ')}`)} className="mt-1 text-[#F6465D] lowercase">
+                      ban player
+                    </button>
+                  )}
+                </div>
+              ))}
+            </Section>
+
+            <Section title={`banned players (${state.denylist.length})`}>
+              {state.denylist.map((d) => (
+                <div key={d.address} className="py-2 border-b border-slate-100 last:border-0 text-[10px]" style={mono}>
+                  <div className="flex justify-between text-slate-800">
+                    <span>{d.address}</span>
+                    <span>{d.mode}{d.bannedOnChain ? ' · banned on-chain' : ''}</span>
+                  </div>
+                  <div className="text-slate-500">{new Date(d.createdAt).toLocaleString()}{d.reason ? ` — ${d.reason}` : ''}</div>
+                  <div className="mt-2 flex gap-2">
+                    <ActionButton onClick={() => admin.liftDeny(d.address)} disabled={busy}>lift</ActionButton>
+                    <ActionButton onClick={() => admin.setBanned(d.address, !d.bannedOnChain)} disabled={busy} danger={!d.bannedOnChain}>
+                      {d.bannedOnChain ? 'unban on-chain' : 'ban on-chain'}
+                    </ActionButton>
+                    <ActionButton onClick={() => admin.removeFromLeaderboard(d.address)} disabled={busy} danger>remove from board</ActionButton>
+                  </div>
+                </div>
+              ))}
+              <div className="mt-3">
+                <DenyForm disabled={busy} onSubmit={admin.denyPlayer} />
+              </div>
+            </Section>
+
+            <Section title="ownership">
+              <AddressAction placeholder="new owner 0x…" label="transfer" danger disabled={busy} onSubmit={admin.transferOwnership} />
+            </Section>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http, isAddress } from 'viem'
+import { base, baseSepolia } from 'viem/chains'
+import { CONTRACT_ADDRESS } from '@/app/contracts'
+import { verifyAdminRequest } from '@/app/lib/adminAuth'
+import { addToDenylist, isDenyMode, removeFromDenylist } from '@/app/lib/denylist'
+import Redis from 'ioredis'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Server-side denylist — owner wallet only (lib/adminAuth headers).
+ *
+ * POST   /api/admin/denylist  { address, mode: 'ban' | 'shadow', reason? }
+ * DELETE /api/admin/denylist?address=0x...
+ *
+ * The on-chain ban (setBanned / removeFromLeaderboard) is sent separately
+ * from the owner wallet on /admin. Entries are listed in /api/admin/state.
+ */
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const publicClient = createPublicClient({
+  chain,
+  transport: http(),
+})
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+async function authorize(request: NextRequest): Promise<NextResponse | null> {
+  if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
+    return NextResponse.json({ error: 'Contract not deployed' }, { status: 503 })
+  }
+  const auth = await verifyAdminRequest(request.headers, publicClient, CONTRACT_ADDRESS)
+  if (!auth.ok) {
+    return NextResponse.json({ error: 'Not authorized', reason: auth.reason }, { status: auth.reason === 'not_owner' ? 403 : 401 })
+  }
+  if (!redis) {
+    return NextResponse.json({ error: 'Redis not configured' }, { status: 503 })
+  }
+  return null
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorize(request)
+    if (denied) return denied
+
+    const { address, mode, reason } = await request.json()
+    if (typeof address !== 'string' || !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+    if (!isDenyMode(mode)) {
+      return NextResponse.json({ error: 'mode must be ban or shadow' }, { status: 400 })
+    }
+
+    const entry = await addToDenylist(redis!, address, mode, typeof reason === 'string' ? reason : '')
+    console.log(`[Admin] ${mode} ${entry.address}: ${entry.reason}`)
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    console.error('Denylist update error:', error)
+    return NextResponse.json({ error: 'Failed to update denylist' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const denied = await authorize(request)
+    if (denied) return denied
+
+    const address = request.nextUrl.searchParams.get('address')
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+
+    if (!(await removeFromDenylist(redis!, address))) {
+      return NextResponse.json({ error: 'Address is not listed' }, { status: 404 })
+    }
+    console.log(`[Admin] lifted denylist entry for ${address}`)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Denylist update error:', error)
+    return NextResponse.json({ error: 'Failed to update denylist' }, { status: 500 })
+  }
+}
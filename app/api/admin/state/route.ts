@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http } from 'viem'
+import { base, baseSepolia } from 'viem/chains'
+import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from '@/app/contracts'
+import { verifyAdminRequest } from '@/app/lib/adminAuth'
+import { listDenyEntries } from '@/app/lib/denylist'
+import { getRelayPoolHealth, type RelayPool } from '@/app/lib/relayQueue'
+import { createRelayPool } from '@/app/lib/relayChain'
+import { getReviewQueue } from '@/app/lib/runValidation'
+import { fetchSignerWindows, isSignerActive } from '@/app/lib/scoreSigners'
+import Redis from 'ioredis'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Admin dashboard state — owner wallet only (lib/adminAuth headers).
+ *
+ * GET /api/admin/state
+ *
+ * Returns { contract: { address, owner, pendingOwner, scoreSigner, signers,
+ * balance, boardSize, season }, relayers: { minBalance, accounts } | null,
+ * review: ReviewEntry[], denylist: (DenyEntry & { bannedOnChain })[] }.
+ * Owner actions themselves are sent from the wallet on /admin — the server
+ * never holds the owner key.
+ */
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const publicClient = createPublicClient({
+  chain,
+  transport: http(),
+})
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+let relayPool: RelayPool | null | undefined
+
+export async function GET(request: NextRequest) {
+  try {
+    if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
+      return NextResponse.json({ error: 'Contract not deployed' }, { status: 503 })
+    }
+
+    const auth = await verifyAdminRequest(request.headers, publicClient, CONTRACT_ADDRESS)
+    if (!auth.ok) {
+      return NextResponse.json({ error: 'Not authorized', reason: auth.reason }, { status: auth.reason === 'not_owner' ? 403 : 401 })
+    }
+
+    const read = (functionName: 'owner' | 'pendingOwner' | 'scoreSigner' | 'getLeaderboardSize' | 'currentSeason') =>
+      publicClient.readContract({ address: CONTRACT_ADDRESS, abi: GAME_LEADERBOARD_ABI, functionName })
+
+    const [owner, pendingOwner, scoreSigner, boardSize, season, balance, windows] = await Promise.all([
+      read('owner'),
+      read('pendingOwner'),
+      read('scoreSigner'),
+      read('getLeaderboardSize'),
+      read('currentSeason'),
+      publicClient.getBalance({ address: CONTRACT_ADDRESS }),
+      fetchSignerWindows(publicClient, CONTRACT_ADDRESS),
+    ])
+    const nowSeconds = Math.floor(Date.now() / 1000)
+
+    if (relayPool === undefined) relayPool = createRelayPool(chain, CONTRACT_ADDRESS)
+    let relayers = null
+    if (redis && relayPool) {
+      relayers = {
+        minBalance: relayPool.minBalance.toString(),
+        accounts: await getRelayPoolHealth(redis, relayPool),
+      }
+    }
+
+    const denyEntries = redis ? await listDenyEntries(redis) : []
+    const bannedOnChain = await Promise.all(denyEntries.map((entry) => publicClient.readContract({
+      address: CONTRACT_ADDRESS,
+      abi: GAME_LEADERBOARD_ABI,
+      functionName: 'isBanned',
+      args: [entry.address],
+    })))
+
+    return NextResponse.json({
+      contract: {
+        address: CONTRACT_ADDRESS,
+        owner,
+        pendingOwner,
+        scoreSigner,
+        signers: windows.map((w) => ({ ...w, active: isSignerActive(w, nowSeconds) })),
+        balance: balance.toString(),
+        boardSize: Number(boardSize),
+        season: Number(season),
+      },
+      relayers,
+      review: redis ? await getReviewQueue(redis) : [],
+      denylist: denyEntries.map((entry, i) => ({ ...entry, bannedOnChain: bannedOnChain[i] })),
+    })
+  } catch (error) {
+    console.error('Admin state error:', error)
+    return NextResponse.json({ error: 'Failed to load admin state' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Redis from 'ioredis'
+import { getCourse, isCourseId, rateCourse } from '@/app/lib/courses'
+import { isRunId } from '@/app/lib/gameSessions'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+
+/**
+ * Course Ratings API
+ *
+ * POST /api/courses/rate — { id: string, sessionId: string, stars: 1-5 }
+ *
+ * One rating per player, replaced on re-rating. `sessionId` is the player's
+ * finished run on the course — the rating goes to that run's wallet, which
+ * must be on the course's score board.
+ */
+
+export const dynamic = 'force-dynamic'
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
+
+export async function POST(req: NextRequest) {
+    try {
+        const rateLimit = await rateLimiter.check(RATE_LIMITS.courseRate, clientIp(req.headers))
+        if (rateLimit.action === 'block') {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+                { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+            )
+        }
+
+        const body = await req.json().catch(() => null)
+        if (!body) {
+            return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+        }
+        const { id, sessionId, stars } = body
+        if (!isCourseId(id)) {
+            return NextResponse.json({ error: 'invalid id' }, { status: 400 })
+        }
+        if (!isRunId(sessionId)) {
+            return NextResponse.json({ error: 'invalid sessionId' }, { status: 400 })
+        }
+        if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+            return NextResponse.json({ error: 'stars must be 1-5' }, { status: 400 })
+        }
+
+        if (!redis) {
+            return NextResponse.json({ error: 'course store not configured' }, { status: 503 })
+        }
+
+        if (!(await getCourse(redis, id))) {
+            return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+        }
+
+        const result = await rateCourse(redis, id, sessionId, stars)
+        if (!result.ok) {
+            return NextResponse.json({ error: 'play the course before rating it' }, { status: 403 })
+        }
+        return NextResponse.json({ rating: result.rating, ratings: result.ratings })
+    } catch (error) {
+        console.error('Course rating error:', error)
+        return NextResponse.json({ error: 'Failed to rate course' }, { status: 500 })
+    }
+}
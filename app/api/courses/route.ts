@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress } from 'viem'
+import Redis from 'ioredis'
+import { parseCourse } from '@/app/components/Game/gameCourse'
+import { type CourseSort, createCourse, getCourse, getCourseBoards, getCourseSummary, isCourseId, listCourses } from '@/app/lib/courses'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+
+/**
+ * Courses API — hand-made courses published from /editor
+ *
+ * POST /api/courses — Publish a course: { course: Course, address?: string }
+ * GET  /api/courses?id=xxx — A course with its summary and boards
+ * GET  /api/courses?sort=new|top&limit=20&offset=0 — Browse published courses
+ *
+ * Courses are validated with parseCourse() and never expire. Ratings go
+ * through ./rate; board entries come from /api/session/finish once a course
+ * run (POST /api/session/start { mode: 'course', courseId }) re-simulates.
+ */
+
+export const dynamic = 'force-dynamic'
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
+
+// POST — Publish course
+export async function POST(req: NextRequest) {
+    try {
+        const rateLimit = await rateLimiter.check(RATE_LIMITS.courseCreate, clientIp(req.headers))
+        if (rateLimit.action === 'block') {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+                { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+            )
+        }
+
+        const body = await req.json().catch(() => null)
+        if (!body) {
+            return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+        }
+        const course = parseCourse(body.course)
+        if (!course) {
+            return NextResponse.json({ error: 'invalid course' }, { status: 400 })
+        }
+
+        if (!redis) {
+            return NextResponse.json({ error: 'course store not configured' }, { status: 503 })
+        }
+
+        const author = typeof body.address === 'string' && isAddress(body.address) ? body.address : 'anonymous'
+        const record = await createCourse(redis, course, author)
+        return NextResponse.json({ id: record.id, course: record }, { status: 201 })
+    } catch (error) {
+        console.error('Course publish error:', error)
+        return NextResponse.json({ error: 'Failed to publish course' }, { status: 500 })
+    }
+}
+
+// GET — Fetch one course or browse
+export async function GET(req: NextRequest) {
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.publicRead, clientIp(req.headers))
+    if (rateLimit.action === 'block') {
+        return NextResponse.json(
+            { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+            { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+        )
+    }
+
+    const searchParams = req.nextUrl.searchParams
+    const id = searchParams.get('id')
+    if (id !== null && !isCourseId(id)) {
+        return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    if (!redis) {
+        return NextResponse.json({ error: 'Course store not configured', courses: [] }, { status: 503 })
+    }
+
+    try {
+        if (id !== null) {
+            const [record, summary, boards] = await Promise.all([
+                getCourse(redis, id),
+                getCourseSummary(redis, id),
+                getCourseBoards(redis, id, 10),
+            ])
+            if (!record || !summary) {
+                return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+            }
+            return NextResponse.json({ ...summary, course: record.course, boards })
+        }
+
+        const sort: CourseSort = searchParams.get('sort') === 'top' ? 'top' : 'new'
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 50)
+        const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+        const courses = await listCourses(redis, { sort, limit, offset })
+        return NextResponse.json({ sort, courses, count: courses.length })
+    } catch (error) {
+        console.error('Courses fetch error:', error)
+        return NextResponse.json({ error: 'Failed to fetch courses' }, { status: 500 })
+    }
+}
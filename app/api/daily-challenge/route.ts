@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress } from 'viem'
+import Redis from 'ioredis'
+import { getChallengeDay, getChallengeEnd, getDailyBoard, getDailyStanding } from '@/app/lib/dailyChallenge'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Daily Challenge API — per-day board for the shared daily seed.
+ *
+ * GET /api/daily-challenge?limit=33&address=0x...&day=N
+ *
+ * Runs are started with POST /api/session/start { mode: 'daily' } and land
+ * here once /api/session/finish has re-simulated them. `day` defaults to
+ * today (block.timestamp / 86400) and may reach back a week.
+ */
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '33') || 33, 1), 100)
+    const address = searchParams.get('address')
+    const today = getChallengeDay()
+    const day = searchParams.has('day') ? parseInt(searchParams.get('day')!) : today
+
+    if (!Number.isInteger(day) || day > today || day < today - 7) {
+      return NextResponse.json({ error: 'Invalid day' }, { status: 400 })
+    }
+    if (address && !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+
+    if (!redis) {
+      return NextResponse.json(
+        { error: 'Daily challenge not configured', leaderboard: [] },
+        { status: 503 }
+      )
+    }
+
+    const [leaderboard, player] = await Promise.all([
+      getDailyBoard(redis, day, limit),
+      address ? getDailyStanding(redis, day, address) : Promise.resolve(null),
+    ])
+
+    return NextResponse.json({
+      day,
+      endsAt: getChallengeEnd(day),
+      leaderboard,
+      count: leaderboard.length,
+      player,
+    })
+  } catch (error) {
+    console.error('Daily challenge API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch daily challenge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, getAddress, http, isAddress } from 'viem'
+import { base, baseSepolia, optimism } from 'viem/chains'
+import { CONTRACT_ADDRESS } from '@/app/contracts'
+import { fetchFidAddresses, fidLinkDeadline, isFidOwner, loadHubConfig, parseFid, signFidLink } from '@/app/lib/fidLink'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+import { fetchSignerWindows, loadSignerAccounts, pickSigningAccount } from '@/app/lib/scoreSigners'
+import Redis from 'ioredis'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Farcaster FID linking — signs a FidLink for linkWallet once the wallet is
+ * shown to own the FID (lib/fidLink: custody or hub-verified address).
+ *
+ * POST /api/fid-link  { fid, address }
+ *
+ * Returns { fid, player, deadline, signature }. Only `player` can submit the
+ * attestation, so no wallet signature is needed to ask for one.
+ */
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const publicClient = createPublicClient({
+  chain,
+  transport: http(),
+})
+
+// The IdRegistry lives on Optimism mainnet whichever Base network we're on
+const optimismClient = createPublicClient({
+  chain: optimism,
+  transport: http(process.env.OPTIMISM_RPC_URL || undefined),
+})
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+const rateLimiter = createRateLimiter(redis)
+
+export async function POST(request: NextRequest) {
+  try {
+    if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
+      return NextResponse.json({ error: 'Contract not deployed' }, { status: 503 })
+    }
+
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.fidLink, clientIp(request.headers))
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+    const fid = parseFid(body.fid)
+    if (fid === null) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 })
+    }
+    if (typeof body.address !== 'string' || !isAddress(body.address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+    const player = getAddress(body.address)
+
+    const owners = await fetchFidAddresses(fid, optimismClient, loadHubConfig())
+    if (!owners.custody) {
+      return NextResponse.json({ error: 'FID not registered' }, { status: 404 })
+    }
+    if (!isFidOwner(owners, player)) {
+      return NextResponse.json(
+        { error: 'Wallet does not own this FID', message: 'connect the custody wallet or an address verified on this FID' },
+        { status: 403 }
+      )
+    }
+
+    const accounts = loadSignerAccounts()
+    if (accounts.length === 0) {
+      throw new Error('SCORE_SIGNER_PRIVATE_KEY not configured')
+    }
+    const windows = await fetchSignerWindows(publicClient, CONTRACT_ADDRESS).catch(() => null)
+    const account = pickSigningAccount(accounts, windows, Math.floor(Date.now() / 1000))
+    if (!account) {
+      throw new Error('No configured score signer is active on-chain')
+    }
+
+    const deadline = fidLinkDeadline()
+    const signature = await signFidLink(account, chain.id, CONTRACT_ADDRESS, { player, fid, deadline })
+
+    return NextResponse.json({
+      fid: fid.toString(),
+      player,
+      deadline: deadline.toString(),
+      signature,
+    })
+  } catch (error) {
+    console.error('FID link error:', error)
+    return NextResponse.json({ error: 'Failed to verify FID' }, { status: 500 })
+  }
+}
@@ -11,11 +11,14 @@ export const runtime = 'edge'
  * and "BUILT ON BASE" branding watermark.
  *
  * Used by: /api/frames/result -> fc:frame:image meta tag
+ * ?course=xxx draws a published course's card (title, author, best, fastest, rating)
  */
 
 export async function GET(req: NextRequest) {
     try {
         const { searchParams } = new URL(req.url)
+        if (searchParams.get('course')) return courseImage(searchParams)
+
         const scoreStr = searchParams.get('score') || '0'
         const address = searchParams.get('address') || ''
         const time = searchParams.get('time') || ''
@@ -239,3 +242,91 @@ export async function GET(req: NextRequest) {
         })
     }
 }
+
+// ============================================================================
+// COURSE CARD
+// ============================================================================
+
+function courseImage(searchParams: URLSearchParams): ImageResponse {
+    const title = (searchParams.get('title') || 'untitled course').slice(0, 48)
+    const author = searchParams.get('author') || 'anon'
+    const best = searchParams.get('best') || '0'
+    const fastest = searchParams.get('fastest') || ''
+    const rating = searchParams.get('rating') || ''
+    const plays = searchParams.get('plays') || '0'
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    height: '100%',
+                    width: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    backgroundColor: '#0A0B14',
+                    backgroundImage: 'radial-gradient(circle at 50% 40%, rgba(0,82,255,0.35), transparent 60%)',
+                    fontFamily: 'monospace',
+                }}
+            >
+                <div
+                    style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        width: '85%',
+                        backgroundColor: 'rgba(15,17,26,0.95)',
+                        borderRadius: '28px',
+                        border: '1px solid rgba(255,255,255,0.12)',
+                        boxShadow: '0 32px 64px rgba(0,0,0,0.6), 0 0 80px rgba(0,82,255,0.4)',
+                        padding: '36px 32px',
+                    }}
+                >
+                    <span style={{ fontSize: '14px', fontWeight: 800, color: 'rgba(255,255,255,0.25)', letterSpacing: '6px', textTransform: 'uppercase' as const, marginBottom: '16px' }}>
+                        base dash course
+                    </span>
+                    <span style={{ fontSize: '40px', fontWeight: 900, color: '#ffffff', textAlign: 'center', marginBottom: '8px' }}>
+                        {title}
+                    </span>
+                    <span style={{ fontSize: '16px', fontWeight: 700, color: 'rgba(255,255,255,0.4)', marginBottom: '28px' }}>
+                        by {author} · {plays} plays
+                    </span>
+
+                    <div style={{ display: 'flex', width: '100%', gap: '10px', marginBottom: '24px' }}>
+                        {[
+                            { label: 'best', value: best },
+                            { label: 'fastest', value: fastest ? `${fastest}s` : '—' },
+                            { label: 'rating', value: rating ? `${rating}★` : '—' },
+                        ].map((stat) => (
+                            <div key={stat.label} style={{
+                                display: 'flex',
+                                flexDirection: 'column',
+                                flex: 1,
+                                alignItems: 'center',
+                                padding: '14px 6px',
+                                borderRadius: '14px',
+                                backgroundColor: 'rgba(255,255,255,0.04)',
+                                border: '1px solid rgba(255,255,255,0.08)',
+                            }}>
+                                <span style={{ fontSize: '12px', fontWeight: 800, color: 'rgba(255,255,255,0.3)', letterSpacing: '2px', marginBottom: '4px' }}>
+                                    {stat.label}
+                                </span>
+                                <span style={{ fontSize: '26px', fontWeight: 900, color: 'rgba(255,255,255,0.85)' }}>
+                                    {stat.value}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <span style={{ fontSize: '11px', fontWeight: 800, color: 'rgba(255,255,255,0.15)', letterSpacing: '3px', textTransform: 'uppercase' as const }}>
+                        built on base
+                    </span>
+                </div>
+            </div>
+        ),
+        {
+            width: 600,
+            height: 600,
+        }
+    )
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server'
 /**
  * Farcaster Frame API — Premium Game Over Share Card
  * ONLY supports ?id=xxx game session lookup (no raw query params to prevent spoofing)
+ * ?course=xxx renders a published course's card from /api/courses instead
  */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url)
@@ -22,6 +23,11 @@ export async function GET(req: NextRequest) {
     return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' }, status })
   }
 
+  const courseId = searchParams.get('course')
+  if (courseId) {
+    return coursePage(courseId, appUrl, errorPage)
+  }
+
   if (!sessionId) {
     return errorPage('invalid link', 'this share link is invalid or missing.', 404)
   }
@@ -379,3 +385,92 @@ export async function GET(req: NextRequest) {
     },
   })
 }
+
+// ============================================================================
+// COURSE CARD
+// ============================================================================
+
+// Course titles are player-written — everything else on the cards is numeric
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+
+async function coursePage(
+  courseId: string,
+  appUrl: string,
+  errorPage: (title: string, msg: string, status: number) => NextResponse
+) {
+  let data: {
+    id: string
+    title: string
+    author: string
+    rating: number
+    ratings: number
+    plays: number
+    items: number
+    boards: { scores: { player: string; score: number }[]; times: { player: string; frames: number }[] }
+  }
+  try {
+    const res = await fetch(`${appUrl}/api/courses?id=${encodeURIComponent(courseId)}`)
+    if (!res.ok) {
+      return errorPage('course not found', 'this course does not exist or was never published.', 404)
+    }
+    data = await res.json()
+  } catch {
+    return errorPage('error', 'could not load course.', 500)
+  }
+
+  const title = escapeHtml(data.title)
+  const author = data.author === 'anonymous' ? 'anon' : `${data.author.slice(0, 6)}...${data.author.slice(-4)}`
+  const best = data.boards.scores[0]?.score ?? 0
+  const fastest = data.boards.times[0] ? (data.boards.times[0].frames / 60).toFixed(2) : ''
+  const rating = data.ratings > 0 ? data.rating.toFixed(1) : ''
+  const playUrl = `${appUrl}/editor?id=${data.id}`
+  const image = `${appUrl}/api/frames/image?course=${data.id}&title=${encodeURIComponent(data.title)}&author=${author}&best=${best}&fastest=${fastest}&rating=${rating}&plays=${data.plays}`
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8"/>
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=0"/>
+  <meta property="og:title" content="base dash course — ${title}"/>
+  <meta property="og:description" content="a hand-made course by ${author} | best ${best}${fastest ? ` · fastest ${fastest}s` : ''}"/>
+  <meta property="og:image" content="${image}"/>
+  <meta property="og:type" content="website"/>
+  <meta name="twitter:card" content="summary_large_image"/>
+  <meta name="twitter:title" content="base dash course — ${title}"/>
+  <meta name="twitter:image" content="${image}"/>
+  <meta property="fc:frame" content="vNext"/>
+  <meta property="fc:frame:image:aspect_ratio" content="1:1"/>
+  <meta property="fc:frame:image" content="${image}"/>
+  <meta property="fc:frame:button:1" content="🏁 play this course"/>
+  <meta property="fc:frame:button:1:action" content="link"/>
+  <meta property="fc:frame:button:1:target" content="${playUrl}"/>
+  <meta property="fc:frame:button:2" content="🛠 build your own"/>
+  <meta property="fc:frame:button:2:action" content="link"/>
+  <meta property="fc:frame:button:2:target" content="${appUrl}/editor"/>
+  <title>base dash course — ${title}</title>
+  <link href="https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@700;800&display=swap" rel="stylesheet">
+  <style>*{margin:0;padding:0;box-sizing:border-box}body{min-height:100vh;display:flex;align-items:center;justify-content:center;background:#0A0B14;font-family:'JetBrains Mono',monospace;color:#fff}.card{width:100%;max-width:320px;padding:24px 20px;border-radius:20px;background:rgba(255,255,255,0.06);border:1px solid rgba(255,255,255,0.12);text-align:center}.brand{font-size:8px;font-weight:800;color:rgba(255,255,255,0.3);letter-spacing:4px;text-transform:uppercase;margin-bottom:12px}h1{font-size:18px;font-weight:900;margin-bottom:4px;word-break:break-word}.by{font-size:9px;color:rgba(255,255,255,0.4);margin-bottom:16px}.stats{display:grid;grid-template-columns:1fr 1fr 1fr;gap:6px;margin-bottom:16px}.stat{background:rgba(255,255,255,0.04);border:1px solid rgba(255,255,255,0.08);border-radius:10px;padding:8px 4px}.label{font-size:7px;font-weight:800;color:rgba(255,255,255,0.3);letter-spacing:2px;margin-bottom:4px}.value{font-size:12px;font-weight:900}a{display:block;padding:12px 16px;background:linear-gradient(135deg,#0052FF,#003FCC);color:#fff;text-decoration:none;border-radius:12px;font-size:11px;font-weight:900;letter-spacing:3px;text-transform:lowercase}</style>
+</head>
+<body>
+  <div class="card">
+    <p class="brand">base dash course</p>
+    <h1>${title}</h1>
+    <p class="by">by ${author} · ${data.items} items · ${data.plays} plays</p>
+    <div class="stats">
+      <div class="stat"><p class="label">best</p><p class="value">${best}</p></div>
+      <div class="stat"><p class="label">fastest</p><p class="value">${fastest ? `${fastest}s` : '—'}</p></div>
+      <div class="stat"><p class="label">rating</p><p class="value">${rating ? `${rating}★` : '—'}</p></div>
+    </div>
+    <a href="${playUrl}">🏁 play this course</a>
+  </div>
+</body>
+</html>`
+
+  return new NextResponse(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  })
+}
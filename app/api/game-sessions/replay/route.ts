@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import Redis from 'ioredis'
+import { getGhostShareId, getSharedReplay, getSharedRun } from '@/app/lib/gameSessions'
+
+/**
+ * Ghost Replays API — input logs attached to game sessions
+ *
+ * GET /api/game-sessions/replay?id=xxx — Replay of a specific game session
+ * GET /api/game-sessions/replay?address=0x... — Best stored replay of a player
+ *
+ * Replays are uploaded through POST /api/game-sessions and share its 7-day TTL.
+ */
+
+export const dynamic = 'force-dynamic'
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+export async function GET(req: NextRequest) {
+    let id = req.nextUrl.searchParams.get('id')
+    const address = req.nextUrl.searchParams.get('address')
+
+    if (!id && !address) {
+        return NextResponse.json({ error: 'id or address parameter required' }, { status: 400 })
+    }
+    if (address && !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+
+    if (!redis) {
+        return NextResponse.json({ error: 'Replay not found or Redis not configured' }, { status: 404 })
+    }
+
+    try {
+        if (!id) {
+            id = await getGhostShareId(redis, address!)
+            if (!id) {
+                return NextResponse.json({ error: 'No replay for this player' }, { status: 404 })
+            }
+        }
+
+        const [session, replay] = await Promise.all([
+            getSharedRun(redis, id),
+            getSharedReplay(redis, id),
+        ])
+        if (!session || !replay) {
+            return NextResponse.json({ error: 'Replay not found or expired' }, { status: 404 })
+        }
+
+        return NextResponse.json({
+            id,
+            score: session.score,
+            address: session.address,
+            replay,
+        })
+    } catch (error) {
+        console.error('Replay fetch error:', error)
+        return NextResponse.json({ error: 'Failed to fetch replay' }, { status: 500 })
+    }
+}
@@ -1,84 +1,85 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Redis from 'ioredis'
-import { randomBytes } from 'crypto'
+import { parseReplay, simulateReplay } from '@/app/components/Game/gameReplay'
+import { createSharedRun, generateShareId, getReplayRun, getSharedRun, isShareId, type SharedRun } from '@/app/lib/gameSessions'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
 
 /**
  * Game Sessions API — stores game results with short IDs
  * 
- * POST /api/game-sessions — Create a new game session
+ * POST /api/game-sessions — Create a new game session (optionally with its replay
+ *                         and the run's sessionId, for plausibility checks at signing)
  * GET  /api/game-sessions?id=xxx — Retrieve a game session
  * 
- * Uses standard Redis (Upstash) to persist sessions across serverless instances.
- * Sessions auto-expire after 7 days via Redis EX command.
+ * These are shares, not the runs from /api/session/* — lib/gameSessions keeps
+ * them in their own keyspace with a 7-day TTL.
+ *
+ * Replays are stored alongside for ghost racing (see ./replay). They must come
+ * with the sessionId of a finished run that recorded the same score, and are
+ * re-simulated only then. The best replayed run per address becomes that
+ * player's ghost, and the share takes its address from the run.
  */
 
 export const dynamic = 'force-dynamic'
 
-interface GameSession {
-    id: string
-    score: number
-    time: number
-    dodged: number
-    buys: number
-    jumps: number
-    combo: number
-    address: string
-    createdAt: number
-}
-
-// TTL 7 days in seconds
-const EXPIRY_SECONDS = 7 * 24 * 60 * 60
-
 // Initialize Redis from standard URL
 const redisUrl = process.env.REDIS_URL || process.env.KV_URL
 const redis = redisUrl ? new Redis(redisUrl) : null
-
-function generateId(): string {
-    // Cryptographically secure 8-char alphanumeric ID
-    return randomBytes(6).toString('base64url').slice(0, 8)
-}
+const rateLimiter = createRateLimiter(redis)
 
 // POST — Create session
 export async function POST(req: NextRequest) {
     try {
+        const rateLimit = await rateLimiter.check(RATE_LIMITS.shareCreate, clientIp(req.headers))
+        if (rateLimit.action === 'block') {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+                { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+            )
+        }
+
         const body = await req.json()
-        const { score, time, dodged, buys, jumps, combo, address } = body
+        const { score, time, dodged, buys, jumps, combo, address, sessionId } = body
 
         if (typeof score !== 'number') {
             return NextResponse.json({ error: 'score required' }, { status: 400 })
         }
 
-        let id = generateId()
-
-        if (redis) {
-            // Generate unique ID in Redis
-            let exists = await redis.exists(`session:${id}`)
-            while (exists) {
-                id = generateId()
-                exists = await redis.exists(`session:${id}`)
+        // Optional ghost replay — must belong to a finished run and reproduce its score
+        let replay = null
+        let runAddress: string | null = null
+        if (body.replay !== undefined && redis) {
+            replay = parseReplay(body.replay)
+            const run = replay ? await getReplayRun(redis, sessionId, replay, Math.floor(score)) : null
+            if (!replay || !run) {
+                return NextResponse.json({ error: 'replay must come from a finished run' }, { status: 403 })
             }
+            const result = simulateReplay(replay)
+            if (!result.died || result.frames !== replay.frames || result.score !== run.score) {
+                return NextResponse.json({ error: 'replay does not reproduce score' }, { status: 400 })
+            }
+            runAddress = run.address
         }
 
-        const session: GameSession = {
-            id,
+        const share = {
             score: Math.floor(score) || 0,
             time: Math.floor(time) || 0,
             dodged: Math.floor(dodged) || 0,
             buys: Math.floor(buys) || 0,
             jumps: Math.floor(jumps) || 0,
             combo: Math.floor(combo) || 0,
-            address: typeof address === 'string' ? address : '',
-            createdAt: Date.now(),
+            address: runAddress ?? (typeof address === 'string' ? address : ''),
         }
 
+        let session: SharedRun
         if (redis) {
-            // Save to Redis with 7-day TTL
-            await redis.set(`session:${id}`, JSON.stringify(session), 'EX', EXPIRY_SECONDS)
+            session = await createSharedRun(redis, share, { replay, runId: sessionId })
         } else {
             console.warn('REDIS_URL not configured. Session will not persist.')
+            session = { id: generateShareId(), ...share, createdAt: Date.now() }
         }
 
-        return NextResponse.json({ id, session }, { status: 201 })
+        return NextResponse.json({ id: session.id, session }, { status: 201 })
     } catch {
         return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
     }
@@ -90,6 +91,9 @@ export async function GET(req: NextRequest) {
     if (!id) {
         return NextResponse.json({ error: 'id parameter required' }, { status: 400 })
     }
+    if (!isShareId(id)) {
+        return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 })
+    }
 
     if (!redis) {
         console.warn('REDIS_URL not configured. Returning 404 for session retrieval.')
@@ -97,13 +101,12 @@ export async function GET(req: NextRequest) {
     }
 
     try {
-        const sessionStr = await redis.get(`session:${id}`)
+        const session = await getSharedRun(redis, id)
 
-        if (!sessionStr) {
+        if (!session) {
             return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 })
         }
 
-        const session = JSON.parse(sessionStr) as GameSession
         return NextResponse.json(session)
     } catch (e) {
         return NextResponse.json({ error: 'Failed to fetch session from DB' }, { status: 500 })
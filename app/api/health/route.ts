@@ -1,11 +1,50 @@
 import { NextResponse } from 'next/server'
+import { base, baseSepolia } from 'viem/chains'
+import { CONTRACT_ADDRESS } from '@/app/contracts'
+import { getRelayPoolHealth, type RelayPool } from '@/app/lib/relayQueue'
+import { createRelayPool } from '@/app/lib/relayChain'
+import Redis from 'ioredis'
 
 export const dynamic = 'force-dynamic'
 
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+
+let relayPool: RelayPool | null | undefined
+
+/**
+ * Liveness plus gasless relayer pool health. `status` is 'degraded' when a
+ * pool is configured but no relayer is currently usable (low balance, not
+ * registered, or cooling down after send errors).
+ */
 export async function GET() {
+    if (relayPool === undefined) relayPool = createRelayPool(chain, CONTRACT_ADDRESS)
+
+    let relayers = null
+    let status = 'ok'
+    if (redis && relayPool) {
+        try {
+            const health = await getRelayPoolHealth(redis, relayPool)
+            relayers = {
+                minBalance: relayPool.minBalance.toString(),
+                healthy: health.filter((h) => h.healthy && !h.down).length,
+                total: health.length,
+                accounts: health,
+            }
+            if (relayers.healthy === 0) status = 'degraded'
+        } catch (error) {
+            console.error('Relayer health error:', error)
+            status = 'degraded'
+        }
+    }
+
     return NextResponse.json({
-        status: 'ok',
+        status,
         timestamp: Date.now(),
         uptime: process.uptime(),
+        relayers,
     })
 }
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http, isAddress } from 'viem'
+import { base, baseSepolia } from 'viem/chains'
+import { CONTRACT_ADDRESS, GAME_LEADERBOARD_ABI } from '@/app/contracts'
+import { getIndexedSeason, getPlayerRanking, rankPercentile, refreshLeaderboardIndex } from '@/app/lib/leaderboardIndex'
+import Redis from 'ioredis'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Global rank API — a player's position among everyone who ever submitted.
+ *
+ * GET /api/leaderboard/rank?address=0x...&season=N&radius=3
+ *
+ * The contract only ranks its 100 stored entries; the Redis event index
+ * keeps every ScoreSubmitted, so this answers for any player with a score.
+ * Returns { rank, score, total, percentile, neighbours } or 404 if unranked.
+ *
+ * Without the index (no Redis or LEADERBOARD_DEPLOY_BLOCK, or it errors) the
+ * rank comes from the contract's own board instead — `total` is then the
+ * board's size, there are no neighbours and the response says `onChain: true`.
+ */
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const publicClient = createPublicClient({
+  chain,
+  transport: http(),
+})
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
+
+/** Unset leaves the index off — see ../route.ts */
+const DEPLOY_BLOCK = process.env.LEADERBOARD_DEPLOY_BLOCK ? BigInt(process.env.LEADERBOARD_DEPLOY_BLOCK) : null
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.publicRead, clientIp(request.headers))
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const address = searchParams.get('address')
+    const radius = Math.min(Math.max(parseInt(searchParams.get('radius') || '3') || 3, 0), 10)
+    const seasonParam = searchParams.get('season')
+    const requestedSeason = seasonParam ? parseInt(seasonParam) : null
+
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+    if (requestedSeason !== null && !(Number.isInteger(requestedSeason) && requestedSeason > 0)) {
+      return NextResponse.json({ error: 'Invalid season' }, { status: 400 })
+    }
+
+    if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
+      return NextResponse.json({ error: 'Contract not deployed' }, { status: 503 })
+    }
+    if (!redis || DEPLOY_BLOCK === null) {
+      return contractFallback(requestedSeason, address)
+    }
+
+    let season: number
+    let ranking: Awaited<ReturnType<typeof getPlayerRanking>>
+    try {
+      await refreshLeaderboardIndex(redis, publicClient, CONTRACT_ADDRESS, DEPLOY_BLOCK)
+      season = requestedSeason ?? await getIndexedSeason(redis)
+      ranking = await getPlayerRanking(redis, season, address, radius)
+    } catch (err) {
+      console.error('Leaderboard index unavailable, reading rank from the contract:', err)
+      return contractFallback(requestedSeason, address)
+    }
+    if (!ranking) {
+      return NextResponse.json({ error: 'No score this season', season }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      season,
+      rank: ranking.rank,
+      score: ranking.score,
+      total: ranking.total,
+      percentile: ranking.percentile,
+      neighbours: ranking.neighbours.map((entry) => ({
+        player: entry.player,
+        score: entry.score.toString(),
+        timestamp: entry.timestamp.toString(),
+        streakDays: entry.streakDays.toString(),
+        rank: entry.rank,
+      })),
+    })
+  } catch (error) {
+    console.error('Leaderboard rank API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch rank',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/** No index — the player's place on the contract's (≤100 entry) board */
+async function contractFallback(requestedSeason: number | null, address: `0x${string}`) {
+  const currentSeason = Number(await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'currentSeason',
+  }) as bigint)
+  const season = requestedSeason ?? currentSeason
+  if (season > currentSeason) {
+    return NextResponse.json({ error: 'Season has not started', season }, { status: 404 })
+  }
+
+  const [[rank, score], [, , size]] = await Promise.all([
+    publicClient.readContract({
+      address: CONTRACT_ADDRESS,
+      abi: GAME_LEADERBOARD_ABI,
+      functionName: 'getSeasonPlayerRank',
+      args: [BigInt(season), address],
+    }) as Promise<readonly [bigint, bigint]>,
+    publicClient.readContract({
+      address: CONTRACT_ADDRESS,
+      abi: GAME_LEADERBOARD_ABI,
+      functionName: 'getSeasonInfo',
+      args: [BigInt(season)],
+    }) as Promise<readonly [bigint, bigint, bigint]>,
+  ])
+  // Rank 0 is off the board — the contract can't place them
+  if (rank === BigInt(0)) {
+    return NextResponse.json({ error: 'No score this season', season }, { status: 404 })
+  }
+
+  const total = Number(size)
+  return NextResponse.json({
+    season,
+    rank: Number(rank),
+    score: Number(score),
+    total,
+    percentile: rankPercentile(Number(rank), total),
+    neighbours: [],
+    onChain: true,
+  })
+}
@@ -1,19 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient, http } from 'viem'
+import { createPublicClient, getAddress, http, isAddress } from 'viem'
 import { base, baseSepolia } from 'viem/chains'
 import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS, PlayerScore } from '@/app/contracts'
+import {
+  getAroundPlayer,
+  getIndexedSeason,
+  getLeaderboardPage,
+  getPlayerStanding,
+  refreshLeaderboardIndex,
+  type IndexedPage,
+} from '@/app/lib/leaderboardIndex'
 import Redis from 'ioredis'
+import { listedPlayers } from '@/app/lib/denylist'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
 
 export const dynamic = 'force-dynamic'
 
 /**
- * Leaderboard API — proxies on-chain data with Redis caching.
- * 
- * Performance optimization:
- * - Redis cache with 30-second TTL avoids redundant RPC calls
- * - getSortedLeaderboard runs O(n²) sort in-memory on the RPC node,
- *   so caching prevents this from running on every page view
- * - Cache key includes limit to avoid serving wrong-sized results
+ * Leaderboard API — served from the event index in Redis.
+ *
+ * GET /api/leaderboard?season=N&offset=0&limit=33&address=0x...&around=1
+ *
+ * - Reads come from lib/leaderboardIndex (sorted set per season), so there's
+ *   no 100-entry cap and no O(n²) getSortedLeaderboard call per view
+ * - The index catches up with new blocks at most every 10s (refreshLeaderboardIndex)
+ * - `around=1` with `address` returns a window centred on that player
+ * - Without Redis or LEADERBOARD_DEPLOY_BLOCK, falls back to reading the top of
+ *   the board from the contract — denylisted players are filtered out when
+ *   Redis is there, and the response says `unfiltered: true` when it isn't
  */
 
 const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
@@ -26,13 +40,42 @@ const publicClient = createPublicClient({
 
 const redisUrl = process.env.REDIS_URL || process.env.KV_URL
 const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
 
-const CACHE_TTL_SECONDS = 30
+/** First block worth scanning — the contract's deployment block. Unset leaves the index off
+ *  rather than backfilling from genesis inside a request */
+const DEPLOY_BLOCK = process.env.LEADERBOARD_DEPLOY_BLOCK ? BigInt(process.env.LEADERBOARD_DEPLOY_BLOCK) : null
+const AROUND_RADIUS = 5
+/** The contract keeps its top 100 — the fallback reads them all so filtering can't shorten a page */
+const CONTRACT_BOARD_SIZE = BigInt(100)
 
 export async function GET(request: NextRequest) {
   try {
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.publicRead, clientIp(request.headers))
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+
     const searchParams = request.nextUrl.searchParams
-    const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 100)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 100)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+    const address = searchParams.get('address')
+    const around = searchParams.get('around') === '1'
+    const seasonParam = searchParams.get('season')
+    const requestedSeason = seasonParam ? parseInt(seasonParam) : null
+
+    if (requestedSeason !== null && !(Number.isInteger(requestedSeason) && requestedSeason > 0)) {
+      return NextResponse.json({ error: 'Invalid season' }, { status: 400 })
+    }
+    if (address && !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+    if (around && !address) {
+      return NextResponse.json({ error: 'around requires address' }, { status: 400 })
+    }
 
     // Verify contract is deployed
     if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
@@ -42,53 +85,37 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Check Redis cache first
-    const cacheKey = `lb:sorted:${limit}`
-    if (redis) {
-      try {
-        const cached = await redis.get(cacheKey)
-        if (cached) {
-          const parsed = JSON.parse(cached)
-          return NextResponse.json({
-            leaderboard: parsed,
-            count: parsed.length,
-            cached: true,
-          })
-        }
-      } catch (err) {
-        console.error('Redis cache read error:', err)
-      }
+    if (!redis || DEPLOY_BLOCK === null) {
+      return contractFallback(requestedSeason, limit)
     }
 
-    // Cache miss — fetch from chain
-    const leaderboard = await publicClient.readContract({
-      address: CONTRACT_ADDRESS,
-      abi: GAME_LEADERBOARD_ABI,
-      functionName: 'getSortedLeaderboard',
-      args: [BigInt(limit)],
-    }) as PlayerScore[]
+    await refreshLeaderboardIndex(redis, publicClient, CONTRACT_ADDRESS, DEPLOY_BLOCK)
 
-    // Format response data
-    const formattedLeaderboard = leaderboard.map((entry: PlayerScore) => ({
-      player: entry.player,
-      score: entry.score.toString(),
-      timestamp: entry.timestamp.toString(),
-      streakDays: entry.streakDays.toString(),
-    }))
-
-    // Write to Redis cache with TTL
-    if (redis) {
-      try {
-        await redis.set(cacheKey, JSON.stringify(formattedLeaderboard), 'EX', CACHE_TTL_SECONDS)
-      } catch (err) {
-        console.error('Redis cache write error:', err)
-      }
+    const currentSeason = await getIndexedSeason(redis)
+    const season = requestedSeason ?? currentSeason
+    if (season > currentSeason) {
+      return NextResponse.json({ error: 'Season has not started', leaderboard: [] }, { status: 404 })
     }
 
+    const [page, player]: [IndexedPage, { rank: number; score: number } | null] = await Promise.all([
+      around ? getAroundPlayer(redis, season, address!, AROUND_RADIUS) : getLeaderboardPage(redis, season, offset, limit),
+      address ? getPlayerStanding(redis, season, address) : Promise.resolve(null),
+    ])
+
     return NextResponse.json({
-      leaderboard: formattedLeaderboard,
-      count: formattedLeaderboard.length,
-      cached: false,
+      leaderboard: page.entries.map((entry) => ({
+        player: entry.player,
+        score: entry.score.toString(),
+        timestamp: entry.timestamp.toString(),
+        streakDays: entry.streakDays.toString(),
+        rank: entry.rank,
+      })),
+      count: page.entries.length,
+      total: page.total,
+      offset: page.offset,
+      season,
+      currentSeason,
+      player,
     })
   } catch (error) {
     console.error('Leaderboard API error:', error)
@@ -101,3 +128,44 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+/** No index — read the (≤100 entry) board straight from the contract */
+async function contractFallback(requestedSeason: number | null, limit: number) {
+  const currentSeason = Number(await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'currentSeason',
+  }) as bigint)
+  const season = requestedSeason ?? currentSeason
+  if (season > currentSeason) {
+    return NextResponse.json({ error: 'Season has not started', leaderboard: [] }, { status: 404 })
+  }
+
+  const board = await publicClient.readContract({
+    address: CONTRACT_ADDRESS,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'getSeasonLeaderboard',
+    args: [BigInt(season), CONTRACT_BOARD_SIZE],
+  }) as PlayerScore[]
+
+  // Hidden players are only known to Redis — without it, say the board is unfiltered
+  const hidden = redis ? await listedPlayers(redis, board.map((entry) => entry.player)) : new Set<string>()
+  const leaderboard = board.filter((entry) => !hidden.has(getAddress(entry.player))).slice(0, limit)
+
+  return NextResponse.json({
+    leaderboard: leaderboard.map((entry: PlayerScore, i: number) => ({
+      player: entry.player,
+      score: entry.score.toString(),
+      timestamp: entry.timestamp.toString(),
+      streakDays: entry.streakDays.toString(),
+      rank: i + 1,
+    })),
+    count: leaderboard.length,
+    total: leaderboard.length,
+    offset: 0,
+    season,
+    currentSeason,
+    player: null,
+    unfiltered: !redis,
+  })
+}
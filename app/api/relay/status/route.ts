@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { base, baseSepolia } from 'viem/chains'
+import { CONTRACT_ADDRESS } from '@/app/contracts'
+import { getRelayJob, processRelayQueue, type RelayPool } from '@/app/lib/relayQueue'
+import { createRelayPool } from '@/app/lib/relayChain'
+import Redis from 'ioredis'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Gasless relay job status.
+ *
+ * GET /api/relay/status?id=<jobId>
+ *
+ * Returns { id, status: queued|submitted|confirmed|failed, hash, attempts, error }.
+ * Each poll also ticks the relay queue — on serverless that's what moves
+ * jobs along (sending, receipt checks, fee bumps).
+ */
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
+
+let relayPool: RelayPool | null | undefined
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.relayStatus, clientIp(request.headers))
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id || !/^[0-9a-f]{24}$/.test(id)) {
+      return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+    }
+    if (!redis) {
+      return NextResponse.json({ error: 'Relay not configured' }, { status: 503 })
+    }
+
+    if (relayPool === undefined) relayPool = createRelayPool(chain, CONTRACT_ADDRESS)
+    if (relayPool) {
+      try {
+        await processRelayQueue(redis, relayPool)
+      } catch (err) {
+        console.error('Relay queue error:', err)
+      }
+    }
+
+    const job = await getRelayJob(redis, id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      id: job.id,
+      status: job.status,
+      hash: job.txHashes[job.txHashes.length - 1] ?? null,
+      attempts: job.attempts,
+      blockNumber: job.blockNumber,
+      error: job.error,
+      updatedAt: job.updatedAt,
+    })
+  } catch (error) {
+    console.error('Relay status error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch relay status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient, createWalletClient, http, encodePacked, keccak256, isAddress } from 'viem'
-import { privateKeyToAccount } from 'viem/accounts'
+import { createPublicClient, http, isAddress } from 'viem'
 import { base, baseSepolia } from 'viem/chains'
 import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from '@/app/contracts'
+import { enqueueRelayJob, getRelayJob, processRelayQueue, type RelayPool } from '@/app/lib/relayQueue'
+import { createRelayPool } from '@/app/lib/relayChain'
+import { isRunId, markRunSigned, markRunSubmitted } from '@/app/lib/gameSessions'
+import { getDenyEntry } from '@/app/lib/denylist'
+import { checkRunForSigning } from '@/app/lib/runValidation'
+import { attestationDeadline, sessionIdToBytes32, signScoreAttestation } from '@/app/lib/scoreAttestation'
+import { RATE_LIMITS, claimChallenge, clientIp, createRateLimiter, issueChallenge, verifyChallenge } from '@/app/lib/rateLimit'
+import { fetchSignerWindows, isSignerActive, loadSignerAccounts, pickSigningAccount, type SignerWindow } from '@/app/lib/scoreSigners'
 import Redis from 'ioredis'
-import { createHmac } from 'crypto'
 
 export const dynamic = 'force-dynamic'
 
@@ -36,127 +42,81 @@ if (!CHALLENGE_SECRET && process.env.NODE_ENV === 'production') {
 }
 
 // ============================================================================
-// WALLET CLIENT — lazy-initialized for gasless transactions
+// SIGNER & RELAYER — lazy-initialized
 // ============================================================================
 
-let walletClient: ReturnType<typeof createWalletClient> | null = null
+// On-chain signer windows change only on rotation — re-read once a minute
+const SIGNER_WINDOWS_TTL_MS = 60_000
+let signerWindows: { windows: SignerWindow[]; fetchedAt: number } | null = null
 
-function getSignerAccount() {
-  const pk = process.env.SCORE_SIGNER_PRIVATE_KEY
-  if (!pk) {
-    throw new Error('SCORE_SIGNER_PRIVATE_KEY not configured')
+async function getSignerWindows(): Promise<SignerWindow[] | null> {
+  if (signerWindows && Date.now() - signerWindows.fetchedAt < SIGNER_WINDOWS_TTL_MS) {
+    return signerWindows.windows
+  }
+  try {
+    const windows = await fetchSignerWindows(publicClient, CONTRACT_ADDRESS)
+    signerWindows = { windows, fetchedAt: Date.now() }
+    return windows
+  } catch (err) {
+    console.error('Signer window read failed:', err)
+    return signerWindows?.windows ?? null
   }
-  return privateKeyToAccount(pk as `0x${string}`)
 }
 
-function getWalletClient() {
-  if (!walletClient) {
-    const pk = process.env.RELAYER_PRIVATE_KEY || process.env.SCORE_SIGNER_PRIVATE_KEY || process.env.PRIVATE_KEY
-    if (!pk) {
-      throw new Error('RELAYER_PRIVATE_KEY or SCORE_SIGNER_PRIVATE_KEY not configured')
-    }
-    if (!process.env.RELAYER_PRIVATE_KEY && process.env.NODE_ENV === 'production') {
-      console.warn(
-        '[SECURITY] RELAYER_PRIVATE_KEY not set — falling back to SCORE_SIGNER_PRIVATE_KEY. ' +
-        'In production, use a SEPARATE dedicated relayer key with only RELAYER_ROLE on the contract.'
-      )
-    }
-    const account = privateKeyToAccount(pk as `0x${string}`)
-    walletClient = createWalletClient({
-      chain,
-      transport: http(),
-      account,
-    })
+/** Newest configured key the contract currently accepts */
+async function getSignerAccount() {
+  const accounts = loadSignerAccounts()
+  if (accounts.length === 0) {
+    throw new Error('SCORE_SIGNER_PRIVATE_KEY not configured')
   }
-  return walletClient
+  const account = pickSigningAccount(accounts, await getSignerWindows(), Math.floor(Date.now() / 1000))
+  if (!account) {
+    throw new Error('No configured score signer is active on-chain')
+  }
+  return account
 }
 
-// ============================================================================
-// ANTI-CHEAT: HMAC-SHA256 challenge system
-// ============================================================================
+let relayPool: RelayPool | null | undefined
 
-function generateChallenge(ip: string): string {
-  if (!CHALLENGE_SECRET) return ''
-  const timestamp = Date.now().toString()
-  const hmac = createHmac('sha256', CHALLENGE_SECRET)
-    .update(`${ip}:${timestamp}`)
-    .digest('hex')
-  return `${timestamp}.${hmac}`
-}
-
-function verifyChallenge(ip: string, challenge: string): boolean {
-  if (!CHALLENGE_SECRET) return true
-  try {
-    const dotIdx = challenge.indexOf('.')
-    if (dotIdx < 1) return false
-    const timestamp = challenge.slice(0, dotIdx)
-    const receivedHmac = challenge.slice(dotIdx + 1)
-    const age = Date.now() - parseInt(timestamp)
-    if (age > 300_000 || age < 0 || isNaN(age)) return false
-    const expectedHmac = createHmac('sha256', CHALLENGE_SECRET)
-      .update(`${ip}:${timestamp}`)
-      .digest('hex')
-    // Constant-time comparison to prevent timing attacks
-    if (expectedHmac.length !== receivedHmac.length) return false
-    let mismatch = 0
-    for (let i = 0; i < expectedHmac.length; i++) {
-      mismatch |= expectedHmac.charCodeAt(i) ^ receivedHmac.charCodeAt(i)
-    }
-    return mismatch === 0
-  } catch {
-    return false
-  }
+function getRelayPool(): RelayPool | null {
+  if (relayPool === undefined) relayPool = createRelayPool(chain, CONTRACT_ADDRESS)
+  return relayPool
 }
 
 // ============================================================================
-// RATE LIMITING — Redis-backed (survives serverless cold starts)
+// RATE LIMITING — per-IP and per-address budgets (lib/rateLimit), escalating
+// to an HMAC challenge before hard 429s
 // ============================================================================
 
-async function checkRateLimit(ip: string): Promise<{ allowed: boolean; challenge?: string; retryAfter?: number }> {
-  // Disabled strict IP rate limiting that was causing 429 Too Many Requests for users.
-  // Vercel Edge already provides baseline DDoS protection.
-  return { allowed: true }
-}
+const rateLimiter = createRateLimiter(redis)
 
 async function checkAddressCooldown(address: string): Promise<{ allowed: boolean; retryAfter?: number }> {
   if (!redis) return { allowed: true }
   try {
     const key = `rl:addr:${address.toLowerCase()}`
-    const exists = await redis.get(key)
-    if (exists) {
-      const ttl = await redis.ttl(key)
-      return { allowed: false, retryAfter: Math.max(ttl, 1) }
-    }
-    await redis.set(key, '1', 'EX', 30)
-    return { allowed: true }
+    // NX so two requests that both pass the run check can't both start the cooldown
+    if (await redis.set(key, '1', 'EX', 30, 'NX')) return { allowed: true }
+    const ttl = await redis.ttl(key)
+    return { allowed: false, retryAfter: Math.max(ttl, 1) }
   } catch {
     return { allowed: true }
   }
 }
 
-// ============================================================================
-// NONCE MANAGER — Redis-backed lock to prevent concurrent nonce collisions
-// ============================================================================
-
-async function acquireNonceLock(address: string, ttlMs = 15000): Promise<boolean> {
-  if (!redis) return true
-  const key = `nonce:lock:${address.toLowerCase()}`
-  const result = await redis.set(key, '1', 'PX', ttlMs, 'NX')
-  return result === 'OK'
-}
-
-async function releaseNonceLock(address: string): Promise<void> {
-  if (!redis) return
-  const key = `nonce:lock:${address.toLowerCase()}`
-  await redis.del(key)
-}
-
 // ============================================================================
 // GET — Nonce retrieval ONLY (no signing)
 // ============================================================================
 
 export async function GET(request: NextRequest) {
   try {
+    const rateLimit = await rateLimiter.check(RATE_LIMITS.publicRead, clientIp(request.headers))
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+
     const searchParams = request.nextUrl.searchParams
     const address = searchParams.get('address')
 
@@ -180,11 +140,19 @@ export async function GET(request: NextRequest) {
       args: [address as `0x${string}`],
     })
 
-    const signerAccount = getSignerAccount()
+    const signerAccount = await getSignerAccount()
+    const now = Math.floor(Date.now() / 1000)
+
+    // Every signer the contract accepts — clients verifying a signature
+    // issued before a rotation can still match it
+    const signers = ((await getSignerWindows()) ?? [])
+      .filter((w) => isSignerActive(w, now) || w.validFrom > now)
+      .map((w) => ({ ...w, active: isSignerActive(w, now) }))
 
     return NextResponse.json({
       nonce: (nonce as bigint).toString(),
       signer: signerAccount.address,
+      signers,
     })
   } catch (error) {
     console.error('Nonce retrieval error:', error)
@@ -201,7 +169,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { address, score, sessionId, gasless, challenge } = body
 
-    const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown'
+    const ip = clientIp(request.headers)
 
     // ====================================================================
     // INPUT VALIDATION
@@ -222,82 +190,96 @@ export async function POST(request: NextRequest) {
     // ====================================================================
     // ANTI-CHEAT: Challenge verification
     // ====================================================================
-    if (challenge && !verifyChallenge(ip, challenge)) {
+    const verified = typeof challenge === 'string' && CHALLENGE_SECRET ? verifyChallenge(CHALLENGE_SECRET, ip, challenge) : null
+    const challengePassed = verified !== null && await claimChallenge(redis, verified)
+    if (challenge && !challengePassed) {
       return NextResponse.json({ error: 'Invalid or expired challenge' }, { status: 403 })
     }
 
     // ====================================================================
     // ANTI-CHEAT: Rate limiting
     // ====================================================================
-    const rateLimitResult = await checkRateLimit(ip)
-    if (!rateLimitResult.allowed) {
-      if (rateLimitResult.retryAfter) {
-        return NextResponse.json(
-          {
-            error: 'Rate limit exceeded',
-            retryAfter: rateLimitResult.retryAfter,
-            message: rateLimitResult.retryAfter > 60
-              ? 'Too many requests. Please wait before trying again.'
-              : 'Please wait a moment before submitting another score.'
-          },
-          { status: 429, headers: { 'Retry-After': rateLimitResult.retryAfter.toString() } }
-        )
-      }
-      if (rateLimitResult.challenge) {
+    const rateLimit = await rateLimiter.checkAll([
+      { rule: RATE_LIMITS.scoreSignIp, id: ip },
+      { rule: RATE_LIMITS.scoreSignAddress, id: address },
+    ])
+    if (rateLimit.action === 'block') {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          retryAfter: rateLimit.retryAfter,
+          message: rateLimit.retryAfter > 60
+            ? 'Too many requests. Please wait before trying again.'
+            : 'Please wait a moment before submitting another score.'
+        },
+        { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+      )
+    }
+    if (rateLimit.action === 'challenge' && !challengePassed) {
+      if (!CHALLENGE_SECRET) {
+        // Can't issue a challenge without the secret — the hard limit still applies
+        console.warn('[Anti-Cheat] Challenge tier reached but CHALLENGE_SECRET is not set')
+      } else {
         return NextResponse.json({
           requiresChallenge: true,
-          challenge: rateLimitResult.challenge,
+          challenge: issueChallenge(CHALLENGE_SECRET, ip),
           message: 'Additional verification required'
         })
       }
     }
 
     // ====================================================================
-    // ANTI-CHEAT: Per-address cooldown
+    // ANTI-CHEAT: Denylist (lib/denylist)
     // ====================================================================
-    const cooldownResult = await checkAddressCooldown(address)
-    if (!cooldownResult.allowed) {
-      return NextResponse.json(
-        { error: 'please wait between submissions', retryAfter: cooldownResult.retryAfter },
-        { status: 429 }
-      )
+    // Shadow-banned players are still signed for — they're only hidden from the board.
+    // Fails closed like the session check: a lookup error is a 503, not a pass
+    if (redis) {
+      let denied
+      try {
+        denied = await getDenyEntry(redis, address)
+      } catch (err) {
+        console.error('Denylist check failed:', err)
+        return NextResponse.json({ error: 'denylist unavailable' }, { status: 503 })
+      }
+      if (denied?.mode === 'ban') {
+        console.warn(`[Anti-Cheat] Banned address tried to sign: ${address}`)
+        return NextResponse.json({ error: 'address is banned' }, { status: 403 })
+      }
     }
 
     // ====================================================================
     // ANTI-CHEAT: Session validation (Redis-backed)
     // ====================================================================
+    // The score is recorded by /api/session/finish after re-simulating the
+    // run's replay — only a `finished` run's server-computed score can be
+    // signed, and only once (the run moves on to `signed` below).
+    if (redis && !sessionId) {
+      return NextResponse.json({ error: 'game session required' }, { status: 403 })
+    }
+    if (sessionId && !isRunId(sessionId)) {
+      return NextResponse.json({ error: 'invalid game session' }, { status: 400 })
+    }
+    // Fails closed — a store error is a 503, never an unchecked signature
+    let runVerified = false
     if (redis && sessionId) {
-      try {
-        const sessionStr = await redis.get(`session:${sessionId}`)
-        if (!sessionStr) {
-          console.warn(`[Anti-Cheat] Invalid/expired session: ${sessionId} for ${address}`)
-          return NextResponse.json({ error: 'invalid or expired game session' }, { status: 403 })
-        }
-        const session = JSON.parse(sessionStr)
-
-        // Validate score matches session
-        if (session.score !== scoreNum) {
-          console.warn(`[Anti-Cheat] Score mismatch! Submitted: ${scoreNum}, Session: ${session.score} for ${address}`)
-          return NextResponse.json({ error: 'score mismatch with game session' }, { status: 403 })
-        }
-
-        // Validate address matches session
-        if (session.address?.toLowerCase() !== address.toLowerCase()) {
-          console.warn(`[Anti-Cheat] Address mismatch! Submitted: ${address}, Session: ${session.address}`)
-          return NextResponse.json({ error: 'address mismatch with game session' }, { status: 403 })
-        }
-
-        // Basic Sanity Checks
-        if (scoreNum > 50_000) {
-          console.warn(`[Anti-Cheat] Score impossibly high: ${scoreNum} from ${address}`)
-          return NextResponse.json({ error: 'score exceeds maximum possible limits' }, { status: 403 })
-        }
-
-        // Mark session as used to prevent replay
-        await redis.del(`session:${sessionId}`)
-      } catch (err) {
-        console.error('Redis session validation failed:', err)
+      const check = await checkRunForSigning(redis, sessionId, address, scoreNum)
+      if (!check.ok) {
+        return NextResponse.json({ error: check.error }, { status: check.status })
       }
+      runVerified = true
+    }
+
+    // ====================================================================
+    // ANTI-CHEAT: Per-address cooldown
+    // ====================================================================
+    // Started only once the run checks out, so a rejected request doesn't
+    // lock the player out of resubmitting a valid one
+    const cooldownResult = await checkAddressCooldown(address)
+    if (!cooldownResult.allowed) {
+      return NextResponse.json(
+        { error: 'please wait between submissions', retryAfter: cooldownResult.retryAfter },
+        { status: 429 }
+      )
     }
 
     // ====================================================================
@@ -318,98 +300,88 @@ export async function POST(request: NextRequest) {
     })
 
     // ====================================================================
-    // SIGNATURE GENERATION
+    // SIGNATURE GENERATION (EIP-712 ScoreAttestation)
     // ====================================================================
-    const signerAccount = getSignerAccount()
-    // Hash encoding MUST match contract: abi.encodePacked(player, score, nonce, chainId, contractAddress)
-    const msgHash = keccak256(
-      encodePacked(
-        ['address', 'uint256', 'uint256', 'uint256', 'address'],
-        [address as `0x${string}`, BigInt(scoreNum), nonce as bigint, BigInt(chain.id), CONTRACT_ADDRESS]
-      )
-    )
-    const signature = await signerAccount.signMessage({ message: { raw: msgHash } })
+    const signerAccount = await getSignerAccount()
+    const attestation = {
+      player: address as `0x${string}`,
+      score: BigInt(scoreNum),
+      nonce: nonce as bigint,
+      deadline: attestationDeadline(),
+      sessionId: sessionIdToBytes32(sessionId),
+    }
+    const signature = await signScoreAttestation(signerAccount, chain.id, CONTRACT_ADDRESS, attestation)
+
+    // Claim the run only now, so a failed read or signing above can be
+    // retried — a concurrent request that got here first wins
+    if (redis && runVerified) {
+      const signed = await markRunSigned(redis, sessionId, attestation.nonce.toString())
+      if (!signed.ok) {
+        return NextResponse.json({ error: 'game session already signed' }, { status: 409 })
+      }
+    }
 
     // ====================================================================
     // GASLESS SUBMISSION (Relayer pays gas)
     // ====================================================================
-    if (gasless) {
-      // Acquire nonce lock to prevent concurrent submission collisions
-      const lockAcquired = await acquireNonceLock(address)
-      if (!lockAcquired) {
+    // Jobs go through lib/relayQueue: relayer pool rotation, per-relayer nonce
+    // allocation, receipt polling and fee bumps. The client polls
+    // /api/relay/status for the outcome.
+    const pool = gasless ? getRelayPool() : null
+    if (gasless && redis && pool) {
+      const queued = await enqueueRelayJob(redis, {
+        player: address as `0x${string}`,
+        score: scoreNum,
+        scoreNonce: attestation.nonce.toString(),
+        deadline: attestation.deadline.toString(),
+        sessionId: attestation.sessionId,
+        signature,
+      })
+      if (!queued.ok) {
+        // Another run was signed at this nonce and hasn't landed yet — only one can
         return NextResponse.json(
-          { error: 'Score submission in progress, please wait' },
-          { status: 429 }
+          { error: 'An earlier score is still being submitted', jobId: queued.job.id },
+          { status: 409 }
         )
       }
+      const { job } = queued
+      if (runVerified) await markRunSubmitted(redis, sessionId, job.id)
 
+      // Kick the queue so the job usually goes out within this request
       try {
-        const wc = getWalletClient()
-        const relayerAccount = privateKeyToAccount(
-          (process.env.RELAYER_PRIVATE_KEY || process.env.SCORE_SIGNER_PRIVATE_KEY || process.env.PRIVATE_KEY) as `0x${string}`
-        )
-
-        // Retry with exponential backoff (max 3 attempts)
-        let hash: `0x${string}` | undefined
-        let lastError: Error | undefined
-        for (let attempt = 0; attempt < 3; attempt++) {
-          try {
-            hash = await wc.writeContract({
-              chain,
-              address: CONTRACT_ADDRESS,
-              abi: GAME_LEADERBOARD_ABI,
-              functionName: 'submitScoreFor',
-              args: [address as `0x${string}`, BigInt(scoreNum), nonce as bigint, signature as `0x${string}`],
-              account: relayerAccount,
-            })
-            break // Success
-          } catch (err) {
-            lastError = err instanceof Error ? err : new Error(String(err))
-            if (attempt < 2) {
-              // Exponential backoff: 500ms, 1500ms
-              await new Promise(r => setTimeout(r, 500 * Math.pow(3, attempt)))
-            }
-          }
-        }
-
-        if (!hash) {
-          console.error('Gasless submission failed after 3 attempts:', lastError)
-          // Fall back to returning signature for client-side submission
-          return NextResponse.json({
-            nonce: (nonce as bigint).toString(),
-            signature,
-            signer: signerAccount.address,
-            timestamp: Date.now(),
-            gasless: false,
-            fallback: true,
-            error: 'Gasless submission failed, use signature to submit directly',
-          })
-        }
-
-        console.log(`Gasless score submitted: ${address} — ${scoreNum}, tx: ${hash}`)
-
-        return NextResponse.json({
-          success: true,
-          hash,
-          score: scoreNum,
-          address,
-          gasless: true,
-          timestamp: Date.now(),
-        })
-      } finally {
-        await releaseNonceLock(address)
+        await processRelayQueue(redis, pool)
+      } catch (err) {
+        console.error('Relay queue error:', err)
       }
+      const latest = (await getRelayJob(redis, job.id)) ?? job
+
+      console.log(`Gasless score queued: ${address} — ${scoreNum}, job: ${job.id} (${latest.status})`)
+
+      return NextResponse.json({
+        success: true,
+        jobId: job.id,
+        status: latest.status,
+        hash: latest.txHashes[latest.txHashes.length - 1] ?? null,
+        score: scoreNum,
+        address,
+        gasless: true,
+        timestamp: Date.now(),
+      })
     }
 
     // ====================================================================
     // NON-GASLESS: Return signature for client-side submission
     // ====================================================================
     return NextResponse.json({
-      nonce: (nonce as bigint).toString(),
+      nonce: attestation.nonce.toString(),
+      deadline: attestation.deadline.toString(),
+      sessionId: attestation.sessionId,
       signature,
       signer: signerAccount.address,
       timestamp: Date.now(),
       gasless: false,
+      // Asked for gasless but there's no relayer or queue configured
+      ...(gasless ? { fallback: true, error: 'Gasless relay unavailable, use signature to submit directly' } : {}),
     })
   } catch (error) {
     console.error('Score signing error:', error)
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http, isAddress } from 'viem'
+import { base, baseSepolia } from 'viem/chains'
+import Redis from 'ioredis'
+import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from '@/app/contracts'
+import { parseReplay, simulateReplay } from '@/app/components/Game/gameReplay'
+import { getStreakMultiplier } from '@/app/lib/streak'
+import { recordDailyScore } from '@/app/lib/dailyChallenge'
+import { finishRunSession, getRunSession, isRunId } from '@/app/lib/gameSessions'
+import { getCourse, recordCourseRun } from '@/app/lib/courses'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+
+export const dynamic = 'force-dynamic'
+
+const redisUrl = process.env.REDIS_URL || process.env.KV_URL
+const redis = redisUrl ? new Redis(redisUrl) : null
+const rateLimiter = createRateLimiter(redis)
+
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const chain = isTestnet ? baseSepolia : base
+
+const publicClient = createPublicClient({
+    chain,
+    transport: http(),
+})
+
+/** Allowance for clock skew and frame pacing between client and server */
+const DURATION_SLACK_MS = 2000
+
+/** On-chain check-in streak (days) of the session's wallet */
+async function getStreakDays(address: string): Promise<number> {
+    if (!isAddress(address)) return 0
+    if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') return 0
+    const [, streak] = await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: GAME_LEADERBOARD_ABI,
+        functionName: 'getCheckInStatus',
+        args: [address],
+    }) as [bigint, bigint, boolean]
+    return Number(streak)
+}
+
+/**
+ * POST /api/session/finish
+ *
+ * Called by the client on death with the run's input log. The replay is
+ * re-simulated from the session seed and the run moves to `finished` with the
+ * resulting score, frame count and in-game duration — /api/score-sign will
+ * only sign that exact score. Daily challenge sessions post the score to that
+ * day's board instead, and course sessions are re-simulated on their course
+ * and posted to its boards.
+ *
+ * Body: { sessionId: string, replay: ReplayLog }
+ * Response: { score: number, frames: number, durationMs: number, dailyRank?: number,
+ *             complete?: boolean, courseRank?: { scoreRank: number, timeRank: number | null } }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const rateLimit = await rateLimiter.check(RATE_LIMITS.sessionFinish, clientIp(request.headers))
+        if (rateLimit.action === 'block') {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+                { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+            )
+        }
+
+        const body = await request.json().catch(() => ({}))
+        const { sessionId } = body
+
+        if (!isRunId(sessionId)) {
+            return NextResponse.json({ error: 'invalid sessionId' }, { status: 400 })
+        }
+
+        const replay = parseReplay(body.replay)
+        if (!replay) {
+            return NextResponse.json({ error: 'invalid replay' }, { status: 400 })
+        }
+
+        if (!redis) {
+            return NextResponse.json({ error: 'session store not configured' }, { status: 503 })
+        }
+
+        const session = await getRunSession(redis, sessionId)
+        if (!session) {
+            return NextResponse.json({ error: 'invalid or expired game session' }, { status: 404 })
+        }
+
+        if (session.state !== 'started') {
+            return NextResponse.json({ error: 'game session already finished' }, { status: 409 })
+        }
+        if (session.seed !== replay.seed) {
+            console.warn(`[Anti-Cheat] Seed mismatch! Replay: ${replay.seed}, Session: ${session.seed} for ${session.address}`)
+            return NextResponse.json({ error: 'replay does not match game session' }, { status: 403 })
+        }
+
+        const streakDays = await getStreakDays(session.address)
+        const allowedStreak = getStreakMultiplier(streakDays)
+        if (replay.streak > allowedStreak) {
+            console.warn(`[Anti-Cheat] Streak mismatch! Replay: ${replay.streak}, Allowed: ${allowedStreak} for ${session.address}`)
+            return NextResponse.json({ error: 'streak multiplier not earned' }, { status: 403 })
+        }
+
+        // Course boards compare runs on the course alone — no streak bonus
+        const record = session.course !== undefined ? await getCourse(redis, session.course) : null
+        if (session.course !== undefined) {
+            if (!record) {
+                return NextResponse.json({ error: 'course not found' }, { status: 404 })
+            }
+            if (replay.streak !== 1) {
+                return NextResponse.json({ error: 'course runs are not streak-scored' }, { status: 403 })
+            }
+        }
+
+        const result = simulateReplay(replay, record?.course ?? null)
+        if (!result.died || result.frames !== replay.frames) {
+            console.warn(`[Anti-Cheat] Replay diverged: died=${result.died} at ${result.frames}/${replay.frames} for ${session.address}`)
+            return NextResponse.json({ error: 'replay did not reproduce the run' }, { status: 422 })
+        }
+
+        // The session was issued before the run began, so the replay can't
+        // cover more game time than has passed since — faster means a bot
+        const now = Date.now()
+        const durationMs = Math.round(result.gameTime * 1000)
+        if (durationMs > now - session.startedAt + DURATION_SLACK_MS) {
+            console.warn(`[Anti-Cheat] Replay longer than wall clock: ${durationMs}ms in ${now - session.startedAt}ms for ${session.address}`)
+            return NextResponse.json({ error: 'run finished faster than it could be played' }, { status: 403 })
+        }
+
+        const finished = await finishRunSession(redis, sessionId, {
+            score: result.score,
+            frames: result.frames,
+            durationMs,
+            stats: {
+                jumps: result.totalJumps,
+                collected: result.totalCollected,
+                maxCombo: result.maxCombo,
+                streak: replay.streak,
+                marketCycles: result.marketCycles,
+            },
+        }, now)
+        if (!finished.ok) {
+            return NextResponse.json({ error: 'game session already finished' }, { status: 409 })
+        }
+
+        let dailyRank: number | undefined
+        if (typeof session.daily === 'number' && isAddress(session.address)) {
+            dailyRank = await recordDailyScore(redis, session.daily, session.address, result.score, streakDays)
+        }
+
+        let courseRank: { scoreRank: number; timeRank: number | null } | undefined
+        if (record && isAddress(session.address)) {
+            courseRank = await recordCourseRun(redis, record.id, session.address, {
+                score: result.score,
+                frames: result.frames,
+                complete: result.complete,
+            })
+        }
+
+        return NextResponse.json({
+            score: result.score,
+            frames: result.frames,
+            durationMs,
+            dailyRank,
+            ...(record ? { complete: result.complete, courseRank } : {}),
+        })
+    } catch (error) {
+        console.error('Session finish error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
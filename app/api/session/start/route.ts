@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import crypto from 'crypto'
+import { getChallengeDay, getDailySeed } from '@/app/lib/dailyChallenge'
+import { RATE_LIMITS, clientIp, createRateLimiter } from '@/app/lib/rateLimit'
+import { createRunSession } from '@/app/lib/gameSessions'
+import { getCourse, isCourseId } from '@/app/lib/courses'
+import { courseSeed } from '@/app/components/Game/gameCourse'
 
 export const dynamic = 'force-dynamic'
 
@@ -16,38 +21,71 @@ try {
     // ioredis not available, sessions won't persist across cold starts
 }
 
+const rateLimiter = createRateLimiter(redis)
+
 /**
  * POST /api/session/start
  * 
- * Called when the player starts a new game.
- * Returns a unique sessionId that must be sent back with the score submission.
+ * Called ahead of a new game (the client prefetches the next session so the
+ * run can start instantly). Opens a run session (lib/gameSessions) and returns
+ * its id, which must be sent back with the score submission, plus the PRNG
+ * seed the run must be played on.
+ * Daily challenge sessions share today's seed with every other player.
+ * Course sessions play a published course (lib/courses) and use its seed.
  * 
- * Body: { address?: string }
- * Response: { sessionId: string }
+ * Body: { address?: string, mode?: 'daily' | 'course', courseId?: string }
+ * Response: { sessionId: string, seed: number, timestamp: number, daily?: number, course?: string }
  */
 export async function POST(request: NextRequest) {
     try {
+        const rateLimit = await rateLimiter.check(RATE_LIMITS.sessionStart, clientIp(request.headers))
+        if (rateLimit.action === 'block') {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+                { status: 429, headers: { 'Retry-After': rateLimit.retryAfter.toString() } }
+            )
+        }
+
         const body = await request.json().catch(() => ({}))
         const address = body.address || 'anonymous'
+        const daily = body.mode === 'daily' ? getChallengeDay() : undefined
 
-        // Generate a unique session ID
-        const sessionId = crypto.randomBytes(16).toString('hex')
+        // Course runs can only be verified against a stored course
+        let course: string | undefined
+        let seed: number
+        if (body.mode === 'course') {
+            if (!isCourseId(body.courseId)) {
+                return NextResponse.json({ error: 'invalid courseId' }, { status: 400 })
+            }
+            const record = redis ? await getCourse(redis, body.courseId) : null
+            if (!record) {
+                return NextResponse.json({ error: 'course not found' }, { status: 404 })
+            }
+            course = record.id
+            seed = courseSeed(record.course)
+        } else if (daily !== undefined) {
+            const dailySeed = getDailySeed(daily)
+            if (dailySeed === null) {
+                return NextResponse.json({ error: 'Daily challenge unavailable' }, { status: 503 })
+            }
+            seed = dailySeed
+        } else {
+            // 32-bit run seed — drives the engine's obstacle PRNG
+            seed = crypto.randomBytes(4).readUInt32BE(0)
+        }
         const now = Date.now()
 
-        const sessionData = JSON.stringify({
-            address: address.toLowerCase(),
-            startTime: now,
-            score: null, // Will be set by client on death
-        })
-
-        if (redis) {
-            // Store in Redis with 10-minute TTL (game sessions shouldn't last longer)
-            await redis.set(`session:${sessionId}`, sessionData, 'EX', 600)
-        }
+        // Without Redis the id is never checked — score-sign only requires sessions when it has a store
+        const sessionId = redis
+            ? (await createRunSession(redis, { address, seed, daily, course }, now)).id
+            : crypto.randomBytes(16).toString('hex')
 
         return NextResponse.json({
             sessionId,
+            seed,
             timestamp: now,
+            daily,
+            course,
         })
     } catch (error) {
         console.error('Session start error:', error)
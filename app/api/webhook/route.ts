@@ -1,51 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createHash } from 'crypto'
 import Redis from 'ioredis'
+import { WEBHOOK_EVENT_TYPES, handleWebhookEvent, parseWebhookEvent } from '@/app/lib/webhookEvents'
+import {
+  DEFAULT_TOLERANCE_SECONDS,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  parseWebhookSecrets,
+  verifyWebhookSignature,
+} from '@/app/lib/webhookAuth'
 
 export const dynamic = 'force-dynamic'
 
 // Redis-backed dedup store (survives serverless cold starts)
 const redisUrl = process.env.REDIS_URL || process.env.KV_URL
 const redis = redisUrl ? new Redis(redisUrl) : null
-const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || 'default-webhook-secret'
 
-/**
- * Verify webhook signature (Base Mini App webhook validation)
- */
-function verifySignature(payload: string, signature: string): boolean {
-  const expectedSignature = createHash('sha256')
-    .update(payload + WEBHOOK_SECRET)
-    .digest('hex')
-  return signature === expectedSignature
+// Comma-separated — every listed secret verifies, so rotation is add-then-remove
+const WEBHOOK_SECRETS = parseWebhookSecrets(process.env.WEBHOOK_SECRET)
+if (WEBHOOK_SECRETS.length === 0 && process.env.NODE_ENV === 'production') {
+  console.warn('[WARN] WEBHOOK_SECRET is not set. The webhook will reject every request.')
 }
 
 /**
  * Webhook for processing Base Mini App transactions
  * Handles: score submissions, check-ins, and other on-chain events
+ *
+ * Events are parsed and dispatched by lib/webhookEvents: successes purge
+ * the leaderboard cache and land in the player's activity history, failed
+ * gasless submissions are queued on relay:retry.
+ *
+ * Auth: see lib/webhookAuth. Production requires a valid signature; in
+ * development unsigned requests pass but a signature that's sent is checked.
  */
 export async function POST(request: NextRequest) {
   try {
     const rawBody = await request.text()
-    const signature = request.headers.get('x-webhook-signature') || ''
+    const signature = request.headers.get(SIGNATURE_HEADER)
 
-    // Verify signature if provided (production)
-    if (process.env.NODE_ENV === 'production' && signature) {
-      const isValid = verifySignature(rawBody, signature)
-      if (!isValid) {
+    if (process.env.NODE_ENV === 'production' || signature) {
+      const auth = verifyWebhookSignature({
+        rawBody,
+        signature,
+        timestamp: request.headers.get(TIMESTAMP_HEADER),
+        secrets: WEBHOOK_SECRETS,
+      })
+      if (!auth.ok) {
+        console.warn('Webhook rejected:', auth.reason)
         return NextResponse.json(
-          { success: false, error: 'Invalid signature' },
-          { status: 401 }
+          { success: false, error: auth.reason === 'no_secrets' ? 'Webhook not configured' : 'Invalid signature' },
+          { status: auth.reason === 'no_secrets' ? 503 : 401 }
         )
       }
+
+      // A signature is only valid inside the tolerance window — remember it that long.
+      // Keyed on our own HMAC, not the header text, so no variant of it counts as new
+      if (redis) {
+        const fresh = await redis.set(`webhook:sig:${auth.signature}`, '1', 'EX', DEFAULT_TOLERANCE_SECONDS * 2, 'NX')
+        if (!fresh) {
+          return NextResponse.json(
+            { success: false, error: 'Replayed request' },
+            { status: 409 }
+          )
+        }
+      }
     }
 
-    const body = JSON.parse(rawBody)
-    const { event, transactionHash, status, type, data } = body
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 })
+    }
+    const event = parseWebhookEvent(body)
+    const type = (body as { type?: unknown } | null)?.type
+    if (!event && WEBHOOK_EVENT_TYPES.some((known) => known === type)) {
+      // A known event we can't trust — e.g. retry fields the relayer couldn't send
+      return NextResponse.json({ success: false, error: 'Malformed event' }, { status: 400 })
+    }
+    if (!event) {
+      console.log('Unknown webhook event:', type || 'undefined')
+      return NextResponse.json({ success: true, message: 'Ignored', processed: false })
+    }
+    const { transactionHash, status } = event
 
     // Prevent duplicate processing (Redis-backed)
     if (transactionHash && redis) {
       try {
-        const dedupKey = `webhook:dedup:${transactionHash}`
+        // Status is part of the key — a pending tx may later report success or failure
+        const dedupKey = `webhook:dedup:${transactionHash}:${status}`
         const exists = await redis.get(dedupKey)
         if (exists) {
           console.log('Duplicate transaction ignored:', transactionHash)
@@ -59,57 +101,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    console.log('Webhook received:', { event, type, status, transactionHash })
-
-    if (status === 'success') {
-      // Handle different event types
-      switch (type) {
-        case 'score_submission':
-          console.log('Score submitted:', {
-            player: data?.player,
-            score: data?.score,
-            tx: transactionHash
-          })
-          // TODO: Invalidate leaderboard cache
-          break
-
-        case 'daily_checkin':
-          console.log('Daily check-in completed:', {
-            player: data?.player,
-            streak: data?.streak,
-            tx: transactionHash
-          })
-          break
-
-        case 'contract_interaction':
-          console.log('Contract interaction:', {
-            event,
-            tx: transactionHash
-          })
-          break
+    console.log('Webhook received:', { event: event.event, type: event.type, status, transactionHash })
+    if (status === 'failed') {
+      console.error('Transaction failed:', { type: event.type, tx: transactionHash, error: event.data.error })
+    }
 
-        default:
-          console.log('Unknown event type:', type || 'undefined')
-      }
+    // Handlers need Redis for every side effect — without it the event is only logged
+    const effects = redis ? await handleWebhookEvent(redis, event) : []
 
-      // Analytics tracking point
-      if (process.env.VERCEL_ANALYTICS_ID) {
-        // Send to Vercel Analytics or your preferred service
-        console.log('Analytics: on-chain event tracked')
-      }
-    } else if (status === 'failed') {
-      console.error('Transaction failed:', {
-        event,
-        tx: transactionHash,
-        error: data?.error
-      })
-      // TODO: Implement retry logic or notify user
+    // Analytics tracking point
+    if (status === 'success' && process.env.VERCEL_ANALYTICS_ID) {
+      // Send to Vercel Analytics or your preferred service
+      console.log('Analytics: on-chain event tracked')
     }
 
     return NextResponse.json({
       success: true,
       message: 'Webhook processed successfully',
-      processed: status === 'success'
+      processed: effects.length > 0,
+      effects,
     })
   } catch (error) {
     console.error('Webhook error:', error)
@@ -129,6 +139,6 @@ export async function GET() {
     status: 'ok',
     message: 'Base Dash webhook endpoint is ready',
     version: '1.0.0',
-    supportedEvents: ['score_submission', 'daily_checkin', 'contract_interaction']
+    supportedEvents: WEBHOOK_EVENT_TYPES
   })
 }
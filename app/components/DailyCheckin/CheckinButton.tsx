@@ -38,6 +38,7 @@ export default function DailyCheckinButton() {
     isLinked,
     linkWallet,
     isLinkPending,
+    linkError,
   } = useDailyCheckin(address)
 
   const [fidInput, setFidInput] = useState('')
@@ -102,6 +103,7 @@ export default function DailyCheckinButton() {
 
         <p className="text-[8px] text-slate-500 mb-3 leading-relaxed font-medium" style={mono}>
           link your farcaster fid to enable daily check-ins and streak tracking.
+          connect the fid&apos;s custody wallet or an address verified on it.
         </p>
 
         <div className="space-y-2.5">
@@ -126,6 +128,10 @@ export default function DailyCheckinButton() {
           >
             {isLinkPending ? 'linking...' : 'link wallet'}
           </button>
+
+          {linkError && (
+            <p className="text-[8px] text-[#F6465D] font-bold" style={mono}>{linkError}</p>
+          )}
         </div>
       </div>
     )
@@ -0,0 +1,159 @@
+'use client'
+
+/**
+ * ============================================================================
+ * BASE DASH — Course Canvas
+ * ============================================================================
+ * Live preview and test play for hand-authored courses. Editing draws a still
+ * frame of the course from `view` on; playing runs it through stepEngine()
+ * with the same renderer as the main game, so what you build is what plays.
+ * ============================================================================
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import { type EngineState, CFG } from './gameConfig'
+import { type Course, courseProgress, courseSeed, createCourseEngine } from './gameCourse'
+import { type ReplayLog, ReplayRecorder } from './gameReplay'
+import { drawFrame } from './gameRenderer'
+import { type EngineEvent, type StepInput, stepEngine } from './gameSimulation'
+
+export interface CourseRunResult {
+  complete: boolean
+  score: number
+  /** Share of the course covered, 0-1 */
+  progress: number
+  /** Input log for /api/session/finish — course runs carry no streak bonus */
+  replay: ReplayLog
+}
+
+interface CourseCanvasProps {
+  course: Course
+  /** Track distance (px) the edit preview starts at */
+  view: number
+  playing: boolean
+  /** Edit-mode click: track distance and height above the ground (px) */
+  onPlace?: (at: number, height: number) => void
+  onRunEnd?: (result: CourseRunResult) => void
+}
+
+/** Draw one frame at the game's logical size; null until the canvas mounts */
+function paint(
+  canvas: HTMLCanvasElement | null,
+  e: EngineState,
+  dpr: number,
+  logo: HTMLImageElement | null,
+  logoLoaded: boolean
+): CanvasRenderingContext2D | null {
+  const ctx = canvas?.getContext('2d')
+  if (!ctx) return null
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  drawFrame(ctx, e, { w: CFG.WIDTH, h: CFG.HEIGHT, dpr, cssW: CFG.WIDTH, cssH: CFG.HEIGHT }, logo, logoLoaded)
+  return ctx
+}
+
+export default function CourseCanvas({ course, view, playing, onPlace, onRunEnd }: CourseCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const logoRef = useRef<HTMLImageElement | null>(null)
+  const pressesRef = useRef(0)
+  const onRunEndRef = useRef(onRunEnd)
+  onRunEndRef.current = onRunEnd
+  const [logoLoaded, setLogoLoaded] = useState(false)
+  const [dpr, setDpr] = useState(1)
+
+  useEffect(() => {
+    setDpr(Math.min(window.devicePixelRatio || 1, CFG.MAX_DPR))
+    const img = new Image()
+    img.src = '/base-logo.png'
+    img.onload = () => { logoRef.current = img; setLogoLoaded(true) }
+  }, [])
+
+  // Edit mode — one still frame, plus the finish line when it's on screen
+  useEffect(() => {
+    if (playing) return
+    const ctx = paint(canvasRef.current, createCourseEngine(course, view), dpr, logoRef.current, logoLoaded)
+    const finishX = CFG.PLAYER_X + course.length - view
+    if (!ctx || finishX < 0 || finishX > CFG.WIDTH) return
+    ctx.save()
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.strokeStyle = '#0052FF'
+    ctx.setLineDash([6, 6])
+    ctx.beginPath()
+    ctx.moveTo(finishX, 0)
+    ctx.lineTo(finishX, CFG.GROUND)
+    ctx.stroke()
+    ctx.fillStyle = '#0052FF'
+    ctx.font = '700 11px "JetBrains Mono", monospace'
+    ctx.fillText('FINISH', finishX + 6, 20)
+    ctx.restore()
+  }, [course, view, playing, dpr, logoLoaded])
+
+  // Play mode — fixed-step loop until death or the finish line
+  useEffect(() => {
+    if (!playing) return
+    const e = createCourseEngine(course)
+    const recorder = new ReplayRecorder(courseSeed(course), 1)
+    const input: StepInput = { presses: 0, releases: 0 }
+    const events: EngineEvent[] = []
+    pressesRef.current = 0
+    let raf = 0
+    let last = performance.now()
+    let acc = 0
+
+    const loop = (now: number) => {
+      acc += Math.min((now - last) / 1000, CFG.MAX_DELTA)
+      last = now
+      while (acc >= CFG.STEP && e.alive) {
+        input.presses = pressesRef.current
+        pressesRef.current = 0
+        for (let i = 0; i < input.presses; i++) recorder.press(e.frame)
+        events.length = 0
+        stepEngine(e, input, CFG.STEP, events)
+        acc -= CFG.STEP
+      }
+      paint(canvasRef.current, e, dpr, logoRef.current, logoLoaded)
+      if (!e.alive) {
+        onRunEndRef.current?.({
+          complete: e.courseComplete,
+          score: e.score,
+          progress: courseProgress(e),
+          replay: recorder.finish(e.frame),
+        })
+        return
+      }
+      raf = requestAnimationFrame(loop)
+    }
+    raf = requestAnimationFrame(loop)
+
+    const onKey = (ev: KeyboardEvent) => {
+      if (ev.code !== 'Space' && ev.code !== 'ArrowUp') return
+      ev.preventDefault()
+      if (!ev.repeat) pressesRef.current++
+    }
+    window.addEventListener('keydown', onKey)
+    return () => {
+      cancelAnimationFrame(raf)
+      window.removeEventListener('keydown', onKey)
+    }
+  }, [playing, course, dpr, logoLoaded])
+
+  const handlePointer = (ev: React.PointerEvent<HTMLCanvasElement>) => {
+    if (playing) {
+      pressesRef.current++
+      return
+    }
+    const rect = ev.currentTarget.getBoundingClientRect()
+    const x = ((ev.clientX - rect.left) / rect.width) * CFG.WIDTH
+    const y = ((ev.clientY - rect.top) / rect.height) * CFG.HEIGHT
+    onPlace?.(Math.round(view + x - CFG.PLAYER_X), Math.round(CFG.GROUND - y))
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CFG.WIDTH * dpr}
+      height={CFG.HEIGHT * dpr}
+      onPointerDown={handlePointer}
+      className={`block w-full h-auto touch-none ${playing ? 'cursor-pointer' : 'cursor-crosshair'}`}
+    />
+  )
+}
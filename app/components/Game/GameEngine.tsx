@@ -25,21 +25,39 @@ import {
   type TrailPoint,
   CFG,
   WORLDS,
-  SPEEDS,
   IS_MOBILE,
   POWERUP_CONFIG,
-  MARKET_CONFIG,
-  GAMEPLAY,
   clamp, lerp, rand,
-  getWorld, getWorldIndex, getSpeed, getJumps,
-  getComboMilestone,
-  createEngine, spawnPattern, formatMarketCap,
-  updateGameConfig, createCandle,
+  getWorld, getSpeed, getJumps,
+  createEngine, formatMarketCap,
+  updateGameConfig,
 } from './gameConfig'
+import { type StepInput, type EngineEvent, stepEngine } from './gameSimulation'
+import { type Ghost, ReplayRecorder, createGhost, stepGhost, parseReplay } from './gameReplay'
 import { drawFrame } from './gameRenderer'
 import { useWallet } from '@/app/hooks/useWallet'
 import { useAudioEngine } from '@/app/hooks/useAudioEngine'
-import { useGameStore, type GameHistoryEntry } from '@/app/store/gameStore'
+import type { SubmitStatus } from '@/app/hooks/useRelayJob'
+import { useGameStore, type GameHistoryEntry, type GhostRecord } from '@/app/store/gameStore'
+
+// ============================================================================
+// SESSION PREFETCH
+// ============================================================================
+
+/** Session issued by /api/session/start before the run it will be used for */
+interface PrefetchedSession {
+  sessionId: string
+  seed: number
+  fetchedAt: number
+}
+
+/** Daily challenge session — shares today's seed with every player */
+interface DailySession extends PrefetchedSession {
+  day: number
+}
+
+/** Server keeps sessions for 30 min — leave headroom for the run itself */
+const SESSION_PREFETCH_MAX_AGE_MS = 10 * 60 * 1000
 
 // ============================================================================
 // PARTICLE SPAWNER HELPERS
@@ -170,9 +188,11 @@ interface GameEngineProps {
   isConnected?: boolean
   canSubmitScore?: boolean
   connectWallet?: () => void
-  isScoreConfirmed?: boolean
+  /** Outcome of the last submission — 'pending' until the tx is mined */
+  submitStatus?: SubmitStatus | null
   submitTxHash?: `0x${string}`
   streakMultiplier?: number
+  canCheckIn?: boolean
 }
 
 // ============================================================================
@@ -201,6 +221,7 @@ interface GameStats {
   greensCollected: number
   totalJumps: number
   maxCombo: number
+  marketCycles: number
 }
 
 // Trading-themed death messages
@@ -226,12 +247,13 @@ export default function GameEngine({
   isConnected = false,
   canSubmitScore = false,
   connectWallet,
-  isScoreConfirmed = false,
+  submitStatus = null,
   submitTxHash,
   streakMultiplier = 1,
+  canCheckIn = false,
 }: GameEngineProps) {
   // --- React state ---
-  const { score, setScore, mode, setMode, soundEnabled, setSoundEnabled, addGameToHistory } = useGameStore()
+  const { score, setScore, mode, setMode, soundEnabled, setSoundEnabled, addGameToHistory, bestGhost, ghost, setGhost, saveBestGhost } = useGameStore()
 
   const [best, setBest] = useState(0)
   const [combo, setCombo] = useState(0)
@@ -248,6 +270,10 @@ export default function GameEngine({
   const [isNewRecord, setIsNewRecord] = useState(false)
   const [deathMessage, setDeathMessage] = useState('rekt!')
   const [activeTrail, setActiveTrail] = useState<TrailType>('default')
+  const [ghostDiff, setGhostDiff] = useState<number | null>(null) // Final score vs the raced ghost
+  const [isDailyRun, setIsDailyRun] = useState(false)
+  const [startingDaily, setStartingDaily] = useState(false)
+  const [dailyRank, setDailyRank] = useState<number | null>(null)
   const { address } = useWallet()
 
   // --- Realtime DOM Refs (Bypassing React state for 60fps performance) ---
@@ -298,10 +324,43 @@ export default function GameEngine({
   const demoRafRef = useRef<number | null>(null)
   const gameIdRef = useRef(0) // Monotonically increasing game ID to prevent stale loops
   const gameSessionIdRef = useRef<string | null>(null) // Short session ID for sharing
+  const nextSessionRef = useRef<PrefetchedSession | null>(null) // Server session + seed for the NEXT run
+  const runSessionIdRef = useRef<string | null>(null) // Anti-cheat session of the CURRENT run
+  const replayRef = useRef<ReplayRecorder | null>(null) // Input log of the current run
+  const finishRef = useRef<Promise<void> | null>(null) // Pending replay upload — score-sign waits on it
+  const inputRef = useRef<StepInput>({ presses: 0, releases: 0 }) // Input queued for the next physics step
+  const eventsRef = useRef<EngineEvent[]>([]) // Reused per-step event buffer (no GC)
+  const raceRef = useRef<GhostRecord | null>(null) // Ghost raced this run — null for ranked runs
+  const ghostRef = useRef<Ghost | null>(null) // Ghost engine stepped in lockstep with the live one
+  const pendingDailyRef = useRef<DailySession | null>(null) // Daily session the next startGame() plays on
+  const dailyRef = useRef<number | null>(null) // Challenge day of the current run — null for other runs
   const [nearRecordDiff, setNearRecordDiff] = useState<number | null>(null)
   const [retryVisible, setRetryVisible] = useState(false)
 
-  const HALF_PI = Math.PI / 2
+  // ========================================================================
+  // SESSION PREFETCH — seed must be known before the first spawn
+  // ========================================================================
+
+  const prefetchSession = useCallback(() => {
+    nextSessionRef.current = null
+    fetch('/api/session/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address: address || 'anonymous' }),
+    })
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (data?.sessionId && typeof data.seed === 'number') {
+          nextSessionRef.current = { sessionId: data.sessionId, seed: data.seed, fetchedAt: Date.now() }
+        }
+      })
+      .catch(() => { /* non-critical, game still works without session */ })
+  }, [address])
+
+  // Re-issue whenever the wallet changes so the session carries the right address
+  useEffect(() => {
+    prefetchSession()
+  }, [prefetchSession])
 
   // ========================================================================
   // PHYSICS UPDATE — Heart of the game
@@ -311,330 +370,89 @@ export default function GameEngine({
     const e = engineRef.current
     if (!e.alive) return
 
-    // === FIREWALL: Reject garbage dt values ===
-    if (!isFinite(dt) || isNaN(dt) || dt <= 0 || dt > 0.1) return
-
-    e.gameTime += dt
-    // Smooth exponential difficulty (item 1)
-    e.difficulty = 1 - Math.exp(-e.score / 2500)
-    // Time-based warmup: first 8s gentler
-    const warmup = clamp(e.gameTime / 8, 0.5, 1.0)
-    const speedTier = getSpeed(e.score)
-    const speedMult = speedTier.multiplier
-    const slowMult = e.slowdownTimer > 0 ? CFG.SLOW_MULT : 1
-    const nearMissMult = e.nearMissTimer > 0 ? 0.4 : 1
-    const frameSpeed = CFG.BASE_SPEED * speedMult * slowMult * nearMissMult * warmup
-
-    e.speed = lerp(e.speed, frameSpeed, dt * 4)
-    e.distance += e.speed * dt
-    e.distanceTraveled += e.speed * dt
-    e.backgroundOffset += e.speed * dt * 0.5
-    e.groundOffset += e.speed * dt
-    e.cloudOffset += e.speed * dt
-
-    // --- Timers ---
-    if (e.slowdownTimer > 0) e.slowdownTimer -= dt
-    if (e.nearMissTimer > 0) e.nearMissTimer -= dt
-    if (e.speedLinesTimer > 0) e.speedLinesTimer -= dt
-    if (e.comboPulseTimer > 0) e.comboPulseTimer -= dt
-
-    // --- Tutorial: hide after first jump ---
-    if (e.showTutorial && e.totalJumps > 0) e.showTutorial = false
-
-    // --- Market cycle — DISABLED ---
-    // Market mechanics removed for cleaner gameplay
-
-    // --- Speed tier change detection ---
-    // --- Speed tier change detection (reverse loop, no closure) ---
-    let currentTierIdx = 0
-    for (let si = SPEEDS.length - 1; si >= 0; si--) {
-      if (e.score >= SPEEDS[si].startScore) { currentTierIdx = si; break }
-    }
-    if (currentTierIdx > e.prevSpeedTierIdx) {
-      e.prevSpeedTierIdx = currentTierIdx
-      e.speedLinesTimer = 1.5
-    }
-
-    // --- Player physics ---
-    const p = e.player
-    p.maxJumps = getJumps(e.score)
-
-    // Safety: ensure player stays within bounds
-    if (p.y < 0) {
-      p.y = 0
-      p.velocityY = 0
-    }
-    if (p.y > CFG.GROUND - CFG.PLAYER_SIZE) {
-      p.y = CFG.GROUND - CFG.PLAYER_SIZE
-      p.velocityY = 0
-      p.onGround = true
-      p.coyoteTimer = CFG.COYOTE
-      p.jumpCount = 0
-      p.rotation = 0
-    }
-
-    // Gravity — asymmetric: lighter going up, heavier falling (item 1)
-    if (!p.isDashing) {
-      const grav = p.velocityY < 0 ? CFG.GRAVITY_UP : CFG.GRAVITY_DOWN
-      p.velocityY += grav * dt
-      p.velocityY = Math.min(p.velocityY, CFG.MAX_FALL)
-    }
-
-    // Apply velocity
-    p.y += p.velocityY * dt
-
-    // Ground collision
-    const groundLevel = CFG.GROUND - CFG.PLAYER_SIZE
-
-    if (p.y >= groundLevel - 4 && p.velocityY >= 0) {
-      p.y = groundLevel
-      p.velocityY = 0
-      p.onGround = true
-      p.coyoteTimer = CFG.COYOTE
-      p.jumpCount = 0
-      p.rotation = 0
-    } else {
-      p.onGround = false
-    }
-
-    // Coyote time
-    if (p.onGround) {
-      p.coyoteTimer = CFG.COYOTE
-    } else {
-      p.coyoteTimer -= dt
-    }
-
-    // Jump buffer
-    if (p.jumpBufferTimer > 0) {
-      p.jumpBufferTimer -= dt
-      if (p.onGround || p.coyoteTimer > 0) {
-        performJump(e, false)
-        p.jumpBufferTimer = 0
-      }
-    }
-
-    // Dash timer
-    if (p.isDashing) {
-      p.dashTimer -= dt
-      p.velocityY = 0
-      if (p.dashTimer <= 0) {
-        p.isDashing = false
-        p.dashTimer = CFG.DASH_COOLDOWN
-      }
-    } else if (p.dashTimer > 0) {
-      p.dashTimer -= dt
-    }
-
-    // Rotation — smooth spin in air, snap to 0 on ground
-    if (p.onGround) {
-      // Snap rotation to nearest 90 degrees (0, π/2, π, 3π/2)
-      const snapTarget = Math.round(p.rotation / HALF_PI) * HALF_PI
-      p.rotation = lerp(p.rotation, snapTarget, dt * 25)
-      // Fully snap when very close
-      if (Math.abs(p.rotation - snapTarget) < 0.05) {
-        p.rotation = snapTarget
-      }
-    } else {
-      // Smooth constant spin in air (Geometry Dash style)
-      p.rotation += 11.5 * dt
-      // Normalize rotation to prevent float overflow on long sessions
-      if (p.rotation > 62.83) p.rotation -= 62.83 // ~10 full rotations
-    }
-
-    // Squash/stretch animation — SMOOTHER landing
-    // Breathe idle animation when on ground
-    if (p.onGround && e.alive && Math.abs(p.squash) < 0.01) {
-      p.squash = Math.sin(e.gameTime * CFG.BREATHE_SPEED) * CFG.BREATHE_AMP
-    }
-    p.squash = lerp(p.squash, 0, dt * 8)  // Smooth decay
-    p.scale = 1 + p.squash * (p.velocityY < 0 ? -0.25 : 0.35)  // Softer effect
-    // CRITICAL: Clamp scale to prevent invisible/giant cube
-    p.scale = clamp(p.scale, 0.5, 2.0)
-
-    // Tilt based on velocity — smooth interpolation
-    const targetTilt = clamp(p.velocityY / 900, -0.9, 0.9)  // Reduced tilt range
-    p.tilt = lerp(p.tilt, targetTilt, dt * 6)  // Smooth transition
-
-    // Flash decay
-    p.flash = Math.max(0, p.flash - dt * 4)
-
-    // === FULL NaN/Infinity FIREWALL — prevent cube disappearance ===
-    if (!isFinite(p.y)) p.y = CFG.GROUND - CFG.PLAYER_SIZE
-    if (!isFinite(p.velocityY)) p.velocityY = 0
-    if (!isFinite(p.scale) || p.scale <= 0) p.scale = 1
-    if (!isFinite(p.rotation)) p.rotation = 0
-    if (!isFinite(p.tilt)) p.tilt = 0
-    if (!isFinite(p.squash)) p.squash = 0
-    if (!isFinite(p.flash) || p.flash < 0) p.flash = 0
-    if (!isFinite(p.invincible) || p.invincible < 0) p.invincible = 0
-    if (!isFinite(e.speed)) e.speed = CFG.BASE_SPEED
-    if (!isFinite(e.score)) e.score = 0
-    if (!isFinite(e.distance)) e.distance = 0
-    if (!isFinite(e.combo)) e.combo = 0
-    if (!isFinite(e.gameTime)) e.gameTime = 0
-    if (!isFinite(e.difficulty)) e.difficulty = 0
-    if (!isFinite(e.scoreMultiplier) || e.scoreMultiplier <= 0) e.scoreMultiplier = 1
-    // Clamp y to sane bounds — prevent underground/sky escape
-    p.y = clamp(p.y, -CFG.PLAYER_SIZE * 3, CFG.GROUND)
-    // Clamp scale again after all computations
-    p.scale = clamp(p.scale, 0.5, 2.0)
-    // Ensure flash+invincible never make cube fully invisible
-    if (p.flash > 0.95) p.flash = 0.95
-    if (p.invincible > 10) p.invincible = 2
-    // Cap particles to prevent tornado
-    if (e.particles.length > CFG.PARTICLE_LIMIT * 1.5) {
-      e.particles.length = CFG.PARTICLE_LIMIT
-    }
-
-    // Invincibility
-    p.invincible = Math.max(0, p.invincible - dt)
-
-    // Trail — spawn ghost image using reliable cooldown timer
-    if (!p.onGround && e.trailTimer <= 0) {
-      e.trailTimer = 0.04 // ~25 trail points per second (smooth, not overwhelming)
-
-      // Find first dead trail point or overwrite oldest (no closure = no GC)
-      let tIdx = -1
-      for (let ti = 0; ti < p.trail.length; ti++) {
-        if (p.trail[ti].life <= 0) { tIdx = ti; break }
-      }
-      if (tIdx === -1) tIdx = 0
-
-      const pt = p.trail[tIdx]
-      if (pt) {
-        pt.x = p.x
-        pt.y = p.y
-        pt.life = 1
-        pt.alpha = 0.18
-        pt.size = CFG.PLAYER_SIZE
-        pt.rotation = p.rotation
-        pt.scale = p.scale
-      }
-    }
-    if (e.trailTimer > 0) e.trailTimer -= dt
-
-    // Update trail locally
-    for (let i = 0; i < p.trail.length; i++) {
-      if (p.trail[i].life > 0) {
-        if (p.onGround) {
-          p.trail[i].life = 0
-          p.trail[i].alpha = 0
-        } else {
-          p.trail[i].life -= dt * 3
-          p.trail[i].alpha -= dt * 1.5
-        }
-      }
-    }
-
-    // Speed-based trail particles
-    spawnTrailParticle(e)
-
-    // --- Update candles ---
-    for (const c of e.candles) {
-      c.x -= e.speed * dt
-      c.phase += dt * c.flickerSpeed
-
-      // Moving candle animation
-      if (c.isMoving) {
-        c.movePhase += dt * c.moveSpeed
-        const wobble = Math.sin(c.movePhase) * c.moveAmplitude
-        c.bodyY = c.targetY + wobble
-        c.y = c.bodyY
-        c.bodyTop = c.bodyY + c.bodyHeight
-        c.wickTop = c.bodyY - (c.height - c.bodyHeight) * 0.6
-        c.wickBottom = c.bodyY + c.bodyHeight + (c.height - c.bodyHeight) * 0.4
-      }
-
-      // Collection progress — FASTER animation so candle disappears quickly
-      if (c.collected) c.collectProgress = Math.min(1, c.collectProgress + dt * 8)
-
-      // Score — passed candle
-      if (!c.passed) {
-        if (c.kind === 'red' && c.x + c.width < CFG.PLAYER_X) {
-          c.passed = true
-          if (!c.collected) {
-            // Balanced scoring: diminishing combo bonus (log scale)
-            const comboBonus = Math.max(1, 1 + Math.log2(Math.max(1, e.combo)))
-            const pts = CFG.RED_SCORE * comboBonus * e.scoreMultiplier * streakMultiplier
-            e.score += Math.round(pts)
-            e.scorePulse = 1
+    // --- Simulation step — input queued by handleAction/releaseJump ---
+    const input = inputRef.current
+    const events = eventsRef.current
+    events.length = 0
+    stepEngine(e, input, dt, events)
+    input.presses = 0
+    input.releases = 0
+    if (ghostRef.current) stepGhost(ghostRef.current)
+
+    // --- React to what happened: sound, haptics, particles, UI ---
+    for (const ev of events) {
+      switch (ev.type) {
+        case 'jumped':
+          jumpEffects(e)
+          break
+
+        case 'shieldBroken':
+          sfxCollect()
+          hapticCollect()
+          // Shield break particles
+          for (let i = 0; i < 8; i++) {
+            e.particles.push(mkParticle(
+              CFG.PLAYER_X + CFG.PLAYER_SIZE / 2, e.player.y + CFG.PLAYER_SIZE / 2,
+              'powerup', '#00D4FF',
+              { vx: rand(-150, 150), vy: rand(-200, -50), life: rand(0.5, 0.8), size: rand(4, 8) }
+            ))
           }
-        } else if (c.kind === 'green' && c.x + c.width < CFG.PLAYER_X - 25) {
-          c.passed = true
-          if (!c.collected) {
-            e.combo = 0
-            e.comboPulse = 0
-          }
-        }
-      }
-    }
-
-    // Remove off-screen candles AND fully-animated collected ones — IN-PLACE compaction
-    let cWrite = 0
-    for (let ci = 0; ci < e.candles.length; ci++) {
-      const c = e.candles[ci]
-      if (c.x + c.width > -100 && !(c.collected && c.collectProgress >= 1)) {
-        e.candles[cWrite++] = c
-      }
-    }
-    e.candles.length = cWrite
+          break
 
-    // --- Spawn patterns ---
-    if (e.distance >= e.nextSpawnDistance) {
-      spawnPattern(e)
-    }
-
-    // --- Collision detection — STRICT hitboxes ---
-    const px1 = CFG.PLAYER_X + GAMEPLAY.HITBOX_PAD
-    const py1 = p.y + GAMEPLAY.HITBOX_PAD
-    const px2 = CFG.PLAYER_X + CFG.PLAYER_SIZE - GAMEPLAY.HITBOX_PAD
-    const py2 = p.y + CFG.PLAYER_SIZE - GAMEPLAY.HITBOX_PAD
-
-    for (const c of e.candles) {
-      // Early exit — must be wider than green grab radius to avoid skipping collectible greens
-      if (c.collected || c.x + c.width < CFG.PLAYER_X - GAMEPLAY.GREEN_GRAB_RADIUS - 5) continue
-      if (c.x > CFG.PLAYER_X + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS + 5) continue
-
-      // Stricter candle hitbox (no margin) for Red
-      const cx1 = c.x + 1
-      const cy1 = c.bodyY + 1
-      const cx2 = c.x + c.width - 1
-      const cy2 = c.bodyY + c.bodyHeight - 1
-
-      const hitRed = px1 < cx2 && px2 > cx1 && py1 < cy2 && py2 > cy1
-
-      // Generous grab radius for Green candles
-      const laxPx1 = CFG.PLAYER_X - GAMEPLAY.GREEN_GRAB_RADIUS
-      const laxPy1 = p.y - GAMEPLAY.GREEN_GRAB_RADIUS
-      const laxPx2 = CFG.PLAYER_X + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS
-      const laxPy2 = p.y + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS
-      const hitGreen = laxPx1 < cx2 && laxPx2 > cx1 && laxPy1 < cy2 && laxPy2 > cy1
-
-      if (hitRed && c.kind === 'red') {
-        if (p.invincible <= 0) {
-          // Shield check (diamond hands power-up)
-          if (e.shieldActive) {
-            e.shieldActive = false
-            e.shieldFlashTimer = 0.3  // White screen flash (item 4)
-            p.invincible = 0.8
-            p.flash = 0.8
-            e.shakeTimer = 0.2
+        case 'collected':
+          hapticCollect()
+          if (ev.item === 'green') {
             sfxCollect()
-            hapticCollect()
-            // Shield break particles
-            for (let i = 0; i < 8; i++) {
+            // Collection particles — reduced for mobile perf
+            spawnCollectSparkle(e, ev.x, ev.y, IS_MOBILE ? 4 : 8)
+          } else {
+            sfxPowerUp()
+            // Spawn celebration particles
+            const config = POWERUP_CONFIG.TYPES[ev.item]
+            for (let i = 0; i < 10; i++) {
               e.particles.push(mkParticle(
-                CFG.PLAYER_X + CFG.PLAYER_SIZE / 2, p.y + CFG.PLAYER_SIZE / 2,
-                'powerup', '#00D4FF',
-                { vx: rand(-150, 150), vy: rand(-200, -50), life: rand(0.5, 0.8), size: rand(4, 8) }
+                ev.x, ev.y,
+                'powerup', config.color1,
+                { vx: rand(-120, 120), vy: rand(-180, -30), life: rand(0.5, 1), size: rand(3, 7) }
               ))
             }
-            continue
           }
-          // DEATH
-          e.alive = false
-          e.shakeTimer = 0.4
-          e.combo = 0  // Reset combo on death
+          break
+
+        case 'nearMiss':
+          sfxNearMiss()
+          break
+
+        case 'milestone':
+          if (ev.kind === 'combo') {
+            // 7.3 — Combo pulse at x5 milestones, stinger on named ones
+            if (ev.combo % 5 === 0) sfxCombo(ev.combo)
+            if (ev.named) sfxMarketChange()
+          } else if (ev.kind === 'market') {
+            // Market phase stinger — a rug pull hits like a death, without the death
+            sfxMarketChange()
+            if (ev.rugPull) hapticDeath()
+          } else {
+            // New World Burst Effect
+            sfxMarketChange()
+            const newWorld = WORLDS[ev.worldIndex]
+            for (let i = 0; i < (IS_MOBILE ? 15 : 30); i++) {
+              e.particles.push(mkParticle(
+                CFG.PLAYER_X + CFG.PLAYER_SIZE, e.player.y,
+                'powerup', newWorld.accent,
+                {
+                  vx: rand(50, 250),
+                  vy: rand(-250, 50),
+                  life: rand(0.5, 1.2),
+                  size: rand(4, 9),
+                  gravity: 100
+                }
+              ))
+            }
+          }
+          break
+
+        case 'died': {
           setDeathScore(e.score)
           // Compute game stats — in-place count, no array allocation
           let dodged = 0
@@ -647,22 +465,44 @@ export default function GameEngine({
             greensCollected: e.totalCollected,
             totalJumps: e.totalJumps,
             maxCombo: e.maxCombo,
+            marketCycles: e.marketCycles,
           }
           setGameStats(stats)
           setMode('gameover')
-          // 8.3 — "LIQUIDATED at $X" death message
-          const msg = getRandomDeathMessage()
+          // 8.3 — "LIQUIDATED at $X" death message; dying mid rug pull says so
+          const msg = e.rugPullTimer > 0 ? 'rug pulled!' : getRandomDeathMessage()
           setDeathMessage(msg === 'liquidated at' ? `liquidated at ${formatMarketCap(e.score)}` : msg)
           // Sound + haptic
           sfxDeath()
           hapticDeath()
-          // Save high score & new record celebration
-          if (e.score > highScoreRef.current) {
+          // Ghost races are unranked practice on a known seed — nothing is saved or verified
+          const race = raceRef.current
+          if (race) {
+            setGhostDiff(e.score - race.score)
+            spawnDeathBurst(e, IS_MOBILE ? 16 : 28)
+            return
+          }
+          const log = replayRef.current?.finish(e.frame) ?? null
+          // Save high score & new record celebration — daily runs only count on the daily board
+          const isRecord = dailyRef.current === null && e.score > highScoreRef.current
+          if (isRecord) {
             highScoreRef.current = e.score
             setBest(e.score)
             setIsNewRecord(true)
             playNewRecordFanfare()
             try { localStorage.setItem(storageKey, String(e.score)) } catch { }
+            if (log) saveBestGhost({ label: 'your best', score: e.score, replay: log, date: Date.now() })
+          }
+          // Upload the input log — the server re-simulates it before it will sign this score
+          if (log && runSessionIdRef.current) {
+            finishRef.current = fetch('/api/session/finish', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ sessionId: runSessionIdRef.current, replay: log }),
+            })
+              .then(res => res.ok ? res.json() : null)
+              .then(data => { if (typeof data?.dailyRank === 'number') setDailyRank(data.dailyRank) })
+              .catch(() => { /* score-sign will reject the unverified session */ })
           }
           // Create game session (wallet-connected only) & add to history
           gameSessionIdRef.current = null
@@ -675,12 +515,17 @@ export default function GameEngine({
               jumps: stats.totalJumps,
               combo: stats.maxCombo,
               address,
+              // Lets score-sign compare these stats against the verified replay
+              sessionId: runSessionIdRef.current,
+              // Personal bests carry their inputs so others can race them as a ghost
+              ...(isRecord && log ? { replay: log } : {}),
             }
-            fetch('/api/game-sessions', {
+            // A replay is only accepted once its run is finished, so wait for the upload
+            Promise.resolve(finishRef.current).then(() => fetch('/api/game-sessions', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify(sessionData),
-            }).then(r => r.json()).then(data => {
+            })).then(r => r.json()).then(data => {
               if (data.id) {
                 gameSessionIdRef.current = data.id
                 addGameToHistory({
@@ -700,211 +545,15 @@ export default function GameEngine({
           spawnDeathBurst(e, IS_MOBILE ? 16 : 28)
           return
         }
-      } else if (hitGreen && c.kind === 'green' && !c.collected) {
-        // COLLECT green candle
-        c.collected = true
-        const greenPts = CFG.GREEN_SCORE * e.scoreMultiplier * streakMultiplier
-        e.score += Math.round(greenPts)
-        e.combo += 1
-        e.maxCombo = Math.max(e.maxCombo, e.combo)
-        e.totalCollected += 1
-        e.slowdownTimer = CFG.SLOW_TIME
-        e.scorePulse = 1
-        e.comboPulse = 1
-        p.flash = 0.6
-        p.invincible = 0.3
-        // 7.3 — Combo pulse at x5 milestones
-        if (e.combo > 0 && e.combo % 5 === 0) {
-          e.comboPulseTimer = 0.5
-          sfxCombo(e.combo)
-        }
-        // Check for named combo milestones
-        const milestone = getComboMilestone(e.combo)
-        if (milestone) {
-          e.comboMilestoneTimer = milestone.duration
-          e.comboMilestoneName = milestone.name
-          e.comboMilestoneEmoji = milestone.emoji
-          e.comboMilestoneColor = milestone.color
-          sfxMarketChange()
-        }
-        // Sound + haptic
-        sfxCollect()
-        hapticCollect()
-        // Collection particles — reduced for mobile perf
-        spawnCollectSparkle(e, c.x + c.width / 2, c.bodyY + c.bodyHeight / 2, IS_MOBILE ? 4 : 8)
-      } else if (c.kind === 'red' && !c.passed && c.x + c.width < CFG.PLAYER_X + 5 && c.x + c.width > CFG.PLAYER_X - GAMEPLAY.NEAR_MISS_THRESHOLD && e.nearMissTimer <= 0 && (e.gameTime - e.lastNearMissTime > MARKET_CONFIG.NEAR_MISS_COOLDOWN)) {
-        // Near-miss detection: only genuine close calls with cooldown
-        const vertDistTop = Math.abs((p.y + CFG.PLAYER_SIZE - CFG.HITBOX) - c.bodyY)
-        const vertDistBot = Math.abs((p.y + CFG.HITBOX) - (c.bodyY + c.bodyHeight))
-        const passedOver = p.y + CFG.PLAYER_SIZE - CFG.HITBOX < c.bodyY && vertDistTop < MARKET_CONFIG.NEAR_MISS_DIST
-        const passedUnder = p.y + CFG.HITBOX > c.bodyY + c.bodyHeight && vertDistBot < MARKET_CONFIG.NEAR_MISS_DIST
-
-        if (passedOver || passedUnder) {
-          e.nearMissTimer = MARKET_CONFIG.NEAR_MISS_DURATION
-          e.lastNearMissTime = e.gameTime
-          e.nearMissText = 'close'
-          e.nearMissX = c.x + c.width / 2
-          e.nearMissY = c.bodyY - 20
-          e.score += Math.round(10 * streakMultiplier) // Near-miss bonus — with streak
-          sfxNearMiss()
-        }
-      }
-    }
-
-    // --- Update power-ups ---
-    for (const pu of e.powerUps) {
-      pu.x -= e.speed * dt
-      pu.phase += dt * pu.bobSpeed
-      pu.glowPhase += dt * 2
-      if (pu.collected) {
-        pu.collectProgress = Math.min(1, pu.collectProgress + dt * 3)
-        continue
-      }
-
-      // Power-up collision (AABB)
-      const puCx = pu.x + pu.size / 2
-      const puCy = pu.y + Math.sin(pu.phase) * POWERUP_CONFIG.BOB_AMPLITUDE
-      const puHalf = pu.size / 2
-      if (px1 < puCx + puHalf && px2 > puCx - puHalf && py1 < puCy + puHalf && py2 > puCy - puHalf) {
-        pu.collected = true
-        sfxPowerUp()
-        hapticCollect()
-
-        // Apply power-up effect
-        switch (pu.kind) {
-          case 'diamond_hands':
-            e.shieldActive = true
-            break
-          case 'moon_boost':
-            e.moonBoostTimer = POWERUP_CONFIG.TYPES.moon_boost.duration
-            e.scoreMultiplier = 2
-            e.moonBoostPulseActive = true  // Golden HUD pulse (item 4)
-            break
-          case 'whale_mode':
-            e.whaleTimer = POWERUP_CONFIG.TYPES.whale_mode.duration
-            e.slowdownTimer = Math.max(e.slowdownTimer, POWERUP_CONFIG.TYPES.whale_mode.duration)
-            break
-        }
-
-        // 7.4 — Camera zoom out on power-up
-        e.cameraZoom = 0.92
-
-        // Spawn celebration particles
-        const config = POWERUP_CONFIG.TYPES[pu.kind]
-        for (let i = 0; i < 10; i++) {
-          e.particles.push(mkParticle(
-            puCx, puCy,
-            'powerup', config.color1,
-            { vx: rand(-120, 120), vy: rand(-180, -30), life: rand(0.5, 1), size: rand(3, 7) }
-          ))
-        }
-      }
-    }
-
-    // Remove off-screen power-ups and fully collected ones — IN-PLACE compaction
-    let puWrite = 0
-    for (let pui = 0; pui < e.powerUps.length; pui++) {
-      const pu = e.powerUps[pui]
-      if (pu.x + pu.size > -50 && !(pu.collected && pu.collectProgress >= 1)) {
-        e.powerUps[puWrite++] = pu
-      }
-    }
-    e.powerUps.length = puWrite
-
-    // --- Power-up timers ---
-    if (e.moonBoostTimer > 0) {
-      e.moonBoostTimer -= dt
-      if (e.moonBoostTimer <= 0) {
-        e.moonBoostTimer = 0
-        e.scoreMultiplier = 1
-        e.moonBoostPulseActive = false  // End golden HUD pulse (item 4)
-      }
-    }
-    if (e.whaleTimer > 0) {
-      e.whaleTimer -= dt
-      if (e.whaleTimer <= 0) {
-        // Whale mode ends
       }
     }
 
-    // Shield flash timer (item 4)
-    if (e.shieldFlashTimer > 0) e.shieldFlashTimer -= dt
-
-    // --- World transitions ---
-    const newWorldIdx = getWorldIndex(e.score)
-    if (newWorldIdx !== e.worldIndex) {
-      e.worldIndex = newWorldIdx
-      const newWorld = WORLDS[newWorldIdx]
-      e.worldName = newWorld.name
-      e.worldBannerTimer = 3.5
-      // Update star colors for new world
-      for (const s of e.stars) s.color = newWorld.starColor
-
-      // New World Burst Effect
-      sfxMarketChange()
-      for (let i = 0; i < (IS_MOBILE ? 15 : 30); i++) {
-        e.particles.push(mkParticle(
-          CFG.PLAYER_X + CFG.PLAYER_SIZE, e.player.y,
-          'powerup', newWorld.accent,
-          {
-            vx: rand(50, 250),
-            vy: rand(-250, 50),
-            life: rand(0.5, 1.2),
-            size: rand(4, 9),
-            gravity: 100
-          }
-        ))
-      }
-    }
-
-    // --- Update stars ---
-    for (const s of e.stars) {
-      s.twinkle += dt * s.twinkleSpeed
-    }
-
-    // --- Update ground particles ---
-    for (const gp of e.groundParticles) {
-      gp.x -= e.speed * dt * gp.speed
-      gp.phase += dt * 2 * gp.speed
-      if (gp.x < -10) gp.x = CFG.WIDTH + rand(5, 30)
-    }
-
-    // --- Update particles (effects) — in-place mutation (no GC) ---
-    let writeIdx = 0
-    for (let i = 0; i < e.particles.length; i++) {
-      const pt = e.particles[i]
-      pt.life -= dt
-      if (pt.life <= 0) continue
-      pt.x += pt.vx * dt
-      pt.y += pt.vy * dt
-      pt.vy += pt.gravity * dt
-      pt.vx *= pt.friction
-      pt.rotation += pt.rotationSpeed * dt
-      e.particles[writeIdx++] = pt
-    }
-    e.particles.length = Math.min(writeIdx, CFG.PARTICLE_LIMIT)
-
-    // --- Screen shake ---
-    if (e.shakeTimer > 0) {
-      e.shakeTimer -= dt
-      const intensity = e.shakeTimer * 8
-      // Sine-based shake for smooth motion instead of random jitter
-      e.shakeX = Math.sin(e.gameTime * 67) * intensity
-      e.shakeY = Math.cos(e.gameTime * 53) * intensity
-    } else {
-      e.shakeX = 0; e.shakeY = 0
-    }
-
-    // --- World banner timer ---
-    if (e.worldBannerTimer > 0) e.worldBannerTimer -= dt
-
-    // --- Camera zoom lerp back to 1.0 (7.4) ---
-    if (e.cameraZoom < 1) {
-      e.cameraZoom = Math.min(1, e.cameraZoom + dt * 0.5)
-    }
+    // Speed-based trail particles
+    spawnTrailParticle(e)
 
     // 7.5 — Running dust particles (subtle ground trail)
-    if (p.onGround && e.alive) {
+    const p = e.player
+    if (p.onGround) {
       e.runDustTimer -= dt
       if (e.runDustTimer <= 0) {
         e.runDustTimer = IS_MOBILE ? 0.15 : 0.08
@@ -916,14 +565,6 @@ export default function GameEngine({
       }
     }
 
-    // --- Trail timer handled at line 475 (single source of truth) ---
-
-    // --- Clean up player trail particles (handled at line 477 for performance) ---
-
-    // --- Animation timers ---
-    if (e.scorePulse > 0) e.scorePulse -= dt * 3
-    if (e.comboPulse > 0) e.comboPulse -= dt * 3
-
     // --- UI update (throttled logic + Direct DOM writes) ---
     e.uiTimer += dt
     if (e.uiTimer >= CFG.UI_RATE) {
@@ -943,28 +584,13 @@ export default function GameEngine({
     }
   }, [storageKey])
 
-  // HALF_PI moved above update() for clarity
-
   // ========================================================================
   // JUMP LOGIC
   // ========================================================================
 
-  const performJump = useCallback((e: EngineState, isDouble: boolean) => {
-    e.showTutorial = false
+  /** Cosmetic side of a jump — physics already applied by stepEngine */
+  const jumpEffects = useCallback((e: EngineState) => {
     const p = e.player
-    if (isDouble) {
-      p.velocityY = CFG.DOUBLE_JUMP
-      p.jumpCount = p.maxJumps
-    } else {
-      p.velocityY = CFG.JUMP
-      p.jumpCount = 1
-    }
-    p.onGround = false
-    p.coyoteTimer = 0
-    p.squash = -0.15
-    // NaN safety after setting velocityY
-    if (!isFinite(p.velocityY)) p.velocityY = isDouble ? CFG.DOUBLE_JUMP : CFG.JUMP
-    e.totalJumps += 1
     e.shakeTimer = 0.04
 
     // Jump particles
@@ -1023,8 +649,27 @@ export default function GameEngine({
     const orphanCleanup = rafRef.current
     if (orphanCleanup) { cancelAnimationFrame(orphanCleanup); rafRef.current = null }
 
-    const engine = createEngine()
+    // Daily challenge → today's shared seed, fetched by startDaily()
+    const daily = pendingDailyRef.current
+    pendingDailyRef.current = null
+    dailyRef.current = daily ? daily.day : null
+
+    // Ghost race → replay the ghost's seed and streak; the prefetched session stays for the next ranked run
+    const selected = daily ? null : useGameStore.getState().ghost
+    const race = selected && parseReplay(selected.replay) ? selected : null
+    raceRef.current = race
+    ghostRef.current = race ? createGhost(race.replay) : null
+
+    // Play on the prefetched server seed; stale or missing → local seed (unverifiable run)
+    const session = race ? null : daily ?? nextSessionRef.current
+    const sessionFresh = !!session && Date.now() - session.fetchedAt < SESSION_PREFETCH_MAX_AGE_MS
+    const engine = createEngine(race ? race.replay.seed : sessionFresh ? session.seed : undefined)
     engine.activeTrail = activeTrail
+    engine.streakMultiplier = race ? race.replay.streak : streakMultiplier
+    replayRef.current = new ReplayRecorder(engine.seed, engine.streakMultiplier)
+    finishRef.current = null
+    inputRef.current.presses = 0
+    inputRef.current.releases = 0
 
     // Show tutorial on first play only
     if (typeof window !== 'undefined' && !localStorage.getItem('bd_played_tutorial_v2')) {
@@ -1044,20 +689,42 @@ export default function GameEngine({
     setIsNewRecord(false)
     setDeathMessage('rekt!')
     setNearRecordDiff(null)
+    setGhostDiff(null)
+    setIsDailyRun(!!daily)
+    setDailyRank(null)
     setRetryVisible(false)
     setMode('playing')
 
-    // Generate anti-cheat session ID (fire-and-forget, don't block game start)
+    // Anti-cheat session ID belongs to the seed above; fetch the next one in the background
+    runSessionIdRef.current = sessionFresh ? session.sessionId : null
     gameSessionIdRef.current = null
+    if (!race && !daily) prefetchSession()
+  }, [activeTrail, streakMultiplier, prefetchSession])
+
+  /** Fetch a daily challenge session, then start the run on its seed */
+  const startDaily = useCallback(() => {
+    if (startingDaily) return
+    setStartingDaily(true)
+    setError(null)
     fetch('/api/session/start', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ address: address || 'anonymous' }),
+      body: JSON.stringify({ address: address || 'anonymous', mode: 'daily' }),
     })
       .then(res => res.ok ? res.json() : null)
-      .then(data => { if (data?.sessionId) gameSessionIdRef.current = data.sessionId })
-      .catch(() => { /* non-critical, game still works without session */ })
-  }, [activeTrail, address])
+      .then(data => {
+        if (!data?.sessionId || typeof data.seed !== 'number' || typeof data.daily !== 'number') {
+          throw new Error('daily challenge unavailable')
+        }
+        pendingDailyRef.current = { sessionId: data.sessionId, seed: data.seed, fetchedAt: Date.now(), day: data.daily }
+        startGame()
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'daily challenge unavailable'))
+      .finally(() => setStartingDaily(false))
+  }, [address, startGame, startingDaily])
+
+  /** Retry keeps the run type: another daily attempt after a daily run */
+  const restartGame = isDailyRun ? startDaily : startGame
 
   // ========================================================================
   // INPUT HANDLERS
@@ -1069,36 +736,30 @@ export default function GameEngine({
       return
     }
     if (mode === 'gameover') {
-      startGame()
+      restartGame()
       return
     }
     if (mode !== 'playing') return
 
     const e = engineRef.current
-    const p = e.player
+    if (!e.alive) return
 
     // Prevent jump spam — require minimum time between jumps
     const now = performance.now()
     if (e.lastJumpTime && now - e.lastJumpTime < 35) return
+    e.lastJumpTime = now
 
-    // Ground jump or coyote jump
-    if (p.onGround || p.coyoteTimer > 0) {
-      performJump(e, false)
-      e.lastJumpTime = now
-    }
-    // Double jump
-    else if (p.jumpCount < p.maxJumps) {
-      performJump(e, true)
-      e.lastJumpTime = now
-    }
-    // Buffer the jump for better feel
-    else {
-      p.jumpBufferTimer = CFG.BUFFER
-    }
-  }, [mode, performJump, startGame])
+    // Resolved (jump / double / buffer) at the start of the next step — recorded for replay verification
+    replayRef.current?.press(e.frame)
+    inputRef.current.presses++
+  }, [mode, startGame, restartGame])
 
   const releaseJump = useCallback(() => {
     if (mode !== 'playing') return
+    const e = engineRef.current
+    if (!e.alive) return
+    replayRef.current?.release(e.frame)
+    inputRef.current.releases++
   }, [mode])
 
   // Wallet connect wrapper with loading state (Improvement #2)
@@ -1124,7 +785,9 @@ export default function GameEngine({
     setSubmitting(true)
     setError(null)
     try {
-      await onScoreSubmit(deathScore, gameSessionIdRef.current || undefined)
+      // The signer only accepts scores it has re-simulated — make sure the upload landed
+      if (finishRef.current) await finishRef.current
+      await onScoreSubmit(deathScore, runSessionIdRef.current || undefined)
       setSubmitted(true)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'failed to submit')
@@ -1170,7 +833,7 @@ export default function GameEngine({
       dpr: dims.dpr,
       cssW: dims.w,
       cssH: dims.h
-    }, logoRef.current, logoLoaded)
+    }, logoRef.current, logoLoaded, ghostRef.current?.engine ?? null)
   }, [logoLoaded, dims])
 
   // ========================================================================
@@ -1380,6 +1043,8 @@ export default function GameEngine({
         const trueGroundOffset = e.groundOffset
         const trueCloudOffset = e.cloudOffset
         const trueBgOffset = e.backgroundOffset
+        const ghostEngine = ghostRef.current?.engine
+        const trueGhostOffset = ghostEngine ? ghostEngine.groundOffset : 0
 
         // Interpolate player position (most impactful for smoothness)
         p.y += p.velocityY * remainder
@@ -1401,6 +1066,7 @@ export default function GameEngine({
         e.groundOffset += e.speed * remainder
         e.cloudOffset += e.speed * remainder
         e.backgroundOffset += e.speed * remainder * 0.5
+        if (ghostEngine?.alive) ghostEngine.groundOffset += ghostEngine.speed * remainder
 
         // ============================================================
         // INTERPOLATE OBSTACLE POSITIONS — eliminates candle stutter
@@ -1430,6 +1096,7 @@ export default function GameEngine({
         e.groundOffset = trueGroundOffset
         e.cloudOffset = trueCloudOffset
         e.backgroundOffset = trueBgOffset
+        if (ghostEngine) ghostEngine.groundOffset = trueGhostOffset
         for (let ci = 0; ci < e.candles.length; ci++) e.candles[ci].x = candleXSave[ci]
         for (let pi = 0; pi < e.powerUps.length; pi++) e.powerUps[pi].x = puXSave[pi]
       }
@@ -1463,11 +1130,14 @@ export default function GameEngine({
     }
 
     // Demo engine is LOCAL to this effect — never touches engineRef
-    let demoEngine = createEngine()
-    demoEngine.alive = true
-    demoEngine.showTutorial = false
-    demoEngine.player.y = CFG.GROUND - CFG.PLAYER_SIZE
-    demoEngine.player.onGround = true
+    const newDemoEngine = () => {
+      const de = createEngine()
+      de.showTutorial = false
+      return de
+    }
+    let demoEngine = newDemoEngine()
+    const demoInput: StepInput = { presses: 0, releases: 0 }
+    const demoEvents: EngineEvent[] = []
 
     // Try to cache 2D context — fall back to per-frame lookup if canvas not ready
     let demoCtx = canvasRef.current?.getContext('2d') || null
@@ -1477,6 +1147,47 @@ export default function GameEngine({
     let jumpCooldown = 0
     let cancelled = false
 
+    /** Autopilot — jump grounded reds, double-jump out of trouble, run under air candles */
+    const demoPilot = (de: EngineState): number => {
+      const dp = de.player
+      jumpCooldown -= CFG.STEP
+      if (jumpCooldown > 0) return 0
+
+      let nearestIdx = -1
+      for (let ci = 0; ci < de.candles.length; ci++) {
+        const c = de.candles[ci]
+        if (c.kind === 'red' && c.x + c.width > CFG.PLAYER_X - 10 && c.bodyY + c.bodyHeight > CFG.GROUND - CFG.PLAYER_SIZE) {
+          nearestIdx = ci
+          break
+        }
+      }
+      const nearest = nearestIdx !== -1 ? de.candles[nearestIdx] : null
+      if (!nearest) return 0
+
+      const distToCandle = nearest.x - (CFG.PLAYER_X + CFG.PLAYER_SIZE)
+      const candleSpeedFactor = de.speed * 0.25
+
+      if (dp.onGround && distToCandle < (120 + candleSpeedFactor) && distToCandle > 0) {
+        jumpCooldown = 0.1
+        return 1
+      }
+
+      if (!dp.onGround && dp.jumpCount < dp.maxJumps) {
+        const playerBottomY = dp.y + CFG.PLAYER_SIZE
+        const isDroppingInto = dp.velocityY > 0 && (playerBottomY > nearest.bodyY - 30) && distToCandle < 100 && distToCandle > -30
+        const isTall = nearest.height >= 65 && distToCandle < (80 + candleSpeedFactor * 0.5) && distToCandle > -30
+        const next = de.candles[nearestIdx + 1]
+        const isHittingNext = !!next && next.kind === 'red' &&
+          (next.x - (CFG.PLAYER_X + CFG.PLAYER_SIZE)) < 160 && dp.velocityY > 0
+
+        if (isDroppingInto || isTall || isHittingNext) {
+          jumpCooldown = 0.3
+          return 1
+        }
+      }
+      return 0
+    }
+
     const demoLoop = (t: number) => {
       if (cancelled) return
 
@@ -1490,181 +1201,20 @@ export default function GameEngine({
       if (demoAcc > CFG.STEP * 4) demoAcc = CFG.STEP * 2
 
       while (demoAcc >= CFG.STEP) {
-        const de = demoEngine
-        const dp = de.player
-
-        de.gameTime += CFG.STEP
-        de.difficulty = clamp(de.score / 4000, 0, 1)
-        const sMult = getSpeed(de.score).multiplier
-        de.speed = lerp(de.speed, CFG.BASE_SPEED * sMult, CFG.STEP * 4)
-        de.distance += de.speed * CFG.STEP
-        de.distanceTraveled += de.speed * CFG.STEP
-        de.backgroundOffset += de.speed * CFG.STEP * 0.5
-        de.groundOffset += de.speed * CFG.STEP
-        de.cloudOffset += de.speed * CFG.STEP
-
-        // Player physics
-        const dGrav = dp.velocityY < 0 ? CFG.GRAVITY_UP : CFG.GRAVITY_DOWN
-        dp.velocityY += dGrav * CFG.STEP
-        dp.velocityY = Math.min(dp.velocityY, CFG.MAX_FALL)
-        dp.y += dp.velocityY * CFG.STEP
-
-        // NaN safety
-        if (isNaN(dp.scale) || !isFinite(dp.scale)) dp.scale = 1
-        if (isNaN(dp.y) || !isFinite(dp.y)) dp.y = CFG.GROUND - CFG.PLAYER_SIZE
-
-        // Ground collision
-        if (dp.y >= CFG.GROUND - CFG.PLAYER_SIZE) {
-          dp.y = CFG.GROUND - CFG.PLAYER_SIZE
-          if (dp.velocityY > 150) dp.squash = clamp(dp.velocityY / 800, 0.1, 0.25)
-          dp.velocityY = 0
-          dp.onGround = true
-          dp.jumpCount = 0
-          dp.rotation = Math.round(dp.rotation / (Math.PI / 2)) * (Math.PI / 2)
-        } else {
-          dp.onGround = false
-        }
-        if (dp.y < 0) { dp.y = 0; dp.velocityY = 0 }
-
-        // Rotation
-        if (dp.onGround) {
-          const snapTarget = Math.round(dp.rotation / (Math.PI / 2)) * (Math.PI / 2)
-          dp.rotation = lerp(dp.rotation, snapTarget, CFG.STEP * 20)
-        } else {
-          dp.rotation += 11.5 * CFG.STEP
-          if (dp.rotation > 62.83) dp.rotation -= 62.83
-        }
-        dp.squash = lerp(dp.squash, 0, CFG.STEP * 12)
-        dp.scale = 1 + dp.squash * (dp.velocityY < 0 ? -0.3 : 0.4)
-        dp.tilt = lerp(dp.tilt, clamp(dp.velocityY / 800, -1, 1), CFG.STEP * CFG.TILT_SPEED)
-
-        // Move candles — in-place compaction (NO .filter())
-        for (const c of de.candles) {
-          c.x -= de.speed * CFG.STEP
-          c.phase += CFG.STEP * c.flickerSpeed
-          if (c.collected) c.collectProgress = Math.min(1, c.collectProgress + CFG.STEP * 5)
-        }
-        let cw = 0
-        for (let ci = 0; ci < de.candles.length; ci++) {
-          const c = de.candles[ci]
-          if (c.x + c.width > -100 && !(c.collected && c.collectProgress >= 1)) {
-            de.candles[cw++] = c
-          }
-        }
-        de.candles.length = cw
-
-        // Spawn red + green candles for demo mode
-        if (de.distance >= de.nextSpawnDistance) {
-          const gap = 380 + Math.random() * 200
-          de.nextSpawnDistance = de.distance + gap
-          // Every 3rd candle is green (in the air), rest are red
-          if (de.nextCandleId % 3 === 0) {
-            const c = createCandle(de.nextCandleId++, 'green', CFG.WIDTH + 140, 50, 22)
-            c.bodyY = CFG.GROUND - CFG.PLAYER_SIZE - 60
-            c.y = c.bodyY
-            c.bodyTop = c.bodyY + c.bodyHeight
-            c.glowIntensity = 0.8
-            de.candles.push(c)
-          } else {
-            const c = createCandle(de.nextCandleId++, 'red', CFG.WIDTH + 140, 90, 30)
-            c.glowIntensity = 0.5
-            de.candles.push(c)
-          }
-        }
+        demoInput.presses = demoPilot(demoEngine)
+        demoEvents.length = 0
+        stepEngine(demoEngine, demoInput, CFG.STEP, demoEvents)
 
-        // === SIMPLE DEMO COLLISION ===
-        const px1 = CFG.PLAYER_X + 5
-        const py1 = dp.y + 5
-        const px2 = CFG.PLAYER_X + CFG.PLAYER_SIZE - 5
-        const py2 = dp.y + CFG.PLAYER_SIZE - 5
-        let demoHit = false
-        for (const c of de.candles) {
-          if (c.kind !== 'red') continue
-          const cx1 = c.x + 1
-          const cy1 = c.bodyY + 1
-          const cx2 = c.x + c.width - 1
-          const cy2 = c.bodyY + c.bodyHeight - 1
-          if (px1 < cx2 && px2 > cx1 && py1 < cy2 && py2 > cy1) {
-            demoHit = true
-            break
-          }
-        }
-        if (demoHit) {
-          // Soft reset on hit
-          dp.y = CFG.GROUND - CFG.PLAYER_SIZE
-          dp.velocityY = 0
-          dp.onGround = true
-          dp.jumpCount = 0
-
-          let dw = 0
-          for (let di = 0; di < de.candles.length; di++) {
-            if (de.candles[di].x > CFG.PLAYER_X + CFG.PLAYER_SIZE + 40) {
-              de.candles[dw++] = de.candles[di]
-            }
-          }
-          de.candles.length = dw
+        // Soft reset on hit — the demo never ends
+        if (!demoEngine.alive) {
+          demoEngine = newDemoEngine()
           jumpCooldown = 0.3
         }
 
-        // AI jump logic
-        jumpCooldown -= CFG.STEP
-        let nearestIdx = -1
-        for (let ci = 0; ci < de.candles.length; ci++) {
-          if (de.candles[ci].kind === 'red' && de.candles[ci].x + de.candles[ci].width > CFG.PLAYER_X - 10) {
-            nearestIdx = ci
-            break
-          }
-        }
-        const nearest = nearestIdx !== -1 ? de.candles[nearestIdx] : null
-
-        if (nearest) {
-          const distToCandle = nearest.x - (CFG.PLAYER_X + CFG.PLAYER_SIZE)
-          const candleSpeedFactor = de.speed * 0.25
-
-          if (jumpCooldown <= 0 && dp.onGround && distToCandle < (120 + candleSpeedFactor) && distToCandle > 0) {
-            dp.velocityY = CFG.JUMP
-            dp.onGround = false
-            dp.squash = -0.12
-            dp.jumpCount = 1
-            jumpCooldown = 0.1
-          }
-
-          if (!dp.onGround && dp.jumpCount < 2) {
-            const playerBottomY = dp.y + CFG.PLAYER_SIZE
-            const candleTopY = nearest.bodyY
-            const isDroppingInto = dp.velocityY > 0 && (playerBottomY > candleTopY - 30) && distToCandle < 100 && distToCandle > -30
-            const isTall = nearest.height >= 65 && distToCandle < (80 + candleSpeedFactor * 0.5) && distToCandle > -30
-            const isHittingNext = nearestIdx + 1 < de.candles.length && de.candles[nearestIdx + 1]?.kind === 'red' &&
-              (de.candles[nearestIdx + 1].x - (CFG.PLAYER_X + CFG.PLAYER_SIZE)) < 160 && dp.velocityY > 0
-
-            if (isDroppingInto || isTall || isHittingNext) {
-              dp.velocityY = CFG.DOUBLE_JUMP
-              dp.jumpCount = 2
-              jumpCooldown = 0.3
-            }
-          }
-        }
-
-        // Score passed candles — demo doesn't accumulate score (prevents world transitions)
-        for (const c of de.candles) {
-          if (!c.passed && c.x + c.width < CFG.PLAYER_X) {
-            c.passed = true
-          }
-          // Auto-collect greens on proximity
-          if (c.kind === 'green' && !c.collected) {
-            const gx = c.x + c.width / 2
-            const gy = c.bodyY + c.bodyHeight / 2
-            const ppx = CFG.PLAYER_X + CFG.PLAYER_SIZE / 2
-            const ppy = dp.y + CFG.PLAYER_SIZE / 2
-            if (Math.abs(gx - ppx) < 35 && Math.abs(gy - ppy) < 35) {
-              c.collected = true
-            }
-          }
-        }
-        // Force score to 0 so renderer always shows world 0
-        de.score = 0
-        de.worldIndex = 0
-        de.worldBannerTimer = 0
+        // Demo doesn't accumulate score (keeps world 0 and the gentlest patterns),
+        // but the pilot gets its double jump from the start
+        demoEngine.score = 0
+        demoEngine.player.maxJumps = 2
 
         demoAcc -= CFG.STEP
       }
@@ -1793,6 +1343,33 @@ export default function GameEngine({
               <div className="absolute inset-0 bg-gradient-to-r from-white/0 via-white/20 to-white/0 animate-[shimmerVov_2.5s_ease-in-out_infinite] rounded-none" />
             </button>
 
+            {/* Daily challenge — same seed for everyone today */}
+            <button
+              onClick={(e) => { e.stopPropagation(); startDaily() }}
+              disabled={startingDaily}
+              className="w-full border border-[#F0B90B]/50 bg-white/60 px-3 py-1.5 text-[8px] font-black text-[#B78905] lowercase tracking-widest hover:bg-[#F0B90B] hover:text-white active:scale-[0.98] transition-all rounded-none disabled:opacity-50"
+              style={{ fontFamily: 'var(--font-mono, monospace)' }}
+            >
+              {startingDaily ? 'loading...' : 'daily challenge'}
+            </button>
+            {error && <p className="text-[#F6465D] text-[7px] font-black lowercase tracking-widest -mt-2">{error.toLowerCase()}</p>}
+
+            {/* Ghost race — selected ghost, or offer to race the personal best */}
+            {ghost ? (
+              <div className="w-full flex items-center justify-between gap-2 px-2.5 py-1.5 border border-[#8B5CF6]/30 bg-[#8B5CF6]/5 rounded-none" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
+                <span className="text-[8px] font-black text-[#8B5CF6] lowercase tracking-widest truncate">racing {ghost.label} · {formatMarketCap(ghost.score)}</span>
+                <button onClick={(e) => { e.stopPropagation(); setGhost(null) }} aria-label="Stop racing ghost" className="text-[10px] font-black text-[#8B5CF6]/70 hover:text-[#8B5CF6]">×</button>
+              </div>
+            ) : bestGhost ? (
+              <button
+                onClick={(e) => { e.stopPropagation(); setGhost(bestGhost); startGame() }}
+                className="w-full border border-[#8B5CF6]/40 bg-white/60 px-3 py-1.5 text-[8px] font-black text-[#8B5CF6] lowercase tracking-widest hover:bg-[#8B5CF6] hover:text-white active:scale-[0.98] transition-all rounded-none"
+                style={{ fontFamily: 'var(--font-mono, monospace)' }}
+              >
+                race your best ghost
+              </button>
+            ) : null}
+
             {/* Hint Text */}
             <div className="text-center" style={{ animation: 'menuFadeIn 0.4s cubic-bezier(0.16, 1, 0.3, 1) both', animationDelay: '0.25s' }}>
               <p className="text-[7px] font-bold text-slate-500 tracking-[0.2em] uppercase" style={{ fontFamily: 'var(--font-mono, monospace)' }}>TAP TO START</p>
@@ -1850,6 +1427,26 @@ export default function GameEngine({
                 </div>
               </div>
 
+              {isDailyRun && (
+                <div className="mb-1.5 bg-[#FFFBEB] px-2 py-1 rounded-none border border-[#F0B90B]/30 text-center">
+                  <p className="text-[7px] font-black text-[#B78905] lowercase tracking-widest">
+                    daily challenge · {dailyRank !== null ? `today's rank #${dailyRank}` : address ? 'verifying...' : 'connect to rank'}
+                  </p>
+                  {canCheckIn && (
+                    <p className="mt-0.5 text-[6px] font-bold text-[#D4A002] lowercase tracking-widest">check in to keep your 🔥 streak</p>
+                  )}
+                </div>
+              )}
+
+              {ghostDiff !== null && ghost && (
+                <div className="mb-1.5 bg-[#8B5CF6]/5 px-2 py-1 rounded-none border border-[#8B5CF6]/30 text-center flex items-center justify-between gap-1">
+                  <p className="text-[7px] font-black text-[#8B5CF6] lowercase tracking-widest truncate">
+                    {ghostDiff >= 0 ? `beat ${ghost.label} by ${formatMarketCap(ghostDiff)}` : `${formatMarketCap(-ghostDiff)} behind ${ghost.label}`} · practice run
+                  </p>
+                  <button onClick={() => setGhost(null)} className="text-[7px] font-black text-[#8B5CF6]/70 hover:text-[#8B5CF6] lowercase tracking-widest flex-shrink-0">race off</button>
+                </div>
+              )}
+
               {nearRecordDiff !== null && (
                 <div className="mb-1.5 bg-[#FFFBEB] px-2 py-1 rounded-none border border-[#F0B90B]/30 text-center flex items-center justify-center gap-1">
                   <svg className="w-2.5 h-2.5 text-[#F0B90B]" fill="currentColor" viewBox="0 0 20 20"><path d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" /></svg>
@@ -1858,7 +1455,7 @@ export default function GameEngine({
               )}
 
               {gameStats && (
-                <div className="grid grid-cols-4 gap-1 mb-1.5 text-center text-[7px] font-bold">
+                <div className="grid grid-cols-5 gap-1 mb-1.5 text-center text-[7px] font-bold">
                   <div className="bg-slate-50 px-1 py-0.5 rounded border border-slate-200">
                     <p className="text-slate-400 lowercase tracking-widest mb-0.5" style={{ fontSize: '6px' }}>time</p>
                     <p className="text-slate-700 font-black text-[8px] sm:text-[9px]">{Math.floor(gameStats.timeSurvived)}s</p>
@@ -1875,10 +1472,14 @@ export default function GameEngine({
                     <p className="text-slate-400 lowercase tracking-widest mb-0.5" style={{ fontSize: '6px' }}>jumps</p>
                     <p className="text-slate-700 font-black text-[8px] sm:text-[9px]">{gameStats.totalJumps}</p>
                   </div>
+                  <div className="bg-slate-50 px-1 py-0.5 rounded border border-slate-200">
+                    <p className="text-slate-400 lowercase tracking-widest mb-0.5" style={{ fontSize: '6px' }}>cycles</p>
+                    <p className="text-slate-700 font-black text-[8px] sm:text-[9px]">{gameStats.marketCycles}</p>
+                  </div>
                 </div>
               )}
 
-              {(submitted || isScoreConfirmed) ? (
+              {submitted && submitStatus === 'confirmed' ? (
                 <div className="mb-1.5 bg-[#e8f8f0] border border-[#0ECB81] px-2 py-1 rounded-none flex flex-col items-center justify-center">
                   <div className="flex items-center gap-1">
                     <svg className="w-3 h-3 text-[#0ECB81]" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
@@ -1890,6 +1491,27 @@ export default function GameEngine({
                     </a>
                   )}
                 </div>
+              ) : submitted && submitStatus === 'failed' ? (
+                <div className="mb-1.5 bg-[#FFF0F2] border border-[#F6465D]/40 px-2 py-1 rounded-none flex flex-col items-center justify-center">
+                  <span className="text-[8px] font-black text-[#F6465D] lowercase tracking-widest">not saved — tx failed</span>
+                  {submitTxHash && (
+                    <a href={`https://${process.env.NEXT_PUBLIC_USE_TESTNET === 'true' ? 'sepolia.' : ''}basescan.org/tx/${submitTxHash}`} target="_blank" rel="noopener noreferrer" className="mt-0.5 text-[6px] font-black font-mono text-[#0A0B14] hover:text-[#0052FF] underline opacity-90 transition-colors lowercase tracking-widest">
+                      view tx ↗
+                    </a>
+                  )}
+                </div>
+              ) : submitted ? (
+                <div className="mb-1.5 bg-slate-50 border border-slate-200 px-2 py-1 rounded-none flex flex-col items-center justify-center">
+                  <div className="flex items-center gap-1">
+                    <span className="w-1.5 h-1.5 bg-[#0052FF] animate-pulse" />
+                    <span className="text-[8px] font-black text-slate-500 lowercase tracking-widest">pending — confirming on base</span>
+                  </div>
+                  {submitTxHash && (
+                    <a href={`https://${process.env.NEXT_PUBLIC_USE_TESTNET === 'true' ? 'sepolia.' : ''}basescan.org/tx/${submitTxHash}`} target="_blank" rel="noopener noreferrer" className="mt-0.5 text-[6px] font-black font-mono text-[#0A0B14] hover:text-[#0052FF] underline opacity-90 transition-colors lowercase tracking-widest">
+                      view tx ↗
+                    </a>
+                  )}
+                </div>
               ) : isNewRecord ? (
                 isConnected && canSubmitScore && deathScore > 0 ? (
                   submitting ? (
@@ -1912,7 +1534,7 @@ export default function GameEngine({
 
               {error && <p className="text-[#F6465D] text-[6px] sm:text-[7px] font-black mb-1.5 bg-[#FFF0F2] px-2 py-1 rounded text-center border border-[#F6465D]/30 lowercase tracking-widest">{error.toLowerCase()}</p>}
 
-              <button onClick={startGame} className={`w-full border border-slate-200 bg-white px-2 py-2 text-[9px] sm:text-[10px] font-black text-slate-800 lowercase tracking-widest active:bg-slate-900 active:text-white active:border-slate-900 active:scale-[0.98] transition-all rounded-none ${retryVisible ? 'opacity-100' : 'opacity-0 scale-95 pointer-events-none'}`} style={retryVisible ? { animation: 'retryPopIn 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards' } : undefined}>
+              <button onClick={restartGame} className={`w-full border border-slate-200 bg-white px-2 py-2 text-[9px] sm:text-[10px] font-black text-slate-800 lowercase tracking-widest active:bg-slate-900 active:text-white active:border-slate-900 active:scale-[0.98] transition-all rounded-none ${retryVisible ? 'opacity-100' : 'opacity-0 scale-95 pointer-events-none'}`} style={retryVisible ? { animation: 'retryPopIn 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275) forwards' } : undefined}>
                 run it back
               </button>
 
@@ -4,13 +4,22 @@
  * ============================================================================
  *
  * All game constants, type definitions, world themes, speed tiers,
- * creation helpers, utility functions, and spawn-pattern generators.
+ * creation helpers, utility functions, and spawning (pattern data lives in
+ * patterns.json, validated by gamePatterns.ts).
  *
  * Trading-candle endless runner in the style of Geometry Dash,
  * designed for the Base blockchain mini-app ecosystem.
  * ============================================================================
  */
 
+import type { Course } from './gameCourse'
+import patternData from './patterns.json'
+import {
+    AIR_LIFT_RANGE, CANDLE_SIZE, MULTIPLIER_LIMITS,
+    loadPatternLibrary, pickPattern,
+} from './gamePatterns'
+import { isPatternSurvivable, tierSpeed } from './gameReachability'
+
 // ============================================================================
 // MOBILE DETECTION
 // ============================================================================
@@ -263,11 +272,21 @@ export const POWERUP_CONFIG = {
 } as const
 
 export const MARKET_CONFIG = {
-    /** Seconds between market cycles */
+    /** Market cycle on/off — changes spawning and speed, so REPLAY_VERSION follows it */
+    ENABLED: true,
+    /** Seconds per market phase: neutral warmup, then bull and bear in turn */
     CYCLE_TIME: 25,
-    /** Bull = more greens, bear = more reds + faster */
+    /** Bull = extra chance a red spawns green, bear = faster */
     BULL_GREEN_BONUS: 0.15,
     BEAR_SPEED_MULT: 1.12,
+    /** Chance a bull phase ends in a rug pull instead of a plain turn to bear */
+    RUG_PULL_CHANCE: 0.35,
+    /** How far the floor drops (px), how fast it falls and how slowly it comes back (s) */
+    RUG_PULL_DEPTH: 90,
+    RUG_PULL_DROP_TIME: 0.15,
+    RUG_PULL_RISE_TIME: 0.8,
+    /** Phase-change banner display time */
+    BANNER_TIME: 3,
     /** Near-miss threshold in pixels (extremely tight for rarity) */
     NEAR_MISS_DIST: 10,
     /** Near-miss slow-mo duration */
@@ -492,13 +511,40 @@ export interface EngineState {
     comboMilestoneColor: string
     /** World progress percentage (0-1) to next world */
     worldProgressPct: number
+    /** Run seed — same seed + same inputs = same obstacle stream */
+    seed: number
+    /** Current PRNG state, advanced by every gameplay roll */
+    rngState: number
+    /** Physics steps simulated this run — the replay clock */
+    frame: number
+    /** Daily-streak score multiplier, frozen for the whole run */
+    streakMultiplier: number
+    /** Current market phase (MARKET_CONFIG) */
+    market: MarketState
+    /** Seconds left in the current market phase */
+    marketTimer: number
+    /** Phase-change banner timer */
+    marketBannerTimer: number
+    /** Full bull + bear cycles survived this run */
+    marketCycles: number
+    /** Seconds left in an active rug pull */
+    rugPullTimer: number
+    /** How far the floor has dropped (px) — the renderer shifts the world down by it */
+    floorDrop: number
+    /** Hand-authored course being played (gameCourse.ts) — null for procedural runs */
+    course: Course | null
+    /** Next course candle / power-up to spawn */
+    courseCandleIdx: number
+    coursePowerUpIdx: number
+    /** Reached the end of the course alive */
+    courseComplete: boolean
 }
 
 // ============================================================================
 // CONFIGURATION — Physics, Limits, Scoring
 // ============================================================================
 
-// Initial defaults (overridden on mount by updateGameConfig)
+// Defaults — every run simulates these; updateGameConfig() only retunes the cosmetic budgets
 export const CFG = {
     WIDTH: 960,
     HEIGHT: 540,
@@ -552,6 +598,10 @@ export const CFG = {
     GROUND_PARTICLE_COUNT: IS_MOBILE ? 16 : 24,
     MAX_POWERUPS: 3,
 
+    // Re-roll patterns the reachability solver can't clear. Off by default:
+    // replays simulate the default CFG, and re-rolls change the spawn stream
+    REROLL_UNREACHABLE: false,
+
     // Full HD quality settings
     MAX_DPR: IS_MOBILE ? 1.5 : 2,  // 1.5 on mobile still looks retina, saves GPU
 };
@@ -786,8 +836,11 @@ export const lerpAngle = (a: number, b: number, t: number): number => {
     return a + diff * clamp(t, 0, 1)
 }
 
-export const rand = (min: number, max: number): number =>
-    Math.random() * (max - min) + min
+/** Source of uniform floats in [0, 1) — Math.random or a seeded engine RNG */
+export type RandomFn = () => number
+
+export const rand = (min: number, max: number, rng: RandomFn = Math.random): number =>
+    rng() * (max - min) + min
 
 export const randInt = (min: number, max: number): number =>
     Math.floor(rand(min, max + 1))
@@ -847,6 +900,27 @@ export const formatMarketCap = (score: number): string => {
     return '$' + result
 }
 
+// ============================================================================
+// SEEDED RNG — Deterministic obstacle stream
+// ============================================================================
+// Everything that shapes gameplay (patterns, candle geometry, power-ups) must
+// draw from the engine RNG. Cosmetics (stars, particles) keep Math.random.
+
+/** Random 32-bit seed for runs that weren't issued one by the server */
+export const createSeed = (): number => (Math.random() * 0x100000000) >>> 0
+
+/** mulberry32 — advances e.rngState and returns a float in [0, 1) */
+export const nextRandom = (e: { rngState: number }): number => {
+    e.rngState = (e.rngState + 0x6D2B79F5) >>> 0
+    let t = e.rngState
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+/** Bind the engine RNG as a RandomFn for rand()/createCandle() */
+export const engineRng = (e: { rngState: number }): RandomFn => () => nextRandom(e)
+
 // ============================================================================
 // CREATION FUNCTIONS
 // ============================================================================
@@ -912,10 +986,11 @@ export const createCandle = (
     kind: CandleKind,
     x: number,
     height: number,
-    width: number
+    width: number,
+    rng: RandomFn = Math.random
 ): Candle => {
-    const upperWick = height * rand(0.18, 0.26)
-    const lowerWick = height * rand(0.08, 0.14)
+    const upperWick = height * rand(0.18, 0.26, rng)
+    const lowerWick = height * rand(0.08, 0.14, rng)
     const bodyHeight = height - upperWick - lowerWick
     const bodyY = CFG.GROUND - lowerWick - bodyHeight
 
@@ -932,14 +1007,14 @@ export const createCandle = (
         wickTop: bodyY - upperWick,
         wickBottom: bodyY + bodyHeight + lowerWick,
         passed: false, collected: false,
-        phase: rand(0, Math.PI * 2),
-        flickerSpeed: rand(6, 10),
+        phase: rand(0, Math.PI * 2, rng),
+        flickerSpeed: rand(6, 10, rng),
         collectProgress: 0,
         targetY: bodyY,
-        moveSpeed: rand(0.8, 1.5),
-        movePhase: rand(0, Math.PI * 2),
+        moveSpeed: rand(0.8, 1.5, rng),
+        movePhase: rand(0, Math.PI * 2, rng),
         isMoving: false,
-        moveAmplitude: rand(15, 30),
+        moveAmplitude: rand(15, 30, rng),
         glowIntensity: 1,
         sizeClass,
     }
@@ -951,7 +1026,7 @@ export const createCandle = (
 
 const FIRST_SPAWN_DIST = 180 // Spawns first obstacle very quickly (Item 9)
 
-export const createEngine = (): EngineState => ({
+export const createEngine = (seed: number = createSeed()): EngineState => ({
     player: createPlayer(),
     candles: [],
     powerUps: [],
@@ -1012,21 +1087,86 @@ export const createEngine = (): EngineState => ({
     comboMilestoneEmoji: '',
     comboMilestoneColor: '',
     worldProgressPct: 0,
+    seed: seed >>> 0,
+    rngState: seed >>> 0,
+    frame: 0,
+    streakMultiplier: 1,
+    market: 'neutral',
+    marketTimer: MARKET_CONFIG.CYCLE_TIME,
+    marketBannerTimer: 0,
+    marketCycles: 0,
+    rugPullTimer: 0,
+    floorDrop: 0,
+    course: null,
+    courseCandleIdx: 0,
+    coursePowerUpIdx: 0,
+    courseComplete: false,
 })
 
 // ============================================================================
-// SPAWN PATTERNS — Massive variety, always beatable
+// JUMP LOGIC — Shared by the live game and the replay verifier
+// ============================================================================
+
+export type JumpResult = 'jump' | 'double' | 'buffer'
+
+/** Jump physics only — particles, sound and haptics are the caller's job */
+export const applyJump = (e: EngineState, isDouble: boolean): void => {
+    e.showTutorial = false
+    const p = e.player
+    if (isDouble) {
+        p.velocityY = CFG.DOUBLE_JUMP
+        p.jumpCount = p.maxJumps
+    } else {
+        p.velocityY = CFG.JUMP
+        p.jumpCount = 1
+    }
+    p.onGround = false
+    p.coyoteTimer = 0
+    p.squash = -0.15
+    // NaN safety after setting velocityY
+    if (!isFinite(p.velocityY)) p.velocityY = isDouble ? CFG.DOUBLE_JUMP : CFG.JUMP
+    e.totalJumps += 1
+}
+
+/** Resolve a (debounced) jump press: ground/coyote jump, double jump, or buffer it */
+export const pressJump = (e: EngineState): JumpResult => {
+    const p = e.player
+    if (p.onGround || p.coyoteTimer > 0) {
+        applyJump(e, false)
+        return 'jump'
+    }
+    if (p.jumpCount < p.maxJumps) {
+        applyJump(e, true)
+        return 'double'
+    }
+    p.jumpBufferTimer = CFG.BUFFER
+    return 'buffer'
+}
+
+// ============================================================================
+// SPAWN PATTERNS — Data-driven (patterns.json, see gamePatterns.ts)
 // ============================================================================
 
+/** Extra rolls before spawnPattern gives up and keeps an unproven pattern */
+const MAX_PATTERN_REROLLS = 8
+
+/** Validated once against the default physics — replays always run on it */
+export const PATTERN_LIBRARY = loadPatternLibrary(patternData, CFG)
+if (PATTERN_LIBRARY.rejected.length > 0) {
+    console.warn('[patterns] rejected:', PATTERN_LIBRARY.rejected)
+}
+
 /**
  * Spawn a pattern of candles at the right edge of the screen.
  * Patterns scale with difficulty (complexity 0-5).
- * All patterns are designed to be beatable with single or double jump.
+ * The library loader rejects patterns that can't be cleared with single or double jump.
+ * With CFG.REROLL_UNREACHABLE, rolls the reachability solver can't clear are re-rolled.
  * Green candles only spawn after 10 red candles — learn the basics first.
  * BALANCED: Slower difficulty ramp, more green candles, easier patterns
  */
 export const spawnPattern = (e: EngineState): void => {
     e.spawnCount++
+    const rng = engineRng(e)
     // MUCH SLOWER difficulty ramp - divided by 4000 instead of 2500
     const diff = 1 - Math.exp(-e.score / 4000)
     // Time-based warmup: first 12s is gentler (was 8s)
@@ -1037,10 +1177,9 @@ export const spawnPattern = (e: EngineState): void => {
     const complexity = Math.min(maxComplexity, Math.floor(effectiveDiff * 5))
     const startX = CFG.WIDTH + 140
 
-    // INCREASED BASE SIZES for all candles
-    const baseH = lerp(75, 130, diff * 0.7)  // Taller candles (was 52-88)
-    const baseW = lerp(26, 42, diff * 0.7)   // Wider candles (was 18-32)
-    const maxHM = 1.3 // Reduced from 1.4 - easier jumps
+    // Base sizes grow with difficulty — limits live with the pattern library
+    const baseH = lerp(CANDLE_SIZE.HEIGHT_MIN, CANDLE_SIZE.HEIGHT_MAX, diff * CANDLE_SIZE.RAMP)
+    const baseW = lerp(CANDLE_SIZE.WIDTH_MIN, CANDLE_SIZE.WIDTH_MAX, diff * CANDLE_SIZE.RAMP)
 
     // Green candles allowed earlier - after 6 red candles (was 10)
     const allowGreen = e.spawnCount >= 6
@@ -1054,124 +1193,60 @@ export const spawnPattern = (e: EngineState): void => {
         isAir = false,
         yOffset?: number
     ): void => {
-        const h = clamp(hM, 0.4, maxHM)
-        const actualKind = (kind === 'green' && !allowGreen) ? 'red' : kind
+        const h = clamp(hM, MULTIPLIER_LIMITS.HEIGHT[0], MULTIPLIER_LIMITS.HEIGHT[1])
+        let actualKind = (kind === 'green' && !allowGreen) ? 'red' : kind
+        // Bull market — some reds turn green (no roll outside bull, so the stream is untouched)
+        if (actualKind === 'red' && allowGreen && e.market === 'bull' && rng() < MARKET_CONFIG.BULL_GREEN_BONUS) {
+            actualKind = 'green'
+        }
         const candle = createCandle(
             e.nextCandleId++,
             actualKind,
             startX + offset,
-            baseH * rand(0.85, 1.1) * h,
-            baseW * rand(0.9, 1.08) * clamp(wM, 0.6, 1.4)
+            baseH * rand(CANDLE_SIZE.HEIGHT_JITTER[0], CANDLE_SIZE.HEIGHT_JITTER[1], rng) * h,
+            baseW * rand(CANDLE_SIZE.WIDTH_JITTER[0], CANDLE_SIZE.WIDTH_JITTER[1], rng) * clamp(wM, MULTIPLIER_LIMITS.WIDTH[0], MULTIPLIER_LIMITS.WIDTH[1]),
+            rng
         )
         // Moving candles - much rarer, only after score 400
-        if (moving || (e.score >= 400 && Math.random() < 0.06 * diff)) {
+        if (moving || (e.score >= 400 && rng() < 0.06 * diff)) {
             candle.isMoving = true
-            candle.moveAmplitude = rand(15, 35) // Increased movement range
+            candle.moveAmplitude = rand(15, 35, rng) // Increased movement range
         }
         // Air candles - INCREASED HEIGHT and FREQUENCY to use the top screen
-        if (isAir || Math.random() < 0.40 * diff) { // Increased from 0.35
+        if (isAir || rng() < 0.40 * diff) { // Increased from 0.35
             // Make air candles significantly higher
-            const lift = yOffset !== undefined ? yOffset : (isAir ? rand(90, 160) : rand(40, 90))
+            const lift = yOffset !== undefined ? yOffset : (isAir ? rand(AIR_LIFT_RANGE[0], AIR_LIFT_RANGE[1], rng) : rand(40, 90, rng))
             candle.bodyY -= lift; candle.y -= lift; candle.bodyTop -= lift
             candle.wickTop -= lift; candle.wickBottom -= lift
-            if (Math.random() > 0.5) { // More likely to move
+            if (rng() > 0.5) { // More likely to move
                 candle.isMoving = true
-                candle.moveAmplitude = rand(15, 30) // Broader movement up high
+                candle.moveAmplitude = rand(15, 30, rng) // Broader movement up high
             }
         }
         e.candles.push(candle)
     }
 
-    // Pattern selection — BALANCED: more green candles, easier patterns
-    const roll = Math.random()
-
-    // --- COMPLEXITY 0: Single candles & Early variety ---
-    if (complexity === 0) {
-        if (roll < 0.08) push(0, 'red', 0.8, 1.2)  // wide
-        else if (roll < 0.18) push(0, 'red', 1.35, 0.65)  // tall narrow
-        else if (roll < 0.32) push(0, 'red', 0.9, 1.0, false, true, 110)  // AIR CANDLE (higher)
-        else if (roll < 0.44) push(0, 'red', 1.25, 0.6, false, true, 120)  // TALL AIR CANDLE (higher)
-        else if (roll < 0.54) push(0, 'red', 0.75, 1.1, false, true, 100)  // SHORT WIDE AIR (higher)
-        else if (roll < 0.66) push(0, 'green', 1.0, 1.0, false, true, 95)  // GREEN AIR (higher)
-        else if (roll < 0.78) push(0, 'green', 0.9, 1.0, false, true, 100)  // GREEN AIR small (higher)
-        else if (roll < 0.86) push(0, 'red', 0.85)  // normal short
-        else if (roll < 0.93) push(0, 'red', 1.1)  // normal tall
-        else push(0, 'green', 1.0, 1.0)  // green ground
-
-        // --- COMPLEXITY 1: Pairs bringing "Jump then Duck" variety instantly ---
-    } else if (complexity === 1) {
-        if (roll < 0.10) { push(0, 'red', 0.9); push(150, 'red', 0.8, 1.0, false, true, 115) } // Jump normal -> Duck air
-        else if (roll < 0.20) { push(0, 'red', 0.8, 1.0, false, true, 115); push(150, 'red', 1.25, 0.6) } // Duck air -> Jump tall
-        else if (roll < 0.30) { push(0, 'red', 1.3, 0.6); push(140, 'red', 0.7, 1.3) } // Tall jump -> short wide jump
-        else if (roll < 0.40) { push(0, 'red', 1.0, 1.0, false, true, 115); push(160, 'green', 1.0, 1.0, false, true, 115) } // Duck air -> Duck green!
-        else if (roll < 0.48) { push(0, 'red', 1.2, 0.6, false, true, 125); push(145, 'red', 0.9) } // Tall duck -> normal
-        else if (roll < 0.56) { push(0, 'red', 0.85); push(145, 'red', 1.1) }
-        else if (roll < 0.64) { push(0, 'red'); push(130, 'red', 0.9) }
-        else if (roll < 0.72) { push(0, 'green', 0.8, 1.2); push(145, 'red', 1.1) } // Wide green -> Tall jump
-        else if (roll < 0.80) { push(0, 'green', 1.0, 1.0, false, true, 115); push(145, 'red', 1.1) } // Duck green -> Tall jump
-        else if (roll < 0.88) { push(0, 'red', 0.75, 1.1, false, true, 105); push(140, 'green', 0.9) } // Duck short -> green
-        else { push(0, 'red'); push(130, 'green', 1.0, 1.0, false, Math.random() > 0.5) }
-
-        // --- COMPLEXITY 2: Triples, first mixed patterns ---
-    } else if (complexity === 2) {
-        if (roll < 0.12) { push(0, 'red', 1.05); push(125, 'red', 0.85); push(250, 'red', 1.1) }
-        else if (roll < 0.24) { push(0, 'red', 0.8); push(120, 'red', 1.15); push(245, 'red') }
-        else if (roll < 0.34) { push(0, 'red'); push(115, 'red', 1.1); push(240, 'red', 0.9) }
-        else if (roll < 0.44) { push(0, 'red', 1.1); push(130, 'red'); push(260, 'red', 0.85) }
-        else if (roll < 0.54) { push(0, 'red', 0.7, 1.3); push(120, 'red', 1.05); push(240, 'red') }
-        else if (roll < 0.64) { push(0, 'green'); push(125, 'red', 1.1); push(250, 'red', 0.9) }
-        else if (roll < 0.74) { push(0, 'red', 0.9); push(115, 'green'); push(235, 'red', 1.1) }
-        else if (roll < 0.84) { push(0, 'red', 1.1); push(130, 'red', 0.85); push(260, 'green') }
-        else if (roll < 0.92) { push(0, 'red'); push(100, 'red', 0.9); push(210, 'red', 1.05); push(320, 'green') }
-        else { push(0, 'red', 0.6, 1.3); push(130, 'red', 1.2); push(260, 'red', 0.7, 1.2) }
-
-        // --- COMPLEXITY 3: Quads, some movement ---
-    } else if (complexity === 3) {
-        if (roll < 0.10) { push(0, 'red'); push(110, 'red', 1.05); push(225, 'red', 0.9); push(340, 'red', 1.1) }
-        else if (roll < 0.20) { push(0, 'red', 0.85); push(115, 'red', 1.1); push(230, 'red'); push(350, 'red', 0.9) }
-        else if (roll < 0.30) { push(0, 'red', 1.1); push(120, 'red', 0.8); push(240, 'red', 1.05); push(360, 'red') }
-        else if (roll < 0.38) { push(0, 'red', 0.7, 1.3); push(105, 'red'); push(215, 'red', 1.1); push(330, 'red', 0.85) }
-        else if (roll < 0.46) { push(0, 'green'); push(110, 'red', 1.1); push(225, 'red', 0.9); push(340, 'red', 1.05) }
-        else if (roll < 0.54) { push(0, 'red', 1.05); push(120, 'red', 0.85); push(245, 'green'); push(365, 'red', 1.1) }
-        else if (roll < 0.62) { push(0, 'red'); push(105, 'red', 1.1); push(215, 'red', 0.9); push(330, 'green') }
-        else if (roll < 0.70) { push(0, 'red', 0.9); push(115, 'red', 1.05); push(230, 'red'); push(345, 'red', 0.85) }
-        else if (roll < 0.78) { push(0, 'red', 1.1, 1, true); push(125, 'red', 0.9); push(250, 'red'); push(370, 'red', 1.05) }
-        else if (roll < 0.86) { push(0, 'red'); push(100, 'red', 0.85); push(210, 'red', 1.1); push(325, 'red', 0.9) }
-        else if (roll < 0.93) { push(0, 'green'); push(115, 'red'); push(230, 'red', 1.05); push(345, 'green') }
-        else { push(0, 'red', 0.7, 1.2); push(110, 'red', 1.1); push(225, 'green'); push(340, 'red', 0.85); push(455, 'red') }
-
-        // --- COMPLEXITY 4: Quints, movement, harder patterns ---
-    } else if (complexity === 4) {
-        if (roll < 0.09) { push(0, 'red'); push(105, 'red', 1.05); push(215, 'red', 0.9); push(330, 'red', 1.1); push(445, 'red') }
-        else if (roll < 0.18) { push(0, 'red', 0.85); push(100, 'red', 1.1); push(210, 'red'); push(320, 'red', 0.9); push(435, 'green') }
-        else if (roll < 0.27) { push(0, 'green'); push(115, 'red', 1.05); push(230, 'red', 0.9); push(345, 'red', 1.1); push(460, 'red') }
-        else if (roll < 0.36) { push(0, 'red', 1.1); push(110, 'red', 0.85); push(225, 'red'); push(340, 'green'); push(455, 'red', 1.05) }
-        else if (roll < 0.45) { push(0, 'red'); push(95, 'red', 1.05); push(200, 'green'); push(310, 'red', 0.9); push(420, 'red', 1.1) }
-        else if (roll < 0.54) { push(0, 'red', 0.9, 1, true); push(110, 'red', 1.1); push(225, 'red'); push(340, 'red', 0.85); push(455, 'green') }
-        else if (roll < 0.63) { push(0, 'red', 1.05); push(105, 'red', 0.8, 1.2); push(215, 'red', 1.1); push(330, 'red'); push(445, 'red', 0.9) }
-        else if (roll < 0.72) { push(0, 'red'); push(100, 'red', 1.1); push(210, 'red', 0.85); push(325, 'red', 1.05); push(440, 'red') }
-        else if (roll < 0.81) { push(0, 'green'); push(110, 'red'); push(220, 'red', 1.05); push(335, 'red', 0.9); push(450, 'green') }
-        else if (roll < 0.90) { push(0, 'red', 0.7, 1.3); push(100, 'red', 1.1); push(210, 'red'); push(320, 'red', 1.05); push(435, 'red', 0.85) }
-        else { push(0, 'red'); push(95, 'red', 0.9); push(195, 'red', 1.1); push(300, 'green'); push(410, 'red'); push(520, 'red', 1.05) }
-
-        // --- COMPLEXITY 5: Maximum difficulty, 5-6 candles ---
-    } else {
-        if (roll < 0.08) { push(0, 'red', 1.05); push(95, 'red', 0.9); push(195, 'red', 1.1); push(300, 'red'); push(405, 'red', 0.85); push(510, 'red', 1.05) }
-        else if (roll < 0.16) { push(0, 'red'); push(90, 'red', 1.1, 1, true); push(190, 'red', 0.85); push(295, 'red', 1.05); push(400, 'green'); push(510, 'red') }
-        else if (roll < 0.24) { push(0, 'green'); push(100, 'red', 1.05); push(205, 'red', 0.9); push(310, 'red', 1.1); push(420, 'red'); push(530, 'red', 0.85) }
-        else if (roll < 0.32) { push(0, 'red', 0.9); push(95, 'red', 1.1); push(195, 'red'); push(300, 'red', 0.85, 1, true); push(410, 'red', 1.05); push(520, 'green') }
-        else if (roll < 0.40) { push(0, 'red', 1.1); push(100, 'red', 0.8, 1.2); push(205, 'red'); push(310, 'red', 1.05); push(420, 'red', 0.9) }
-        else if (roll < 0.48) { push(0, 'red'); push(90, 'red', 0.9); push(185, 'green'); push(290, 'red', 1.1); push(395, 'red'); push(500, 'red', 1.05) }
-        else if (roll < 0.56) { push(0, 'red', 0.85); push(95, 'red', 1.1); push(200, 'red', 0.9); push(305, 'red'); push(415, 'red', 1.05) }
-        else if (roll < 0.64) { push(0, 'red', 1.05, 1, true); push(105, 'red', 0.9); push(210, 'red', 1.1); push(320, 'green'); push(430, 'red'); push(540, 'red', 0.85) }
-        else if (roll < 0.72) { push(0, 'red'); push(100, 'red', 1.05); push(200, 'red', 0.85); push(305, 'red', 1.1); push(415, 'red', 0.9) }
-        else if (roll < 0.80) { push(0, 'green'); push(95, 'red', 1.1); push(195, 'red'); push(300, 'red', 0.9); push(405, 'red', 1.05); push(510, 'green') }
-        else if (roll < 0.88) { push(0, 'red', 0.7, 1.3); push(90, 'red', 1.1); push(190, 'red', 0.9); push(295, 'red', 1.05); push(405, 'red'); push(510, 'red', 0.85) }
-        else { push(0, 'red'); push(85, 'red', 0.85); push(175, 'red', 1.1); push(270, 'red'); push(365, 'green'); push(460, 'red', 1.05); push(555, 'red', 0.9) }
+    // Pattern selection — weighted roll over the library's patterns for this level
+    const first = e.candles.length
+    for (let attempt = 0; ; attempt++) {
+        const pattern = pickPattern(PATTERN_LIBRARY.byComplexity[complexity], rng())
+        for (const c of pattern.candles) {
+            // `air` is rolled before the candle so the rng stream stays in pattern order
+            const isAir = c.lift !== undefined || (c.air !== undefined && rng() > 1 - c.air)
+            push(c.offset, c.kind, c.height, c.width, c.moving, isAir, c.lift)
+        }
+        if (!CFG.REROLL_UNREACHABLE || attempt >= MAX_PATTERN_REROLLS) break
+        const survivable = isPatternSurvivable(e.candles.slice(first), CFG, {
+            speed: tierSpeed(CFG, getSpeed(e.score).multiplier) * (e.market === 'bear' ? MARKET_CONFIG.BEAR_SPEED_MULT : 1),
+            maxJumps: getJumps(e.score),
+            hitboxPad: GAMEPLAY.HITBOX_PAD,
+        })
+        if (survivable) break
+        e.candles.length = first
     }
 
     // Maybe spawn a power-up
-    if (e.score >= POWERUP_CONFIG.MIN_SCORE && Math.random() < POWERUP_CONFIG.SPAWN_CHANCE && e.powerUps.length < CFG.MAX_POWERUPS) {
+    if (e.score >= POWERUP_CONFIG.MIN_SCORE && rng() < POWERUP_CONFIG.SPAWN_CHANCE && e.powerUps.length < CFG.MAX_POWERUPS) {
         spawnPowerUp(e)
     }
 
@@ -1179,7 +1254,7 @@ export const spawnPattern = (e: EngineState): void => {
     const gapDiff = 1 - Math.exp(-e.score / 1500)
     const timeFac = clamp(e.gameTime / 8, 0.5, 1.0)
     const baseGap = lerp(CFG.BASE_SPAWN_GAP * 1.15, CFG.MIN_SPAWN_GAP, gapDiff * timeFac)
-    e.nextSpawnDistance = e.distance + baseGap * rand(0.92, 1.12)
+    e.nextSpawnDistance = e.distance + baseGap * rand(0.92, 1.12, rng)
 
     // Cleanup off-screen candles
     if (e.candles.length > CFG.MAX_CANDLES) {
@@ -1195,10 +1270,11 @@ export const spawnPattern = (e: EngineState): void => {
 
 /** Spawn a random crypto-themed power-up */
 export const spawnPowerUp = (e: EngineState): void => {
+    const rng = engineRng(e)
     const kinds: PowerUpKind[] = ['diamond_hands', 'moon_boost', 'whale_mode']
     // Weighted: diamond_hands slightly rarer
     const weights = [0.25, 0.40, 0.35]
-    const r = Math.random()
+    const r = rng()
     let kind: PowerUpKind = 'moon_boost'
     let cumulative = 0
     for (let i = 0; i < kinds.length; i++) {
@@ -1206,9 +1282,9 @@ export const spawnPowerUp = (e: EngineState): void => {
         if (r < cumulative) { kind = kinds[i]; break }
     }
 
-    const x = CFG.WIDTH + rand(200, 400)
+    const x = CFG.WIDTH + rand(200, 400, rng)
     // Place between ground and mid-air (always reachable)
-    const y = CFG.GROUND - rand(60, 160)
+    const y = CFG.GROUND - rand(60, 160, rng)
 
     e.powerUps.push({
         id: e.nextPowerUpId++,
@@ -1217,9 +1293,9 @@ export const spawnPowerUp = (e: EngineState): void => {
         y,
         size: POWERUP_CONFIG.SIZE,
         collected: false,
-        phase: rand(0, Math.PI * 2),
-        bobSpeed: rand(1.5, 2.5),
-        glowPhase: rand(0, Math.PI * 2),
+        phase: rand(0, Math.PI * 2, rng),
+        bobSpeed: rand(1.5, 2.5, rng),
+        glowPhase: rand(0, Math.PI * 2, rng),
         collectProgress: 0,
     })
 }
@@ -1250,74 +1326,98 @@ export let PERF_TIER: PerformanceTier = 'high'
 // ADAPTIVE PHYSICS SYSTEM
 // ============================================================================
 
-export function updateGameConfig(width: number, height: number) {
-    const isPortrait = height > width;
-    PERF_TIER = detectPerformanceTier()
-    const isLow = PERF_TIER === 'low'
-
-    CFG.WIDTH = width;
-    CFG.HEIGHT = height;
+/** The gameplay constants a screen size rescales */
+export type ScaledPhysics = Pick<typeof CFG,
+    | 'WIDTH' | 'HEIGHT' | 'GROUND' | 'PLAYER_X' | 'PLAYER_SIZE' | 'HITBOX'
+    | 'BASE_SPEED' | 'MAX_SPEED' | 'GRAVITY_UP' | 'GRAVITY_DOWN' | 'JUMP' | 'DOUBLE_JUMP' | 'MAX_FALL'
+    | 'BASE_SPAWN_GAP' | 'MIN_SPAWN_GAP' | 'MAX_CANDLES_PATTERN' | 'MAX_CANDLES'
+>
 
-    if (isPortrait) {
+/**
+ * Physics tuned to a screen size. Nothing applies this to a live run —
+ * replays are verified against the default CFG (see gameReplay.ts) — but the
+ * reachability sweep keeps it honest against the pattern library, with
+ * REROLL_UNREACHABLE on, for when it becomes part of the replay config.
+ */
+export function scaledPhysics(width: number, height: number): ScaledPhysics {
+    if (height > width) {
         // --- PORTRAIT MODE (e.g. Base App / Mobile Vertical) ---
-        CFG.GROUND = height * 0.83;
-        CFG.PLAYER_X = width * 0.15;
-        CFG.PLAYER_SIZE = clamp(width * 0.055, 20, 28);  // Меньше размер (было 0.06, 22-32)
-        CFG.HITBOX = CFG.PLAYER_SIZE * 0.20;  // Чуть меньше хитбокс
-
+        const playerSize = clamp(width * 0.055, 20, 28);  // Меньше размер (было 0.06, 22-32)
         const speedScale = clamp(width / 960, 0.45, 0.7);
-        CFG.BASE_SPEED = clamp(360 * speedScale * 1.6, 220, 320);
-        CFG.MAX_SPEED = clamp(680 * speedScale * 1.6, 400, 580);
-
+        const baseSpeed = clamp(360 * speedScale * 1.6, 220, 320);
         const physicsScale = clamp(height / 540, 0.8, 1.4);
-        CFG.GRAVITY_UP = 1900 * physicsScale * 0.95;  // Чуть легче вверх
-        CFG.GRAVITY_DOWN = 2800 * physicsScale * 0.95;  // Чуть легче вниз (плавнее)
-        CFG.JUMP = -680 * Math.sqrt(physicsScale) * 0.95;  // Чуть ниже прыжок
-        CFG.DOUBLE_JUMP = -520 * Math.sqrt(physicsScale) * 0.95;  // Заметно ниже double jump
-        CFG.MAX_FALL = 1100 * physicsScale;
+        return {
+            WIDTH: width,
+            HEIGHT: height,
+            GROUND: height * 0.83,
+            PLAYER_X: width * 0.15,
+            PLAYER_SIZE: playerSize,
+            HITBOX: playerSize * 0.20,  // Чуть меньше хитбокс
+            BASE_SPEED: baseSpeed,
+            MAX_SPEED: clamp(680 * speedScale * 1.6, 400, 580),
+            GRAVITY_UP: 1900 * physicsScale * 0.95,  // Чуть легче вверх
+            GRAVITY_DOWN: 2800 * physicsScale * 0.95,  // Чуть легче вниз (плавнее)
+            JUMP: -680 * Math.sqrt(physicsScale) * 0.95,  // Чуть ниже прыжок
+            DOUBLE_JUMP: -520 * Math.sqrt(physicsScale) * 0.95,  // Заметно ниже double jump
+            MAX_FALL: 1100 * physicsScale,
+            BASE_SPAWN_GAP: baseSpeed * 1.55,
+            MIN_SPAWN_GAP: baseSpeed * 0.95,
+            MAX_CANDLES_PATTERN: 2,
+            MAX_CANDLES: 6,
+        }
+    }
 
-        CFG.BASE_SPAWN_GAP = CFG.BASE_SPEED * 1.55;
-        CFG.MIN_SPAWN_GAP = CFG.BASE_SPEED * 0.95;
-        CFG.MAX_CANDLES_PATTERN = 2;
+    // --- LANDSCAPE MODE (Desktop / Tablet Horizontal) ---
+    const playerSize = clamp(width * 0.038, 30, 42);
+    const scale = clamp(width / 960, 0.6, 1.2);
+    const physicsScale = clamp(height / 540, 0.8, 1.2);
+    const isLow = detectPerformanceTier() === 'low'
+    const lowBudget = isLow || width < 768
+    return {
+        WIDTH: width,
+        HEIGHT: height,
+        GROUND: height * 0.82,
+        PLAYER_X: clamp(width * 0.16, 90, 180),
+        PLAYER_SIZE: playerSize,
+        HITBOX: playerSize * 0.25,
+        BASE_SPEED: 360 * scale,
+        MAX_SPEED: 680 * scale,
+        GRAVITY_UP: 1900 * physicsScale,
+        GRAVITY_DOWN: 3200 * physicsScale,
+        JUMP: -720 * Math.sqrt(physicsScale),
+        DOUBLE_JUMP: -600 * Math.sqrt(physicsScale),
+        MAX_FALL: 1200 * physicsScale,
+        BASE_SPAWN_GAP: 360 * scale * 1.4,
+        MIN_SPAWN_GAP: 360 * scale * 0.9,
+        MAX_CANDLES_PATTERN: width < 768 ? 4 : 5,
+        MAX_CANDLES: lowBudget ? (isLow ? 5 : 8) : 16,
+    }
+}
 
+/**
+ * Fit the cosmetic budgets (particles, trails, background) to the screen and
+ * device. Gameplay constants are left alone: a run has to play out the same
+ * on every screen for its replay to verify.
+ */
+export function updateGameConfig(width: number, height: number) {
+    const isPortrait = height > width;
+    PERF_TIER = detectPerformanceTier()
+    const isLow = PERF_TIER === 'low'
+
+    if (isPortrait) {
         // Particle budgets — aggressively optimized for mobile
         CFG.PARTICLE_LIMIT = isLow ? 15 : 30;
         CFG.TRAIL_LIMIT = isLow ? 4 : 8; // Increased for smooth trails
         CFG.STAR_COUNT = isLow ? 6 : 12;
         CFG.CLOUD_COUNT = isLow ? 2 : 3;
-        CFG.MAX_CANDLES = 6;
         CFG.GROUND_PARTICLE_COUNT = isLow ? 3 : 6;
-
     } else {
-        // --- LANDSCAPE MODE (Desktop / Tablet Horizontal) ---
-        CFG.GROUND = height * 0.82;
-        CFG.PLAYER_X = clamp(width * 0.16, 90, 180);
-        CFG.PLAYER_SIZE = clamp(width * 0.038, 30, 42);
-        CFG.HITBOX = CFG.PLAYER_SIZE * 0.25;
-
-        const scale = clamp(width / 960, 0.6, 1.2);
-        CFG.BASE_SPEED = 360 * scale;
-        CFG.MAX_SPEED = 680 * scale;
-
-        const physicsScale = clamp(height / 540, 0.8, 1.2);
-        CFG.GRAVITY_UP = 1900 * physicsScale;
-        CFG.GRAVITY_DOWN = 3200 * physicsScale;
-        CFG.JUMP = -720 * Math.sqrt(physicsScale);
-        CFG.DOUBLE_JUMP = -600 * Math.sqrt(physicsScale);
-        CFG.MAX_FALL = 1200 * physicsScale;
-
-        CFG.BASE_SPAWN_GAP = CFG.BASE_SPEED * 1.4;
-        CFG.MIN_SPAWN_GAP = CFG.BASE_SPEED * 0.9;
-
-        CFG.MAX_CANDLES_PATTERN = width < 768 ? 4 : 5;
-
         // Aggressive mobile optimization
         const lowBudget = isLow || width < 768
         CFG.PARTICLE_LIMIT = lowBudget ? (isLow ? 25 : 50) : 80;
         CFG.TRAIL_LIMIT = lowBudget ? (isLow ? 6 : 10) : 24; // Increased for smooth trails
         CFG.STAR_COUNT = lowBudget ? (isLow ? 8 : 15) : 45;
         CFG.CLOUD_COUNT = lowBudget ? (isLow ? 2 : 3) : 6;
-        CFG.MAX_CANDLES = lowBudget ? (isLow ? 5 : 8) : 16;
         CFG.GROUND_PARTICLE_COUNT = lowBudget ? (isLow ? 5 : 10) : 24;
     }
 }
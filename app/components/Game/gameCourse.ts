@@ -0,0 +1,273 @@
+/**
+ * ============================================================================
+ * BASE DASH — Hand-Authored Courses
+ * ============================================================================
+ *
+ * A course is a fixed level: every candle and power-up placed by hand at a
+ * distance along the track, played at one speed tier from start to finish.
+ * Built in the /editor route and shared as a course code (base64url JSON).
+ *
+ * In a course run stepEngine() calls spawnCourse() instead of spawnPattern():
+ * items appear at the same spawn horizon procedural patterns use, the double
+ * jump is unlocked from the start, there is no market cycle, and reaching
+ * `length` ends the run with a courseComplete event instead of a death.
+ *
+ * Course fields:
+ *   v        COURSE_VERSION
+ *   title    shown in the editor and on share cards
+ *   speed    SPEEDS tier index the whole course runs at
+ *   length   px of track; the run is complete once the player covers it
+ *   candles  sorted by `at` — px along the track the candle's left edge sits
+ *            height/width in px, `lift` px above the ground, `moving` bobs
+ *   powerUps sorted by `at` — `lift` px above the ground
+ * ============================================================================
+ */
+
+import {
+    type CandleKind,
+    type EngineState,
+    type PowerUpKind,
+    CFG,
+    POWERUP_CONFIG,
+    SPEEDS,
+    createCandle,
+    createEngine,
+    engineRng,
+    rand,
+} from './gameConfig'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CourseCandle {
+    at: number
+    kind: CandleKind
+    height: number
+    width: number
+    lift?: number
+    moving?: boolean
+}
+
+export interface CoursePowerUp {
+    at: number
+    kind: PowerUpKind
+    lift: number
+}
+
+export interface Course {
+    v: number
+    title: string
+    speed: number
+    length: number
+    candles: CourseCandle[]
+    powerUps: CoursePowerUp[]
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const COURSE_VERSION = 1
+
+export const COURSE_LIMITS = {
+    TITLE_MAX: 48,
+    LENGTH: [1000, 60000] as const,
+    ITEMS_MAX: 400,
+    HEIGHT: [30, 200] as const,
+    WIDTH: [16, 80] as const,
+    LIFT: [0, 260] as const,
+    POWERUP_LIFT: [30, 220] as const,
+}
+
+const POWERUP_KINDS = Object.keys(POWERUP_CONFIG.TYPES) as PowerUpKind[]
+
+export const emptyCourse = (): Course => ({
+    v: COURSE_VERSION,
+    title: 'untitled course',
+    speed: 0,
+    length: 6000,
+    candles: [],
+    powerUps: [],
+})
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && isFinite(v)
+
+const inRange = (v: unknown, [min, max]: readonly [number, number]): boolean => isNum(v) && v >= min && v <= max
+
+const ascending = (items: { at: number }[]): boolean =>
+    items.every((item, i) => i === 0 || item.at >= items[i - 1].at)
+
+/** Everything wrong with a course; empty when it's safe to play */
+export const courseProblems = (raw: unknown): string[] => {
+    const c = raw as Partial<Course> | null
+    if (!c || typeof c !== 'object') return ['not an object']
+
+    const problems: string[] = []
+    if (c.v !== COURSE_VERSION) problems.push(`v must be ${COURSE_VERSION}`)
+    if (typeof c.title !== 'string' || !c.title.trim() || c.title.length > COURSE_LIMITS.TITLE_MAX) {
+        problems.push(`title must be 1-${COURSE_LIMITS.TITLE_MAX} characters`)
+    }
+    if (!Number.isInteger(c.speed) || c.speed! < 0 || c.speed! >= SPEEDS.length) {
+        problems.push(`speed must be a tier 0-${SPEEDS.length - 1}`)
+    }
+    if (!inRange(c.length, COURSE_LIMITS.LENGTH)) problems.push(`length must be ${COURSE_LIMITS.LENGTH.join('-')}px`)
+    if (!Array.isArray(c.candles) || !Array.isArray(c.powerUps)) {
+        problems.push('candles and powerUps must be lists')
+        return problems
+    }
+    if (c.candles.length + c.powerUps.length > COURSE_LIMITS.ITEMS_MAX) {
+        problems.push(`at most ${COURSE_LIMITS.ITEMS_MAX} candles and power-ups`)
+        return problems
+    }
+
+    const length = isNum(c.length) ? c.length : 0
+    c.candles.forEach((item: Partial<CourseCandle>, i) => {
+        const at = `candle ${i}`
+        if (!inRange(item?.at, [0, length])) problems.push(`${at}: at must be on the track`)
+        if (item?.kind !== 'red' && item?.kind !== 'green') problems.push(`${at}: kind must be red or green`)
+        if (!inRange(item?.height, COURSE_LIMITS.HEIGHT)) problems.push(`${at}: height must be ${COURSE_LIMITS.HEIGHT.join('-')}px`)
+        if (!inRange(item?.width, COURSE_LIMITS.WIDTH)) problems.push(`${at}: width must be ${COURSE_LIMITS.WIDTH.join('-')}px`)
+        if (item?.lift !== undefined && !inRange(item.lift, COURSE_LIMITS.LIFT)) problems.push(`${at}: lift must be ${COURSE_LIMITS.LIFT.join('-')}px`)
+        if (item?.moving !== undefined && typeof item.moving !== 'boolean') problems.push(`${at}: moving must be true or false`)
+    })
+    c.powerUps.forEach((item: Partial<CoursePowerUp>, i) => {
+        const at = `power-up ${i}`
+        if (!inRange(item?.at, [0, length])) problems.push(`${at}: at must be on the track`)
+        if (!POWERUP_KINDS.includes(item?.kind as PowerUpKind)) problems.push(`${at}: kind must be ${POWERUP_KINDS.join(', ')}`)
+        if (!inRange(item?.lift, COURSE_LIMITS.POWERUP_LIFT)) problems.push(`${at}: lift must be ${COURSE_LIMITS.POWERUP_LIFT.join('-')}px`)
+    })
+    if (problems.length === 0 && (!ascending(c.candles) || !ascending(c.powerUps))) {
+        problems.push('candles and power-ups must be sorted by at')
+    }
+    return problems
+}
+
+/** Validate an untrusted course — a clean copy, or null if anything is wrong */
+export const parseCourse = (raw: unknown): Course | null => {
+    if (courseProblems(raw).length > 0) return null
+    const c = raw as Course
+    return {
+        v: c.v,
+        title: c.title.trim(),
+        speed: c.speed,
+        length: c.length,
+        candles: c.candles.map(({ at, kind, height, width, lift, moving }) => ({
+            at, kind, height, width,
+            ...(lift ? { lift } : {}),
+            ...(moving ? { moving } : {}),
+        })),
+        powerUps: c.powerUps.map(({ at, kind, lift }) => ({ at, kind, lift })),
+    }
+}
+
+/** Sort items by `at` — the editor appends in click order */
+export const sortCourse = (course: Course): Course => ({
+    ...course,
+    candles: course.candles.slice().sort((a, b) => a.at - b.at),
+    powerUps: course.powerUps.slice().sort((a, b) => a.at - b.at),
+})
+
+// ============================================================================
+// SHARE CODES
+// ============================================================================
+
+export const encodeCourse = (course: Course): string => {
+    const bytes = new TextEncoder().encode(JSON.stringify(course))
+    let binary = ''
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Course from a share code — null if it doesn't decode to a valid course */
+export const decodeCourse = (code: string): Course | null => {
+    try {
+        const binary = atob(code.trim().replace(/-/g, '+').replace(/_/g, '/'))
+        const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0))
+        return parseCourse(JSON.parse(new TextDecoder().decode(bytes)))
+    } catch {
+        return null
+    }
+}
+
+/** Same course, same seed — candle wicks and bobbing play out identically every run */
+export const courseSeed = (course: Course): number => {
+    const text = JSON.stringify(course)
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+// ============================================================================
+// PLAY
+// ============================================================================
+
+/** Spawn every item that has come within the spawn horizon */
+export const spawnCourse = (e: EngineState): void => {
+    const course = e.course
+    if (!course) return
+    const rng = engineRng(e)
+    // Same horizon as spawnPattern's startX, measured from the player
+    const horizon = e.distance + CFG.WIDTH + 140 - CFG.PLAYER_X
+
+    while (e.courseCandleIdx < course.candles.length && course.candles[e.courseCandleIdx].at <= horizon) {
+        const c = course.candles[e.courseCandleIdx++]
+        const x = CFG.PLAYER_X + c.at - e.distance
+        // Already scrolled past — only when a preview starts mid-course
+        if (x + c.width < -100) continue
+
+        const candle = createCandle(e.nextCandleId++, c.kind, x, c.height, c.width, rng)
+        if (c.lift) {
+            candle.bodyY -= c.lift; candle.y -= c.lift; candle.bodyTop -= c.lift
+            candle.wickTop -= c.lift; candle.wickBottom -= c.lift
+        }
+        // Moving candles bob around where they were placed
+        candle.targetY = candle.bodyY
+        candle.isMoving = c.moving === true
+        e.candles.push(candle)
+    }
+
+    while (e.coursePowerUpIdx < course.powerUps.length && course.powerUps[e.coursePowerUpIdx].at <= horizon) {
+        const p = course.powerUps[e.coursePowerUpIdx++]
+        const x = CFG.PLAYER_X + p.at - e.distance
+        if (x + POWERUP_CONFIG.SIZE < -50) continue
+
+        e.powerUps.push({
+            id: e.nextPowerUpId++,
+            kind: p.kind,
+            x,
+            y: CFG.GROUND - p.lift,
+            size: POWERUP_CONFIG.SIZE,
+            collected: false,
+            phase: rand(0, Math.PI * 2, rng),
+            bobSpeed: rand(1.5, 2.5, rng),
+            glowPhase: rand(0, Math.PI * 2, rng),
+            collectProgress: 0,
+        })
+    }
+}
+
+/** A fresh engine that plays `course` — or shows it from `distance` on, for the editor preview */
+export const createCourseEngine = (course: Course, distance = 0): EngineState => {
+    const e = createEngine(courseSeed(course))
+    e.course = course
+    e.nextSpawnDistance = Infinity
+    e.showTutorial = false
+    e.distance = distance
+    e.groundOffset = distance
+    e.backgroundOffset = distance * 0.5
+    e.cloudOffset = distance
+    spawnCourse(e)
+    return e
+}
+
+/** Share of the course covered, 0-1 */
+export const courseProgress = (e: EngineState): number =>
+    e.course ? Math.min(1, Math.max(0, e.distance / e.course.length)) : 0
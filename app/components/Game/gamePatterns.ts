@@ -0,0 +1,242 @@
+/**
+ * ============================================================================
+ * BASE DASH — Spawn Pattern Library
+ * ============================================================================
+ *
+ * Obstacle patterns are data (patterns.json), not code. Each pattern is a
+ * group of candles placed relative to the right edge of the screen, with a
+ * weight and the complexity levels (0-5) it can be rolled at. spawnPattern()
+ * picks one by weight and builds the candles; everything else about a candle
+ * (base size, jitter, random lift and movement) still comes from the engine.
+ *
+ * loadPatternLibrary() checks every pattern before the engine sees it — well
+ * formed, inside the size limits spawnPattern clamps to, and clearable with
+ * the jump physics in CFG. Patterns that fail are dropped with a warning.
+ *
+ * Candle fields:
+ *   offset   px after the pattern start (ascending)
+ *   kind     'red' (dodge) | 'green' (collect)
+ *   height   height multiplier, default 1
+ *   width    width multiplier, default 1
+ *   lift     px above the ground — an air candle to run under
+ *   air      chance (0-1) of floating 90-160px instead; not with `lift`
+ *   moving   bobs up and down
+ * ============================================================================
+ */
+
+import type { CandleKind } from './gameConfig'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PatternCandle {
+    offset: number
+    kind: CandleKind
+    height?: number
+    width?: number
+    lift?: number
+    air?: number
+    moving?: boolean
+}
+
+export interface SpawnPatternDef {
+    id: string
+    weight: number
+    /** Inclusive [min, max] complexity levels */
+    complexity: [number, number]
+    /** Free text for designers — ignored by the engine */
+    note?: string
+    candles: PatternCandle[]
+}
+
+/** The slice of CFG the physics checks read */
+export interface PatternPhysics {
+    JUMP: number
+    DOUBLE_JUMP: number
+    GRAVITY_UP: number
+    PLAYER_SIZE: number
+}
+
+export interface PatternLibrary {
+    patterns: SpawnPatternDef[]
+    /** Valid patterns per complexity level, in declaration order */
+    byComplexity: SpawnPatternDef[][]
+    rejected: { id: string; problems: string[] }[]
+}
+
+// ============================================================================
+// LIMITS — shared with spawnPattern()
+// ============================================================================
+
+export const MAX_COMPLEXITY = 5
+
+/** Base candle height/width (px) grow from MIN to MAX as difficulty ramps */
+export const CANDLE_SIZE = {
+    HEIGHT_MIN: 75,
+    HEIGHT_MAX: 130,
+    WIDTH_MIN: 26,
+    WIDTH_MAX: 42,
+    /** Share of the MIN→MAX range reached at full difficulty */
+    RAMP: 0.7,
+    HEIGHT_JITTER: [0.85, 1.1] as const,
+    WIDTH_JITTER: [0.9, 1.08] as const,
+}
+
+/** spawnPattern clamps multipliers to these — the loader rejects anything outside */
+export const MULTIPLIER_LIMITS = {
+    HEIGHT: [0.4, 1.3] as const,
+    WIDTH: [0.6, 1.4] as const,
+}
+
+/** Random lift range for candles rolled airborne by `air` */
+export const AIR_LIFT_RANGE = [90, 160] as const
+
+const MAX_PATTERN_CANDLES = 8
+
+// ============================================================================
+// PHYSICS
+// ============================================================================
+
+/** Apex height (px) of a jump from the ground, with the double jump fired at the top */
+export const jumpHeight = (physics: PatternPhysics, double: boolean): number => {
+    const single = (physics.JUMP * physics.JUMP) / (2 * physics.GRAVITY_UP)
+    if (!double) return single
+    return single + (physics.DOUBLE_JUMP * physics.DOUBLE_JUMP) / (2 * physics.GRAVITY_UP)
+}
+
+/** Tallest a candle with this height multiplier can roll, wicks included */
+const tallestCandle = (heightMult: number): number =>
+    (CANDLE_SIZE.HEIGHT_MIN + (CANDLE_SIZE.HEIGHT_MAX - CANDLE_SIZE.HEIGHT_MIN) * CANDLE_SIZE.RAMP)
+    * CANDLE_SIZE.HEIGHT_JITTER[1] * heightMult
+
+/**
+ * Every red candle must be jumpable, or high enough to run under. Complexity 0
+ * patterns can roll before the double jump unlocks, so they get a single jump.
+ * Conservative: wicks count as solid and candles take their tallest roll.
+ */
+const physicsProblems = (def: SpawnPatternDef, physics: PatternPhysics): string[] => {
+    const problems: string[] = []
+    const apex = jumpHeight(physics, def.complexity[0] > 0)
+    for (const c of def.candles) {
+        if (c.kind !== 'red') continue
+        const height = tallestCandle(c.height ?? 1)
+        // `air` candles may stay grounded, so they need both checks
+        if (c.lift === undefined && height >= apex) {
+            problems.push(`candle at ${c.offset} can reach ${Math.round(height)}px, jump apex is ${Math.round(apex)}px`)
+        }
+        const lift = c.lift !== undefined ? [c.lift, c.lift] : c.air !== undefined ? AIR_LIFT_RANGE : null
+        if (lift && lift[0] < physics.PLAYER_SIZE && height + lift[1] >= apex) {
+            problems.push(`air candle at ${c.offset} is too low to run under and too high to jump`)
+        }
+    }
+    return problems
+}
+
+// ============================================================================
+// LOADER
+// ============================================================================
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && isFinite(v)
+
+const inRange = (v: number, [min, max]: readonly [number, number]): boolean => v >= min && v <= max
+
+const candleProblems = (c: Partial<PatternCandle>, i: number): string[] => {
+    const problems: string[] = []
+    const at = `candle ${i}`
+    if (!isNum(c.offset) || c.offset < 0) problems.push(`${at}: offset must be a number >= 0`)
+    if (c.kind !== 'red' && c.kind !== 'green') problems.push(`${at}: kind must be red or green`)
+    if (c.height !== undefined && !(isNum(c.height) && inRange(c.height, MULTIPLIER_LIMITS.HEIGHT))) {
+        problems.push(`${at}: height must be ${MULTIPLIER_LIMITS.HEIGHT.join('-')}`)
+    }
+    if (c.width !== undefined && !(isNum(c.width) && inRange(c.width, MULTIPLIER_LIMITS.WIDTH))) {
+        problems.push(`${at}: width must be ${MULTIPLIER_LIMITS.WIDTH.join('-')}`)
+    }
+    if (c.lift !== undefined && !(isNum(c.lift) && c.lift > 0)) problems.push(`${at}: lift must be a number > 0`)
+    if (c.air !== undefined && !(isNum(c.air) && c.air > 0 && c.air < 1)) problems.push(`${at}: air must be a chance between 0 and 1`)
+    if (c.lift !== undefined && c.air !== undefined) problems.push(`${at}: use lift or air, not both`)
+    if (c.moving !== undefined && typeof c.moving !== 'boolean') problems.push(`${at}: moving must be true or false`)
+    return problems
+}
+
+/** Everything wrong with one pattern; empty when it's safe to spawn */
+export const checkPattern = (raw: unknown, physics: PatternPhysics): string[] => {
+    const def = raw as Partial<SpawnPatternDef> | null
+    if (!def || typeof def !== 'object') return ['not an object']
+
+    const problems: string[] = []
+    if (typeof def.id !== 'string' || !def.id) problems.push('id must be a non-empty string')
+    if (!isNum(def.weight) || def.weight <= 0) problems.push('weight must be a number > 0')
+
+    const [min, max] = Array.isArray(def.complexity) ? def.complexity : [NaN, NaN]
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max > MAX_COMPLEXITY || min > max) {
+        problems.push(`complexity must be [min, max] within 0-${MAX_COMPLEXITY}`)
+    }
+
+    if (!Array.isArray(def.candles) || def.candles.length === 0 || def.candles.length > MAX_PATTERN_CANDLES) {
+        problems.push(`candles must hold 1-${MAX_PATTERN_CANDLES} entries`)
+        return problems
+    }
+    def.candles.forEach((c, i) => problems.push(...candleProblems(c ?? {}, i)))
+    for (let i = 1; i < def.candles.length; i++) {
+        if (def.candles[i].offset <= def.candles[i - 1].offset) problems.push(`candle ${i}: offsets must ascend`)
+    }
+
+    if (problems.length === 0) problems.push(...physicsProblems(def as SpawnPatternDef, physics))
+    return problems
+}
+
+/**
+ * Validate raw pattern data against the given physics. Throws only when a
+ * complexity level would be left with nothing to spawn.
+ */
+export const loadPatternLibrary = (data: unknown, physics: PatternPhysics): PatternLibrary => {
+    const entries: unknown[] = Array.isArray(data) ? data : []
+    const patterns: SpawnPatternDef[] = []
+    const rejected: PatternLibrary['rejected'] = []
+    const seen = new Set<string>()
+
+    entries.forEach((raw, i) => {
+        const problems = checkPattern(raw, physics)
+        const id = (raw as { id?: unknown } | null)?.id
+        const name = typeof id === 'string' && id ? id : `#${i}`
+        if (seen.has(name)) problems.push('duplicate id')
+        seen.add(name)
+
+        if (problems.length > 0) rejected.push({ id: name, problems })
+        else patterns.push(raw as SpawnPatternDef)
+    })
+
+    const byComplexity: SpawnPatternDef[][] = []
+    for (let level = 0; level <= MAX_COMPLEXITY; level++) {
+        byComplexity.push(patterns.filter((p) => p.complexity[0] <= level && level <= p.complexity[1]))
+        if (byComplexity[level].length === 0) {
+            throw new Error(`Pattern library has no valid pattern for complexity ${level}`)
+        }
+    }
+
+    return { patterns, byComplexity, rejected }
+}
+
+/** Weighted pick — `roll` in [0, 1) */
+export const pickPattern = (candidates: SpawnPatternDef[], roll: number): SpawnPatternDef => {
+    const total = candidates.reduce((sum, p) => sum + p.weight, 0)
+    const target = roll * total
+    let cumulative = 0
+    for (const p of candidates) {
+        cumulative += p.weight
+        if (target < cumulative) return p
+    }
+    return candidates[candidates.length - 1]
+}
+
+/** Tightest gap between consecutive candle offsets in any pattern (px) */
+export const minCandleSpacing = (patterns: SpawnPatternDef[]): number => {
+    let min = Infinity
+    for (const p of patterns) {
+        for (let i = 1; i < p.candles.length; i++) {
+            min = Math.min(min, p.candles[i].offset - p.candles[i - 1].offset)
+        }
+    }
+    return min
+}
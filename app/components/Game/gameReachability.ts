@@ -0,0 +1,219 @@
+/**
+ * ============================================================================
+ * BASE DASH — Jump Reachability Solver
+ * ============================================================================
+ *
+ * Proves a spawned pattern can be survived. The pattern library loader only
+ * compares candle heights with the jump apex; this replays stepEngine's
+ * player physics frame by frame against the rolled candles — real arcs,
+ * hitboxes, scroll speed and moving candles — and searches the jump presses
+ * for a run that clears every red candle.
+ *
+ * The player is assumed to start on the ground when the pattern spawns, at a
+ * constant speed (see tierSpeed). Greens are ignored: they never kill, and
+ * the brief invincibility a pickup grants is not relied on. Rug pulls
+ * (stepMarket) are not modelled.
+ *
+ * Used by the screen-size sweep in test/gameReachability.test.js and, when
+ * CFG.REROLL_UNREACHABLE is on, by spawnPattern() to re-roll what it can't
+ * clear.
+ * ============================================================================
+ */
+
+import type { Candle } from './gameConfig'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The slice of CFG the solver reads — scaledPhysics() rescales most of it */
+export interface ReachabilityPhysics {
+    STEP: number
+    GROUND: number
+    PLAYER_X: number
+    PLAYER_SIZE: number
+    GRAVITY_UP: number
+    GRAVITY_DOWN: number
+    JUMP: number
+    DOUBLE_JUMP: number
+    MAX_FALL: number
+}
+
+export type SolverCandle = Pick<
+    Candle,
+    'kind' | 'x' | 'width' | 'bodyY' | 'bodyHeight' | 'isMoving' | 'targetY' | 'movePhase' | 'moveSpeed' | 'moveAmplitude'
+>
+
+export interface SolverOptions {
+    /** Scroll speed (px/s) */
+    speed: number
+    /** 1 before CFG.DOUBLE_JUMP_AT, 2 after */
+    maxJumps: number
+    /** GAMEPLAY.HITBOX_PAD */
+    hitboxPad: number
+}
+
+export interface PlayerArc {
+    y: number
+    velocityY: number
+    onGround: boolean
+    jumpCount: number
+}
+
+// ============================================================================
+// PLAYER PHYSICS — mirrors pressJump() + stepEngine's player update
+// ============================================================================
+
+export const groundedPlayer = (physics: ReachabilityPhysics): PlayerArc => ({
+    y: physics.GROUND - physics.PLAYER_SIZE,
+    velocityY: 0,
+    onGround: true,
+    jumpCount: 0,
+})
+
+export const canPress = (p: PlayerArc, maxJumps: number): boolean =>
+    p.onGround || p.jumpCount < maxJumps
+
+/**
+ * One fixed step. A press jumps from the ground or double-jumps in the air;
+ * presses that would only be buffered are the caller's to skip.
+ */
+export const stepPlayer = (
+    p: PlayerArc,
+    press: boolean,
+    physics: ReachabilityPhysics,
+    maxJumps: number
+): PlayerArc => {
+    let { y, velocityY, onGround, jumpCount } = p
+    const dt = physics.STEP
+    const groundLevel = physics.GROUND - physics.PLAYER_SIZE
+
+    if (press && canPress(p, maxJumps)) {
+        velocityY = onGround ? physics.JUMP : physics.DOUBLE_JUMP
+        jumpCount = onGround ? 1 : maxJumps
+        onGround = false
+    }
+
+    if (y < 0) {
+        y = 0
+        velocityY = 0
+    }
+    if (y > groundLevel) {
+        y = groundLevel
+        velocityY = 0
+        onGround = true
+        jumpCount = 0
+    }
+
+    velocityY += (velocityY < 0 ? physics.GRAVITY_UP : physics.GRAVITY_DOWN) * dt
+    velocityY = Math.min(velocityY, physics.MAX_FALL)
+    y += velocityY * dt
+
+    if (y >= groundLevel - 4 && velocityY >= 0) {
+        y = groundLevel
+        velocityY = 0
+        onGround = true
+        jumpCount = 0
+    } else {
+        onGround = false
+    }
+
+    return { y, velocityY, onGround, jumpCount }
+}
+
+/** Most frames a jump (plus a double jump at any point) can stay airborne */
+export const longestAirtime = (physics: ReachabilityPhysics, maxJumps: number): number => {
+    const frames = (doubleAt: number): number => {
+        let p = stepPlayer(groundedPlayer(physics), true, physics, maxJumps)
+        for (let frame = 1; frame < 600; frame++) {
+            p = stepPlayer(p, frame === doubleAt, physics, maxJumps)
+            if (p.onGround) return frame
+        }
+        return 600
+    }
+    let longest = frames(-1)
+    if (maxJumps > 1) {
+        for (let doubleAt = 1; doubleAt < longest; doubleAt++) longest = Math.max(longest, frames(doubleAt))
+    }
+    return longest
+}
+
+// ============================================================================
+// SOLVER
+// ============================================================================
+
+/** Scroll speed of a speed tier once warmup is over */
+export const tierSpeed = (physics: { BASE_SPEED: number }, multiplier: number): number =>
+    physics.BASE_SPEED * multiplier
+
+/**
+ * Frames (counted from the spawn step) to press jump on to clear every red
+ * candle, or null when no sequence of jumps and double jumps survives.
+ */
+export const findSurvivableInputs = (
+    candles: readonly SolverCandle[],
+    physics: ReachabilityPhysics,
+    options: SolverOptions
+): number[] | null => {
+    const reds = candles.filter((c) => c.kind === 'red')
+    const dt = physics.STEP
+    const shift = options.speed * dt
+    const px1 = physics.PLAYER_X + options.hitboxPad
+    const px2 = physics.PLAYER_X + physics.PLAYER_SIZE - options.hitboxPad
+
+    // Every red is behind the player's hitbox after this frame
+    let lastFrame = 0
+    let firstContact = Infinity
+    for (const c of reds) {
+        lastFrame = Math.max(lastFrame, Math.ceil((c.x + c.width - 1 - px1) / shift))
+        firstContact = Math.min(firstContact, Math.floor((c.x + 1 - px2) / shift))
+    }
+    // Any jump taken before this has landed by the time a red can touch the
+    // player, so idling on the ground until then loses nothing
+    const startFrame = Math.max(1, firstContact - longestAirtime(physics, options.maxJumps))
+
+    const hits = (y: number, frame: number): boolean => {
+        const py1 = y + options.hitboxPad
+        const py2 = y + physics.PLAYER_SIZE - options.hitboxPad
+        for (const c of reds) {
+            const x = c.x - shift * frame
+            if (px1 >= x + c.width - 1 || px2 <= x + 1) continue
+            const bodyY = c.isMoving
+                ? c.targetY + Math.sin(c.movePhase + dt * c.moveSpeed * frame) * c.moveAmplitude
+                : c.bodyY
+            if (py1 < bodyY + c.bodyHeight - 1 && py2 > bodyY + 1) return true
+        }
+        return false
+    }
+
+    // Depth-first, waiting before jumping. Dead states are remembered to the
+    // nearest px and 10px/s, which can only miss a path — never invent one:
+    // a returned press list is a simulated run that clears every red
+    const dead = new Set<string>()
+    const presses: number[] = []
+    const search = (p: PlayerArc, frame: number): boolean => {
+        if (frame > lastFrame) return true
+        const key = `${frame}:${Math.round(p.y)}:${Math.round(p.velocityY / 10)}:${p.jumpCount}`
+        if (dead.has(key)) return false
+
+        const next = stepPlayer(p, false, physics, options.maxJumps)
+        if (!hits(next.y, frame) && search(next, frame + 1)) return true
+        if (canPress(p, options.maxJumps)) {
+            const jumped = stepPlayer(p, true, physics, options.maxJumps)
+            presses.push(frame)
+            if (!hits(jumped.y, frame) && search(jumped, frame + 1)) return true
+            presses.pop()
+        }
+
+        dead.add(key)
+        return false
+    }
+
+    return search(groundedPlayer(physics), startFrame) ? presses : null
+}
+
+export const isPatternSurvivable = (
+    candles: readonly SolverCandle[],
+    physics: ReachabilityPhysics,
+    options: SolverOptions
+): boolean => findSurvivableInputs(candles, physics, options) !== null
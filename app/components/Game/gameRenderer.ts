@@ -37,7 +37,7 @@ import {
 /** Pre-calculated constants to avoid per-frame division */
 const TWO_PI = Math.PI * 2
 const HALF_PI = Math.PI / 2
-/** Computed dynamically since CFG.PLAYER_SIZE can change via updateGameConfig() */
+/** Re-read every frame so it always follows CFG.PLAYER_SIZE */
 let PLAYER_HALF = CFG.PLAYER_SIZE / 2
 
 /** Gradient cache to avoid recreating every frame */
@@ -816,6 +816,39 @@ export const drawPlayer = (
     ctx.restore()
 }
 
+// ============================================================================
+// GHOST PLAYER
+// ============================================================================
+
+/** Draw a recorded run as a translucent outline cube.
+ *  Both runs share the seed, so the ghost sits ahead/behind the live player
+ *  by the difference in distance travelled (groundOffset). */
+export const drawGhost = (
+    ctx: CanvasRenderingContext2D,
+    e: EngineState,
+    ghost: EngineState,
+    w: WorldTheme
+): void => {
+    const gx = CFG.PLAYER_X + (ghost.groundOffset - e.groundOffset)
+    if (gx < -CFG.PLAYER_SIZE || gx > CFG.WIDTH) return
+
+    const gp = ghost.player
+    const fade = ghost.alive ? 1 : 0.5
+
+    ctx.save()
+    ctx.translate(gx + PLAYER_HALF, gp.y + PLAYER_HALF)
+    ctx.rotate(gp.rotation)
+    ctx.globalAlpha = 0.18 * fade
+    ctx.fillStyle = w.accent
+    ctx.fillRect(-PLAYER_HALF, -PLAYER_HALF, CFG.PLAYER_SIZE, CFG.PLAYER_SIZE)
+    ctx.globalAlpha = 0.55 * fade
+    ctx.strokeStyle = w.accent
+    ctx.lineWidth = 1.5
+    ctx.setLineDash([4, 3])
+    ctx.strokeRect(-PLAYER_HALF, -PLAYER_HALF, CFG.PLAYER_SIZE, CFG.PLAYER_SIZE)
+    ctx.restore()
+}
+
 // ============================================================================
 // PARTICLES
 // ============================================================================
@@ -1311,11 +1344,61 @@ export const drawTutorialHint = (
 }
 
 // ============================================================================
-// MARKET INDICATOR — REMOVED (bull/bear mechanics disabled)
+// MARKET BANNER — bull / bear phase changes and rug pulls
 // ============================================================================
 
-/** Draw market state indicator pill — DISABLED */
-// Market mechanics and rug pull removed
+const MARKET_LABELS = {
+    bull: { label: 'BULL MARKET', color: '#0ECB81' },
+    bear: { label: 'BEAR MARKET', color: '#F6465D' },
+    neutral: { label: 'SIDEWAYS', color: '#A0B8F0' },
+} as const
+
+/** Draw the market phase pill — on phase change, and flashing for a whole rug pull */
+export const drawMarketBanner = (
+    ctx: CanvasRenderingContext2D,
+    e: EngineState
+): void => {
+    const rugPull = e.rugPullTimer > 0
+    if (!rugPull && e.marketBannerTimer <= 0) return
+
+    const enterT = clamp((MARKET_CONFIG.BANNER_TIME - e.marketBannerTimer) / 0.25, 0, 1)
+    const alpha = rugPull ? 0.6 + Math.sin(e.gameTime * 14) * 0.4 : Math.min(enterT, clamp(e.marketBannerTimer / 0.3, 0, 1))
+    if (alpha <= 0.01) return
+
+    ctx.save()
+    ctx.globalAlpha = alpha
+
+    const centerX = CFG.WIDTH / 2
+    const fontSize = Math.max(9, Math.min(12, CFG.WIDTH * 0.022))
+    const { label, color } = rugPull ? { label: 'RUG PULL!', color: '#F6465D' } : MARKET_LABELS[e.market]
+
+    ctx.font = `700 ${fontSize}px "JetBrains Mono", monospace`
+    const textW = ctx.measureText(label).width
+
+    const padX = 6
+    const padY = 3
+    const totalW = padX + textW + padX
+    const barH = fontSize + padY * 2
+    const barX = centerX - totalW / 2
+    // Stack below the world and chill banners when they're up
+    const barY = 82 + (e.worldBannerTimer > 0 ? 26 : 0) + (e.slowdownTimer > 0 ? 26 : 0)
+
+    // Dark backdrop — same as world banner
+    ctx.fillStyle = 'rgba(15,23,42,0.80)'
+    ctx.fillRect(barX, barY, totalW, barH)
+
+    // Accent underline
+    ctx.fillStyle = color
+    ctx.fillRect(barX, barY + barH - 1, totalW, 1)
+
+    // Text
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillStyle = color
+    ctx.fillText(label, centerX, barY + barH / 2)
+
+    ctx.restore()
+}
 
 // ============================================================================
 // MAIN DRAW COMPOSITE
@@ -1327,13 +1410,15 @@ export const drawTutorialHint = (
  * @param containerDims { w: logicalW, h: logicalH, dpr: DPR, cssW?: number, cssH?: number }
  * @param logo Player image ref
  * @param logoLoaded Is logo loaded
+ * @param ghost Engine of a recorded run raced on the same seed
  */
 export const drawFrame = (
     ctx: CanvasRenderingContext2D,
     e: EngineState,
     containerDims: { w: number, h: number, dpr: number, cssW?: number, cssH?: number },
     logo: HTMLImageElement | null,
-    logoLoaded: boolean = true
+    logoLoaded: boolean = true,
+    ghost: EngineState | null = null
 ): void => {
     const { w, h, dpr, cssW, cssH } = containerDims
     const wTheme = getWorld(Math.max(0, e.score))
@@ -1394,6 +1479,10 @@ export const drawFrame = (
     drawClouds(ctx, e, wTheme)
     drawStars(ctx, e, wTheme)
 
+    // Rug pull — the floor and everything on it drop away under the sky
+    ctx.save()
+    if (e.floorDrop > 0) ctx.translate(0, e.floorDrop)
+
     // Ground
     drawGround(ctx, e, wTheme, renderH)
     drawGroundParticles(ctx, e, wTheme)
@@ -1403,6 +1492,7 @@ export const drawFrame = (
     drawPowerUps(ctx, e)
 
     // Player
+    if (ghost) drawGhost(ctx, e, ghost, wTheme)
     drawTrail(ctx, e, wTheme, logo, logoLoaded)
     drawPlayer(ctx, e, wTheme, logo, logoLoaded)
 
@@ -1411,6 +1501,7 @@ export const drawFrame = (
 
     // Near-miss text (7.1)
     drawNearMissText(ctx, e)
+    ctx.restore()
 
     // Speed lines (7.2)
     drawSpeedLines(ctx, e, renderH)
@@ -1424,6 +1515,7 @@ export const drawFrame = (
     // UI (canvas-rendered)
     drawWorldBanner(ctx, e, wTheme)
     drawChillMarketBanner(ctx, e, wTheme)
+    drawMarketBanner(ctx, e)
     drawPowerUpIndicators(ctx, e)
 
     // End shake + zoom transform
@@ -0,0 +1,190 @@
+// ============================================================================
+// BASE DASH — Replay Format & Headless Verifier
+// ============================================================================
+// A run is fully determined by its seed, the streak multiplier and the frame
+// index of every jump press. The client records that compact log and uploads
+// it on death; the server feeds it back through stepEngine() and signs
+// whatever score the simulation produces. The same log drives ghost playback:
+// a second engine stepped in lockstep with the live run on the same seed.
+//
+// Simulation always uses the default CFG — updateGameConfig() must never
+// touch gameplay constants, or replays recorded on resized screens diverge.
+// Screen-scaled physics (scaledPhysics) would have to travel in the log and
+// bump REPLAY_VERSION before a live run could use it.
+// ============================================================================
+
+import { type EngineState, CFG, MARKET_CONFIG, createEngine } from './gameConfig'
+import { type Course, createCourseEngine } from './gameCourse'
+import { type StepInput, stepEngine } from './gameSimulation'
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+/**
+ * Bump whenever physics or spawning changes in a way that alters outcomes.
+ * v2 added the market cycle; with it switched off the game is v1 again.
+ */
+export const REPLAY_VERSION = MARKET_CONFIG.ENABLED ? 2 : 1
+
+/** ~40 minutes at 60Hz — far beyond any legit MAX_SCORE run */
+export const MAX_REPLAY_FRAMES = 60 * 60 * 40
+
+/** Hard cap on recorded inputs (presses + releases) */
+export const MAX_REPLAY_INPUTS = 20000
+
+export interface ReplayLog {
+    /** Format version (REPLAY_VERSION) */
+    v: number
+    /** Run seed issued by /api/session/start */
+    seed: number
+    /** Streak multiplier the run was scored with */
+    streak: number
+    /** Physics steps until death */
+    frames: number
+    /** Delta-encoded input frames: press = delta, release = ~delta */
+    inputs: number[]
+}
+
+export interface ReplayResult {
+    score: number
+    frames: number
+    died: boolean
+    gameTime: number
+    totalJumps: number
+    totalCollected: number
+    maxCombo: number
+    marketCycles: number
+    /** Course runs only — reached the finish line rather than dying */
+    complete: boolean
+}
+
+/** Records jump presses/releases against the engine's frame counter */
+export class ReplayRecorder {
+    private inputs: number[] = []
+    private lastFrame = 0
+
+    constructor(private readonly seed: number, private readonly streak: number) { }
+
+    press(frame: number): void {
+        this.inputs.push(frame - this.lastFrame)
+        this.lastFrame = frame
+    }
+
+    release(frame: number): void {
+        this.inputs.push(~(frame - this.lastFrame))
+        this.lastFrame = frame
+    }
+
+    finish(frames: number): ReplayLog {
+        return {
+            v: REPLAY_VERSION,
+            seed: this.seed,
+            streak: this.streak,
+            frames,
+            inputs: this.inputs.slice(),
+        }
+    }
+}
+
+/** Validate an untrusted replay payload — returns null if malformed */
+export const parseReplay = (raw: unknown): ReplayLog | null => {
+    if (!raw || typeof raw !== 'object') return null
+    const r = raw as Partial<ReplayLog>
+    if (r.v !== REPLAY_VERSION) return null
+    if (!Number.isInteger(r.seed) || r.seed! < 0 || r.seed! > 0xFFFFFFFF) return null
+    if (typeof r.streak !== 'number' || !Number.isFinite(r.streak) || r.streak < 1) return null
+    if (!Number.isInteger(r.frames) || r.frames! <= 0 || r.frames! > MAX_REPLAY_FRAMES) return null
+    if (!Array.isArray(r.inputs) || r.inputs.length > MAX_REPLAY_INPUTS) return null
+
+    let frame = 0
+    for (const d of r.inputs) {
+        if (!Number.isInteger(d)) return null
+        frame += d >= 0 ? d : ~d
+        if (frame > r.frames!) return null
+    }
+    return { v: r.v, seed: r.seed!, streak: r.streak, frames: r.frames!, inputs: r.inputs.slice() }
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+const decodeDelta = (d: number): number => d >= 0 ? d : ~d
+
+/** Walks a replay's input log in step with an engine's frame counter */
+export class ReplayCursor {
+    private i = 0
+    private nextFrame: number
+
+    constructor(private readonly log: ReplayLog) {
+        this.nextFrame = log.inputs.length > 0 ? decodeDelta(log.inputs[0]) : Infinity
+    }
+
+    /** Fill `input` with every press/release recorded between the previous step and `frame` */
+    read(frame: number, input: StepInput): StepInput {
+        const inputs = this.log.inputs
+        input.presses = 0
+        input.releases = 0
+        while (this.nextFrame === frame) {
+            if (inputs[this.i] >= 0) input.presses++
+            else input.releases++
+            this.i++
+            this.nextFrame = this.i < inputs.length ? this.nextFrame + decodeDelta(inputs[this.i]) : Infinity
+        }
+        return input
+    }
+}
+
+/** A recorded run played back alongside the live one */
+export interface Ghost {
+    engine: EngineState
+    cursor: ReplayCursor
+    input: StepInput
+    frames: number
+}
+
+export const createGhost = (log: ReplayLog): Ghost => {
+    const engine = createEngine(log.seed)
+    engine.streakMultiplier = log.streak
+    engine.showTutorial = false
+    return { engine, cursor: new ReplayCursor(log), input: { presses: 0, releases: 0 }, frames: log.frames }
+}
+
+/** Advance the ghost one fixed step — call once per live physics step to stay in lockstep */
+export const stepGhost = (ghost: Ghost): void => {
+    const e = ghost.engine
+    if (!e.alive || e.frame >= ghost.frames) return
+    stepEngine(e, ghost.cursor.read(e.frame, ghost.input), CFG.STEP)
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Re-run a replay from its seed and return the score the physics produces.
+ * Course runs are replayed on the course instead (its seed is courseSeed()).
+ */
+export const simulateReplay = (log: ReplayLog, course: Course | null = null): ReplayResult => {
+    const e = course ? createCourseEngine(course) : createEngine(log.seed)
+    e.streakMultiplier = log.streak
+
+    const cursor = new ReplayCursor(log)
+    const input: StepInput = { presses: 0, releases: 0 }
+    while (e.alive && e.frame < log.frames) {
+        stepEngine(e, cursor.read(e.frame, input), CFG.STEP)
+    }
+
+    return {
+        score: e.score,
+        frames: e.frame,
+        died: !e.alive,
+        gameTime: e.gameTime,
+        totalJumps: e.totalJumps,
+        totalCollected: e.totalCollected,
+        maxCombo: e.maxCombo,
+        marketCycles: e.marketCycles,
+        complete: e.courseComplete,
+    }
+}
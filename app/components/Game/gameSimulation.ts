@@ -0,0 +1,603 @@
+// ============================================================================
+// BASE DASH — Headless Simulation Step
+// ============================================================================
+// One fixed physics step of the game: movement, spawning, collision, scoring
+// and death. No React, audio, DOM or particle spawning — anything the caller
+// should react to is reported through the returned event list. Shared by the
+// live game, the menu demo and the server-side replay verifier.
+// ============================================================================
+
+import {
+    type EngineState,
+    type PowerUpKind,
+    type ComboMilestone,
+    type MarketState,
+    CFG,
+    WORLDS,
+    SPEEDS,
+    GAMEPLAY,
+    MARKET_CONFIG,
+    POWERUP_CONFIG,
+    clamp, lerp, rand,
+    getSpeed, getJumps, getWorldIndex,
+    getComboMilestone,
+    spawnPattern,
+    applyJump, pressJump,
+    engineRng,
+} from './gameConfig'
+import { spawnCourse } from './gameCourse'
+
+// ============================================================================
+// INPUT & EVENTS
+// ============================================================================
+
+export interface StepInput {
+    /** Debounced jump presses since the previous step */
+    presses: number
+    /** Jump releases since the previous step (recorded, no physics yet) */
+    releases: number
+}
+
+export const NO_INPUT: Readonly<StepInput> = Object.freeze({ presses: 0, releases: 0 })
+
+const HALF_PI = Math.PI / 2
+
+export type EngineEvent =
+    | { type: 'jumped'; double: boolean }
+    | { type: 'collected'; item: 'green' | PowerUpKind; x: number; y: number }
+    | { type: 'shieldBroken' }
+    | { type: 'nearMiss'; x: number; y: number }
+    | { type: 'milestone'; kind: 'combo'; combo: number; named: ComboMilestone | null }
+    | { type: 'milestone'; kind: 'world'; worldIndex: number }
+    | { type: 'milestone'; kind: 'market'; market: MarketState; rugPull: boolean }
+    | { type: 'died'; score: number }
+    | { type: 'courseComplete'; score: number }
+
+// ============================================================================
+// MARKET CYCLE
+// ============================================================================
+
+/** Floor drop (px) `elapsed` seconds into a rug pull: a sharp fall, a hold, a slow recovery */
+const rugPullDrop = (elapsed: number): number => {
+    const { RUG_PULL_DEPTH, RUG_PULL_DURATION, RUG_PULL_DROP_TIME, RUG_PULL_RISE_TIME } = MARKET_CONFIG
+    const fall = clamp(elapsed / RUG_PULL_DROP_TIME, 0, 1)
+    const rise = clamp((RUG_PULL_DURATION - elapsed) / RUG_PULL_RISE_TIME, 0, 1)
+    return RUG_PULL_DEPTH * Math.min(fall, rise)
+}
+
+/**
+ * Advance the market phase: a neutral warmup, then bull and bear in turn,
+ * CYCLE_TIME seconds each. A bull phase can end in a rug pull, which drops
+ * the floor out from under the player before the bear phase. Physics stays
+ * in world space — the player is lifted by however far the floor fell this
+ * step, and the renderer draws the world shifted down by floorDrop.
+ */
+export const stepMarket = (e: EngineState, dt: number, out: EngineEvent[]): void => {
+    e.marketTimer -= dt
+    if (e.marketBannerTimer > 0) e.marketBannerTimer -= dt
+
+    if (e.marketTimer <= 0) {
+        e.marketTimer += MARKET_CONFIG.CYCLE_TIME
+        let rugPull = false
+        if (e.market === 'bull') {
+            rugPull = engineRng(e)() < MARKET_CONFIG.RUG_PULL_CHANCE
+            e.market = 'bear'
+        } else {
+            if (e.market === 'bear') e.marketCycles++
+            e.market = 'bull'
+        }
+        if (rugPull) {
+            e.rugPullTimer = MARKET_CONFIG.RUG_PULL_DURATION
+            e.shakeTimer = 0.3
+        }
+        e.marketBannerTimer = MARKET_CONFIG.BANNER_TIME
+        out.push({ type: 'milestone', kind: 'market', market: e.market, rugPull })
+    }
+
+    if (e.rugPullTimer > 0 || e.floorDrop !== 0) {
+        e.rugPullTimer = Math.max(0, e.rugPullTimer - dt)
+        const drop = e.rugPullTimer > 0 ? rugPullDrop(MARKET_CONFIG.RUG_PULL_DURATION - e.rugPullTimer) : 0
+        e.player.y -= drop - e.floorDrop
+        e.floorDrop = drop
+    }
+}
+
+// ============================================================================
+// STEP
+// ============================================================================
+
+/**
+ * Advance the engine by one step. Events are appended to `out` (pass a
+ * reused array on hot paths) and `out` is returned. Dead engines and
+ * garbage dt values are ignored.
+ */
+export const stepEngine = (
+    e: EngineState,
+    input: Readonly<StepInput>,
+    dt: number,
+    out: EngineEvent[] = []
+): EngineEvent[] => {
+    if (!e.alive) return out
+
+    // === FIREWALL: Reject garbage dt values ===
+    if (!isFinite(dt) || isNaN(dt) || dt <= 0 || dt > 0.1) return out
+
+    // --- Input: presses resolve before physics, exactly like a replay ---
+    for (let i = 0; i < input.presses; i++) {
+        const result = pressJump(e)
+        if (result !== 'buffer') out.push({ type: 'jumped', double: result === 'double' })
+    }
+
+    e.frame++
+    e.gameTime += dt
+    if (MARKET_CONFIG.ENABLED && !e.course) stepMarket(e, dt, out)
+    // Smooth exponential difficulty
+    e.difficulty = 1 - Math.exp(-e.score / 2500)
+    // Time-based warmup: first 8s gentler
+    const warmup = clamp(e.gameTime / 8, 0.5, 1.0)
+    // Courses run at one fixed tier so hand-placed gaps stay the same every run
+    const speedMult = e.course ? SPEEDS[e.course.speed].multiplier : getSpeed(e.score).multiplier
+    const slowMult = e.slowdownTimer > 0 ? CFG.SLOW_MULT : 1
+    const nearMissMult = e.nearMissTimer > 0 ? 0.4 : 1
+    const marketMult = e.market === 'bear' ? MARKET_CONFIG.BEAR_SPEED_MULT : 1
+    const frameSpeed = CFG.BASE_SPEED * speedMult * slowMult * nearMissMult * marketMult * warmup
+
+    e.speed = lerp(e.speed, frameSpeed, dt * 4)
+    e.distance += e.speed * dt
+    e.distanceTraveled += e.speed * dt
+    e.backgroundOffset += e.speed * dt * 0.5
+    e.groundOffset += e.speed * dt
+    e.cloudOffset += e.speed * dt
+
+    // --- Timers ---
+    if (e.slowdownTimer > 0) e.slowdownTimer -= dt
+    if (e.nearMissTimer > 0) e.nearMissTimer -= dt
+    if (e.speedLinesTimer > 0) e.speedLinesTimer -= dt
+    if (e.comboPulseTimer > 0) e.comboPulseTimer -= dt
+
+    // --- Tutorial: hide after first jump ---
+    if (e.showTutorial && e.totalJumps > 0) e.showTutorial = false
+
+    // --- Speed tier change detection (reverse loop, no closure) ---
+    let currentTierIdx = 0
+    for (let si = SPEEDS.length - 1; si >= 0; si--) {
+        if (e.score >= SPEEDS[si].startScore) { currentTierIdx = si; break }
+    }
+    if (currentTierIdx > e.prevSpeedTierIdx) {
+        e.prevSpeedTierIdx = currentTierIdx
+        e.speedLinesTimer = 1.5
+    }
+
+    // --- Player physics ---
+    const p = e.player
+    p.maxJumps = e.course ? 2 : getJumps(e.score)
+
+    // Safety: ensure player stays within bounds
+    if (p.y < 0) {
+        p.y = 0
+        p.velocityY = 0
+    }
+    if (p.y > CFG.GROUND - CFG.PLAYER_SIZE) {
+        p.y = CFG.GROUND - CFG.PLAYER_SIZE
+        p.velocityY = 0
+        p.onGround = true
+        p.coyoteTimer = CFG.COYOTE
+        p.jumpCount = 0
+        p.rotation = 0
+    }
+
+    // Gravity — asymmetric: lighter going up, heavier falling
+    if (!p.isDashing) {
+        const grav = p.velocityY < 0 ? CFG.GRAVITY_UP : CFG.GRAVITY_DOWN
+        p.velocityY += grav * dt
+        p.velocityY = Math.min(p.velocityY, CFG.MAX_FALL)
+    }
+
+    p.y += p.velocityY * dt
+
+    // Ground collision
+    const groundLevel = CFG.GROUND - CFG.PLAYER_SIZE
+    if (p.y >= groundLevel - 4 && p.velocityY >= 0) {
+        p.y = groundLevel
+        p.velocityY = 0
+        p.onGround = true
+        p.coyoteTimer = CFG.COYOTE
+        p.jumpCount = 0
+        p.rotation = 0
+    } else {
+        p.onGround = false
+    }
+
+    // Coyote time
+    if (p.onGround) {
+        p.coyoteTimer = CFG.COYOTE
+    } else {
+        p.coyoteTimer -= dt
+    }
+
+    // Jump buffer
+    if (p.jumpBufferTimer > 0) {
+        p.jumpBufferTimer -= dt
+        if (p.onGround || p.coyoteTimer > 0) {
+            applyJump(e, false)
+            p.jumpBufferTimer = 0
+            out.push({ type: 'jumped', double: false })
+        }
+    }
+
+    // Dash timer
+    if (p.isDashing) {
+        p.dashTimer -= dt
+        p.velocityY = 0
+        if (p.dashTimer <= 0) {
+            p.isDashing = false
+            p.dashTimer = CFG.DASH_COOLDOWN
+        }
+    } else if (p.dashTimer > 0) {
+        p.dashTimer -= dt
+    }
+
+    // Rotation — smooth spin in air, snap to nearest 90° on ground
+    if (p.onGround) {
+        const snapTarget = Math.round(p.rotation / HALF_PI) * HALF_PI
+        p.rotation = lerp(p.rotation, snapTarget, dt * 25)
+        if (Math.abs(p.rotation - snapTarget) < 0.05) p.rotation = snapTarget
+    } else {
+        p.rotation += 11.5 * dt
+        // Normalize rotation to prevent float overflow on long sessions
+        if (p.rotation > 62.83) p.rotation -= 62.83
+    }
+
+    // Squash/stretch — breathe idle animation when on ground
+    if (p.onGround && Math.abs(p.squash) < 0.01) {
+        p.squash = Math.sin(e.gameTime * CFG.BREATHE_SPEED) * CFG.BREATHE_AMP
+    }
+    p.squash = lerp(p.squash, 0, dt * 8)
+    p.scale = 1 + p.squash * (p.velocityY < 0 ? -0.25 : 0.35)
+    p.scale = clamp(p.scale, 0.5, 2.0)
+
+    // Tilt based on velocity
+    const targetTilt = clamp(p.velocityY / 900, -0.9, 0.9)
+    p.tilt = lerp(p.tilt, targetTilt, dt * 6)
+
+    // Flash decay
+    p.flash = Math.max(0, p.flash - dt * 4)
+
+    // === FULL NaN/Infinity FIREWALL — prevent cube disappearance ===
+    if (!isFinite(p.y)) p.y = CFG.GROUND - CFG.PLAYER_SIZE
+    if (!isFinite(p.velocityY)) p.velocityY = 0
+    if (!isFinite(p.scale) || p.scale <= 0) p.scale = 1
+    if (!isFinite(p.rotation)) p.rotation = 0
+    if (!isFinite(p.tilt)) p.tilt = 0
+    if (!isFinite(p.squash)) p.squash = 0
+    if (!isFinite(p.flash) || p.flash < 0) p.flash = 0
+    if (!isFinite(p.invincible) || p.invincible < 0) p.invincible = 0
+    if (!isFinite(e.speed)) e.speed = CFG.BASE_SPEED
+    if (!isFinite(e.score)) e.score = 0
+    if (!isFinite(e.distance)) e.distance = 0
+    if (!isFinite(e.combo)) e.combo = 0
+    if (!isFinite(e.gameTime)) e.gameTime = 0
+    if (!isFinite(e.difficulty)) e.difficulty = 0
+    if (!isFinite(e.scoreMultiplier) || e.scoreMultiplier <= 0) e.scoreMultiplier = 1
+    // Clamp y to sane bounds — prevent underground/sky escape
+    p.y = clamp(p.y, -CFG.PLAYER_SIZE * 3, CFG.GROUND)
+    p.scale = clamp(p.scale, 0.5, 2.0)
+    // Ensure flash+invincible never make cube fully invisible
+    if (p.flash > 0.95) p.flash = 0.95
+    if (p.invincible > 10) p.invincible = 2
+    // Cap particles to prevent tornado
+    if (e.particles.length > CFG.PARTICLE_LIMIT * 1.5) {
+        e.particles.length = CFG.PARTICLE_LIMIT
+    }
+
+    // Invincibility
+    p.invincible = Math.max(0, p.invincible - dt)
+
+    // Trail — ghost image on a cooldown timer
+    if (!p.onGround && e.trailTimer <= 0) {
+        e.trailTimer = 0.04
+
+        // Find first dead trail point or overwrite oldest (no closure = no GC)
+        let tIdx = -1
+        for (let ti = 0; ti < p.trail.length; ti++) {
+            if (p.trail[ti].life <= 0) { tIdx = ti; break }
+        }
+        if (tIdx === -1) tIdx = 0
+
+        const pt = p.trail[tIdx]
+        if (pt) {
+            pt.x = p.x
+            pt.y = p.y
+            pt.life = 1
+            pt.alpha = 0.18
+            pt.size = CFG.PLAYER_SIZE
+            pt.rotation = p.rotation
+            pt.scale = p.scale
+        }
+    }
+    if (e.trailTimer > 0) e.trailTimer -= dt
+
+    for (let i = 0; i < p.trail.length; i++) {
+        if (p.trail[i].life > 0) {
+            if (p.onGround) {
+                p.trail[i].life = 0
+                p.trail[i].alpha = 0
+            } else {
+                p.trail[i].life -= dt * 3
+                p.trail[i].alpha -= dt * 1.5
+            }
+        }
+    }
+
+    // --- Update candles ---
+    for (const c of e.candles) {
+        c.x -= e.speed * dt
+        c.phase += dt * c.flickerSpeed
+
+        // Moving candle animation
+        if (c.isMoving) {
+            c.movePhase += dt * c.moveSpeed
+            const wobble = Math.sin(c.movePhase) * c.moveAmplitude
+            c.bodyY = c.targetY + wobble
+            c.y = c.bodyY
+            c.bodyTop = c.bodyY + c.bodyHeight
+            c.wickTop = c.bodyY - (c.height - c.bodyHeight) * 0.6
+            c.wickBottom = c.bodyY + c.bodyHeight + (c.height - c.bodyHeight) * 0.4
+        }
+
+        // Collection progress — fast so the candle disappears quickly
+        if (c.collected) c.collectProgress = Math.min(1, c.collectProgress + dt * 8)
+
+        // Score — passed candle
+        if (!c.passed) {
+            if (c.kind === 'red' && c.x + c.width < CFG.PLAYER_X) {
+                c.passed = true
+                if (!c.collected) {
+                    // Balanced scoring: diminishing combo bonus (log scale)
+                    const comboBonus = Math.max(1, 1 + Math.log2(Math.max(1, e.combo)))
+                    const pts = CFG.RED_SCORE * comboBonus * e.scoreMultiplier * e.streakMultiplier
+                    e.score += Math.round(pts)
+                    e.scorePulse = 1
+                }
+            } else if (c.kind === 'green' && c.x + c.width < CFG.PLAYER_X - 25) {
+                c.passed = true
+                if (!c.collected) {
+                    e.combo = 0
+                    e.comboPulse = 0
+                }
+            }
+        }
+    }
+
+    // Remove off-screen candles AND fully-animated collected ones — IN-PLACE compaction
+    let cWrite = 0
+    for (let ci = 0; ci < e.candles.length; ci++) {
+        const c = e.candles[ci]
+        if (c.x + c.width > -100 && !(c.collected && c.collectProgress >= 1)) {
+            e.candles[cWrite++] = c
+        }
+    }
+    e.candles.length = cWrite
+
+    // --- Spawn patterns (or the next stretch of a course) ---
+    if (e.course) {
+        spawnCourse(e)
+    } else if (e.distance >= e.nextSpawnDistance) {
+        spawnPattern(e)
+    }
+
+    // --- Collision detection — STRICT hitboxes ---
+    const px1 = CFG.PLAYER_X + GAMEPLAY.HITBOX_PAD
+    const py1 = p.y + GAMEPLAY.HITBOX_PAD
+    const px2 = CFG.PLAYER_X + CFG.PLAYER_SIZE - GAMEPLAY.HITBOX_PAD
+    const py2 = p.y + CFG.PLAYER_SIZE - GAMEPLAY.HITBOX_PAD
+
+    for (const c of e.candles) {
+        // Early exit — must be wider than green grab radius to avoid skipping collectible greens
+        if (c.collected || c.x + c.width < CFG.PLAYER_X - GAMEPLAY.GREEN_GRAB_RADIUS - 5) continue
+        if (c.x > CFG.PLAYER_X + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS + 5) continue
+
+        // Stricter candle hitbox (no margin) for Red
+        const cx1 = c.x + 1
+        const cy1 = c.bodyY + 1
+        const cx2 = c.x + c.width - 1
+        const cy2 = c.bodyY + c.bodyHeight - 1
+
+        const hitRed = px1 < cx2 && px2 > cx1 && py1 < cy2 && py2 > cy1
+
+        // Generous grab radius for Green candles
+        const laxPx1 = CFG.PLAYER_X - GAMEPLAY.GREEN_GRAB_RADIUS
+        const laxPy1 = p.y - GAMEPLAY.GREEN_GRAB_RADIUS
+        const laxPx2 = CFG.PLAYER_X + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS
+        const laxPy2 = p.y + CFG.PLAYER_SIZE + GAMEPLAY.GREEN_GRAB_RADIUS
+        const hitGreen = laxPx1 < cx2 && laxPx2 > cx1 && laxPy1 < cy2 && laxPy2 > cy1
+
+        if (hitRed && c.kind === 'red') {
+            if (p.invincible <= 0) {
+                // Shield check (diamond hands power-up)
+                if (e.shieldActive) {
+                    e.shieldActive = false
+                    e.shieldFlashTimer = 0.3
+                    p.invincible = 0.8
+                    p.flash = 0.8
+                    e.shakeTimer = 0.2
+                    out.push({ type: 'shieldBroken' })
+                    continue
+                }
+                // DEATH
+                e.alive = false
+                e.shakeTimer = 0.4
+                e.combo = 0
+                out.push({ type: 'died', score: e.score })
+                return out
+            }
+        } else if (hitGreen && c.kind === 'green' && !c.collected) {
+            // COLLECT green candle
+            c.collected = true
+            e.score += Math.round(CFG.GREEN_SCORE * e.scoreMultiplier * e.streakMultiplier)
+            e.combo += 1
+            e.maxCombo = Math.max(e.maxCombo, e.combo)
+            e.totalCollected += 1
+            e.slowdownTimer = CFG.SLOW_TIME
+            e.scorePulse = 1
+            e.comboPulse = 1
+            p.flash = 0.6
+            p.invincible = 0.3
+            out.push({ type: 'collected', item: 'green', x: c.x + c.width / 2, y: c.bodyY + c.bodyHeight / 2 })
+
+            // Combo pulse at x5 + named combo milestones
+            const milestone = getComboMilestone(e.combo)
+            if (e.combo % 5 === 0) e.comboPulseTimer = 0.5
+            if (milestone) {
+                e.comboMilestoneTimer = milestone.duration
+                e.comboMilestoneName = milestone.name
+                e.comboMilestoneEmoji = milestone.emoji
+                e.comboMilestoneColor = milestone.color
+            }
+            if (e.combo % 5 === 0 || milestone) {
+                out.push({ type: 'milestone', kind: 'combo', combo: e.combo, named: milestone })
+            }
+        } else if (c.kind === 'red' && !c.passed && c.x + c.width < CFG.PLAYER_X + 5 && c.x + c.width > CFG.PLAYER_X - GAMEPLAY.NEAR_MISS_THRESHOLD && e.nearMissTimer <= 0 && (e.gameTime - e.lastNearMissTime > MARKET_CONFIG.NEAR_MISS_COOLDOWN)) {
+            // Near-miss detection: only genuine close calls with cooldown
+            const vertDistTop = Math.abs((p.y + CFG.PLAYER_SIZE - CFG.HITBOX) - c.bodyY)
+            const vertDistBot = Math.abs((p.y + CFG.HITBOX) - (c.bodyY + c.bodyHeight))
+            const passedOver = p.y + CFG.PLAYER_SIZE - CFG.HITBOX < c.bodyY && vertDistTop < MARKET_CONFIG.NEAR_MISS_DIST
+            const passedUnder = p.y + CFG.HITBOX > c.bodyY + c.bodyHeight && vertDistBot < MARKET_CONFIG.NEAR_MISS_DIST
+
+            if (passedOver || passedUnder) {
+                e.nearMissTimer = MARKET_CONFIG.NEAR_MISS_DURATION
+                e.lastNearMissTime = e.gameTime
+                e.nearMissText = 'close'
+                e.nearMissX = c.x + c.width / 2
+                e.nearMissY = c.bodyY - 20
+                e.score += Math.round(10 * e.streakMultiplier) // Near-miss bonus — with streak
+                out.push({ type: 'nearMiss', x: e.nearMissX, y: e.nearMissY })
+            }
+        }
+    }
+
+    // --- Update power-ups ---
+    for (const pu of e.powerUps) {
+        pu.x -= e.speed * dt
+        pu.phase += dt * pu.bobSpeed
+        pu.glowPhase += dt * 2
+        if (pu.collected) {
+            pu.collectProgress = Math.min(1, pu.collectProgress + dt * 3)
+            continue
+        }
+
+        // Power-up collision (AABB)
+        const puCx = pu.x + pu.size / 2
+        const puCy = pu.y + Math.sin(pu.phase) * POWERUP_CONFIG.BOB_AMPLITUDE
+        const puHalf = pu.size / 2
+        if (px1 < puCx + puHalf && px2 > puCx - puHalf && py1 < puCy + puHalf && py2 > puCy - puHalf) {
+            pu.collected = true
+
+            switch (pu.kind) {
+                case 'diamond_hands':
+                    e.shieldActive = true
+                    break
+                case 'moon_boost':
+                    e.moonBoostTimer = POWERUP_CONFIG.TYPES.moon_boost.duration
+                    e.scoreMultiplier = 2
+                    e.moonBoostPulseActive = true
+                    break
+                case 'whale_mode':
+                    e.whaleTimer = POWERUP_CONFIG.TYPES.whale_mode.duration
+                    e.slowdownTimer = Math.max(e.slowdownTimer, POWERUP_CONFIG.TYPES.whale_mode.duration)
+                    break
+            }
+
+            // Camera zoom out on power-up
+            e.cameraZoom = 0.92
+            out.push({ type: 'collected', item: pu.kind, x: puCx, y: puCy })
+        }
+    }
+
+    // Remove off-screen power-ups and fully collected ones — IN-PLACE compaction
+    let puWrite = 0
+    for (let pui = 0; pui < e.powerUps.length; pui++) {
+        const pu = e.powerUps[pui]
+        if (pu.x + pu.size > -50 && !(pu.collected && pu.collectProgress >= 1)) {
+            e.powerUps[puWrite++] = pu
+        }
+    }
+    e.powerUps.length = puWrite
+
+    // --- Power-up timers ---
+    if (e.moonBoostTimer > 0) {
+        e.moonBoostTimer -= dt
+        if (e.moonBoostTimer <= 0) {
+            e.moonBoostTimer = 0
+            e.scoreMultiplier = 1
+            e.moonBoostPulseActive = false
+        }
+    }
+    if (e.whaleTimer > 0) e.whaleTimer -= dt
+    if (e.shieldFlashTimer > 0) e.shieldFlashTimer -= dt
+
+    // --- World transitions ---
+    const newWorldIdx = getWorldIndex(e.score)
+    if (newWorldIdx !== e.worldIndex) {
+        e.worldIndex = newWorldIdx
+        const newWorld = WORLDS[newWorldIdx]
+        e.worldName = newWorld.name
+        e.worldBannerTimer = 3.5
+        for (const s of e.stars) s.color = newWorld.starColor
+        out.push({ type: 'milestone', kind: 'world', worldIndex: newWorldIdx })
+    }
+
+    // --- Ambient animation ---
+    for (const s of e.stars) {
+        s.twinkle += dt * s.twinkleSpeed
+    }
+    for (const gp of e.groundParticles) {
+        gp.x -= e.speed * dt * gp.speed
+        gp.phase += dt * 2 * gp.speed
+        if (gp.x < -10) gp.x = CFG.WIDTH + rand(5, 30)
+    }
+
+    // --- Update particles (effects) — in-place mutation (no GC) ---
+    let writeIdx = 0
+    for (let i = 0; i < e.particles.length; i++) {
+        const pt = e.particles[i]
+        pt.life -= dt
+        if (pt.life <= 0) continue
+        pt.x += pt.vx * dt
+        pt.y += pt.vy * dt
+        pt.vy += pt.gravity * dt
+        pt.vx *= pt.friction
+        pt.rotation += pt.rotationSpeed * dt
+        e.particles[writeIdx++] = pt
+    }
+    e.particles.length = Math.min(writeIdx, CFG.PARTICLE_LIMIT)
+
+    // --- Screen shake — sine-based for smooth motion instead of random jitter ---
+    if (e.shakeTimer > 0) {
+        e.shakeTimer -= dt
+        const intensity = e.shakeTimer * 8
+        e.shakeX = Math.sin(e.gameTime * 67) * intensity
+        e.shakeY = Math.cos(e.gameTime * 53) * intensity
+    } else {
+        e.shakeX = 0; e.shakeY = 0
+    }
+
+    if (e.worldBannerTimer > 0) e.worldBannerTimer -= dt
+
+    // --- Camera zoom lerp back to 1.0 ---
+    if (e.cameraZoom < 1) {
+        e.cameraZoom = Math.min(1, e.cameraZoom + dt * 0.5)
+    }
+
+    if (e.scorePulse > 0) e.scorePulse -= dt * 3
+    if (e.comboPulse > 0) e.comboPulse -= dt * 3
+
+    // --- Course finish line ---
+    if (e.course && e.distance >= e.course.length) {
+        e.alive = false
+        e.courseComplete = true
+        out.push({ type: 'courseComplete', score: e.score })
+    }
+
+    return out
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { PlayerScore } from '@/app/contracts'
+import { useWallet } from '@/app/hooks/useWallet'
+import { LeaderboardEntry } from './LeaderboardEntry'
+
+interface DailyResponse {
+  day: number
+  endsAt: number
+  leaderboard: { player: string; score: number; streakDays: number }[]
+  player: { rank: number; score: number } | null
+}
+
+/** Format seconds left until the daily reset as "5h 12m" */
+function formatTimeLeft(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+/** Today's daily challenge board — served by /api/daily-challenge from Redis */
+export default function DailyBoard() {
+  const { address } = useWallet()
+  const [data, setData] = useState<DailyResponse | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      fetch(`/api/daily-challenge?limit=10${address ? `&address=${address}` : ''}`)
+        .then(res => res.ok ? res.json() : null)
+        .then(json => { if (!cancelled && json) setData(json) })
+        .catch(() => { /* board stays hidden */ })
+    }
+    load()
+    const id = setInterval(load, 30000)
+    return () => { cancelled = true; clearInterval(id) }
+  }, [address])
+
+  if (!data) return null
+
+  const secondsLeft = Math.max(0, data.endsAt - Math.floor(Date.now() / 1000))
+
+  return (
+    <div className="w-full max-w-lg mx-auto pt-3 sm:pt-4">
+      <div className="mb-2 flex items-end justify-between gap-3">
+        <h2 className="text-[11px] font-black text-[#B78905] tracking-widest lowercase" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
+          daily challenge
+        </h2>
+        <p className="text-[9px] font-bold text-slate-400" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
+          {data.player ? `you: #${data.player.rank} · ` : ''}resets in {formatTimeLeft(secondsLeft)}
+        </p>
+      </div>
+
+      <div className="bg-white/40 backdrop-blur-sm rounded-none border border-[#F0B90B]/20 overflow-hidden">
+        {data.leaderboard.length === 0 ? (
+          <p className="py-4 text-center text-[10px] font-medium text-slate-400" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
+            no runs yet today — same seed for everyone
+          </p>
+        ) : (
+          <div className="flex flex-col divide-y divide-slate-100/80">
+            {data.leaderboard.map((row, i) => {
+              const entry: PlayerScore = {
+                player: row.player,
+                score: BigInt(row.score),
+                timestamp: BigInt(0),
+                streakDays: BigInt(row.streakDays),
+              }
+              return (
+                <LeaderboardEntry
+                  key={row.player}
+                  entry={entry}
+                  rank={i + 1}
+                  isSelf={!!address && row.player === address.toLowerCase()}
+                />
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
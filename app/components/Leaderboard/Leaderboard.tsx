@@ -1,60 +1,82 @@
 'use client'
 
-import React, { useMemo, useState, useRef, useEffect } from 'react'
-import { useReadContract } from 'wagmi'
-import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS, PlayerScore } from '@/app/contracts'
-import { bigIntToNumber } from '@/app/lib/utils'
+import React, { useState, useRef, useEffect, useCallback } from 'react'
+import { CONTRACT_ADDRESS } from '@/app/contracts'
+import { bigIntToNumber, formatAddress } from '@/app/lib/utils'
 import { useWallet } from '@/app/hooks/useWallet'
+import { useLeaderboard, type RankedScore } from '@/app/hooks/useLeaderboard'
+import { useGameStore } from '@/app/store/gameStore'
+import { parseReplay } from '@/app/components/Game/gameReplay'
 import { LeaderboardEntry } from './LeaderboardEntry'
 
-export default function Leaderboard() {
+interface LeaderboardProps {
+  /** Called once a ghost has been selected — the page switches to the game tab */
+  onRaceGhost?: () => void
+}
+
+export default function Leaderboard({ onRaceGhost }: LeaderboardProps = {}) {
   const { address } = useWallet()
+  const setGhost = useGameStore((s) => s.setGhost)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [race, setRace] = useState<{ player: string; status: 'loading' | 'missing' } | null>(null)
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null) // null = current season
   const selfEntryRef = useRef<HTMLDivElement>(null)
 
-  const { data: leaderboard, isLoading, refetch } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: GAME_LEADERBOARD_ABI,
-    functionName: 'getSortedLeaderboard',
-    args: [BigInt(33)],
-    query: {
-      enabled: CONTRACT_ADDRESS !== '0x0000000000000000000000000000000000000000',
-      refetchInterval: 30000,
-      refetchIntervalInBackground: false,
-    },
-  })
-
-  // Get player's on-chain rank (works even outside top 33) — item 18
-  const { data: playerRankData } = useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: GAME_LEADERBOARD_ABI,
-    functionName: 'getPlayerRank',
-    args: address ? [address] : undefined,
-    query: {
-      enabled: !!address && CONTRACT_ADDRESS !== '0x0000000000000000000000000000000000000000',
-      refetchInterval: 30000,
-    },
-  })
-
-  const scores = useMemo(() => {
-    const data = (leaderboard as unknown as PlayerScore[]) || []
-    if (!Array.isArray(data)) return []
-    return data.filter((s) => s && s.player && s.player !== '0x0000000000000000000000000000000000000000')
-  }, [leaderboard])
-
-  // Find user's rank
-  const userRank = useMemo(() => {
-    if (!address) return null
-    const idx = scores.findIndex(s => s && s.player && s.player.toLowerCase() === address.toLowerCase())
-    return idx >= 0 ? idx + 1 : null
-  }, [scores, address])
+  // Fetch a player's best stored replay and queue it as the ghost for the next run
+  const raceGhost = useCallback(async (player: string, rank: number) => {
+    setRace({ player, status: 'loading' })
+    try {
+      const res = await fetch(`/api/game-sessions/replay?address=${player}`)
+      const data = res.ok ? await res.json() : null
+      const replay = data ? parseReplay(data.replay) : null
+      if (!replay) {
+        setRace({ player, status: 'missing' })
+        return
+      }
+      setGhost({ label: `#${rank} ${formatAddress(player)}`, score: data.score, replay, date: Date.now() })
+      setRace(null)
+      onRaceGhost?.()
+    } catch {
+      setRace({ player, status: 'missing' })
+    }
+  }, [setGhost, onRaceGhost])
+
+  // Reads come from the Redis event index via /api/leaderboard — paginated, no 100-entry cap
+  const {
+    scores,
+    aroundScores,
+    total,
+    currentSeason,
+    player,
+    rankUnavailable,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    refetch,
+  } = useLeaderboard(selectedSeason, address, CONTRACT_ADDRESS !== '0x0000000000000000000000000000000000000000')
+  const season = selectedSeason ?? currentSeason
+  const isPastSeason = season < currentSeason
+  const userRank = player?.rank ?? null
 
   // Auto-scroll to user's entry (Improvement #3)
   useEffect(() => {
     if (selfEntryRef.current && userRank && userRank > 5) {
       selfEntryRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' })
     }
-  }, [userRank, scores])
+  }, [userRank, scores, aroundScores])
+
+  const renderEntry = (entry: RankedScore) => (
+    <LeaderboardEntry
+      key={entry.player}
+      entry={entry}
+      rank={entry.rank}
+      isSelf={!!address && entry.player.toLowerCase() === address.toLowerCase()}
+      selfRef={selfEntryRef}
+      onRace={() => raceGhost(entry.player, entry.rank)}
+      raceStatus={race?.player === entry.player ? race.status : null}
+    />
+  )
 
   const topScore = scores.length > 0 ? bigIntToNumber(scores[0].score) : 0
   const maxStreak = scores.reduce((max, s) => Math.max(max, bigIntToNumber(s.streakDays)), 0)
@@ -68,6 +90,29 @@ export default function Leaderboard() {
     }
   }
 
+  // Season selector — step back through past seasons' final standings
+  const seasonSelector = (
+    <div className="inline-flex items-center gap-1 text-[10px] font-bold text-slate-500" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
+      <button
+        onClick={() => setSelectedSeason(Math.max(1, season - 1))}
+        disabled={season <= 1}
+        aria-label="Previous season"
+        className="px-1.5 py-0.5 hover:text-slate-800 disabled:opacity-30 transition-colors"
+      >
+        ‹
+      </button>
+      <span className="lowercase tracking-wide">season {season}{isPastSeason ? ' · final' : ''}</span>
+      <button
+        onClick={() => setSelectedSeason(season + 1 >= currentSeason ? null : season + 1)}
+        disabled={!isPastSeason}
+        aria-label="Next season"
+        className="px-1.5 py-0.5 hover:text-slate-800 disabled:opacity-30 transition-colors"
+      >
+        ›
+      </button>
+    </div>
+  )
+
   if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') {
     return (
       <div className="rounded-none border border-slate-200/60 bg-white/80 backdrop-blur-sm p-8 text-center shadow-[0_8px_24px_rgba(15,23,42,0.04)]">
@@ -109,6 +154,7 @@ export default function Leaderboard() {
             <path strokeLinecap="round" strokeLinejoin="round" d="M4 20h16M7 20v-7M12 20V6M17 20v-4" />
           </svg>
         </div>
+        <div className="mb-2">{seasonSelector}</div>
         <p className="mb-1 text-sm font-black text-slate-800 lowercase tracking-wide" style={{ fontFamily: 'var(--font-mono, monospace)' }}>no scores yet</p>
         <p className="text-[11px] text-slate-400 font-medium mb-0.5">be first in base dash leaderboard</p>
         <p className="text-[10px] text-slate-300 font-medium">play a round and submit your score on-chain</p>
@@ -127,7 +173,8 @@ export default function Leaderboard() {
             </svg>
             leaderboard
           </h2>
-          <p className="mt-0.5 text-[10px] font-medium text-slate-400" style={{ fontFamily: 'var(--font-mono, monospace)' }}>auto refresh every 30s</p>
+          <p className="mt-0.5 text-[10px] font-medium text-slate-400" style={{ fontFamily: 'var(--font-mono, monospace)' }}>{isPastSeason ? 'season ended' : 'auto refresh every 30s'}</p>
+          <div className="-ml-1.5 mt-0.5">{seasonSelector}</div>
         </div>
 
         <button
@@ -145,7 +192,7 @@ export default function Leaderboard() {
       {/* Top Stats Cards */}
       <div className="mb-5 grid grid-cols-3 gap-2">
         <div className="bg-white/60 backdrop-blur-sm py-3 text-center rounded-none border border-slate-100 shadow-[0_2px_8px_rgba(0,0,0,0.03)]">
-          <p className="text-lg font-black text-slate-800 leading-none" style={{ fontFamily: 'var(--font-mono, monospace)' }}>{scores.length}</p>
+          <p className="text-lg font-black text-slate-800 leading-none" style={{ fontFamily: 'var(--font-mono, monospace)' }}>{total}</p>
           <p className="mt-1.5 text-[8px] font-bold uppercase tracking-[0.2em] text-slate-400" style={{ fontFamily: 'var(--font-mono, monospace)' }}>players</p>
         </div>
 
@@ -163,27 +210,38 @@ export default function Leaderboard() {
       {/* Entries */}
       <div className="bg-white/40 backdrop-blur-sm rounded-none border border-slate-100 shadow-[0_2px_12px_rgba(0,0,0,0.03)] overflow-hidden">
         <div className="flex flex-col divide-y divide-slate-100/80">
-          {scores.map((entry, i) => (
-            <LeaderboardEntry
-              key={`${entry.player}-${i}`}
-              entry={entry}
-              rank={i + 1}
-              isSelf={!!address && entry.player.toLowerCase() === address.toLowerCase()}
-              selfRef={selfEntryRef}
-            />
-          ))}
+          {scores.map(renderEntry)}
         </div>
       </div>
 
+      {hasMore && (
+        <button
+          onClick={() => void loadMore()}
+          disabled={isLoadingMore}
+          className="mt-2 w-full py-2 rounded-none text-[10px] font-bold text-slate-500 hover:text-slate-800 bg-white/60 hover:bg-white/90 border border-slate-200/50 disabled:opacity-50 transition-all lowercase tracking-wide"
+          style={{ fontFamily: 'var(--font-mono, monospace)' }}
+        >
+          {isLoadingMore ? 'loading...' : `load more · ${scores.length} of ${total}`}
+        </button>
+      )}
+
+      {/* Around me — the player's neighbourhood when they're below the loaded pages */}
+      {aroundScores.length > 0 && (
+        <div className="mt-3 bg-white/40 backdrop-blur-sm rounded-none border border-[#0052FF]/10 overflow-hidden">
+          <p className="px-3 pt-2 text-[9px] font-bold text-slate-400 lowercase tracking-widest" style={{ fontFamily: 'var(--font-mono, monospace)' }}>around you</p>
+          <div className="flex flex-col divide-y divide-slate-100/80">
+            {aroundScores.map(renderEntry)}
+          </div>
+        </div>
+      )}
+
       {/* User rank indicator — shows for all connected wallets (item 18) */}
       {address && (
         <div className="mt-4 flex items-center justify-center gap-2 py-2.5 bg-[#0052FF]/[0.04] rounded-none border border-[#0052FF]/10">
           <span className="text-[10px] font-black text-slate-600 lowercase tracking-widest" style={{ fontFamily: 'var(--font-mono, monospace)' }}>
-            {userRank
-              ? `your rank: #${userRank} of ${scores.length}`
-              : (playerRankData && typeof playerRankData === 'bigint')
-                ? `your position: #${bigIntToNumber(playerRankData as bigint)} of ${scores.length}+`
-                : 'play to rank'}
+            {player
+              ? `your rank: #${player.rank} of ${player.total} · ${player.percentile}th pct`
+              : rankUnavailable ? 'rank unavailable' : 'play to rank'}
           </span>
         </div>
       )}
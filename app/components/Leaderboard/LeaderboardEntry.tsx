@@ -26,7 +26,14 @@ const RANK_META: Record<number, RankMeta> = {
     },
 }
 
-export function LeaderboardEntry({ entry, rank, isSelf, selfRef }: { entry: PlayerScore; rank: number; isSelf: boolean; selfRef?: React.Ref<HTMLDivElement> }) {
+export function LeaderboardEntry({ entry, rank, isSelf, selfRef, onRace, raceStatus }: {
+    entry: PlayerScore
+    rank: number
+    isSelf: boolean
+    selfRef?: React.Ref<HTMLDivElement>
+    onRace?: () => void
+    raceStatus?: 'loading' | 'missing' | null
+}) {
     const score = bigIntToNumber(entry.score)
     const streak = bigIntToNumber(entry.streakDays)
     const meta = RANK_META[rank]
@@ -101,6 +108,16 @@ export function LeaderboardEntry({ entry, rank, isSelf, selfRef }: { entry: Play
                 <p className={`font-mono text-sm sm:text-[15px] font-black tracking-tight leading-none ${isSelf ? 'text-[#0052FF]' : 'text-slate-800'}`}>
                     ${score.toLocaleString()}
                 </p>
+                {onRace && (
+                    <button
+                        onClick={onRace}
+                        disabled={raceStatus === 'loading'}
+                        className="mt-1 text-[8px] font-black lowercase tracking-widest text-[#8B5CF6]/70 hover:text-[#8B5CF6] disabled:opacity-50 transition-colors"
+                        style={{ fontFamily: 'var(--font-mono, monospace)' }}
+                    >
+                        {raceStatus === 'loading' ? 'loading…' : raceStatus === 'missing' ? 'no ghost' : 'race ghost'}
+                    </button>
+                )}
             </div>
         </div>
     )
@@ -0,0 +1,9 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'course editor',
+}
+
+export default function EditorLayout({ children }: { children: React.ReactNode }) {
+  return children
+}
@@ -0,0 +1,484 @@
+/**
+ * ============================================================================
+ * BASE DASH — Course Editor
+ * Place candles and power-ups along the track, test-play, share as a code
+ * ============================================================================
+ */
+
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import CourseCanvas, { type CourseRunResult } from '@/app/components/Game/CourseCanvas'
+import { type PowerUpKind, CFG, POWERUP_CONFIG, SPEEDS } from '@/app/components/Game/gameConfig'
+import {
+  type Course,
+  COURSE_LIMITS,
+  courseProblems,
+  decodeCourse,
+  emptyCourse,
+  encodeCourse,
+  parseCourse,
+  sortCourse,
+} from '@/app/components/Game/gameCourse'
+import { safeStorage } from '@/app/lib/safeStorage'
+import { useWallet } from '@/app/hooks/useWallet'
+import { type CourseRunRank, useCourses } from '@/app/hooks/useCourses'
+
+const mono = { fontFamily: 'var(--font-mono, monospace)' }
+const DRAFT_KEY = 'bd_course_draft'
+// Erase picks the nearest item within this many px of the click
+const ERASE_RANGE = 40
+
+type Tool = 'red' | 'green' | PowerUpKind | 'erase'
+
+const POWERUP_KINDS = Object.keys(POWERUP_CONFIG.TYPES) as PowerUpKind[]
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: 'red', label: '🟥 red' },
+  { tool: 'green', label: '🟩 green' },
+  ...POWERUP_KINDS.map((kind) => ({ tool: kind as Tool, label: POWERUP_CONFIG.TYPES[kind].label })),
+  { tool: 'erase', label: '✕ erase' },
+]
+
+const short = (address: string) => address === 'anonymous' ? 'anon' : `${address.slice(0, 6)}…${address.slice(-4)}`
+const clamp = (v: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, v))
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border border-slate-200/60 bg-white p-4">
+      <h2 className="text-[11px] font-black text-slate-800 mb-3 lowercase tracking-wider" style={mono}>{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+function ActionButton({ onClick, disabled, active, children }: {
+  onClick: () => void
+  disabled?: boolean
+  active?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-3 py-2 text-[10px] font-black lowercase tracking-widest transition-all active:scale-[0.98] disabled:opacity-40 ${active === false ? 'bg-slate-100 text-slate-600' : 'bg-[#0052FF] text-white'}`}
+      style={mono}
+    >
+      {children}
+    </button>
+  )
+}
+
+function NumberField({ label, value, range, step = 1, onChange }: {
+  label: string
+  value: number
+  range: readonly [number, number]
+  step?: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex items-center gap-2 text-[10px] text-slate-500" style={mono}>
+      {label}
+      <input
+        type="number"
+        value={value}
+        min={range[0]}
+        max={range[1]}
+        step={step}
+        onChange={(e) => onChange(clamp(Number(e.target.value) || range[0], range))}
+        className="w-20 border border-slate-200 px-2 py-1 text-[10px] text-slate-800 outline-none focus:border-[#0052FF]"
+        style={mono}
+      />
+    </label>
+  )
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function EditorPage() {
+  const [course, setCourse] = useState<Course>(emptyCourse)
+  const [view, setView] = useState(0)
+  const [tool, setTool] = useState<Tool>('red')
+  const [height, setHeight] = useState(70)
+  const [width, setWidth] = useState(34)
+  const [moving, setMoving] = useState(false)
+  const [playing, setPlaying] = useState(false)
+  const [result, setResult] = useState<CourseRunResult | null>(null)
+  const [importCode, setImportCode] = useState('')
+  const [notice, setNotice] = useState<string | null>(null)
+  const [rank, setRank] = useState<CourseRunRank | null>(null)
+  const runSessionRef = useRef<string | null>(null)
+
+  const { address } = useWallet()
+  const courses = useCourses(address)
+  const { load } = courses
+  // Runs only count on the boards while the course is exactly what was published
+  const live = useMemo(
+    () => courses.published && JSON.stringify(courses.published.course) === JSON.stringify(course) ? courses.published : null,
+    [courses.published, course]
+  )
+
+  // A published ?id= or shared ?course= link wins over the saved draft
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const id = params.get('id')
+    if (id) {
+      load(id).then((data) => data && setCourse(data.course))
+      return
+    }
+    const shared = params.get('course')
+    const loaded = shared ? decodeCourse(shared) : parseCourse(safeStorage.getJSON<unknown>(DRAFT_KEY, null))
+    if (loaded) setCourse(loaded)
+    else if (shared) setNotice('that course link is broken')
+  }, [load])
+
+  useEffect(() => {
+    if (courses.error) setNotice(courses.error)
+  }, [courses.error])
+
+  useEffect(() => {
+    safeStorage.setJSON(DRAFT_KEY, course)
+  }, [course])
+
+  const problems = useMemo(() => courseProblems(course), [course])
+  const items = course.candles.length + course.powerUps.length
+  const maxView = Math.max(0, course.length - CFG.WIDTH / 2)
+
+  const update = (patch: Partial<Course>) => setCourse((c) => sortCourse({ ...c, ...patch }))
+
+  const place = (at: number, clickHeight: number) => {
+    if (at < 0 || at > course.length) return
+    if (tool === 'erase') {
+      const nearest = (list: { at: number }[]) => list.reduce(
+        (best, item, i) => Math.abs(item.at - at) < Math.abs((list[best]?.at ?? Infinity) - at) ? i : best, -1)
+      const c = nearest(course.candles)
+      const p = nearest(course.powerUps)
+      const cDist = c < 0 ? Infinity : Math.abs(course.candles[c].at - at)
+      const pDist = p < 0 ? Infinity : Math.abs(course.powerUps[p].at - at)
+      if (Math.min(cDist, pDist) > ERASE_RANGE) return
+      if (cDist <= pDist) update({ candles: course.candles.filter((_, i) => i !== c) })
+      else update({ powerUps: course.powerUps.filter((_, i) => i !== p) })
+      return
+    }
+    if (items >= COURSE_LIMITS.ITEMS_MAX) {
+      setNotice(`a course holds at most ${COURSE_LIMITS.ITEMS_MAX} items`)
+      return
+    }
+    if (tool === 'red' || tool === 'green') {
+      // Clicking above where the candle's top would be lifts it into the air
+      const lift = clamp(Math.round(clickHeight - height), COURSE_LIMITS.LIFT)
+      const left = clamp(Math.round(at - width / 2), [0, course.length])
+      update({
+        candles: [...course.candles, {
+          at: left, kind: tool, height, width,
+          ...(lift > 10 ? { lift } : {}),
+          ...(moving ? { moving } : {}),
+        }],
+      })
+    } else {
+      update({ powerUps: [...course.powerUps, { at, kind: tool, lift: clamp(clickHeight, COURSE_LIMITS.POWERUP_LIFT) }] })
+    }
+  }
+
+  const shareLink = () => `${window.location.origin}/editor?course=${encodeCourse(course)}`
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setNotice(`${what} copied`)
+    } catch {
+      setNotice(`couldn't copy the ${what}`)
+    }
+  }
+
+  const runImport = () => {
+    // Accept a whole share link as well as a bare code
+    const code = importCode.trim()
+    const loaded = decodeCourse(code.match(/[?&]course=([\w-]+)/)?.[1] ?? code)
+    if (!loaded) {
+      setNotice('not a valid course code')
+      return
+    }
+    setCourse(loaded)
+    setView(0)
+    setImportCode('')
+    setNotice(`loaded "${loaded.title}"`)
+  }
+
+  const play = async () => {
+    setResult(null)
+    setRank(null)
+    runSessionRef.current = live ? await courses.startRun() : null
+    setPlaying(true)
+  }
+
+  const endRun = (r: CourseRunResult) => {
+    setPlaying(false)
+    setResult(r)
+    const sessionId = runSessionRef.current
+    runSessionRef.current = null
+    if (sessionId) courses.finishRun(sessionId, r.replay).then(setRank)
+  }
+
+  const loadPublished = async (id: string) => {
+    const data = await courses.load(id)
+    if (!data) return
+    setCourse(data.course)
+    setView(0)
+  }
+
+  const publish = async () => {
+    const data = await courses.publish(sortCourse(course))
+    if (data) {
+      setCourse(data.course)
+      setNotice(`published "${data.title}"`)
+    }
+  }
+
+  const publishedLink = (id: string) => `${window.location.origin}/api/frames/result?course=${id}`
+
+  return (
+    <main className="h-full w-full overflow-y-auto touch-auto bg-slate-50">
+      <div className="max-w-4xl mx-auto p-4 space-y-4">
+        <header className="flex items-center justify-between">
+          <h1 className="text-[13px] font-black text-slate-900 lowercase tracking-wider" style={mono}>course editor</h1>
+          <a href="/" className="text-[10px] text-[#0052FF] lowercase" style={mono}>← back to game</a>
+        </header>
+
+        {notice && (
+          <button onClick={() => setNotice(null)} className="w-full text-left border border-[#0052FF]/30 bg-[#0052FF]/5 px-3 py-2 text-[10px] text-[#0052FF]" style={mono}>
+            {notice}
+          </button>
+        )}
+
+        <div className="border border-slate-200/60 bg-white">
+          <CourseCanvas
+            course={course}
+            view={view}
+            playing={playing}
+            onPlace={place}
+            onRunEnd={endRun}
+          />
+          <div className="p-3 space-y-2">
+            <input
+              type="range"
+              min={0}
+              max={maxView}
+              step={10}
+              value={Math.min(view, maxView)}
+              disabled={playing}
+              onChange={(e) => setView(Number(e.target.value))}
+              className="w-full"
+            />
+            {/* Mini-map — every item along the whole track */}
+            <div className="relative h-3 bg-slate-100">
+              {course.candles.map((c, i) => (
+                <span key={`c${i}`} className={`absolute bottom-0 w-px ${c.kind === 'red' ? 'bg-[#F6465D]' : 'bg-[#0ECB81]'}`} style={{ left: `${(c.at / course.length) * 100}%`, height: c.lift ? '50%' : '100%' }} />
+              ))}
+              {course.powerUps.map((p, i) => (
+                <span key={`p${i}`} className="absolute top-0 w-px h-1/2 bg-[#0052FF]" style={{ left: `${(p.at / course.length) * 100}%` }} />
+              ))}
+              <span className="absolute inset-y-0 bg-[#0052FF]/15" style={{ left: `${(view / course.length) * 100}%`, width: `${(CFG.WIDTH / course.length) * 100}%` }} />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {playing ? (
+                <ActionButton onClick={() => setPlaying(false)}>stop</ActionButton>
+              ) : (
+                <ActionButton onClick={play} disabled={problems.length > 0}>▶ play course</ActionButton>
+              )}
+              <span className="text-[10px] text-slate-500" style={mono}>
+                {playing ? 'space / click to jump' : `${items}/${COURSE_LIMITS.ITEMS_MAX} items · view ${Math.round(view)}px`}
+              </span>
+              {result && !playing && (
+                <span className={`text-[10px] font-black ${result.complete ? 'text-[#0ECB81]' : 'text-[#F6465D]'}`} style={mono}>
+                  {result.complete ? `complete! score ${result.score}` : `died at ${Math.round(result.progress * 100)}% · score ${result.score}`}
+                </span>
+              )}
+              {rank && !playing && (
+                <span className="text-[10px] text-slate-500" style={mono}>
+                  #{rank.scoreRank} by score{rank.timeRank !== null ? ` · #${rank.timeRank} by time` : ''}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <Section title="place">
+          <div className="flex flex-wrap gap-2 mb-3">
+            {TOOLS.map(({ tool: t, label }) => (
+              <ActionButton key={t} onClick={() => setTool(t)} active={tool === t}>{label}</ActionButton>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <NumberField label="height" value={height} range={COURSE_LIMITS.HEIGHT} onChange={setHeight} />
+            <NumberField label="width" value={width} range={COURSE_LIMITS.WIDTH} onChange={setWidth} />
+            <label className="flex items-center gap-2 text-[10px] text-slate-500" style={mono}>
+              <input type="checkbox" checked={moving} onChange={(e) => setMoving(e.target.checked)} />
+              moving
+            </label>
+          </div>
+          <p className="mt-2 text-[10px] text-slate-400" style={mono}>
+            click the preview to place · click above a candle&apos;s height for an air candle
+          </p>
+        </Section>
+
+        <Section title="course">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-[10px] text-slate-500" style={mono}>
+              title
+              <input
+                value={course.title}
+                maxLength={COURSE_LIMITS.TITLE_MAX}
+                onChange={(e) => update({ title: e.target.value })}
+                className="w-48 border border-slate-200 px-2 py-1 text-[10px] text-slate-800 outline-none focus:border-[#0052FF]"
+                style={mono}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-[10px] text-slate-500" style={mono}>
+              speed
+              <select
+                value={course.speed}
+                onChange={(e) => update({ speed: Number(e.target.value) })}
+                className="border border-slate-200 px-2 py-1 text-[10px] text-slate-800"
+                style={mono}
+              >
+                {SPEEDS.map((s, i) => <option key={s.label} value={i}>{s.label.toLowerCase()} ×{s.multiplier}</option>)}
+              </select>
+            </label>
+            <NumberField
+              label="length"
+              value={course.length}
+              range={COURSE_LIMITS.LENGTH}
+              step={500}
+              onChange={(length) => update({
+                length,
+                candles: course.candles.filter((c) => c.at <= length),
+                powerUps: course.powerUps.filter((p) => p.at <= length),
+              })}
+            />
+            <ActionButton onClick={() => { setCourse(emptyCourse()); setView(0) }} disabled={playing}>clear</ActionButton>
+          </div>
+          {problems.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {problems.map((p) => <li key={p} className="text-[10px] text-[#F6465D]" style={mono}>{p}</li>)}
+            </ul>
+          )}
+        </Section>
+
+        <Section title="items">
+          {items === 0 ? (
+            <p className="text-[10px] text-slate-400" style={mono}>nothing placed yet</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto">
+              {[
+                ...course.candles.map((c, i) => ({
+                  key: `c${i}`, at: c.at,
+                  label: `${c.kind} ${c.height}×${c.width}${c.lift ? ` air +${c.lift}` : ''}${c.moving ? ' moving' : ''}`,
+                  remove: () => update({ candles: course.candles.filter((_, j) => j !== i) }),
+                })),
+                ...course.powerUps.map((p, i) => ({
+                  key: `p${i}`, at: p.at,
+                  label: `${POWERUP_CONFIG.TYPES[p.kind].label} +${p.lift}`,
+                  remove: () => update({ powerUps: course.powerUps.filter((_, j) => j !== i) }),
+                })),
+              ].sort((a, b) => a.at - b.at).map((item) => (
+                <div key={item.key} className="flex items-center justify-between gap-4 py-1 text-[10px] border-b border-slate-100 last:border-0" style={mono}>
+                  <button onClick={() => setView(clamp(item.at - CFG.WIDTH / 3, [0, maxView]))} className="text-slate-500 hover:text-[#0052FF]">
+                    {item.at}px
+                  </button>
+                  <span className="flex-1 text-slate-800">{item.label}</span>
+                  <button onClick={item.remove} disabled={playing} className="text-[#F6465D]">remove</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Section>
+
+        {live && (
+          <Section title={`published · ${live.title}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-[10px] text-slate-500" style={mono}>
+              <span>by {short(live.author)} · {live.plays} plays · {live.ratings > 0 ? `${live.rating.toFixed(1)}★ (${live.ratings})` : 'unrated'}</span>
+              <span className="flex-1" />
+              {[1, 2, 3, 4, 5].map((stars) => (
+                <button
+                  key={stars}
+                  onClick={() => courses.rate(stars)}
+                  disabled={!courses.canRate}
+                  title={courses.canRate ? `rate ${stars}` : address ? 'finish a run to rate' : 'connect a wallet to rate'}
+                  className="text-[14px] text-[#F0B90B] disabled:opacity-40"
+                >
+                  {stars <= Math.round(live.rating) ? '★' : '☆'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { title: 'best score', rows: live.boards.scores.map((r) => ({ player: r.player, value: String(r.score) })) },
+                { title: 'fastest finish', rows: live.boards.times.map((r) => ({ player: r.player, value: `${(r.frames * CFG.STEP).toFixed(2)}s` })) },
+              ].map((board) => (
+                <div key={board.title}>
+                  <p className="text-[10px] font-black text-slate-800 mb-1" style={mono}>{board.title}</p>
+                  {board.rows.length === 0 ? (
+                    <p className="text-[10px] text-slate-400" style={mono}>no runs yet</p>
+                  ) : board.rows.map((row, i) => (
+                    <div key={row.player} className="flex justify-between py-0.5 text-[10px]" style={mono}>
+                      <span className="text-slate-500">#{i + 1} {short(row.player)}</span>
+                      <span className="text-slate-800">{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            {!address && (
+              <p className="mt-3 text-[10px] text-slate-400" style={mono}>connect a wallet to get on the boards</p>
+            )}
+          </Section>
+        )}
+
+        <Section title="share">
+          <div className="flex flex-wrap gap-2 mb-3">
+            {live ? (
+              <ActionButton onClick={() => copy(publishedLink(live.id), 'course card link')}>copy course card link</ActionButton>
+            ) : (
+              <ActionButton onClick={publish} disabled={problems.length > 0 || courses.isLoading || playing}>publish</ActionButton>
+            )}
+            <ActionButton onClick={() => copy(shareLink(), 'link')} disabled={problems.length > 0}>copy share link</ActionButton>
+            <ActionButton onClick={() => copy(encodeCourse(course), 'course code')} disabled={problems.length > 0}>copy code</ActionButton>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={importCode}
+              onChange={(e) => setImportCode(e.target.value)}
+              placeholder="paste a course code or link"
+              className="flex-1 min-w-0 border border-slate-200 px-2 py-2 text-[10px] outline-none focus:border-[#0052FF]"
+              style={mono}
+            />
+            <ActionButton onClick={runImport} disabled={!importCode.trim() || playing}>load</ActionButton>
+          </div>
+        </Section>
+
+        <Section title="published courses">
+          <div className="flex gap-2 mb-3">
+            <ActionButton onClick={() => courses.setSort('top')} active={courses.sort === 'top'}>top rated</ActionButton>
+            <ActionButton onClick={() => courses.setSort('new')} active={courses.sort === 'new'}>newest</ActionButton>
+          </div>
+          {courses.list.length === 0 ? (
+            <p className="text-[10px] text-slate-400" style={mono}>nothing published yet</p>
+          ) : courses.list.map((c) => (
+            <div key={c.id} className="flex items-center justify-between gap-4 py-1 text-[10px] border-b border-slate-100 last:border-0" style={mono}>
+              <span className="flex-1 text-slate-800 truncate">{c.title}</span>
+              <span className="text-slate-500">{short(c.author)} · {c.plays} plays · {c.ratings > 0 ? `${c.rating.toFixed(1)}★` : '—'}</span>
+              <button onClick={() => loadPublished(c.id)} disabled={playing} className="text-[#0052FF]">play</button>
+            </div>
+          ))}
+        </Section>
+      </div>
+    </main>
+  )
+}
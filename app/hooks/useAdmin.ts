@@ -0,0 +1,239 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useReadContract, useSignMessage, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { base, baseSepolia } from 'wagmi/chains'
+import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from '@/app/contracts'
+import { ADMIN_AUTH_TTL_MS, adminAuthHeaders, adminAuthMessage } from '@/app/lib/adminAuth'
+import type { DenyEntry, DenyMode } from '@/app/lib/denylist'
+import type { RelayerHealth } from '@/app/lib/relayQueue'
+import type { ReviewEntry } from '@/app/lib/runValidation'
+import type { SignerWindow } from '@/app/lib/scoreSigners'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
+const activeChainId = isTestnet ? baseSepolia.id : base.id
+const target = { address: CONTRACT_ADDRESS, abi: GAME_LEADERBOARD_ABI, chainId: activeChainId } as const
+
+/** GET /api/admin/state */
+export interface AdminState {
+  contract: {
+    address: `0x${string}`
+    owner: `0x${string}`
+    pendingOwner: `0x${string}`
+    scoreSigner: `0x${string}`
+    signers: (SignerWindow & { active: boolean })[]
+    balance: string
+    boardSize: number
+    season: number
+  }
+  relayers: { minBalance: string; accounts: RelayerHealth[] } | null
+  review: ReviewEntry[]
+  denylist: (DenyEntry & { bannedOnChain: boolean })[]
+}
+
+export interface AdminTx {
+  label: string
+  hash: `0x${string}`
+}
+
+/**
+ * Owner-only dashboard data and actions. Reads go through /api/admin/state,
+ * authenticated by a signed message (lib/adminAuth); owner functions are sent
+ * from the connected wallet after a confirmation prompt.
+ */
+export function useAdmin(address: `0x${string}` | undefined) {
+  const [auth, setAuth] = useState<{ address: string; issuedAt: number; signature: string } | null>(null)
+  const [state, setState] = useState<AdminState | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [lastTx, setLastTx] = useState<AdminTx | null>(null)
+
+  const isContractReady = CONTRACT_ADDRESS !== ZERO_ADDRESS
+
+  const { data: owner } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'owner',
+    query: { enabled: isContractReady },
+  })
+  const isOwner = !!address && typeof owner === 'string' && owner.toLowerCase() === address.toLowerCase()
+
+  const { signMessageAsync, isPending: isSigning } = useSignMessage()
+  const { writeContractAsync, isPending: isTxPending } = useWriteContract()
+  const { isLoading: isConfirming, isSuccess: isConfirmed, isError: isTxFailed } = useWaitForTransactionReceipt({ hash: lastTx?.hash })
+
+  // A signature only covers the wallet that made it
+  useEffect(() => {
+    if (auth && auth.address.toLowerCase() !== address?.toLowerCase()) {
+      setAuth(null)
+      setState(null)
+    }
+  }, [address, auth])
+
+  const signIn = useCallback(async () => {
+    if (!address) return
+    setError(null)
+    try {
+      const issuedAt = Date.now()
+      const signature = await signMessageAsync({ message: adminAuthMessage(address, issuedAt) })
+      setAuth({ address, issuedAt, signature })
+    } catch (err) {
+      console.error('Admin sign-in failed:', err)
+      setError('signature rejected')
+    }
+  }, [address, signMessageAsync])
+
+  /** Signed request to /api/admin/* — throws with the API's error message */
+  const adminFetch = useCallback(async (path: string, init: RequestInit = {}) => {
+    if (!auth || Date.now() - auth.issuedAt > ADMIN_AUTH_TTL_MS) {
+      setAuth(null)
+      throw new Error('session expired — sign in again')
+    }
+    const res = await fetch(path, {
+      ...init,
+      headers: { ...adminAuthHeaders(auth.address, auth.issuedAt, auth.signature), 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      if (res.status === 401) setAuth(null)
+      throw new Error(data.reason ?? data.error ?? `HTTP ${res.status}`)
+    }
+    return data
+  }, [auth])
+
+  const refresh = useCallback(async () => {
+    if (!auth) return
+    setIsLoading(true)
+    try {
+      setState(await adminFetch('/api/admin/state') as AdminState)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'failed to load')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [auth, adminFetch])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (isConfirmed) void refresh()
+  }, [isConfirmed, refresh])
+
+  // ==========================================================================
+  // OWNER ACTIONS
+  // ==========================================================================
+
+  const send = useCallback(async (label: string, confirmText: string, write: () => Promise<`0x${string}`>) => {
+    if (!isOwner || !window.confirm(`${confirmText}\n\nThis sends a transaction from ${address}.`)) return
+    setError(null)
+    try {
+      setLastTx({ label, hash: await write() })
+    } catch (err) {
+      console.error(`${label} failed:`, err)
+      setError(err instanceof Error ? err.message.split('\n')[0] : `${label} failed`)
+    }
+  }, [address, isOwner])
+
+  const setScoreSigner = useCallback((signer: `0x${string}`) => send(
+    'setScoreSigner',
+    `Rotate the score signer to ${signer}? Every other signer expires within the hour.`,
+    () => writeContractAsync({ ...target, functionName: 'setScoreSigner', args: [signer] })
+  ), [send, writeContractAsync])
+
+  const setScoreSignerWindow = useCallback((signer: `0x${string}`, validFrom: bigint, validUntil: bigint) => send(
+    'setScoreSignerWindow',
+    `Set ${signer}'s window to ${validFrom || 'unchanged'} – ${validUntil || 'no expiry'}?`,
+    () => writeContractAsync({ ...target, functionName: 'setScoreSignerWindow', args: [signer, validFrom, validUntil] })
+  ), [send, writeContractAsync])
+
+  const setRelayer = useCallback((relayer: `0x${string}`, status: boolean) => send(
+    'setRelayer',
+    `${status ? 'Grant' : 'Revoke'} relayer access for ${relayer}?`,
+    () => writeContractAsync({ ...target, functionName: 'setRelayer', args: [relayer, status] })
+  ), [send, writeContractAsync])
+
+  const startNewSeason = useCallback(() => send(
+    'startNewSeason',
+    'Close the current season and start an empty board for everyone?',
+    () => writeContractAsync({ ...target, functionName: 'startNewSeason' })
+  ), [send, writeContractAsync])
+
+  const withdraw = useCallback(() => send(
+    'withdraw',
+    'Withdraw the contract balance to the owner wallet?',
+    () => writeContractAsync({ ...target, functionName: 'withdraw' })
+  ), [send, writeContractAsync])
+
+  const setBanned = useCallback((player: `0x${string}`, banned: boolean) => send(
+    'setBanned',
+    `${banned ? 'Ban' : 'Unban'} ${player} on-chain? ${banned ? 'Their score submissions will revert.' : ''}`,
+    () => writeContractAsync({ ...target, functionName: 'setBanned', args: [player, banned] })
+  ), [send, writeContractAsync])
+
+  const removeFromLeaderboard = useCallback((player: `0x${string}`) => send(
+    'removeFromLeaderboard',
+    `Remove ${player} from the current season's board and clear their season best?`,
+    () => writeContractAsync({ ...target, functionName: 'removeFromLeaderboard', args: [player] })
+  ), [send, writeContractAsync])
+
+  const transferOwnership = useCallback((newOwner: `0x${string}`) => send(
+    'transferOwnership',
+    `Start transferring ownership to ${newOwner}? They must call acceptOwnership to complete it.`,
+    () => writeContractAsync({ ...target, functionName: 'transferOwnership', args: [newOwner] })
+  ), [send, writeContractAsync])
+
+  // ==========================================================================
+  // DENYLIST (server-side, no transaction)
+  // ==========================================================================
+
+  const denyPlayer = useCallback(async (player: `0x${string}`, mode: DenyMode, reason: string) => {
+    if (!window.confirm(`${mode === 'ban' ? 'Ban' : 'Shadow-ban'} ${player}? They disappear from the leaderboard${mode === 'ban' ? ' and can no longer get scores signed' : ''}.`)) return
+    try {
+      await adminFetch('/api/admin/denylist', { method: 'POST', body: JSON.stringify({ address: player, mode, reason }) })
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'denylist update failed')
+    }
+  }, [adminFetch, refresh])
+
+  const liftDeny = useCallback(async (player: `0x${string}`) => {
+    if (!window.confirm(`Lift the denylist entry for ${player}?`)) return
+    try {
+      await adminFetch(`/api/admin/denylist?address=${player}`, { method: 'DELETE' })
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'denylist update failed')
+    }
+  }, [adminFetch, refresh])
+
+  return {
+    isContractReady,
+    isOwner,
+    isSignedIn: !!auth,
+    isSigning,
+    signIn,
+    state,
+    error,
+    isLoading,
+    refresh,
+    lastTx,
+    isTxPending: isTxPending || isConfirming,
+    isConfirmed,
+    isTxFailed,
+    setScoreSigner,
+    setScoreSignerWindow,
+    setRelayer,
+    startNewSeason,
+    withdraw,
+    transferOwnership,
+    setBanned,
+    removeFromLeaderboard,
+    denyPlayer,
+    liftDeny,
+  }
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Course } from '@/app/components/Game/gameCourse'
+import type { ReplayLog } from '@/app/components/Game/gameReplay'
+import type { CourseBoards, CourseSort, CourseSummary } from '@/app/lib/courses'
+
+/** GET /api/courses?id=xxx */
+export interface PublishedCourse extends CourseSummary {
+  course: Course
+  boards: CourseBoards
+}
+
+/** POST /api/session/finish for a course run */
+export interface CourseRunRank {
+  complete: boolean
+  scoreRank: number
+  timeRank: number | null
+}
+
+const errorOf = async (res: Response) => ((await res.json().catch(() => null))?.error as string) || `request failed (${res.status})`
+
+/**
+ * Published courses for the editor: browsing, publishing, rating, and
+ * verified runs on a published course. A run is opened with
+ * /api/session/start before play and closed with its replay afterwards, so
+ * the score lands on the course's boards. Ratings are sent with the last run
+ * that made the boards — the server rates as that run's wallet.
+ */
+export function useCourses(address: `0x${string}` | undefined) {
+  const [published, setPublished] = useState<PublishedCourse | null>(null)
+  const [list, setList] = useState<CourseSummary[]>([])
+  const [sort, setSort] = useState<CourseSort>('top')
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [ratingRun, setRatingRun] = useState<{ course: string; sessionId: string } | null>(null)
+
+  const refreshList = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/courses?sort=${sort}&limit=20`)
+      if (res.ok) setList((await res.json()).courses)
+    } catch { /* browsing is optional */ }
+  }, [sort])
+
+  useEffect(() => {
+    refreshList()
+  }, [refreshList])
+
+  const load = useCallback(async (id: string): Promise<PublishedCourse | null> => {
+    setError(null)
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/courses?id=${encodeURIComponent(id)}`)
+      if (!res.ok) throw new Error(await errorOf(res))
+      const data: PublishedCourse = await res.json()
+      setPublished(data)
+      return data
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'failed to load course')
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const publish = useCallback(async (course: Course): Promise<PublishedCourse | null> => {
+    setError(null)
+    setIsLoading(true)
+    try {
+      const res = await fetch('/api/courses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ course, address }),
+      })
+      if (!res.ok) throw new Error(await errorOf(res))
+      const { id } = await res.json()
+      refreshList()
+      return await load(id)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'failed to publish')
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address, load, refreshList])
+
+  /** Open a run session on the published course — null if the server can't verify runs */
+  const startRun = useCallback(async (): Promise<string | null> => {
+    if (!published) return null
+    try {
+      const res = await fetch('/api/session/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: address || 'anonymous', mode: 'course', courseId: published.id }),
+      })
+      return res.ok ? (await res.json()).sessionId ?? null : null
+    } catch {
+      return null
+    }
+  }, [address, published])
+
+  const finishRun = useCallback(async (sessionId: string, replay: ReplayLog): Promise<CourseRunRank | null> => {
+    try {
+      const res = await fetch('/api/session/finish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, replay }),
+      })
+      if (!res.ok) throw new Error(await errorOf(res))
+      const data = await res.json()
+      if (published) {
+        if (data.courseRank) setRatingRun({ course: published.id, sessionId })
+        load(published.id)
+      }
+      return data.courseRank ? { complete: data.complete, ...data.courseRank } : null
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'run was not recorded')
+      return null
+    }
+  }, [load, published])
+
+  const canRate = !!published && ratingRun?.course === published.id
+
+  const rate = useCallback(async (stars: number) => {
+    if (!published || ratingRun?.course !== published.id) return
+    setError(null)
+    try {
+      const res = await fetch('/api/courses/rate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: published.id, sessionId: ratingRun.sessionId, stars }),
+      })
+      if (!res.ok) throw new Error(await errorOf(res))
+      const { rating, ratings } = await res.json()
+      setPublished({ ...published, rating, ratings })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'failed to rate')
+    }
+  }, [published, ratingRun])
+
+  return {
+    published,
+    clearPublished: useCallback(() => setPublished(null), []),
+    list,
+    sort,
+    setSort,
+    error,
+    isLoading,
+    load,
+    publish,
+    startRun,
+    finishRun,
+    canRate,
+    rate,
+  }
+}
@@ -4,46 +4,21 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { base, baseSepolia } from 'wagmi/chains'
 import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from '@/app/contracts'
+import { getStreakMultiplier, getStreakTier, getNextStreakTier } from '@/app/lib/streak'
 
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
 const SECONDS_IN_DAY = BigInt(86400)
 const isTestnet = process.env.NEXT_PUBLIC_USE_TESTNET === 'true'
 const activeChainId = isTestnet ? baseSepolia.id : base.id
 
-// ============================================================================
-// STREAK MULTIPLIER TIERS
-// ============================================================================
-export const STREAK_TIERS = [
-  { days: 0, multiplier: 1.0, label: 'No Streak', emoji: '💤', color: '#94a3b8', bg: 'rgba(148,163,184,0.08)' },
-  { days: 1, multiplier: 1.1, label: 'Warming Up', emoji: '🔥', color: '#F0B90B', bg: 'rgba(240,185,11,0.08)' },
-  { days: 3, multiplier: 1.25, label: 'On Fire', emoji: '⚡', color: '#F6465D', bg: 'rgba(246,70,93,0.08)' },
-  { days: 7, multiplier: 1.5, label: 'Diamond Hands', emoji: '💎', color: '#0052FF', bg: 'rgba(0,82,255,0.08)' },
-  { days: 14, multiplier: 2.0, label: 'Legendary', emoji: '👑', color: '#8B5CF6', bg: 'rgba(139,92,246,0.08)' },
-] as const
-
-export type StreakTier = typeof STREAK_TIERS[number]
-
-export function getStreakTier(streak: number): StreakTier {
-  for (let i = STREAK_TIERS.length - 1; i >= 0; i--) {
-    if (streak >= STREAK_TIERS[i].days) return STREAK_TIERS[i]
-  }
-  return STREAK_TIERS[0]
-}
-
-export function getNextStreakTier(streak: number): StreakTier | null {
-  for (const tier of STREAK_TIERS) {
-    if (tier.days > streak) return tier
-  }
-  return null // Already at max
-}
-
-export function getStreakMultiplier(streak: number): number {
-  return getStreakTier(streak).multiplier
-}
+// Tier table lives in lib/ so the server can price replays with it too
+export { STREAK_TIERS, getStreakTier, getNextStreakTier, getStreakMultiplier, type StreakTier } from '@/app/lib/streak'
 
 export function useDailyCheckin(address: `0x${string}` | undefined, enabled = true) {
   const [streak, setStreak] = useState(0)
   const [lastCheckIn, setLastCheckIn] = useState<bigint>(BigInt(0))
+  const [isLinkVerifying, setIsLinkVerifying] = useState(false)
+  const [linkError, setLinkError] = useState<string | null>(null)
 
   const isContractReady = CONTRACT_ADDRESS !== ZERO_ADDRESS
 
@@ -112,18 +87,40 @@ export function useDailyCheckin(address: `0x${string}` | undefined, enabled = tr
   const streakTier = useMemo(() => getStreakTier(streak), [streak])
   const nextTier = useMemo(() => getNextStreakTier(streak), [streak])
 
+  // The contract only takes a FidLink from /api/fid-link, which checks the
+  // connected wallet is the FID's custody or a verified address
   const linkWallet = useCallback(
     async (fid: bigint) => {
       if (!address || !isContractReady) return
       if (fid <= BigInt(0)) return
 
-      writeLinkWallet({
-        address: CONTRACT_ADDRESS,
-        abi: GAME_LEADERBOARD_ABI,
-        functionName: 'linkWallet',
-        args: [fid],
-        chainId: activeChainId,
-      })
+      setLinkError(null)
+      setIsLinkVerifying(true)
+      try {
+        const res = await fetch('/api/fid-link', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fid: fid.toString(), address }),
+        })
+        const data = await res.json()
+        if (!res.ok) {
+          setLinkError(data.message ?? data.error ?? 'could not verify fid')
+          return
+        }
+
+        writeLinkWallet({
+          address: CONTRACT_ADDRESS,
+          abi: GAME_LEADERBOARD_ABI,
+          functionName: 'linkWallet',
+          args: [fid, BigInt(data.deadline), data.signature],
+          chainId: activeChainId,
+        })
+      } catch (err) {
+        console.error('FID link failed:', err)
+        setLinkError('could not verify fid')
+      } finally {
+        setIsLinkVerifying(false)
+      }
     },
     [address, isContractReady, writeLinkWallet]
   )
@@ -165,7 +162,8 @@ export function useDailyCheckin(address: `0x${string}` | undefined, enabled = tr
     },
     isLinked,
     linkWallet,
-    isLinkPending,
+    isLinkPending: isLinkVerifying || isLinkPending,
+    linkError,
     isLinkConfirmed,
     dailyCheckIn,
     isCheckInPending,
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { PlayerScore } from '@/app/contracts'
+
+const PAGE_SIZE = 33
+
+interface LeaderboardRow {
+  player: `0x${string}`
+  score: string
+  timestamp: string
+  streakDays: string
+  rank: number
+}
+
+interface LeaderboardResponse {
+  leaderboard: LeaderboardRow[]
+  count: number
+  total: number
+  offset: number
+  season: number
+  currentSeason: number
+  player: { rank: number; score: number } | null
+}
+
+interface RankResponse {
+  season: number
+  rank: number
+  score: number
+  total: number
+  percentile: number
+  neighbours: LeaderboardRow[]
+  /** Read from the contract's top-100 board — the event index was unavailable */
+  onChain?: boolean
+}
+
+export interface RankedScore extends PlayerScore {
+  rank: number
+}
+
+function toRanked(row: LeaderboardRow): RankedScore {
+  return {
+    player: row.player,
+    score: BigInt(row.score),
+    timestamp: BigInt(row.timestamp),
+    streakDays: BigInt(row.streakDays),
+    rank: row.rank,
+  }
+}
+
+async function fetchLeaderboard(params: Record<string, string | number | undefined>): Promise<LeaderboardResponse> {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value))
+  }
+  const res = await fetch(`/api/leaderboard?${query}`)
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Failed to fetch leaderboard')
+  return data
+}
+
+/** Global rank from /api/leaderboard/rank — null when the player has no score this season */
+async function fetchRank(season: number, address: string): Promise<RankResponse | null> {
+  const res = await fetch(`/api/leaderboard/rank?season=${season}&address=${address}`)
+  if (res.status === 404) return null
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || 'Failed to fetch rank')
+  return data
+}
+
+/**
+ * Paginated season board from /api/leaderboard (served by the Redis event index).
+ * `season` null = current season. `player` is the connected player's global
+ * rank; `aroundScores` are their neighbours when they sit below the loaded pages.
+ */
+export function useLeaderboard(season: number | null, address: `0x${string}` | undefined, enabled = true) {
+  const board = useInfiniteQuery({
+    queryKey: ['leaderboard', season, address],
+    queryFn: ({ pageParam }) => fetchLeaderboard({ season: season ?? undefined, offset: pageParam, limit: PAGE_SIZE, address }),
+    initialPageParam: 0,
+    getNextPageParam: (last) => last.offset + last.count < last.total ? last.offset + last.count : undefined,
+    enabled,
+    refetchInterval: 30000,
+    refetchIntervalInBackground: false,
+  })
+
+  const first = board.data?.pages[0]
+  const loaded = board.data?.pages.reduce((n, page) => n + page.count, 0) ?? 0
+
+  const rank = useQuery({
+    queryKey: ['leaderboard-rank', first?.season, address],
+    queryFn: () => fetchRank(first!.season, address!),
+    enabled: enabled && !!address && !!first,
+    refetchInterval: 30000,
+    refetchIntervalInBackground: false,
+  })
+
+  const scores = useMemo(
+    () => board.data?.pages.flatMap((page) => page.leaderboard.map(toRanked)) ?? [],
+    [board.data]
+  )
+  const aroundScores = useMemo(
+    () => rank.data?.neighbours.filter((row) => row.rank > loaded).map(toRanked) ?? [],
+    [rank.data, loaded]
+  )
+
+  return {
+    scores,
+    aroundScores,
+    total: first?.total ?? 0,
+    season: first?.season ?? season ?? 1,
+    currentSeason: first?.currentSeason ?? 1,
+    player: rank.data
+      ? { rank: rank.data.rank, score: rank.data.score, total: rank.data.total, percentile: rank.data.percentile }
+      : null,
+    /** The rank lookup failed — not the same as having no score */
+    rankUnavailable: rank.isError && !rank.data,
+    isLoading: board.isLoading,
+    hasMore: board.hasNextPage,
+    isLoadingMore: board.isFetchingNextPage,
+    loadMore: board.fetchNextPage,
+    refetch: board.refetch,
+  }
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+
+/** What the game-over screen shows for a submitted score */
+export type SubmitStatus = 'pending' | 'confirmed' | 'failed'
+
+interface RelayStatusResponse {
+  id: string
+  status: 'queued' | 'submitted' | 'confirmed' | 'failed'
+  hash: `0x${string}` | null
+  attempts: number
+  error: string | null
+}
+
+/** Poll a gasless relay job from /api/relay/status until it confirms or fails */
+export function useRelayJob(jobId: string | undefined) {
+  const { data, isError } = useQuery({
+    queryKey: ['relay-job', jobId],
+    queryFn: async (): Promise<RelayStatusResponse> => {
+      const res = await fetch(`/api/relay/status?id=${jobId}`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'Failed to fetch relay status')
+      return json
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return status === 'confirmed' || status === 'failed' ? false : 3000
+    },
+    retry: 3,
+  })
+
+  const status: SubmitStatus =
+    data?.status === 'confirmed' ? 'confirmed'
+      : data?.status === 'failed' || (isError && !data) ? 'failed'
+        : 'pending'
+
+  return { status, hash: data?.hash ?? undefined, error: data?.error ?? null }
+}
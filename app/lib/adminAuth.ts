@@ -0,0 +1,74 @@
+import type { PublicClient } from 'viem'
+import { GAME_LEADERBOARD_ABI } from '@/app/contracts'
+
+// ============================================================================
+// ADMIN AUTH
+// ============================================================================
+// /api/admin/* is gated on the contract owner's wallet. The /admin page has
+// the wallet sign a short message naming its address and the time, then
+// sends it with every request:
+//
+//   x-admin-address     the owner wallet
+//   x-admin-issued-at   ms timestamp inside the message
+//   x-admin-signature   signature over adminAuthMessage(address, issuedAt)
+//
+// Signatures are checked through the RPC so smart wallets (ERC-1271/6492)
+// work as well as EOAs, and expire after ADMIN_AUTH_TTL_MS. Ownership is read
+// from the contract on every request, so a transfer takes effect at once.
+// ============================================================================
+
+export const ADMIN_AUTH_TTL_MS = 10 * 60_000
+
+export type AdminAuthResult =
+  | { ok: true; address: `0x${string}` }
+  | { ok: false; reason: 'missing' | 'expired' | 'bad_signature' | 'not_owner' }
+
+type AdminAuthSource = Pick<PublicClient, 'verifyMessage' | 'readContract'>
+
+export function adminAuthMessage(address: string, issuedAt: number): string {
+  return `Base Dash admin\n\nWallet: ${address.toLowerCase()}\nIssued at: ${issuedAt}`
+}
+
+/** Headers for an admin API request, given the wallet's signature */
+export function adminAuthHeaders(address: string, issuedAt: number, signature: string): Record<string, string> {
+  return {
+    'x-admin-address': address,
+    'x-admin-issued-at': String(issuedAt),
+    'x-admin-signature': signature,
+  }
+}
+
+export async function verifyAdminRequest(
+  headers: Headers,
+  client: AdminAuthSource,
+  contract: `0x${string}`,
+  now = Date.now()
+): Promise<AdminAuthResult> {
+  const address = headers.get('x-admin-address')
+  const issuedAt = Number(headers.get('x-admin-issued-at'))
+  const signature = headers.get('x-admin-signature')
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address) || !signature?.startsWith('0x') || !Number.isSafeInteger(issuedAt)) {
+    return { ok: false, reason: 'missing' }
+  }
+  // Small allowance for a client clock running ahead
+  if (now - issuedAt > ADMIN_AUTH_TTL_MS || issuedAt - now > 60_000) {
+    return { ok: false, reason: 'expired' }
+  }
+
+  const wallet = address as `0x${string}`
+  const valid = await client.verifyMessage({
+    address: wallet,
+    message: adminAuthMessage(wallet, issuedAt),
+    signature: signature as `0x${string}`,
+  }).catch(() => false)
+  if (!valid) return { ok: false, reason: 'bad_signature' }
+
+  const owner = await client.readContract({
+    address: contract,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'owner',
+  }) as `0x${string}`
+  if (owner.toLowerCase() !== wallet.toLowerCase()) return { ok: false, reason: 'not_owner' }
+
+  return { ok: true, address: wallet }
+}
@@ -0,0 +1,219 @@
+import type Redis from 'ioredis'
+import type { Course } from '@/app/components/Game/gameCourse'
+import { generateShareId, getRunSession } from '@/app/lib/gameSessions'
+
+// ============================================================================
+// PUBLISHED COURSES
+// ============================================================================
+// Hand-made courses from /editor, published through /api/courses. A course is
+// immutable once published — editing and republishing makes a new id. Ids
+// are share-style (8 chars, see generateShareId) but courses don't expire.
+//
+// Every course has its own boards, fed by /api/session/finish once a course
+// run's replay has been re-simulated on the course:
+//   scores  best score per player
+//   times   fewest frames to the finish line per player — completions only
+//
+// Ratings are 1-5 stars, one per player, and only from players already on the
+// course's score board. A rating comes with a finished run on the course, and
+// counts for the wallet that run was played with. "top" ranks by the mean with two 3-star votes mixed
+// in, so a single 5-star rating doesn't outrank a well-liked course.
+//
+// Keys:
+//   course:{id}           STR   JSON CourseRecord
+//   course:{id}:scores    ZSET  player → best score
+//   course:{id}:times     ZSET  player → fewest frames to finish
+//   course:{id}:ratings   HASH  player → stars
+//   course:{id}:stats     HASH  rating (mean), ratings (count)
+//   course:{id}:plays     STR   verified runs recorded
+//   courses:new           ZSET  id → createdAt
+//   courses:top           ZSET  id → weighted rating
+// ============================================================================
+
+export interface CourseRecord {
+  id: string
+  /** Lowercased wallet, or 'anonymous' */
+  author: string
+  createdAt: number
+  course: Course
+}
+
+/** What the course list shows — the course itself is fetched by id */
+export interface CourseSummary {
+  id: string
+  title: string
+  author: string
+  createdAt: number
+  speed: number
+  length: number
+  items: number
+  /** Mean stars, 0 when unrated */
+  rating: number
+  ratings: number
+  plays: number
+}
+
+export interface CourseBoards {
+  scores: { player: string; score: number }[]
+  times: { player: string; frames: number }[]
+}
+
+export type CourseSort = 'new' | 'top'
+
+const RATING_PRIOR_VOTES = 2
+const RATING_PRIOR_STARS = 3
+
+const courseKey = (id: string) => `course:${id}`
+const scoresKey = (id: string) => `course:${id}:scores`
+const timesKey = (id: string) => `course:${id}:times`
+const ratingsKey = (id: string) => `course:${id}:ratings`
+const statsKey = (id: string) => `course:${id}:stats`
+const playsKey = (id: string) => `course:${id}:plays`
+const NEW_KEY = 'courses:new'
+const TOP_KEY = 'courses:top'
+
+export const isCourseId = (id: unknown): id is string => typeof id === 'string' && /^[A-Za-z0-9_-]{8}$/.test(id)
+
+// ============================================================================
+// COURSES
+// ============================================================================
+
+/** Store an already-validated course under a fresh id */
+export async function createCourse(
+  redis: Redis,
+  course: Course,
+  author: string,
+  now = Date.now()
+): Promise<CourseRecord> {
+  let record: CourseRecord
+  for (;;) {
+    record = { id: generateShareId(), author: author.toLowerCase(), createdAt: now, course }
+    const created = await redis.set(courseKey(record.id), JSON.stringify(record), 'NX')
+    if (created) break
+  }
+  await redis
+    .multi()
+    .zadd(NEW_KEY, now, record.id)
+    .zadd(TOP_KEY, RATING_PRIOR_STARS, record.id)
+    .exec()
+  return record
+}
+
+export async function getCourse(redis: Redis, id: string): Promise<CourseRecord | null> {
+  if (!isCourseId(id)) return null
+  const raw = await redis.get(courseKey(id))
+  return raw ? JSON.parse(raw) : null
+}
+
+async function summarize(redis: Redis, record: CourseRecord): Promise<CourseSummary> {
+  const [rating, ratings, plays] = await Promise.all([
+    redis.hget(statsKey(record.id), 'rating'),
+    redis.hget(statsKey(record.id), 'ratings'),
+    redis.get(playsKey(record.id)),
+  ])
+  const { course } = record
+  return {
+    id: record.id,
+    title: course.title,
+    author: record.author,
+    createdAt: record.createdAt,
+    speed: course.speed,
+    length: course.length,
+    items: course.candles.length + course.powerUps.length,
+    rating: Number(rating || 0),
+    ratings: Number(ratings || 0),
+    plays: Number(plays || 0),
+  }
+}
+
+export async function getCourseSummary(redis: Redis, id: string): Promise<CourseSummary | null> {
+  const record = await getCourse(redis, id)
+  return record ? summarize(redis, record) : null
+}
+
+/** Newest or best-rated courses, `offset` into the list */
+export async function listCourses(
+  redis: Redis,
+  { sort, limit, offset = 0 }: { sort: CourseSort; limit: number; offset?: number }
+): Promise<CourseSummary[]> {
+  const ids = await redis.zrevrange(sort === 'top' ? TOP_KEY : NEW_KEY, offset, offset + limit - 1)
+  const records = await Promise.all(ids.map((id) => getCourse(redis, id)))
+  return Promise.all(
+    records.filter((r): r is CourseRecord => r !== null).map((r) => summarize(redis, r))
+  )
+}
+
+// ============================================================================
+// BOARDS
+// ============================================================================
+
+/**
+ * Record a verified course run. Keeps the player's best score, and their
+ * fastest finish if they completed it; returns their 1-based ranks.
+ */
+export async function recordCourseRun(
+  redis: Redis,
+  id: string,
+  address: string,
+  run: { score: number; frames: number; complete: boolean }
+): Promise<{ scoreRank: number; timeRank: number | null }> {
+  const player = address.toLowerCase()
+  const tx = redis.multi().zadd(scoresKey(id), 'GT', run.score, player).incr(playsKey(id))
+  if (run.complete) tx.zadd(timesKey(id), 'LT', run.frames, player)
+  await tx.exec()
+
+  const [scoreRank, timeRank] = await Promise.all([
+    redis.zrevrank(scoresKey(id), player),
+    redis.zrank(timesKey(id), player),
+  ])
+  return { scoreRank: (scoreRank ?? 0) + 1, timeRank: timeRank === null ? null : timeRank + 1 }
+}
+
+/** Top `limit` players by score and by finish time */
+export async function getCourseBoards(redis: Redis, id: string, limit: number): Promise<CourseBoards> {
+  const [scores, times] = await Promise.all([
+    redis.zrevrange(scoresKey(id), 0, limit - 1, 'WITHSCORES'),
+    redis.zrange(timesKey(id), 0, limit - 1, 'WITHSCORES'),
+  ])
+  const pairs = (raw: string[]) => {
+    const out: [string, number][] = []
+    for (let i = 0; i < raw.length; i += 2) out.push([raw[i], Number(raw[i + 1])])
+    return out
+  }
+  return {
+    scores: pairs(scores).map(([player, score]) => ({ player, score })),
+    times: pairs(times).map(([player, frames]) => ({ player, frames })),
+  }
+}
+
+// ============================================================================
+// RATINGS
+// ============================================================================
+
+export type RateResult =
+  | { ok: true; rating: number; ratings: number }
+  | { ok: false; reason: 'no_run' | 'not_played' }
+
+/**
+ * Set stars for a course (replacing any earlier rating) as the player behind
+ * `runId`, which must be a finished run on this course.
+ */
+export async function rateCourse(redis: Redis, id: string, runId: string, stars: number): Promise<RateResult> {
+  const run = await getRunSession(redis, runId)
+  if (!run || run.state === 'started' || run.course !== id) return { ok: false, reason: 'no_run' }
+  const player = run.address
+  if ((await redis.zscore(scoresKey(id), player)) === null) return { ok: false, reason: 'not_played' }
+
+  await redis.hset(ratingsKey(id), player, stars)
+  const all = Object.values(await redis.hgetall(ratingsKey(id))).map(Number)
+  const sum = all.reduce((a, b) => a + b, 0)
+  const rating = sum / all.length
+  const weighted = (sum + RATING_PRIOR_VOTES * RATING_PRIOR_STARS) / (all.length + RATING_PRIOR_VOTES)
+
+  await redis
+    .multi()
+    .hset(statsKey(id), 'rating', rating, 'ratings', all.length)
+    .zadd(TOP_KEY, weighted, id)
+    .exec()
+  return { ok: true, rating, ratings: all.length }
+}
@@ -0,0 +1,96 @@
+import { createHmac } from 'crypto'
+import type Redis from 'ioredis'
+
+// ============================================================================
+// DAILY SEEDED CHALLENGE
+// ============================================================================
+// Every player gets the same obstacle stream for a UTC day. The day index is
+// the same `block.timestamp / 86400` boundary dailyCheckIn() uses on-chain,
+// so "today's challenge" and "today's check-in" always flip together.
+// ============================================================================
+
+export const SECONDS_PER_DAY = 86400
+
+/** Boards are kept a week so yesterday's results can still be shown */
+const BOARD_TTL_SECONDS = 8 * SECONDS_PER_DAY
+
+export interface DailyEntry {
+  player: string
+  score: number
+  streakDays: number
+}
+
+/** Day index matching the contract's check-in day */
+export function getChallengeDay(nowMs = Date.now()): number {
+  return Math.floor(nowMs / 1000 / SECONDS_PER_DAY)
+}
+
+/** Unix seconds at which the given day's challenge closes */
+export function getChallengeEnd(day: number): number {
+  return (day + 1) * SECONDS_PER_DAY
+}
+
+/**
+ * 32-bit run seed for a day. Keyed with CHALLENGE_SECRET so future days
+ * can't be pre-solved offline; the seed only becomes known once issued.
+ * Null without a secret — an unkeyed seed is public, so daily mode is off.
+ */
+export function getDailySeed(day: number, secret = process.env.CHALLENGE_SECRET): number | null {
+  if (!secret) return null
+  return createHmac('sha256', secret).update(`daily:${day}`).digest().readUInt32BE(0)
+}
+
+const boardKey = (day: number) => `daily:board:${day}`
+const streakKey = (day: number) => `daily:streak:${day}`
+
+/** Keep the player's best verified score for the day; returns their 1-based rank */
+export async function recordDailyScore(
+  redis: Redis,
+  day: number,
+  address: string,
+  score: number,
+  streakDays: number
+): Promise<number> {
+  const player = address.toLowerCase()
+  await redis
+    .multi()
+    .zadd(boardKey(day), 'GT', score, player)
+    .hset(streakKey(day), player, streakDays)
+    .expire(boardKey(day), BOARD_TTL_SECONDS)
+    .expire(streakKey(day), BOARD_TTL_SECONDS)
+    .exec()
+  const rank = await redis.zrevrank(boardKey(day), player)
+  return (rank ?? 0) + 1
+}
+
+/** Top `limit` players of the day, best first */
+export async function getDailyBoard(redis: Redis, day: number, limit: number): Promise<DailyEntry[]> {
+  const raw = await redis.zrevrange(boardKey(day), 0, limit - 1, 'WITHSCORES')
+  const players: string[] = []
+  const scores: number[] = []
+  for (let i = 0; i < raw.length; i += 2) {
+    players.push(raw[i])
+    scores.push(Number(raw[i + 1]))
+  }
+  const streaks = players.length > 0 ? await redis.hmget(streakKey(day), ...players) : []
+  return players.map((player, i) => ({
+    player,
+    score: scores[i],
+    streakDays: Number(streaks[i] || 0),
+  }))
+}
+
+/** Player's rank and best score for the day, or null if they haven't played it */
+export async function getDailyStanding(
+  redis: Redis,
+  day: number,
+  address: string
+): Promise<{ rank: number; score: number } | null> {
+  const player = address.toLowerCase()
+  const [rank, score] = await Promise.all([
+    redis.zrevrank(boardKey(day), player),
+    redis.zscore(boardKey(day), player),
+  ])
+  if (rank === null || score === null) return null
+  return { rank: rank + 1, score: Number(score) }
+}
@@ -0,0 +1,78 @@
+import { getAddress } from 'viem'
+import type Redis from 'ioredis'
+import { setPlayerHidden } from '@/app/lib/leaderboardIndex'
+
+// ============================================================================
+// DENYLIST
+// ============================================================================
+// Server-side counterpart of the contract's ban list. Two modes:
+//
+//   ban      /api/score-sign refuses to sign, and the player is hidden from
+//            /api/leaderboard
+//   shadow   signing carries on as normal so the player doesn't notice, but
+//            they're hidden from /api/leaderboard all the same
+//
+// Hiding goes through lib/leaderboardIndex, which keeps indexing the player
+// into a side set — lifting the entry restores their standings. Boards read
+// straight from the contract filter with listedPlayers instead.
+//
+// Keys:
+//   deny:players   HASH  checksummed address → JSON DenyEntry
+// ============================================================================
+
+export type DenyMode = 'ban' | 'shadow'
+
+export interface DenyEntry {
+  address: `0x${string}`
+  mode: DenyMode
+  reason: string
+  createdAt: number
+}
+
+const DENY_KEY = 'deny:players'
+
+export const isDenyMode = (mode: unknown): mode is DenyMode => mode === 'ban' || mode === 'shadow'
+
+export async function getDenyEntry(redis: Redis, address: string): Promise<DenyEntry | null> {
+  const raw = await redis.hget(DENY_KEY, getAddress(address))
+  return raw ? JSON.parse(raw) : null
+}
+
+/** The listed subset of `players`, checksummed — for boards that don't go through the index */
+export async function listedPlayers(redis: Redis, players: string[]): Promise<Set<`0x${string}`>> {
+  if (players.length === 0) return new Set()
+  const members = players.map((p) => getAddress(p))
+  const raw = await redis.hmget(DENY_KEY, ...members)
+  return new Set(members.filter((_, i) => raw[i]))
+}
+
+/** Every entry, newest first */
+export async function listDenyEntries(redis: Redis): Promise<DenyEntry[]> {
+  const all = await redis.hgetall(DENY_KEY)
+  return Object.values(all)
+    .map((raw) => JSON.parse(raw) as DenyEntry)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/** Add or update an entry — the player is hidden from the leaderboard either way */
+export async function addToDenylist(
+  redis: Redis,
+  address: string,
+  mode: DenyMode,
+  reason: string,
+  now = Date.now()
+): Promise<DenyEntry> {
+  const entry: DenyEntry = { address: getAddress(address), mode, reason: reason.slice(0, 280), createdAt: now }
+  await redis.hset(DENY_KEY, entry.address, JSON.stringify(entry))
+  await setPlayerHidden(redis, entry.address, true)
+  return entry
+}
+
+/** Lift an entry — false if the address wasn't listed */
+export async function removeFromDenylist(redis: Redis, address: string): Promise<boolean> {
+  const member = getAddress(address)
+  const removed = await redis.hdel(DENY_KEY, member)
+  if (!removed) return false
+  await setPlayerHidden(redis, member, false)
+  return true
+}
@@ -0,0 +1,150 @@
+import { getAddress, isAddress, parseAbi, type LocalAccount, type PublicClient } from 'viem'
+import { attestationDomain } from '@/app/lib/scoreAttestation'
+
+// ============================================================================
+// FARCASTER FID LINKING
+// ============================================================================
+// linkWallet only accepts a FidLink signed by the scoreSigner, and the API
+// only signs one for a wallet that owns the FID: its custody address in the
+// IdRegistry on Optimism, or an Ethereum address the FID has verified on a
+// Farcaster hub (each verification carries that address's own signature).
+// Types MUST match GameLeaderboard.FID_LINK_TYPEHASH.
+// ============================================================================
+
+/** Short — an unused FidLink could re-take an FID its owner has moved on from */
+export const FID_LINK_TTL_SECONDS = 10 * 60
+
+export const FID_LINK_TYPES = {
+  FidLink: [
+    { name: 'player', type: 'address' },
+    { name: 'fid', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const
+
+export interface FidLink {
+  player: `0x${string}`
+  fid: bigint
+  /** Unix seconds */
+  deadline: bigint
+}
+
+/** Farcaster IdRegistry — same address on Optimism mainnet for every deployment */
+export const ID_REGISTRY_ADDRESS = '0x00000000Fc6c5F01Fc30151999387Bb99A9f489b' as const
+
+const ID_REGISTRY_ABI = parseAbi(['function custodyOf(uint256 fid) view returns (address)'])
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+export interface FidAddresses {
+  custody: `0x${string}` | null
+  verified: `0x${string}`[]
+}
+
+export interface HubConfig {
+  url: string
+  apiKey?: string
+}
+
+/** Hub from FARCASTER_HUB_URL (+ FARCASTER_HUB_API_KEY); null = custody-only checks */
+export function loadHubConfig(): HubConfig | null {
+  const url = process.env.FARCASTER_HUB_URL?.trim()
+  if (!url) return null
+  return { url: url.replace(/\/+$/, ''), apiKey: process.env.FARCASTER_HUB_API_KEY || undefined }
+}
+
+export function parseFid(value: unknown): bigint | null {
+  const raw = typeof value === 'number' ? String(value) : value
+  if (typeof raw !== 'string' || !/^\d{1,12}$/.test(raw)) return null
+  const fid = BigInt(raw)
+  return fid > BigInt(0) ? fid : null
+}
+
+interface HubVerificationBody {
+  address?: unknown
+  protocol?: string
+}
+
+interface HubMessage {
+  data?: {
+    type?: string
+    verificationAddAddressBody?: HubVerificationBody
+    verificationAddEthAddressBody?: HubVerificationBody
+  }
+}
+
+/** Ethereum addresses from a hub's verificationsByFid response */
+export function parseHubVerifications(body: unknown): `0x${string}`[] {
+  const messages = (body as { messages?: (HubMessage | null)[] } | null)?.messages
+  if (!Array.isArray(messages)) return []
+
+  const addresses: `0x${string}`[] = []
+  for (const message of messages) {
+    const data = message?.data
+    if (data?.type !== 'MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS') continue
+    // Older hubs name the body verificationAddEthAddressBody
+    const verification = data.verificationAddAddressBody ?? data.verificationAddEthAddressBody
+    if (verification?.protocol && verification.protocol !== 'PROTOCOL_ETHEREUM') continue
+    if (typeof verification?.address === 'string' && isAddress(verification.address)) {
+      addresses.push(getAddress(verification.address))
+    }
+  }
+  return addresses
+}
+
+/**
+ * Every address that can prove it owns the FID. A hub failure only drops the
+ * verified addresses — the custody check still stands on its own.
+ */
+export async function fetchFidAddresses(
+  fid: bigint,
+  optimismClient: Pick<PublicClient, 'readContract'>,
+  hub: HubConfig | null,
+  fetchFn: typeof fetch = fetch
+): Promise<FidAddresses> {
+  const custody = await optimismClient.readContract({
+    address: ID_REGISTRY_ADDRESS,
+    abi: ID_REGISTRY_ABI,
+    functionName: 'custodyOf',
+    args: [fid],
+  })
+
+  let verified: `0x${string}`[] = []
+  if (hub) {
+    try {
+      const res = await fetchFn(`${hub.url}/v1/verificationsByFid?fid=${fid}`, {
+        headers: hub.apiKey ? { 'x-api-key': hub.apiKey } : undefined,
+        cache: 'no-store',
+      })
+      if (res.ok) verified = parseHubVerifications(await res.json())
+      else console.error(`Hub verifications for fid ${fid}: HTTP ${res.status}`)
+    } catch (err) {
+      console.error(`Hub verifications for fid ${fid} failed:`, err)
+    }
+  }
+
+  return { custody: custody === ZERO_ADDRESS ? null : getAddress(custody), verified }
+}
+
+export function isFidOwner(addresses: FidAddresses, player: string): boolean {
+  const target = player.toLowerCase()
+  return addresses.custody?.toLowerCase() === target || addresses.verified.some((a) => a.toLowerCase() === target)
+}
+
+export function fidLinkDeadline(now = Date.now()): bigint {
+  return BigInt(Math.floor(now / 1000) + FID_LINK_TTL_SECONDS)
+}
+
+export async function signFidLink(
+  account: LocalAccount,
+  chainId: number,
+  contract: `0x${string}`,
+  link: FidLink,
+): Promise<`0x${string}`> {
+  return account.signTypedData({
+    domain: attestationDomain(chainId, contract),
+    types: FID_LINK_TYPES,
+    primaryType: 'FidLink',
+    message: link,
+  })
+}
@@ -0,0 +1,269 @@
+import { randomBytes } from 'crypto'
+import type Redis from 'ioredis'
+import type { ReplayLog } from '@/app/components/Game/gameReplay'
+
+// ============================================================================
+// GAME SESSIONS
+// ============================================================================
+// Two kinds of session, in separate keyspaces:
+//
+//   Runs — one per played game, issued by /api/session/start. A run moves
+//   through started → finished → signed → submitted, each state entered at
+//   most once:
+//     started    seed issued, nothing played yet
+//     finished   /api/session/finish re-simulated the replay and recorded
+//                the score, frame count and in-game duration
+//     signed     /api/score-sign attested the recorded score
+//     submitted  the attestation went to the relay queue
+//
+//   Shares — public result cards from /api/game-sessions (short ids, 7 days).
+//
+// Keys:
+//   run:{id}                 STR   JSON RunSession
+//   run:{id}:entered:{state} STR   guard — set once the run entered that state
+//   run:{id}:share           STR   id of the share the client posted for this run
+//   share:{id}               STR   JSON SharedRun
+//   replay:{id}              STR   JSON ReplayLog attached to a share
+//   ghost:{address}          STR   JSON { id, score } — the player's best share with a verified replay
+// ============================================================================
+
+export type RunState = 'started' | 'finished' | 'signed' | 'submitted'
+
+/** Engine counters from the re-simulated replay */
+export interface RunStats {
+  jumps: number
+  collected: number
+  maxCombo: number
+  /** Streak multiplier the run was scored with */
+  streak: number
+  /** Full market cycles survived — absent on runs finished before v2 replays */
+  marketCycles?: number
+}
+
+export interface RunSession {
+  id: string
+  state: RunState
+  /** Lowercased wallet, or 'anonymous' */
+  address: string
+  seed: number
+  /** Daily challenge day for daily runs */
+  daily?: number
+  /** Published course id for course runs (lib/courses) */
+  course?: string
+  startedAt: number
+  finishedAt: number | null
+  score: number | null
+  frames: number | null
+  /** In-game time the replay covers */
+  durationMs: number | null
+  stats: RunStats | null
+  signedAt: number | null
+  /** Contract scoreNonce the signed attestation covers */
+  scoreNonce: string | null
+  submittedAt: number | null
+  relayJobId: string | null
+}
+
+export interface SharedRun {
+  id: string
+  score: number
+  time: number
+  dodged: number
+  buys: number
+  jumps: number
+  combo: number
+  address: string
+  createdAt: number
+}
+
+export type RunTransition =
+  | { ok: true; session: RunSession }
+  | { ok: false; reason: 'not_found' | 'wrong_state' }
+
+/** Prefetch wait plus the run itself */
+export const RUN_START_TTL_SECONDS = 30 * 60
+/** Kept after the run so signing and submission can be audited */
+export const RUN_RECORD_TTL_SECONDS = 24 * 60 * 60
+export const SHARE_TTL_SECONDS = 7 * 24 * 60 * 60
+
+const runKey = (id: string) => `run:${id}`
+const enteredKey = (id: string, state: RunState) => `run:${id}:entered:${state}`
+const shareKey = (id: string) => `share:${id}`
+const runShareKey = (id: string) => `run:${id}:share`
+// Shares written before the split used the run keyspace
+const legacyShareKey = (id: string) => `session:${id}`
+const replayKey = (id: string) => `replay:${id}`
+const ghostKey = (address: string) => `ghost:${address.toLowerCase()}`
+
+export const isRunId = (id: unknown): id is string => typeof id === 'string' && /^[0-9a-f]{32}$/.test(id)
+export const isShareId = (id: unknown): id is string => typeof id === 'string' && /^[A-Za-z0-9_-]{8}$/.test(id)
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+export async function createRunSession(
+  redis: Redis,
+  run: { address: string; seed: number; daily?: number; course?: string },
+  now = Date.now()
+): Promise<RunSession> {
+  const session: RunSession = {
+    id: randomBytes(16).toString('hex'),
+    state: 'started',
+    address: run.address.toLowerCase(),
+    seed: run.seed,
+    daily: run.daily,
+    course: run.course,
+    startedAt: now,
+    finishedAt: null,
+    score: null,
+    frames: null,
+    durationMs: null,
+    stats: null,
+    signedAt: null,
+    scoreNonce: null,
+    submittedAt: null,
+    relayJobId: null,
+  }
+  await redis.set(runKey(session.id), JSON.stringify(session), 'EX', RUN_START_TTL_SECONDS)
+  return session
+}
+
+export async function getRunSession(redis: Redis, id: string): Promise<RunSession | null> {
+  if (!isRunId(id)) return null
+  const raw = await redis.get(runKey(id))
+  return raw ? JSON.parse(raw) : null
+}
+
+const PREVIOUS: Record<Exclude<RunState, 'started'>, RunState> = {
+  finished: 'started',
+  signed: 'finished',
+  submitted: 'signed',
+}
+
+/**
+ * Move a run to its next state. The guard key makes each state single-entry,
+ * so two concurrent finishes or signatures can't both succeed.
+ */
+async function transition(
+  redis: Redis,
+  id: string,
+  to: Exclude<RunState, 'started'>,
+  patch: Partial<RunSession>
+): Promise<RunTransition> {
+  const session = await getRunSession(redis, id)
+  if (!session) return { ok: false, reason: 'not_found' }
+  if (session.state !== PREVIOUS[to]) return { ok: false, reason: 'wrong_state' }
+
+  const entered = await redis.set(enteredKey(id, to), '1', 'EX', RUN_RECORD_TTL_SECONDS, 'NX')
+  if (!entered) return { ok: false, reason: 'wrong_state' }
+
+  const next: RunSession = { ...session, ...patch, state: to }
+  await redis.set(runKey(id), JSON.stringify(next), 'EX', RUN_RECORD_TTL_SECONDS)
+  return { ok: true, session: next }
+}
+
+export function finishRunSession(
+  redis: Redis,
+  id: string,
+  result: { score: number; frames: number; durationMs: number; stats: RunStats },
+  now = Date.now()
+): Promise<RunTransition> {
+  return transition(redis, id, 'finished', { ...result, finishedAt: now })
+}
+
+export function markRunSigned(redis: Redis, id: string, scoreNonce: string, now = Date.now()): Promise<RunTransition> {
+  return transition(redis, id, 'signed', { scoreNonce, signedAt: now })
+}
+
+export function markRunSubmitted(redis: Redis, id: string, relayJobId: string, now = Date.now()): Promise<RunTransition> {
+  return transition(redis, id, 'submitted', { relayJobId, submittedAt: now })
+}
+
+// ============================================================================
+// SHARES
+// ============================================================================
+
+export function generateShareId(): string {
+  // Cryptographically secure 8-char alphanumeric ID
+  return randomBytes(6).toString('base64url').slice(0, 8)
+}
+
+/**
+ * The run a ghost replay was posted for: a finished procedural run with a
+ * wallet, whose recorded seed, score and length match the replay. Anything
+ * else can't become a ghost.
+ */
+export async function getReplayRun(
+  redis: Redis,
+  runId: unknown,
+  replay: ReplayLog,
+  score: number
+): Promise<RunSession | null> {
+  if (!isRunId(runId)) return null
+  const run = await getRunSession(redis, runId)
+  if (!run || run.state === 'started' || run.course !== undefined) return null
+  if (!/^0x[a-f0-9]{40}$/.test(run.address)) return null
+  if (run.seed !== replay.seed || run.frames !== replay.frames || run.score !== score) return null
+  return run
+}
+
+/**
+ * Store a share under a fresh id. `runId` links the share to the run it was
+ * posted for; the link is kept off the public record. A replay is only kept
+ * if getReplayRun accepts it for that run, and then becomes the run owner's
+ * ghost if it beats their current one.
+ */
+export async function createSharedRun(
+  redis: Redis,
+  share: Omit<SharedRun, 'id' | 'createdAt'>,
+  { replay = null, runId }: { replay?: ReplayLog | null; runId?: string } = {},
+  now = Date.now()
+): Promise<SharedRun> {
+  let session: SharedRun
+  for (;;) {
+    session = { id: generateShareId(), ...share, createdAt: now }
+    const created = await redis.set(shareKey(session.id), JSON.stringify(session), 'EX', SHARE_TTL_SECONDS, 'NX')
+    if (created) break
+  }
+
+  if (isRunId(runId)) {
+    // First share wins — a run only ever has one result card
+    await redis.set(runShareKey(runId), session.id, 'EX', RUN_RECORD_TTL_SECONDS, 'NX')
+  }
+
+  const run = replay ? await getReplayRun(redis, runId, replay, session.score) : null
+  if (replay && run) {
+    await redis.set(replayKey(session.id), JSON.stringify(replay), 'EX', SHARE_TTL_SECONDS)
+    const current = await redis.get(ghostKey(run.address))
+    if (!current || (JSON.parse(current) as { score: number }).score < session.score) {
+      await redis.set(ghostKey(run.address), JSON.stringify({ id: session.id, score: session.score }), 'EX', SHARE_TTL_SECONDS)
+    }
+  }
+  return session
+}
+
+export async function getSharedRun(redis: Redis, id: string): Promise<SharedRun | null> {
+  if (!isShareId(id)) return null
+  const raw = (await redis.get(shareKey(id))) ?? (await redis.get(legacyShareKey(id)))
+  return raw ? JSON.parse(raw) : null
+}
+
+/** The share posted for a run, if the client sent one */
+export async function getRunShare(redis: Redis, runId: string): Promise<SharedRun | null> {
+  if (!isRunId(runId)) return null
+  const shareId = await redis.get(runShareKey(runId))
+  return shareId ? getSharedRun(redis, shareId) : null
+}
+
+export async function getSharedReplay(redis: Redis, id: string): Promise<ReplayLog | null> {
+  if (!isShareId(id)) return null
+  const raw = await redis.get(replayKey(id))
+  return raw ? JSON.parse(raw) : null
+}
+
+/** Share id of the player's best run with a replay */
+export async function getGhostShareId(redis: Redis, address: string): Promise<string | null> {
+  const raw = await redis.get(ghostKey(address))
+  return raw ? (JSON.parse(raw) as { id: string }).id : null
+}
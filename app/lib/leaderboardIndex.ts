@@ -0,0 +1,303 @@
+import { getAddress, type PublicClient } from 'viem'
+import type Redis from 'ioredis'
+import { GAME_LEADERBOARD_ABI } from '@/app/contracts'
+import { acquireLock, releaseLock } from '@/app/lib/redisLock'
+
+// ============================================================================
+// LEADERBOARD INDEX
+// ============================================================================
+// Off-chain mirror of GameLeaderboard built from its events. Every
+// ScoreSubmitted is a new season best, so a sorted set per season with
+// ZADD GT reproduces the on-chain board — without the 100-entry cap and
+// without getSortedLeaderboard's O(n²) sort on the RPC node.
+//
+// Syncs stop DEFAULT_CONFIRMATIONS blocks short of the head, so a shallow
+// reorg can't leave a dropped score on the board.
+//
+// Hidden players (lib/denylist) keep being indexed, but into a side set
+// that reads never see — unhiding moves them back with ranks intact.
+//
+// Keys:
+//   lb:idx:{season}          ZSET  player → best score
+//   lb:idx:{season}:meta     HASH  player → { streakDays, timestamp }
+//   lb:idx:{season}:hidden   ZSET  player → best score, for hidden players
+//   lb:idx:hidden            HASH  player → '1' while hidden
+//   lb:idx:state           HASH  nextBlock, season
+//   lb:idx:lock            STR   holder's token while a sync runs
+//   lb:idx:fresh           STR   set for REFRESH_INTERVAL_SECONDS after a sync
+// ============================================================================
+
+export interface IndexedEntry {
+  player: `0x${string}`
+  score: number
+  rank: number
+  streakDays: number
+  timestamp: number
+}
+
+export interface IndexedPage {
+  entries: IndexedEntry[]
+  total: number
+  offset: number
+}
+
+export interface PlayerRanking {
+  rank: number
+  score: number
+  total: number
+  /** Share of ranked players at or below this player, 0–100 */
+  percentile: number
+  neighbours: IndexedEntry[]
+}
+
+export interface SyncResult {
+  fromBlock: bigint
+  toBlock: bigint
+  events: number
+  season: number
+}
+
+interface EntryMeta {
+  streakDays: number
+  timestamp: number
+}
+
+const STATE_KEY = 'lb:idx:state'
+const LOCK_KEY = 'lb:idx:lock'
+const LOCK_TTL_SECONDS = 60
+const FRESH_KEY = 'lb:idx:fresh'
+const HIDDEN_KEY = 'lb:idx:hidden'
+const REFRESH_INTERVAL_SECONDS = 10
+
+/** Most public RPCs cap eth_getLogs ranges around 10k blocks */
+const DEFAULT_BATCH_SIZE = BigInt(5000)
+/** Bounded work per call — a cold index catches up over several syncs */
+const DEFAULT_MAX_BATCHES = 20
+/** ~20s on Base — deeper than the reorgs it sees in practice */
+const DEFAULT_CONFIRMATIONS = BigInt(10)
+
+/** Only the two reads the indexer needs — any chain's public client fits */
+type EventSource = Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>
+
+const boardKey = (season: number) => `lb:idx:${season}`
+const metaKey = (season: number) => `lb:idx:${season}:meta`
+const hiddenBoardKey = (season: number) => `lb:idx:${season}:hidden`
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/** Season the indexer has reached — seasons are 1-indexed on-chain */
+export async function getIndexedSeason(redis: Redis): Promise<number> {
+  return Number(await redis.hget(STATE_KEY, 'season')) || 1
+}
+
+/**
+ * Pull new confirmed contract events into Redis. Safe to call from every
+ * request: a lock keeps concurrent callers from double-scanning, and the
+ * block cursor only advances together with the scores it covers.
+ * `fromBlock` (the deployment block) is where a fresh index starts.
+ */
+export async function syncLeaderboardIndex(
+  redis: Redis,
+  client: EventSource,
+  contract: `0x${string}`,
+  opts: { fromBlock: bigint; batchSize?: bigint; maxBatches?: number; confirmations?: bigint }
+): Promise<SyncResult | null> {
+  const lock = await acquireLock(redis, LOCK_KEY, LOCK_TTL_SECONDS)
+  if (!lock) return null
+
+  try {
+    const [storedBlock, storedSeason] = await redis.hmget(STATE_KEY, 'nextBlock', 'season')
+    const start = storedBlock ? BigInt(storedBlock) : opts.fromBlock
+    let season = Number(storedSeason) || 1
+    const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE
+    // Bypass viem's block number cache — a stale head would stall the cursor
+    const head = await client.getBlockNumber({ cacheTime: 0 })
+    const confirmed = head - (opts.confirmations ?? DEFAULT_CONFIRMATIONS)
+
+    let from = start
+    let events = 0
+    for (let i = 0; i < (opts.maxBatches ?? DEFAULT_MAX_BATCHES) && from <= confirmed; i++) {
+      const to = from + batchSize - BigInt(1) < confirmed ? from + batchSize - BigInt(1) : confirmed
+      const logs = await client.getContractEvents({
+        address: contract,
+        abi: GAME_LEADERBOARD_ABI,
+        fromBlock: from,
+        toBlock: to,
+      })
+
+      // Scores of hidden players go to the side set
+      const scorers = Array.from(new Set(logs
+        .filter((log) => (log as unknown as { eventName: string }).eventName === 'ScoreSubmitted')
+        .map((log) => getAddress((log as unknown as { args: { player: string } }).args.player))))
+      const flags = scorers.length > 0 ? await redis.hmget(HIDDEN_KEY, ...scorers) : []
+      const hidden = new Set(scorers.filter((_, i) => flags[i]))
+
+      const tx = redis.multi()
+      for (const log of logs) {
+        const args = (log as unknown as { args: Record<string, unknown> }).args
+        switch ((log as unknown as { eventName: string }).eventName) {
+          case 'SeasonStarted':
+            season = Number(args.season as bigint)
+            break
+          case 'ScoreSubmitted': {
+            const player = getAddress(args.player as string)
+            const meta: EntryMeta = {
+              streakDays: Number(args.streak as bigint),
+              timestamp: Number(args.timestamp as bigint),
+            }
+            const board = hidden.has(player) ? hiddenBoardKey(season) : boardKey(season)
+            tx.zadd(board, 'GT', Number(args.score as bigint), player)
+            tx.hset(metaKey(season), player, JSON.stringify(meta))
+            events++
+            break
+          }
+          case 'LeaderboardEntryRemoved': {
+            // The contract cleared their season best — a lower score may follow
+            const player = getAddress(args.player as string)
+            const removedSeason = Number(args.season as bigint)
+            tx.zrem(boardKey(removedSeason), player)
+            tx.zrem(hiddenBoardKey(removedSeason), player)
+            tx.hdel(metaKey(removedSeason), player)
+            break
+          }
+        }
+      }
+      tx.hset(STATE_KEY, 'nextBlock', (to + BigInt(1)).toString(), 'season', String(season))
+      await tx.exec()
+      from = to + BigInt(1)
+    }
+
+    return { fromBlock: start, toBlock: from - BigInt(1), events, season }
+  } finally {
+    await releaseLock(redis, LOCK_KEY, lock)
+  }
+}
+
+/**
+ * Request-path sync: at most one catch-up per interval across all instances.
+ * Failures are logged, not thrown — reads serve whatever is already indexed.
+ */
+export async function refreshLeaderboardIndex(
+  redis: Redis,
+  client: EventSource,
+  contract: `0x${string}`,
+  fromBlock: bigint
+): Promise<void> {
+  const due = await redis.set(FRESH_KEY, '1', 'EX', REFRESH_INTERVAL_SECONDS, 'NX')
+  if (!due) return
+  try {
+    await syncLeaderboardIndex(redis, client, contract, { fromBlock })
+  } catch (err) {
+    console.error('Leaderboard index sync error:', err)
+  }
+}
+
+/**
+ * Hide a player from every indexed season's board, or bring them back.
+ * Their scores move to (or from) the side set, so nothing is lost either way.
+ */
+export async function setPlayerHidden(redis: Redis, player: string, hide: boolean): Promise<void> {
+  const member = getAddress(player)
+  if (hide) await redis.hset(HIDDEN_KEY, member, '1')
+  else await redis.hdel(HIDDEN_KEY, member)
+
+  const seasons = await getIndexedSeason(redis)
+  for (let season = 1; season <= seasons; season++) {
+    const [from, to] = hide
+      ? [boardKey(season), hiddenBoardKey(season)]
+      : [hiddenBoardKey(season), boardKey(season)]
+    const score = await redis.zscore(from, member)
+    if (score === null) continue
+    await redis.multi().zadd(to, 'GT', Number(score), member).zrem(from, member).exec()
+  }
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+async function hydrate(redis: Redis, season: number, raw: string[], firstRank: number): Promise<IndexedEntry[]> {
+  const players: string[] = []
+  const scores: number[] = []
+  for (let i = 0; i < raw.length; i += 2) {
+    players.push(raw[i])
+    scores.push(Number(raw[i + 1]))
+  }
+  const metas = players.length > 0 ? await redis.hmget(metaKey(season), ...players) : []
+  return players.map((player, i) => {
+    const meta: EntryMeta = metas[i] ? JSON.parse(metas[i]!) : { streakDays: 0, timestamp: 0 }
+    return {
+      player: player as `0x${string}`,
+      score: scores[i],
+      rank: firstRank + i,
+      streakDays: meta.streakDays,
+      timestamp: meta.timestamp,
+    }
+  })
+}
+
+/** One page of a season's board, best first */
+export async function getLeaderboardPage(
+  redis: Redis,
+  season: number,
+  offset: number,
+  limit: number
+): Promise<IndexedPage> {
+  const [raw, total] = await Promise.all([
+    redis.zrevrange(boardKey(season), offset, offset + limit - 1, 'WITHSCORES'),
+    redis.zcard(boardKey(season)),
+  ])
+  return { entries: await hydrate(redis, season, raw, offset + 1), total, offset }
+}
+
+/** A player's rank (1-based) and best score, or null if they never scored that season */
+export async function getPlayerStanding(
+  redis: Redis,
+  season: number,
+  player: string
+): Promise<{ rank: number; score: number } | null> {
+  const member = getAddress(player)
+  const [rank, score] = await Promise.all([
+    redis.zrevrank(boardKey(season), member),
+    redis.zscore(boardKey(season), member),
+  ])
+  if (rank === null || score === null) return null
+  return { rank: rank + 1, score: Number(score) }
+}
+
+/** `radius` entries either side of the player — falls back to the top of the board */
+export async function getAroundPlayer(
+  redis: Redis,
+  season: number,
+  player: string,
+  radius: number
+): Promise<IndexedPage> {
+  const rank = await redis.zrevrank(boardKey(season), getAddress(player))
+  const offset = rank === null ? 0 : Math.max(0, rank - radius)
+  return getLeaderboardPage(redis, season, offset, radius * 2 + 1)
+}
+
+/** Share of the `total` ranked players at or below `rank`, to one decimal */
+export function rankPercentile(rank: number, total: number): number {
+  return Math.round(((total - rank + 1) / total) * 1000) / 10
+}
+
+/** Global position across everyone who ever submitted that season, or null if unranked */
+export async function getPlayerRanking(
+  redis: Redis,
+  season: number,
+  player: string,
+  radius: number
+): Promise<PlayerRanking | null> {
+  const standing = await getPlayerStanding(redis, season, player)
+  if (!standing) return null
+  const around = await getAroundPlayer(redis, season, player, radius)
+  return {
+    ...standing,
+    total: around.total,
+    percentile: rankPercentile(standing.rank, around.total),
+    neighbours: around.entries,
+  }
+}
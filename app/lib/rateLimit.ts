@@ -0,0 +1,211 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type Redis from 'ioredis'
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+// Sliding-window counters shared by the API routes. Each window is two fixed
+// buckets; the previous bucket counts in proportion to how much of it still
+// overlaps the window, which tracks a true sliding log closely at the cost
+// of one INCR per request.
+//
+// Budgets escalate: past `challengeAt` a caller must echo back an HMAC
+// challenge (bound to its IP, single-use, 5 minutes), past `limit` it gets a
+// hard 429 whether or not it solved one.
+//
+// Counters live in Redis so every serverless instance shares them; without
+// Redis (or while it errors) they fall back to this instance's memory.
+//
+// Keys:
+//   rl:{rule}:{id}:{bucket}   STR   requests in that fixed bucket
+//   rl:challenge:{hmac}       STR   set once a challenge has been used
+// ============================================================================
+
+export interface RateLimitRule {
+  name: string
+  /** Requests per window before a hard 429 */
+  limit: number
+  /** Requests per window before a challenge is required — omit for none */
+  challengeAt?: number
+  windowMs: number
+}
+
+export type RateLimitDecision =
+  | { action: 'allow' }
+  | { action: 'challenge' }
+  | { action: 'block'; retryAfter: number }
+
+/** Counter backend — Redis in production, memory as the fallback */
+export interface RateLimitStore {
+  /** Increment and return the new value, expiring the key after ttlMs */
+  incr(key: string, ttlMs: number): Promise<number>
+  get(key: string): Promise<number>
+}
+
+const TEN_MINUTES = 10 * 60_000
+
+export const RATE_LIMITS = {
+  scoreSignIp: { name: 'sign:ip', limit: 40, challengeAt: 15, windowMs: TEN_MINUTES },
+  scoreSignAddress: { name: 'sign:addr', limit: 15, challengeAt: 6, windowMs: TEN_MINUTES },
+  sessionStart: { name: 'session:start', limit: 200, windowMs: TEN_MINUTES },
+  sessionFinish: { name: 'session:finish', limit: 100, windowMs: TEN_MINUTES },
+  shareCreate: { name: 'share', limit: 30, windowMs: TEN_MINUTES },
+  courseCreate: { name: 'course:create', limit: 10, windowMs: TEN_MINUTES },
+  courseRate: { name: 'course:rate', limit: 60, windowMs: TEN_MINUTES },
+  fidLink: { name: 'fid-link', limit: 20, windowMs: TEN_MINUTES },
+  relayStatus: { name: 'relay:status', limit: 600, windowMs: TEN_MINUTES },
+  publicRead: { name: 'read', limit: 300, windowMs: TEN_MINUTES },
+} satisfies Record<string, RateLimitRule>
+
+const CHALLENGE_TTL_MS = 5 * 60_000
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export function redisStore(redis: Redis): RateLimitStore {
+  return {
+    async incr(key, ttlMs) {
+      const [[, count]] = await redis.multi().incr(key).pexpire(key, ttlMs).exec() as [[Error | null, number]]
+      return count
+    },
+    async get(key) {
+      return Number(await redis.get(key)) || 0
+    },
+  }
+}
+
+export function memoryStore(maxKeys = 10_000): RateLimitStore {
+  const counts = new Map<string, { count: number; expiresAt: number }>()
+
+  const live = (key: string) => {
+    const entry = counts.get(key)
+    if (entry && entry.expiresAt <= Date.now()) {
+      counts.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  return {
+    async incr(key, ttlMs) {
+      const entry = live(key) ?? { count: 0, expiresAt: 0 }
+      entry.count++
+      entry.expiresAt = Date.now() + ttlMs
+      counts.set(key, entry)
+      if (counts.size > maxKeys) {
+        // Map iterates in insertion order — drop the oldest
+        counts.delete(counts.keys().next().value as string)
+      }
+      return entry.count
+    },
+    async get(key) {
+      return live(key)?.count ?? 0
+    },
+  }
+}
+
+// Shared per instance so the fallback still limits across requests
+const fallbackStore = memoryStore()
+
+// ============================================================================
+// LIMITER
+// ============================================================================
+
+export interface RateLimiter {
+  /** Count one request against `rule` for `id` and decide what to do with it */
+  check(rule: RateLimitRule, id: string, now?: number): Promise<RateLimitDecision>
+  /** Check several budgets (e.g. per IP and per address) — the strictest decision wins */
+  checkAll(checks: { rule: RateLimitRule; id: string }[], now?: number): Promise<RateLimitDecision>
+}
+
+export function createRateLimiter(redis: Redis | null, store?: RateLimitStore): RateLimiter {
+  const primary = store ?? (redis ? redisStore(redis) : fallbackStore)
+
+  async function windowCount(s: RateLimitStore, rule: RateLimitRule, id: string, now: number): Promise<number> {
+    const bucket = Math.floor(now / rule.windowMs)
+    const key = (b: number) => `rl:${rule.name}:${id.toLowerCase()}:${b}`
+    const current = await s.incr(key(bucket), rule.windowMs * 2)
+    const previous = await s.get(key(bucket - 1))
+    const overlap = 1 - (now % rule.windowMs) / rule.windowMs
+    return current + Math.floor(previous * overlap)
+  }
+
+  async function check(rule: RateLimitRule, id: string, now = Date.now()): Promise<RateLimitDecision> {
+    let count: number
+    try {
+      count = await windowCount(primary, rule, id, now)
+    } catch (err) {
+      console.error('Rate limit store error:', err)
+      count = await windowCount(fallbackStore, rule, id, now)
+    }
+
+    if (count > rule.limit) {
+      // Worst case the window has to slide fully past the current bucket
+      const retryAfter = Math.ceil((rule.windowMs - (now % rule.windowMs)) / 1000)
+      return { action: 'block', retryAfter: Math.max(retryAfter, 1) }
+    }
+    if (rule.challengeAt !== undefined && count > rule.challengeAt) return { action: 'challenge' }
+    return { action: 'allow' }
+  }
+
+  return {
+    check,
+    async checkAll(checks, now = Date.now()) {
+      const decisions = await Promise.all(checks.map((c) => check(c.rule, c.id, now)))
+      const blocks = decisions.filter((d): d is { action: 'block'; retryAfter: number } => d.action === 'block')
+      if (blocks.length > 0) {
+        return { action: 'block', retryAfter: Math.max(...blocks.map((b) => b.retryAfter)) }
+      }
+      return decisions.some((d) => d.action === 'challenge') ? { action: 'challenge' } : { action: 'allow' }
+    },
+  }
+}
+
+/** Caller IP as Vercel reports it */
+export function clientIp(headers: Headers): string {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown'
+}
+
+// ============================================================================
+// CHALLENGES
+// ============================================================================
+
+function challengeHmac(secret: string, ip: string, timestamp: string): string {
+  return createHmac('sha256', secret).update(`${ip}:${timestamp}`).digest('hex')
+}
+
+/** `${timestamp}.${hmac}` — the client sends it back with its retry */
+export function issueChallenge(secret: string, ip: string, now = Date.now()): string {
+  return `${now}.${challengeHmac(secret, ip, String(now))}`
+}
+
+/**
+ * The canonical `${timestamp}.${hmac}` of a valid challenge, or null. Claim
+ * that, not the submitted text — only a bare lowercase digest is accepted,
+ * since lenient hex decoding would let `<hmac>zz` pass as a fresh copy.
+ */
+export function verifyChallenge(secret: string, ip: string, challenge: string, now = Date.now()): string | null {
+  const dotIdx = challenge.indexOf('.')
+  if (dotIdx < 1) return null
+  const timestamp = challenge.slice(0, dotIdx)
+  const digest = challenge.slice(dotIdx + 1)
+  const age = now - Number(timestamp)
+  if (!/^\d+$/.test(timestamp) || age < 0 || age > CHALLENGE_TTL_MS) return null
+  if (!/^[0-9a-f]{64}$/.test(digest)) return null
+
+  const expected = challengeHmac(secret, ip, timestamp)
+  if (!timingSafeEqual(Buffer.from(expected, 'hex'), Buffer.from(digest, 'hex'))) return null
+  return `${timestamp}.${expected}`
+}
+
+/** Mark a challenge used — pass verifyChallenge's result; false if it already was */
+export async function claimChallenge(redis: Redis | null, challenge: string): Promise<boolean> {
+  const key = `rl:challenge:${challenge}`
+  if (redis) {
+    return (await redis.set(key, '1', 'PX', CHALLENGE_TTL_MS, 'NX')) === 'OK'
+  }
+  if (await fallbackStore.get(key)) return false
+  await fallbackStore.incr(key, CHALLENGE_TTL_MS)
+  return true
+}
@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto'
+import type Redis from 'ioredis'
+
+// ============================================================================
+// REDIS LOCKS
+// ============================================================================
+// Short leases for work that mustn't overlap across serverless instances.
+// Each holder gets a random token, and release only deletes the key while it
+// still holds that token — a holder that outlived its TTL can't free a lock
+// someone else has taken since.
+// ============================================================================
+
+/** Compare-and-delete: KEYS[1] lock key, ARGV[1] holder's token */
+export const RELEASE_LOCK_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end'
+
+/** Take the lock for `ttlSeconds` — returns the token to release it with, or null if it's held */
+export async function acquireLock(redis: Redis, key: string, ttlSeconds: number): Promise<string | null> {
+  const token = randomBytes(16).toString('hex')
+  return (await redis.set(key, token, 'EX', ttlSeconds, 'NX')) ? token : null
+}
+
+/** Release the lock if `token` still holds it */
+export async function releaseLock(redis: Redis, key: string, token: string): Promise<boolean> {
+  return (await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token)) === 1
+}
@@ -0,0 +1,149 @@
+import {
+  AbiEncodingBytesSizeMismatchError,
+  AbiEncodingLengthMismatchError,
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  IntegerOutOfRangeError,
+  InvalidAddressError,
+  SizeExceedsPaddingSizeError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseEther,
+  type Chain,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { GAME_LEADERBOARD_ABI } from '@/app/contracts'
+import type { RelayChain, RelayErrorKind, RelayJob, RelayPool } from '@/app/lib/relayQueue'
+
+const DEFAULT_MIN_BALANCE = parseEther('0.0005')
+
+/** Relayer keys from RELAYER_PRIVATE_KEYS (comma-separated), else the single-key fallbacks */
+function relayerKeys(): string[] {
+  const pool = (process.env.RELAYER_PRIVATE_KEYS || '').split(',').map((k) => k.trim()).filter(Boolean)
+  if (pool.length > 0) return pool
+
+  const pk = process.env.RELAYER_PRIVATE_KEY || process.env.SCORE_SIGNER_PRIVATE_KEY || process.env.PRIVATE_KEY
+  if (!pk) return []
+  if (!process.env.RELAYER_PRIVATE_KEY && process.env.NODE_ENV === 'production') {
+    console.warn(
+      '[SECURITY] RELAYER_PRIVATE_KEY not set — falling back to SCORE_SIGNER_PRIVATE_KEY. ' +
+      'In production, use SEPARATE dedicated relayer keys registered via setRelayer on the contract.'
+    )
+  }
+  return [pk]
+}
+
+/** Errors that mean the job is bad — it reverts, or its args won't encode */
+const JOB_ERRORS = [
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  AbiEncodingLengthMismatchError,
+  AbiEncodingBytesSizeMismatchError,
+  InvalidAddressError,
+  IntegerOutOfRangeError,
+  SizeExceedsPaddingSizeError,
+]
+
+function classifyError(err: unknown): RelayErrorKind {
+  // BigInt() on a malformed field throws before any request goes out
+  if (err instanceof SyntaxError || err instanceof RangeError) return 'job'
+  if (!(err instanceof BaseError)) return 'relayer'
+  return err.walk((e) => JOB_ERRORS.some((type) => e instanceof type)) ? 'job' : 'relayer'
+}
+
+function submitArgs(job: RelayJob) {
+  return [job.player, BigInt(job.score), BigInt(job.scoreNonce), BigInt(job.deadline), job.sessionId, job.signature] as const
+}
+
+/**
+ * viem-backed relayer pool. Returns null when no key is configured — callers
+ * fall back to handing the player the signature.
+ */
+export function createRelayPool(chain: Chain, contract: `0x${string}`): RelayPool | null {
+  const keys = relayerKeys()
+  if (keys.length === 0) return null
+
+  const publicClient = createPublicClient({ chain, transport: http() })
+  const minBalance = process.env.RELAYER_MIN_BALANCE_WEI
+    ? BigInt(process.env.RELAYER_MIN_BALANCE_WEI)
+    : DEFAULT_MIN_BALANCE
+
+  return {
+    relayers: keys.map((pk) => createRelayChain(chain, contract, publicClient, pk)),
+    minBalance,
+  }
+}
+
+function createRelayChain(
+  chain: Chain,
+  contract: `0x${string}`,
+  publicClient: ReturnType<typeof createPublicClient>,
+  pk: string,
+): RelayChain {
+  const account = privateKeyToAccount(pk as `0x${string}`)
+  const walletClient = createWalletClient({ chain, transport: http(), account })
+
+  return {
+    relayer: account.address,
+
+    async getBalance() {
+      return publicClient.getBalance({ address: account.address })
+    },
+
+    async isRegistered() {
+      return publicClient.readContract({
+        address: contract,
+        abi: GAME_LEADERBOARD_ABI,
+        functionName: 'isRelayer',
+        args: [account.address],
+      }) as Promise<boolean>
+    },
+
+    async getPendingNonce() {
+      return publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' })
+    },
+
+    async estimateFees() {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas()
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    },
+
+    async simulate(job) {
+      await publicClient.simulateContract({
+        account,
+        address: contract,
+        abi: GAME_LEADERBOARD_ABI,
+        functionName: 'submitScoreFor',
+        args: submitArgs(job),
+      })
+    },
+
+    async send(job, nonce, fees) {
+      return walletClient.writeContract({
+        chain,
+        account,
+        address: contract,
+        abi: GAME_LEADERBOARD_ABI,
+        functionName: 'submitScoreFor',
+        args: submitArgs(job),
+        nonce,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      })
+    },
+
+    async getReceipt(hash) {
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        return { status: receipt.status, blockNumber: receipt.blockNumber }
+      } catch {
+        // Not mined yet (viem throws TransactionReceiptNotFoundError)
+        return null
+      }
+    },
+
+    classifyError,
+  }
+}
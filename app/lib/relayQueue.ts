@@ -0,0 +1,529 @@
+import { randomBytes } from 'crypto'
+import type Redis from 'ioredis'
+import { acquireLock, releaseLock } from '@/app/lib/redisLock'
+import { RETRY_QUEUE_KEY, type RetryJob } from '@/app/lib/webhookEvents'
+
+// ============================================================================
+// GASLESS RELAY QUEUE
+// ============================================================================
+// Durable queue for submitScoreFor transactions sent by the relayer pool.
+// Serverless has no long-running worker, so processRelayQueue() is ticked
+// from request handlers (score-sign after enqueueing, the status endpoint
+// while the client polls). A lock keeps ticks from overlapping.
+//
+// Lifecycle: queued → submitted → confirmed | failed
+//   - jobs are spread round-robin over a pool of relayer accounts; one whose
+//     balance drops below pool.minBalance, or that isn't registered via
+//     setRelayer, is out of rotation until its next health check
+//   - each job is dry-run first; one the contract would revert (or that
+//     won't encode) fails on its own, without costing a nonce or blaming a
+//     relayer
+//   - a transport, nonce or fee error on send takes that relayer out for
+//     DOWN_MS and the job fails over to the next one within the same tick
+//   - each relayer's nonces come from its own Redis counter, so concurrent
+//     players never race for the same nonce
+//   - a submitted tx with no receipt after STUCK_AFTER_MS is re-sent from
+//     the same relayer at the same nonce with bumped fees, up to MAX_ATTEMPTS
+//   - enqueueing a failed job again (e.g. a webhook retry) puts it back in
+//     the queue, and its next send outbids the fees it last went out with
+//
+// Keys:
+//   relay:job:{id}                 STR   JSON RelayJob
+//   relay:queue                    LIST  job ids waiting to be sent
+//   relay:inflight                 ZSET  job id → last send time (ms)
+//   relay:nonce:{relayer}          STR   next relayer nonce to hand out
+//   relay:dedup:{player}:{nonce}   STR   job id for a signed (player, scoreNonce)
+//   relay:lock                     STR   holder's token while a tick runs
+//   relay:health                   HASH  relayer → JSON RelayerHealth
+//   relay:down                     HASH  relayer → ms until it's back in rotation
+//   relay:rr                       STR   round-robin counter
+// ============================================================================
+
+export type RelayStatus = 'queued' | 'submitted' | 'confirmed' | 'failed'
+
+export interface RelayJob {
+  id: string
+  player: `0x${string}`
+  score: number
+  /** The player's contract scoreNonce the attestation covers */
+  scoreNonce: string
+  /** Attestation expiry, unix seconds — the contract rejects it after this */
+  deadline: string
+  sessionId: `0x${string}`
+  signature: `0x${string}`
+  status: RelayStatus
+  /** Account that sent it — bumps must come from the same one */
+  relayer: `0x${string}` | null
+  /** Sends so far, including fee bumps */
+  attempts: number
+  relayerNonce: number | null
+  /** Every hash broadcast for this job — any of them may be the one that lands */
+  txHashes: `0x${string}`[]
+  maxFeePerGas: string | null
+  maxPriorityFeePerGas: string | null
+  submittedAt: number | null
+  blockNumber: string | null
+  error: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+export interface RelayFees {
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+}
+
+export interface RelayReceipt {
+  status: 'success' | 'reverted'
+  blockNumber: bigint
+}
+
+/** The signed ScoreAttestation a job relays */
+export type RelaySubmission = Pick<RelayJob, 'player' | 'score' | 'scoreNonce' | 'deadline' | 'sessionId' | 'signature'>
+
+/**
+ * Who a failed simulate/send is down to: 'job' when the job itself is bad
+ * (the contract reverts it, or its args won't encode) — no relayer would do
+ * better; 'relayer' for transport, nonce, fee and balance errors.
+ */
+export type RelayErrorKind = 'job' | 'relayer'
+
+/** `job` is the queued job — or, on a conflict, the one already holding the nonce */
+export type EnqueueResult =
+  | { ok: true; job: RelayJob }
+  | { ok: false; reason: 'nonce_taken'; job: RelayJob }
+
+/** Chain access for one relayer account — the viem-backed version lives in relayChain.ts */
+export interface RelayChain {
+  relayer: `0x${string}`
+  getBalance(): Promise<bigint>
+  /** Whether the contract lists this account via setRelayer */
+  isRegistered(): Promise<boolean>
+  getPendingNonce(): Promise<number>
+  estimateFees(): Promise<RelayFees>
+  /** Dry-run submitScoreFor — throws what send would for a job the contract refuses */
+  simulate(job: RelayJob): Promise<void>
+  send(job: RelayJob, nonce: number, fees: RelayFees): Promise<`0x${string}`>
+  classifyError(err: unknown): RelayErrorKind
+  getReceipt(hash: `0x${string}`): Promise<RelayReceipt | null>
+}
+
+export interface RelayPool {
+  relayers: RelayChain[]
+  /** Wei — below this a relayer is taken out of rotation */
+  minBalance: bigint
+}
+
+export interface RelayerHealth {
+  relayer: `0x${string}`
+  balance: string
+  registered: boolean
+  healthy: boolean
+  /** Cooling down after a send error */
+  down: boolean
+  checkedAt: number
+  error: string | null
+}
+
+export interface RelayTickResult {
+  submitted: number
+  confirmed: number
+  failed: number
+  bumped: number
+}
+
+const QUEUE_KEY = 'relay:queue'
+const INFLIGHT_KEY = 'relay:inflight'
+const LOCK_KEY = 'relay:lock'
+const LOCK_TTL_SECONDS = 30
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export const MAX_ATTEMPTS = 4
+const STUCK_AFTER_MS = 45_000
+/** Nodes want ≥10% on both fee fields to accept a replacement */
+const FEE_BUMP_PERCENT = BigInt(125)
+const MAX_SENDS_PER_TICK = 5
+const HEALTH_KEY = 'relay:health'
+const HEALTH_MAX_AGE_MS = 60_000
+const DOWN_KEY = 'relay:down'
+const DOWN_MS = 60_000
+const ROUND_ROBIN_KEY = 'relay:rr'
+
+const jobKey = (id: string) => `relay:job:${id}`
+const nonceKey = (relayer: string) => `relay:nonce:${relayer.toLowerCase()}`
+const dedupKey = (player: string, scoreNonce: string) => `relay:dedup:${player.toLowerCase()}:${scoreNonce}`
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+export async function getRelayJob(redis: Redis, id: string): Promise<RelayJob | null> {
+  const raw = await redis.get(jobKey(id))
+  return raw ? JSON.parse(raw) : null
+}
+
+async function saveJob(redis: Redis, job: RelayJob, now: number): Promise<void> {
+  job.updatedAt = now
+  await redis.set(jobKey(job.id), JSON.stringify(job), 'EX', JOB_TTL_SECONDS)
+}
+
+/**
+ * Queue a signed submission. The same (player, scoreNonce) can only be
+ * mined once, so a second enqueue of the same run (sessionId) returns the
+ * existing job — unless that job failed, in which case it goes back in the
+ * queue to be sent again. A different run signed at a nonce that's still
+ * pending is a conflict: only one of them could ever land.
+ */
+export async function enqueueRelayJob(
+  redis: Redis,
+  submission: RelaySubmission,
+  now = Date.now()
+): Promise<EnqueueResult> {
+  const id = randomBytes(12).toString('hex')
+  const claimed = await redis.set(dedupKey(submission.player, submission.scoreNonce), id, 'EX', JOB_TTL_SECONDS, 'NX')
+  if (!claimed) {
+    const existingId = await redis.get(dedupKey(submission.player, submission.scoreNonce))
+    const existing = existingId ? await getRelayJob(redis, existingId) : null
+    if (existing?.status === 'failed') return { ok: true, job: await requeueJob(redis, existing, submission, now) }
+    if (existing && existing.sessionId.toLowerCase() !== submission.sessionId.toLowerCase()) {
+      return { ok: false, reason: 'nonce_taken', job: existing }
+    }
+    if (existing) return { ok: true, job: existing }
+  }
+
+  const job: RelayJob = {
+    id,
+    ...submission,
+    status: 'queued',
+    relayer: null,
+    attempts: 0,
+    relayerNonce: null,
+    txHashes: [],
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    submittedAt: null,
+    blockNumber: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await saveJob(redis, job, now)
+  await redis.rpush(QUEUE_KEY, id)
+  return { ok: true, job }
+}
+
+/**
+ * Send a failed job again as a fresh submission. Its last fees are kept so
+ * the next send outbids them.
+ */
+async function requeueJob(redis: Redis, job: RelayJob, submission: RelaySubmission, now: number): Promise<RelayJob> {
+  Object.assign(job, submission, {
+    status: 'queued',
+    relayer: null,
+    attempts: 0,
+    relayerNonce: null,
+    txHashes: [],
+    submittedAt: null,
+    blockNumber: null,
+  })
+  await saveJob(redis, job, now)
+  await redis.rpush(QUEUE_KEY, job.id)
+  return job
+}
+
+/** Move failed submissions reported by the webhook (relay:retry) into the queue */
+async function drainWebhookRetries(redis: Redis, now: number): Promise<void> {
+  for (let raw = await redis.lpop(RETRY_QUEUE_KEY); raw; raw = await redis.lpop(RETRY_QUEUE_KEY)) {
+    let retry: RetryJob
+    try {
+      retry = JSON.parse(raw)
+    } catch {
+      // Drop it — one bad entry mustn't hold up the rest
+      console.error('Relay retry entry is not JSON:', raw.slice(0, 200))
+      continue
+    }
+    const queued = await enqueueRelayJob(redis, {
+      player: retry.player,
+      score: retry.score,
+      scoreNonce: retry.nonce,
+      deadline: retry.deadline,
+      sessionId: retry.sessionId,
+      signature: retry.signature,
+    }, now)
+    if (!queued.ok) console.warn('Relay retry conflicts with pending job:', queued.job.id)
+  }
+}
+
+// ============================================================================
+// NONCES
+// ============================================================================
+
+/**
+ * Hand out the relayer's next nonce. The counter is seeded from the chain's
+ * pending nonce the first time (or after a reset) and only moves by INCR.
+ */
+export async function allocateRelayerNonce(redis: Redis, chain: RelayChain): Promise<number> {
+  const key = nonceKey(chain.relayer)
+  if (!(await redis.exists(key))) {
+    await redis.set(key, String(await chain.getPendingNonce()), 'NX')
+  }
+  return (await redis.incr(key)) - 1
+}
+
+/** Forget the counter — the next allocation re-reads the chain */
+export async function resetRelayerNonce(redis: Redis, chain: RelayChain): Promise<void> {
+  await redis.del(nonceKey(chain.relayer))
+}
+
+// ============================================================================
+// POOL HEALTH
+// ============================================================================
+
+async function checkRelayer(chain: RelayChain, minBalance: bigint, now: number): Promise<RelayerHealth> {
+  try {
+    const [balance, registered] = await Promise.all([chain.getBalance(), chain.isRegistered()])
+    return {
+      relayer: chain.relayer,
+      balance: balance.toString(),
+      registered,
+      healthy: registered && balance >= minBalance,
+      down: false,
+      checkedAt: now,
+      error: null,
+    }
+  } catch (err) {
+    return { relayer: chain.relayer, balance: '0', registered: false, healthy: false, down: false, checkedAt: now, error: errorMessage(err) }
+  }
+}
+
+/**
+ * Health of every relayer in the pool, re-checking entries older than a
+ * minute. `healthy` is what rotation uses; `down` reflects a recent send error.
+ */
+export async function getRelayPoolHealth(redis: Redis, pool: RelayPool, now = Date.now()): Promise<RelayerHealth[]> {
+  const fields = pool.relayers.map((r) => r.relayer.toLowerCase())
+  if (fields.length === 0) return []
+  const cached = await redis.hmget(HEALTH_KEY, ...fields)
+  const downUntil = await redis.hmget(DOWN_KEY, ...fields)
+
+  return Promise.all(pool.relayers.map(async (chain, i) => {
+    let health: RelayerHealth | null = cached[i] ? JSON.parse(cached[i]!) : null
+    if (!health || now - health.checkedAt >= HEALTH_MAX_AGE_MS) {
+      health = await checkRelayer(chain, pool.minBalance, now)
+      await redis.hset(HEALTH_KEY, fields[i], JSON.stringify(health))
+    }
+    health.down = Number(downUntil[i] ?? 0) > now
+    return health
+  }))
+}
+
+/** Relayers usable right now, rotated so consecutive calls start at the next one */
+async function rotation(redis: Redis, pool: RelayPool, now: number): Promise<RelayChain[]> {
+  const health = await getRelayPoolHealth(redis, pool, now)
+  const usable = pool.relayers.filter((_, i) => health[i].healthy && !health[i].down)
+  if (usable.length === 0) return []
+  const start = ((await redis.incr(ROUND_ROBIN_KEY)) - 1) % usable.length
+  return [...usable.slice(start), ...usable.slice(0, start)]
+}
+
+async function markDown(redis: Redis, chain: RelayChain, now: number): Promise<void> {
+  await redis.hset(DOWN_KEY, chain.relayer.toLowerCase(), String(now + DOWN_MS))
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+function bump(value: bigint): bigint {
+  return (value * FEE_BUMP_PERCENT) / BigInt(100)
+}
+
+/** The estimate, raised where needed to outbid the fees the job last went out with */
+function outbid(estimate: RelayFees, job: RelayJob): RelayFees {
+  const bumpedMax = bump(BigInt(job.maxFeePerGas ?? '0'))
+  const bumpedTip = bump(BigInt(job.maxPriorityFeePerGas ?? '0'))
+  return {
+    maxFeePerGas: estimate.maxFeePerGas > bumpedMax ? estimate.maxFeePerGas : bumpedMax,
+    maxPriorityFeePerGas: estimate.maxPriorityFeePerGas > bumpedTip ? estimate.maxPriorityFeePerGas : bumpedTip,
+  }
+}
+
+function isExpired(job: RelayJob, now: number): boolean {
+  return Number(job.deadline) * 1000 <= now
+}
+
+function errorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).slice(0, 200)
+}
+
+/** Why the contract would refuse the job, or null if it simulates (or the RPC couldn't say) */
+async function dryRun(chain: RelayChain, job: RelayJob): Promise<string | null> {
+  try {
+    await chain.simulate(job)
+    return null
+  } catch (err) {
+    // A transport error says nothing about the job — the send finds out
+    return chain.classifyError(err) === 'job' ? errorMessage(err) : null
+  }
+}
+
+async function pollInflight(redis: Redis, pool: RelayPool, now: number, result: RelayTickResult) {
+  const ids = await redis.zrange(INFLIGHT_KEY, 0, -1)
+  for (const id of ids) {
+    const job = await getRelayJob(redis, id)
+    if (!job || job.status !== 'submitted' || job.relayerNonce === null) {
+      await redis.zrem(INFLIGHT_KEY, id)
+      continue
+    }
+    const chain = pool.relayers.find((r) => r.relayer === job.relayer) ?? pool.relayers[0]
+    if (!chain) return
+
+    // Any replacement may be the one that got mined
+    let receipt: RelayReceipt | null = null
+    for (const hash of job.txHashes) {
+      receipt = await chain.getReceipt(hash)
+      if (receipt) break
+    }
+
+    if (receipt) {
+      job.status = receipt.status === 'success' ? 'confirmed' : 'failed'
+      job.blockNumber = receipt.blockNumber.toString()
+      job.error = receipt.status === 'success' ? null : 'transaction reverted'
+      await saveJob(redis, job, now)
+      await redis.zrem(INFLIGHT_KEY, id)
+      if (job.status === 'confirmed') result.confirmed++
+      else result.failed++
+      continue
+    }
+
+    if (now - (job.submittedAt ?? now) < STUCK_AFTER_MS) continue
+
+    const giveUp =
+      chain.relayer !== job.relayer ? 'relayer left the pool'
+        : isExpired(job, now) ? 'attestation expired'
+          : job.attempts >= MAX_ATTEMPTS ? 'transaction not mined'
+            : null
+    if (giveUp) {
+      // The nonce stays occupied by our last broadcast — don't hand it out again
+      job.status = 'failed'
+      job.error = giveUp
+      await saveJob(redis, job, now)
+      await redis.zrem(INFLIGHT_KEY, id)
+      result.failed++
+      continue
+    }
+
+    // Stuck — replace at the same nonce with higher fees
+    const fees = outbid(await chain.estimateFees(), job)
+    job.attempts++
+    try {
+      job.txHashes.push(await chain.send(job, job.relayerNonce, fees))
+      job.maxFeePerGas = fees.maxFeePerGas.toString()
+      job.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString()
+      job.error = null
+      result.bumped++
+    } catch (err) {
+      // Most often "nonce too low": an earlier hash was mined — the next poll finds its receipt
+      job.error = errorMessage(err)
+    }
+    job.submittedAt = now
+    await saveJob(redis, job, now)
+    await redis.zadd(INFLIGHT_KEY, now, id)
+  }
+}
+
+async function sendQueued(redis: Redis, pool: RelayPool, now: number, result: RelayTickResult) {
+  for (let i = 0; i < MAX_SENDS_PER_TICK; i++) {
+    const candidates = await rotation(redis, pool, now)
+    if (candidates.length === 0) return // Jobs wait in the queue until a relayer recovers
+
+    const id = await redis.lpop(QUEUE_KEY)
+    if (!id) return
+    const job = await getRelayJob(redis, id)
+    if (!job || job.status !== 'queued') continue
+    if (isExpired(job, now)) {
+      // The contract would revert it — don't spend gas finding out
+      job.status = 'failed'
+      job.error = 'attestation expired'
+      await saveJob(redis, job, now)
+      result.failed++
+      continue
+    }
+
+    const refused = await dryRun(candidates[0], job)
+    if (refused) {
+      job.status = 'failed'
+      job.error = refused
+      await saveJob(redis, job, now)
+      result.failed++
+      continue
+    }
+
+    job.attempts++
+    let sent = false
+    let refusedOnSend = false
+    for (const chain of candidates) {
+      const nonce = await allocateRelayerNonce(redis, chain)
+      try {
+        // A re-queued job outbids its last send; a new one has no fees yet
+        const fees = outbid(await chain.estimateFees(), job)
+        const hash = await chain.send(job, nonce, fees)
+        job.status = 'submitted'
+        job.relayer = chain.relayer
+        job.relayerNonce = nonce
+        job.txHashes.push(hash)
+        job.maxFeePerGas = fees.maxFeePerGas.toString()
+        job.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString()
+        job.submittedAt = now
+        job.error = null
+        sent = true
+        break
+      } catch (err) {
+        // Nothing was broadcast at `nonce` — resync so later jobs don't queue behind a gap
+        await resetRelayerNonce(redis, chain)
+        job.error = errorMessage(err)
+        // Reverted after all (state moved since the dry run) — the relayer is fine
+        if (chain.classifyError(err) === 'job') {
+          refusedOnSend = true
+          break
+        }
+        // Fail over to the next relayer
+        await markDown(redis, chain, now)
+      }
+    }
+
+    if (sent) {
+      await saveJob(redis, job, now)
+      await redis.zadd(INFLIGHT_KEY, now, id)
+      result.submitted++
+    } else if (refusedOnSend || job.attempts >= MAX_ATTEMPTS) {
+      job.status = 'failed'
+      result.failed++
+      await saveJob(redis, job, now)
+    } else {
+      await saveJob(redis, job, now)
+      await redis.rpush(QUEUE_KEY, id)
+      // Every relayer just failed — the rest of this tick would too
+      return
+    }
+  }
+}
+
+/**
+ * One bounded pass: confirm or bump in-flight transactions, then send queued
+ * jobs. Returns null if another tick holds the lock.
+ */
+export async function processRelayQueue(redis: Redis, pool: RelayPool, now = Date.now()): Promise<RelayTickResult | null> {
+  const lock = await acquireLock(redis, LOCK_KEY, LOCK_TTL_SECONDS)
+  if (!lock) return null
+
+  const result: RelayTickResult = { submitted: 0, confirmed: 0, failed: 0, bumped: 0 }
+  try {
+    await drainWebhookRetries(redis, now)
+    await pollInflight(redis, pool, now, result)
+    await sendQueued(redis, pool, now, result)
+    return result
+  } finally {
+    await releaseLock(redis, LOCK_KEY, lock)
+  }
+}
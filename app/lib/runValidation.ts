@@ -0,0 +1,227 @@
+import type Redis from 'ioredis'
+import { CFG, MARKET_CONFIG, PATTERN_LIBRARY, SPEEDS } from '@/app/components/Game/gameConfig'
+import { minCandleSpacing } from '@/app/components/Game/gamePatterns'
+import { type RunSession, type SharedRun, getRunSession, getRunShare } from '@/app/lib/gameSessions'
+
+// ============================================================================
+// RUN PLAUSIBILITY
+// ============================================================================
+// The replay re-simulation in /api/session/finish proves a score follows from
+// its inputs — not that a human produced them. These checks catch runs that
+// are technically valid but implausible: more points than the engine's top
+// scoring rate allows in the time the run took, or client-reported stats that
+// disagree with the server's re-simulation.
+//
+// Implausible runs aren't signed; they go to a review queue for a human.
+// checkRunForSigning() is the whole gate /api/score-sign applies, and it
+// fails closed: if the store errors, nothing is signed.
+//
+// Keys:
+//   review:runs       LIST  JSON ReviewEntry, newest first (capped)
+//   review:run:{id}   STR   JSON ReviewEntry — set once a run is flagged
+// ============================================================================
+
+export interface ReviewEntry {
+  runId: string
+  address: string
+  score: number
+  durationMs: number | null
+  reasons: string[]
+  flaggedAt: number
+}
+
+export type PlausibilityResult =
+  | { ok: true }
+  | { ok: false; reasons: string[] }
+
+export type SigningCheck =
+  | { ok: true; run: RunSession }
+  | { ok: false; status: number; error: string }
+
+/** Tightest candle spacing in any spawn pattern (px) */
+const MIN_CANDLE_SPACING = minCandleSpacing(PATTERN_LIBRARY.patterns)
+/** Moon boost doubles every candle while it lasts */
+const MOON_BOOST_MULTIPLIER = 2
+/** Near-miss bonus before the streak multiplier */
+const NEAR_MISS_POINTS = 10
+
+const REVIEW_QUEUE_KEY = 'review:runs'
+const REVIEW_QUEUE_MAX = 1000
+const REVIEW_TTL_SECONDS = 30 * 24 * 60 * 60
+
+const reviewKey = (runId: string) => `review:run:${runId}`
+
+/** Bear markets run faster than any speed tier alone */
+const MARKET_SPEED_MULTIPLIER = MARKET_CONFIG.ENABLED ? MARKET_CONFIG.BEAR_SPEED_MULT : 1
+
+/** Candles passing the player per second at top speed, packed as tight as any pattern */
+function maxCandlesPerSecond(): number {
+  return (CFG.BASE_SPEED * Math.max(...SPEEDS.map((s) => s.multiplier)) * MARKET_SPEED_MULTIPLIER) / MIN_CANDLE_SPACING
+}
+
+/**
+ * Upper bound on points per second: a candle passing the player every
+ * MIN_CANDLE_SPACING at top speed, each worth the best of a green pickup or a
+ * dodged red at the run's combo, all under moon boost — plus every near miss
+ * the cooldown allows. No real run gets close; it only has to be safe.
+ */
+export function maxScoreRate(streak: number, maxCombo: number): number {
+  const comboBonus = Math.max(CFG.COMBO_BONUS, 1 + Math.log2(Math.max(1, maxCombo)))
+  const perCandle = Math.max(CFG.GREEN_SCORE, CFG.RED_SCORE * comboBonus) * MOON_BOOST_MULTIPLIER * streak
+  const nearMisses = (NEAR_MISS_POINTS * streak) / MARKET_CONFIG.NEAR_MISS_COOLDOWN
+  return maxCandlesPerSecond() * perCandle + nearMisses
+}
+
+export function maxPlausibleScore(durationMs: number, streak: number, maxCombo: number): number {
+  return Math.ceil((durationMs / 1000) * maxScoreRate(streak, maxCombo))
+}
+
+/**
+ * Check a finished run. Its duration is the shorter of the replay's game time
+ * and the wall clock from session start to finish. `share` is the result card
+ * the client posted for the run, compared stat for stat when present.
+ */
+export function checkRunPlausibility(run: RunSession, share: SharedRun | null = null): PlausibilityResult {
+  const reasons: string[] = []
+  const score = run.score ?? 0
+  const streak = run.stats?.streak ?? 1
+  const wallClockMs = (run.finishedAt ?? Date.now()) - run.startedAt
+  const durationMs = Math.max(0, Math.min(run.durationMs ?? wallClockMs, wallClockMs))
+  // Without verified stats assume the longest combo the run could have had
+  const maxCombo = run.stats?.maxCombo ?? Math.ceil((durationMs / 1000) * maxCandlesPerSecond())
+
+  const limit = maxPlausibleScore(durationMs, streak, maxCombo)
+  if (score > limit) {
+    reasons.push(`score ${score} in ${(durationMs / 1000).toFixed(1)}s exceeds the maximum of ${limit}`)
+  }
+
+  // A share for someone else's address says nothing about this run
+  if (share && run.stats && share.address.toLowerCase() === run.address) {
+    const mismatches: string[] = []
+    if (share.score !== score) mismatches.push('score')
+    if (share.buys !== run.stats.collected) mismatches.push('buys')
+    if (share.jumps !== run.stats.jumps) mismatches.push('jumps')
+    if (share.combo !== run.stats.maxCombo) mismatches.push('combo')
+    // Posted time is floored seconds of game time
+    if (run.durationMs !== null && Math.abs(share.time - run.durationMs / 1000) > 1) mismatches.push('time')
+    if (mismatches.length > 0) {
+      reasons.push(`posted stats disagree with the replay: ${mismatches.join(', ')}`)
+    }
+  }
+
+  return reasons.length > 0 ? { ok: false, reasons } : { ok: true }
+}
+
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/** Queue a run for review — false if it was already flagged */
+export async function flagRunForReview(
+  redis: Redis,
+  run: RunSession,
+  reasons: string[],
+  now = Date.now()
+): Promise<boolean> {
+  const entry: ReviewEntry = {
+    runId: run.id,
+    address: run.address,
+    score: run.score ?? 0,
+    durationMs: run.durationMs,
+    reasons,
+    flaggedAt: now,
+  }
+  const created = await redis.set(reviewKey(run.id), JSON.stringify(entry), 'EX', REVIEW_TTL_SECONDS, 'NX')
+  if (!created) return false
+
+  await redis.multi()
+    .lpush(REVIEW_QUEUE_KEY, JSON.stringify(entry))
+    .ltrim(REVIEW_QUEUE_KEY, 0, REVIEW_QUEUE_MAX - 1)
+    .exec()
+  return true
+}
+
+export async function getRunReview(redis: Redis, runId: string): Promise<ReviewEntry | null> {
+  const raw = await redis.get(reviewKey(runId))
+  return raw ? JSON.parse(raw) : null
+}
+
+/** Newest flagged runs first */
+export async function getReviewQueue(redis: Redis, limit = 50): Promise<ReviewEntry[]> {
+  const raw = await redis.lrange(REVIEW_QUEUE_KEY, 0, limit - 1)
+  return raw.map((r) => JSON.parse(r) as ReviewEntry)
+}
+
+// ============================================================================
+// SIGNING GATE
+// ============================================================================
+
+/** Absolute ceiling on a signable score, whatever the run's duration */
+const MAX_SIGNABLE_SCORE = 50_000
+
+/**
+ * Everything a run must pass before /api/score-sign attests its score: a
+ * `finished` (re-simulated) normal run for this address and exactly this
+ * score, not held for review and plausible. Store errors come back as a 503
+ * so a Redis outage never turns into an unchecked signature.
+ */
+export async function checkRunForSigning(
+  redis: Redis,
+  runId: string,
+  address: string,
+  score: number
+): Promise<SigningCheck> {
+  try {
+    const run = await getRunSession(redis, runId)
+    if (!run) {
+      console.warn(`[Anti-Cheat] Invalid/expired session: ${runId} for ${address}`)
+      return { ok: false, status: 403, error: 'invalid or expired game session' }
+    }
+
+    if (run.state === 'started') {
+      console.warn(`[Anti-Cheat] Unverified session: ${runId} for ${address}`)
+      return { ok: false, status: 403, error: 'game session not verified' }
+    }
+    if (run.state !== 'finished') {
+      return { ok: false, status: 409, error: 'game session already signed' }
+    }
+
+    // Daily seeds are public for a whole day — those runs only count on the daily board
+    if (run.daily !== undefined) {
+      return { ok: false, status: 403, error: 'daily challenge runs are not signed' }
+    }
+    // Anyone can publish a course, so course scores stay on that course's boards
+    if (run.course !== undefined) {
+      return { ok: false, status: 403, error: 'course runs are not signed' }
+    }
+
+    if (run.score !== score) {
+      console.warn(`[Anti-Cheat] Score mismatch! Submitted: ${score}, Session: ${run.score} for ${address}`)
+      return { ok: false, status: 403, error: 'score mismatch with game session' }
+    }
+    if (run.address !== address.toLowerCase()) {
+      console.warn(`[Anti-Cheat] Address mismatch! Submitted: ${address}, Session: ${run.address}`)
+      return { ok: false, status: 403, error: 'address mismatch with game session' }
+    }
+    if (score > MAX_SIGNABLE_SCORE) {
+      console.warn(`[Anti-Cheat] Score impossibly high: ${score} from ${address}`)
+      return { ok: false, status: 403, error: 'score exceeds maximum possible limits' }
+    }
+
+    // Valid replays that no human could have played are held for review
+    if (await getRunReview(redis, runId)) {
+      return { ok: false, status: 403, error: 'run held for review' }
+    }
+    const plausibility = checkRunPlausibility(run, await getRunShare(redis, runId))
+    if (!plausibility.ok) {
+      console.warn(`[Anti-Cheat] Implausible run ${runId} for ${address}: ${plausibility.reasons.join('; ')}`)
+      await flagRunForReview(redis, run, plausibility.reasons)
+      return { ok: false, status: 403, error: 'run held for review' }
+    }
+
+    return { ok: true, run }
+  } catch (err) {
+    console.error('Redis session validation failed:', err)
+    return { ok: false, status: 503, error: 'game session store unavailable' }
+  }
+}
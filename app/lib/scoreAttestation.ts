@@ -0,0 +1,69 @@
+import { pad, type LocalAccount } from 'viem'
+
+// ============================================================================
+// SCORE ATTESTATIONS (EIP-712)
+// ============================================================================
+// The scoreSigner approves a score by signing a ScoreAttestation against the
+// contract's domain. Wallets render the fields instead of an opaque hash, and
+// the deadline makes unused attestations expire. Types MUST match
+// GameLeaderboard.SCORE_ATTESTATION_TYPEHASH — adding a field means bumping
+// ATTESTATION_DOMAIN_VERSION in both places.
+// ============================================================================
+
+export const ATTESTATION_DOMAIN_NAME = 'Base Dash'
+export const ATTESTATION_DOMAIN_VERSION = '1'
+
+/** How long a signed score stays submittable — covers relay retries and fee bumps */
+export const ATTESTATION_TTL_SECONDS = 60 * 60
+
+export const SCORE_ATTESTATION_TYPES = {
+  ScoreAttestation: [
+    { name: 'player', type: 'address' },
+    { name: 'score', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'sessionId', type: 'bytes32' },
+  ],
+} as const
+
+export interface ScoreAttestation {
+  player: `0x${string}`
+  score: bigint
+  nonce: bigint
+  /** Unix seconds */
+  deadline: bigint
+  sessionId: `0x${string}`
+}
+
+export function attestationDomain(chainId: number, contract: `0x${string}`) {
+  return {
+    name: ATTESTATION_DOMAIN_NAME,
+    version: ATTESTATION_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: contract,
+  } as const
+}
+
+/** 32-hex game session id → bytes32; no session signs as zero */
+export function sessionIdToBytes32(sessionId: string | null | undefined): `0x${string}` {
+  if (!sessionId) return pad('0x', { size: 32 })
+  return pad(`0x${sessionId}`, { size: 32, dir: 'right' })
+}
+
+export function attestationDeadline(now = Date.now()): bigint {
+  return BigInt(Math.floor(now / 1000) + ATTESTATION_TTL_SECONDS)
+}
+
+export async function signScoreAttestation(
+  account: LocalAccount,
+  chainId: number,
+  contract: `0x${string}`,
+  attestation: ScoreAttestation,
+): Promise<`0x${string}`> {
+  return account.signTypedData({
+    domain: attestationDomain(chainId, contract),
+    types: SCORE_ATTESTATION_TYPES,
+    primaryType: 'ScoreAttestation',
+    message: attestation,
+  })
+}
@@ -0,0 +1,74 @@
+import type { PublicClient } from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { GAME_LEADERBOARD_ABI } from '@/app/contracts'
+import { ATTESTATION_TTL_SECONDS } from '@/app/lib/scoreAttestation'
+
+// ============================================================================
+// SCORE SIGNER ROTATION
+// ============================================================================
+// The contract accepts a small set of signers, each with a validity window
+// (setScoreSigner / setScoreSignerWindow). The server holds every key it may
+// need — SCORE_SIGNER_PRIVATE_KEYS, newest first — and signs with the newest
+// one that is active on-chain, so a staged key takes over on its own once its
+// window opens and a retired one stops being used before it expires.
+// ============================================================================
+
+export interface SignerWindow {
+  address: `0x${string}`
+  /** Unix seconds */
+  validFrom: number
+  /** Unix seconds, null = no expiry */
+  validUntil: number | null
+}
+
+type SignerSource = Pick<PublicClient, 'readContract'>
+
+/** Signing keys from SCORE_SIGNER_PRIVATE_KEYS (comma-separated, newest first), else SCORE_SIGNER_PRIVATE_KEY */
+export function loadSignerAccounts(): PrivateKeyAccount[] {
+  const keys = (process.env.SCORE_SIGNER_PRIVATE_KEYS || process.env.SCORE_SIGNER_PRIVATE_KEY || '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean)
+  return keys.map((pk) => privateKeyToAccount(pk as `0x${string}`))
+}
+
+export function isSignerActive(window: SignerWindow, nowSeconds: number): boolean {
+  return window.validFrom <= nowSeconds && (window.validUntil === null || nowSeconds < window.validUntil)
+}
+
+export async function fetchSignerWindows(client: SignerSource, contract: `0x${string}`): Promise<SignerWindow[]> {
+  const [signers, windows] = await client.readContract({
+    address: contract,
+    abi: GAME_LEADERBOARD_ABI,
+    functionName: 'getScoreSigners',
+  }) as readonly [readonly `0x${string}`[], readonly { validFrom: bigint; validUntil: bigint }[]]
+
+  return signers.map((address, i) => ({
+    address,
+    validFrom: Number(windows[i].validFrom),
+    validUntil: Number(windows[i].validUntil) || null,
+  }))
+}
+
+/**
+ * The newest configured key the contract accepts now. Keys that expire
+ * before a fresh attestation would are only used when nothing else is active.
+ * With no on-chain data (read failed) the newest key is assumed valid.
+ */
+export function pickSigningAccount(
+  accounts: PrivateKeyAccount[],
+  windows: SignerWindow[] | null,
+  nowSeconds: number
+): PrivateKeyAccount | null {
+  if (!windows) return accounts[0] ?? null
+
+  const active = accounts.filter((account) => {
+    const window = windows.find((w) => w.address.toLowerCase() === account.address.toLowerCase())
+    return window !== undefined && isSignerActive(window, nowSeconds)
+  })
+  const lasting = active.find((account) => {
+    const window = windows.find((w) => w.address.toLowerCase() === account.address.toLowerCase())!
+    return window.validUntil === null || window.validUntil >= nowSeconds + ATTESTATION_TTL_SECONDS
+  })
+  return lasting ?? active[0] ?? null
+}
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// ============================================================================
+// WEBHOOK AUTH
+// ============================================================================
+// HMAC-SHA256 over `${timestamp}.${rawBody}`, sent as:
+//   x-webhook-timestamp: <unix seconds>
+//   x-webhook-signature: v1=<hex>[,v1=<hex>...]
+//
+// WEBHOOK_SECRET may hold several comma-separated secrets; any of them
+// verifies, so a new secret can be added before the old one is removed.
+// The timestamp bounds how long a captured request stays replayable —
+// within the window, the route also rejects a signature it has seen.
+// ============================================================================
+
+export const SIGNATURE_HEADER = 'x-webhook-signature'
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp'
+export const DEFAULT_TOLERANCE_SECONDS = 300
+
+export type WebhookAuthResult =
+  /** `signature` is the server-computed HMAC — safe to key replay checks on */
+  | { ok: true; signature: string }
+  | { ok: false; reason: 'missing_signature' | 'missing_timestamp' | 'stale_timestamp' | 'bad_signature' | 'no_secrets' }
+
+/** Active secrets from a comma-separated env value, blanks dropped */
+export function parseWebhookSecrets(value: string | undefined): string[] {
+  return (value || '').split(',').map((s) => s.trim()).filter(Boolean)
+}
+
+export function signWebhookPayload(rawBody: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  // Buffer.from stops at the first non-hex character, so `<sig>zz` would
+  // decode to <sig> — only a bare 64-char digest is compared at all
+  if (!/^[0-9a-f]{64}$/i.test(b)) return false
+  return timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'))
+}
+
+export function verifyWebhookSignature(opts: {
+  rawBody: string
+  signature: string | null
+  timestamp: string | null
+  secrets: string[]
+  now?: number
+  toleranceSeconds?: number
+}): WebhookAuthResult {
+  if (opts.secrets.length === 0) return { ok: false, reason: 'no_secrets' }
+  if (!opts.signature) return { ok: false, reason: 'missing_signature' }
+  if (!opts.timestamp || !/^\d+$/.test(opts.timestamp)) return { ok: false, reason: 'missing_timestamp' }
+
+  const timestamp = Number(opts.timestamp)
+  const now = opts.now ?? Math.floor(Date.now() / 1000)
+  if (Math.abs(now - timestamp) > (opts.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) {
+    return { ok: false, reason: 'stale_timestamp' }
+  }
+
+  const candidates = opts.signature
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith('v1='))
+    .map((part) => part.slice(3))
+
+  for (const secret of opts.secrets) {
+    const expected = signWebhookPayload(opts.rawBody, secret, timestamp)
+    for (const candidate of candidates) {
+      if (safeEqualHex(expected, candidate)) return { ok: true, signature: expected }
+    }
+  }
+  return { ok: false, reason: 'bad_signature' }
+}
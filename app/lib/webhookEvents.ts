@@ -0,0 +1,262 @@
+import { getAddress, isAddress } from 'viem'
+import type Redis from 'ioredis'
+
+// ============================================================================
+// WEBHOOK EVENTS
+// ============================================================================
+// Typed handlers for the Base Mini App transaction webhook. Each handler
+// takes the Redis client as a parameter so tests can pass a fake.
+//
+// Keys:
+//   lb:sorted:*          STR   cached contract reads — purged on board changes
+//   lb:idx:fresh         STR   leaderboard index throttle — cleared so the next read syncs
+//   activity:{player}    LIST  newest-first JSON ActivityRecord, capped
+//   relay:retry          LIST  JSON RetryJob for failed gasless submissions — drained by lib/relayQueue
+// ============================================================================
+
+export type WebhookStatus = 'success' | 'failed' | 'pending'
+
+interface BaseEvent {
+  status: WebhookStatus
+  transactionHash?: `0x${string}`
+  event?: string
+}
+
+export interface ScoreSubmissionEvent extends BaseEvent {
+  type: 'score_submission'
+  data: {
+    player: `0x${string}`
+    score: number
+    /** Present for gasless submissions — lets a failed relay be retried */
+    nonce?: string
+    /** Attestation expiry, unix seconds */
+    deadline?: string
+    sessionId?: `0x${string}`
+    signature?: `0x${string}`
+    error?: string
+  }
+}
+
+export interface DailyCheckInEvent extends BaseEvent {
+  type: 'daily_checkin'
+  data: {
+    player: `0x${string}`
+    streak: number
+    error?: string
+  }
+}
+
+export interface ContractInteractionEvent extends BaseEvent {
+  type: 'contract_interaction'
+  data: Record<string, unknown>
+}
+
+export type WebhookEvent = ScoreSubmissionEvent | DailyCheckInEvent | ContractInteractionEvent
+
+export interface ActivityRecord {
+  type: 'score' | 'score_failed' | 'checkin' | 'checkin_failed'
+  tx: string | null
+  at: number
+  score?: number
+  streak?: number
+}
+
+export interface RetryJob {
+  player: `0x${string}`
+  score: number
+  nonce: string
+  deadline: string
+  sessionId: `0x${string}`
+  signature: `0x${string}`
+  failedTx: string | null
+  error: string | null
+  attempts: number
+  queuedAt: number
+}
+
+const ACTIVITY_LIMIT = 50
+const ACTIVITY_TTL_SECONDS = 30 * 24 * 60 * 60
+export const RETRY_QUEUE_KEY = 'relay:retry'
+
+export const WEBHOOK_EVENT_TYPES = ['score_submission', 'daily_checkin', 'contract_interaction'] as const
+
+const activityKey = (player: string) => `activity:${player.toLowerCase()}`
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function toPlayer(value: unknown): `0x${string}` | null {
+  return typeof value === 'string' && isAddress(value, { strict: false }) ? getAddress(value) : null
+}
+
+const UINT = /^\d{1,78}$/
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/
+const SIGNATURE = /^0x[0-9a-fA-F]{130}$/
+
+/**
+ * A relay field is either absent or well-formed — a malformed one would be
+ * queued for retry and only blow up once the relayer tries to encode it
+ */
+function relayField(value: unknown, format: RegExp): string | undefined | null {
+  if (value === undefined) return undefined
+  const text = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value
+  return typeof text === 'string' && format.test(text) ? text : null
+}
+
+/**
+ * Validate a raw webhook body into a typed event, or null if it doesn't fit
+ * any. A known type with a malformed payload is null too — the route tells
+ * those apart by WEBHOOK_EVENT_TYPES.
+ */
+export function parseWebhookEvent(body: unknown): WebhookEvent | null {
+  if (!body || typeof body !== 'object') return null
+  const b = body as Record<string, unknown>
+  if (b.status !== 'success' && b.status !== 'failed' && b.status !== 'pending') return null
+
+  const base: BaseEvent = {
+    status: b.status,
+    transactionHash: typeof b.transactionHash === 'string' ? b.transactionHash as `0x${string}` : undefined,
+    event: typeof b.event === 'string' ? b.event : undefined,
+  }
+  const data = (b.data && typeof b.data === 'object' ? b.data : {}) as Record<string, unknown>
+  const error = typeof data.error === 'string' ? data.error : undefined
+
+  switch (b.type) {
+    case 'score_submission': {
+      const player = toPlayer(data.player)
+      const score = Number(data.score)
+      if (!player || !Number.isSafeInteger(score) || score <= 0) return null
+      const nonce = relayField(data.nonce, UINT)
+      const deadline = relayField(data.deadline, UINT)
+      const sessionId = relayField(data.sessionId, BYTES32)
+      const signature = relayField(data.signature, SIGNATURE)
+      if (nonce === null || deadline === null || sessionId === null || signature === null) return null
+      return {
+        ...base,
+        type: 'score_submission',
+        data: {
+          player,
+          score,
+          nonce,
+          deadline,
+          sessionId: sessionId as `0x${string}` | undefined,
+          signature: signature as `0x${string}` | undefined,
+          error,
+        },
+      }
+    }
+    case 'daily_checkin': {
+      const player = toPlayer(data.player)
+      if (!player) return null
+      return { ...base, type: 'daily_checkin', data: { player, streak: Number(data.streak) || 0, error } }
+    }
+    case 'contract_interaction':
+      return { ...base, type: 'contract_interaction', data }
+    default:
+      return null
+  }
+}
+
+// ============================================================================
+// SIDE EFFECTS
+// ============================================================================
+
+/** Drop cached board reads and force the event index to sync on the next request */
+export async function purgeLeaderboardCache(redis: Redis): Promise<number> {
+  const keys: string[] = []
+  let cursor = '0'
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', 'lb:sorted:*', 'COUNT', 100)
+    keys.push(...batch)
+    cursor = next
+  } while (cursor !== '0')
+  await redis.del(...keys, 'lb:idx:fresh')
+  return keys.length
+}
+
+export async function appendActivity(redis: Redis, player: string, record: ActivityRecord): Promise<void> {
+  const key = activityKey(player)
+  await redis.multi()
+    .lpush(key, JSON.stringify(record))
+    .ltrim(key, 0, ACTIVITY_LIMIT - 1)
+    .expire(key, ACTIVITY_TTL_SECONDS)
+    .exec()
+}
+
+/** Newest first */
+export async function getActivity(redis: Redis, player: string, limit = ACTIVITY_LIMIT): Promise<ActivityRecord[]> {
+  const raw = await redis.lrange(activityKey(player), 0, limit - 1)
+  return raw.map((r) => JSON.parse(r))
+}
+
+export async function enqueueRetry(redis: Redis, job: RetryJob): Promise<void> {
+  await redis.rpush(RETRY_QUEUE_KEY, JSON.stringify(job))
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+type Handler<E extends WebhookEvent> = (redis: Redis, event: E, now: number) => Promise<string[]>
+
+const handleScoreSubmission: Handler<ScoreSubmissionEvent> = async (redis, event, now) => {
+  const { player, score, nonce, deadline, sessionId, signature, error } = event.data
+  const tx = event.transactionHash ?? null
+
+  if (event.status === 'success') {
+    await purgeLeaderboardCache(redis)
+    await appendActivity(redis, player, { type: 'score', score, tx, at: now })
+    return ['cache_purged', 'activity']
+  }
+  if (event.status === 'failed') {
+    await appendActivity(redis, player, { type: 'score_failed', score, tx, at: now })
+    // Only relayed submissions carry the signed attestation needed to resend
+    if (nonce === undefined || deadline === undefined || !sessionId || !signature) return ['activity']
+    await enqueueRetry(redis, {
+      player,
+      score,
+      nonce,
+      deadline,
+      sessionId,
+      signature,
+      failedTx: tx,
+      error: error ?? null,
+      attempts: 0,
+      queuedAt: now,
+    })
+    return ['activity', 'retry_queued']
+  }
+  return []
+}
+
+const handleDailyCheckIn: Handler<DailyCheckInEvent> = async (redis, event, now) => {
+  const { player, streak } = event.data
+  const tx = event.transactionHash ?? null
+
+  if (event.status === 'success') {
+    // Board entries carry streakDays, so a check-in changes what readers see
+    await purgeLeaderboardCache(redis)
+    await appendActivity(redis, player, { type: 'checkin', streak, tx, at: now })
+    return ['cache_purged', 'activity']
+  }
+  if (event.status === 'failed') {
+    await appendActivity(redis, player, { type: 'checkin_failed', streak, tx, at: now })
+    return ['activity']
+  }
+  return []
+}
+
+const handleContractInteraction: Handler<ContractInteractionEvent> = async () => []
+
+/** Run the handler for an event; returns the side effects it applied */
+export async function handleWebhookEvent(redis: Redis, event: WebhookEvent, now = Date.now()): Promise<string[]> {
+  switch (event.type) {
+    case 'score_submission':
+      return handleScoreSubmission(redis, event, now)
+    case 'daily_checkin':
+      return handleDailyCheckIn(redis, event, now)
+    case 'contract_interaction':
+      return handleContractInteraction(redis, event, now)
+  }
+}
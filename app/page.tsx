@@ -13,9 +13,11 @@ import GameEngine from './components/Game/GameEngine'
 import DailyCheckinButton from './components/DailyCheckin/CheckinButton'
 import { useWallet } from './hooks/useWallet'
 import { useDailyCheckin, STREAK_TIERS } from './hooks/useDailyCheckin'
+import { useRelayJob, type SubmitStatus } from './hooks/useRelayJob'
 import { GAME_LEADERBOARD_ABI, CONTRACT_ADDRESS } from './contracts'
 import { safeStorage } from './lib/safeStorage'
 import Leaderboard from './components/Leaderboard/Leaderboard'
+import DailyBoard from './components/Leaderboard/DailyBoard'
 
 import ParticleChaos from './components/Background/ParticleChaos'
 import { Header } from './components/UI/Header'
@@ -126,7 +128,17 @@ export default function Home() {
 
   const { writeContractAsync } = useWriteContract()
   const [submitTxHash, setSubmitTxHash] = useState<`0x${string}` | undefined>()
-  const { isSuccess: isScoreConfirmed } = useWaitForTransactionReceipt({ hash: submitTxHash })
+  const { isSuccess: isScoreConfirmed, isError: isScoreFailed } = useWaitForTransactionReceipt({ hash: submitTxHash })
+  const [relayJobId, setRelayJobId] = useState<string | undefined>()
+  const relayJob = useRelayJob(relayJobId)
+
+  // Gasless jobs report through the relay queue; self-submitted txs through their receipt
+  const submitStatus: SubmitStatus | null = relayJobId
+    ? relayJob.status
+    : submitTxHash
+      ? (isScoreConfirmed ? 'confirmed' : isScoreFailed ? 'failed' : 'pending')
+      : null
+  const submitHash = relayJobId ? relayJob.hash : submitTxHash
 
   const handleConnect = useCallback(async () => {
     try { await connectWallet() } catch { }
@@ -136,31 +148,39 @@ export default function Home() {
     if (!address) throw new Error('wallet not connected')
     if (CONTRACT_ADDRESS === '0x0000000000000000000000000000000000000000') throw new Error('contract not deployed')
 
+    setRelayJobId(undefined)
+    setSubmitTxHash(undefined)
+
     // Используем GASLESS отправку через POST endpoint
-    const res = await fetch('/api/score-sign', {
+    const sign = (challenge?: string) => fetch('/api/score-sign', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ address, score, sessionId, gasless: true }),
+      body: JSON.stringify({ address, score, sessionId, gasless: true, challenge }),
     })
 
-    if (!res.ok) {
-      const data = await res.json().catch(() => ({ error: 'server error' }))
-      throw new Error(data.error || 'failed to submit score')
+    let res = await sign()
+    let result = await res.json().catch(() => ({ error: 'server error' }))
+    // Busy IP/address — the server asks for its challenge echoed back once
+    if (res.ok && result.requiresChallenge) {
+      res = await sign(result.challenge)
+      result = await res.json().catch(() => ({ error: 'server error' }))
     }
 
-    const result = await res.json()
+    if (!res.ok || result.requiresChallenge) {
+      throw new Error(result.error || 'failed to submit score')
+    }
 
-    if (result.gasless && result.hash) {
-      // Gasless транзакция отправлена владельцем
-      setSubmitTxHash(result.hash)
+    if (result.gasless && result.jobId) {
+      // Gasless — the relayer queue sends it; status is polled until confirmed or failed
+      setRelayJobId(result.jobId)
     } else {
       // Fallback на обычную отправку (юзер платит газ)
-      const { nonce, signature } = result
+      const { nonce, deadline, sessionId: attestedSession, signature } = result
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS,
         abi: GAME_LEADERBOARD_ABI,
         functionName: 'submitScore',
-        args: [BigInt(score), BigInt(nonce), signature as `0x${string}`],
+        args: [BigInt(score), BigInt(nonce), BigInt(deadline), attestedSession as `0x${string}`, signature as `0x${string}`],
       })
       setSubmitTxHash(hash)
     }
@@ -370,9 +390,10 @@ export default function Home() {
                       isConnected={isConnected}
                       canSubmitScore={canSubmitScore}
                       connectWallet={handleConnect}
-                      isScoreConfirmed={isScoreConfirmed}
-                      submitTxHash={submitTxHash}
+                      submitStatus={submitStatus}
+                      submitTxHash={submitHash}
                       streakMultiplier={streakMultiplier}
+                      canCheckIn={checkInStatus.canCheckIn}
                     />
                   </div>
                 </div>
@@ -386,7 +407,7 @@ export default function Home() {
 
 
             {/* LEADERBOARD TAB */}
-            {activeTab === 'leaderboard' && <div className="flex-1 overflow-y-auto px-3 sm:px-4 pb-4"><Leaderboard /></div>}
+            {activeTab === 'leaderboard' && <div className="flex-1 overflow-y-auto px-3 sm:px-4 pb-4"><DailyBoard /><Leaderboard onRaceGhost={() => setActiveTab('game')} /></div>}
 
             {/* PROFILE TAB */}
             {activeTab === 'profile' && (
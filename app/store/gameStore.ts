@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { GameMode } from '../components/Game/gameConfig'
+import type { ReplayLog } from '../components/Game/gameReplay'
 
 export interface GameHistoryEntry {
     id: string
@@ -13,18 +14,30 @@ export interface GameHistoryEntry {
     date: number // timestamp
 }
 
+/** A recorded run that can be raced as a ghost */
+export interface GhostRecord {
+    label: string // 'your best' or the leaderboard player
+    score: number
+    replay: ReplayLog
+    date: number // timestamp
+}
+
 interface GameState {
     score: number
     combo: number
     mode: GameMode
     soundEnabled: boolean
     gameHistory: GameHistoryEntry[]
+    bestGhost: GhostRecord | null // Inputs of the personal-best run
+    ghost: GhostRecord | null // Ghost selected for the next run (null = ranked run)
     setScore: (score: number) => void
     setCombo: (combo: number) => void
     setMode: (mode: GameMode | ((prev: GameMode) => GameMode)) => void
     setSoundEnabled: (enabled: boolean | ((prev: boolean) => boolean)) => void
     addGameToHistory: (entry: GameHistoryEntry) => void
     clearHistory: () => void
+    saveBestGhost: (record: GhostRecord) => void
+    setGhost: (ghost: GhostRecord | null) => void
 }
 
 export const useGameStore = create<GameState>()(
@@ -35,6 +48,8 @@ export const useGameStore = create<GameState>()(
             mode: 'menu',
             soundEnabled: true,
             gameHistory: [],
+            bestGhost: null,
+            ghost: null,
             setScore: (score) => set({ score }),
             setCombo: (combo) => set({ combo }),
             setMode: (mode) => set((state) => ({
@@ -47,12 +62,17 @@ export const useGameStore = create<GameState>()(
                 gameHistory: [entry, ...state.gameHistory].slice(0, 5) // Keep last 5
             })),
             clearHistory: () => set({ gameHistory: [] }),
+            saveBestGhost: (record) => set((state) => (
+                state.bestGhost && state.bestGhost.score >= record.score ? state : { bestGhost: record }
+            )),
+            setGhost: (ghost) => set({ ghost }),
         }),
         {
             name: 'bd_store_v3',
             partialize: (state) => ({
                 soundEnabled: state.soundEnabled,
                 gameHistory: state.gameHistory,
+                bestGhost: state.bestGhost,
             }),
         }
     )
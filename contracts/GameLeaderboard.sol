@@ -6,15 +6,18 @@ pragma solidity ^0.8.20;
  * @notice On-chain leaderboard for Base Dash — a Geometry Dash-inspired crypto runner game.
  *
  * Features:
- *  - Server-signed score submission (anti-cheat via ECDSA)
+ *  - Server-signed score submission (anti-cheat via EIP-712 ScoreAttestation)
  *  - Gasless score submission (server pays gas via submitScoreFor)
  *  - Sorted leaderboard with configurable max size
+ *  - Seasons: each season keeps its own board, past standings stay readable
  *  - Daily check-in streak system
- *  - Farcaster FID ↔ wallet linking
- *  - Owner admin: reset leaderboard, change signer, withdraw funds
+ *  - Farcaster FID ↔ wallet linking (server-signed FidLink proves ownership)
+ *  - Owner admin: start new season, change signer, withdraw funds
  *
  * Deploy with Remix + Coinbase Wallet on Base Mainnet.
  * After deploy, call setScoreSigner(backendAddress) to enable score submission.
+ * Calling it again rotates the key: the previous signer keeps working for
+ * SIGNER_ROTATION_OVERLAP so attestations already handed out still land.
  */
 
 // ============================================================================
@@ -54,12 +57,8 @@ library ECDSA {
         return signer;
     }
 
-    function toEthSignedMessageHash(bytes32 hash) internal pure returns (bytes32 result) {
-        assembly {
-            mstore(0x00, "\x19Ethereum Signed Message:\n32")
-            mstore(0x1c, hash)
-            result := keccak256(0x00, 0x3c)
-        }
+    function toTypedDataHash(bytes32 domainSeparator, bytes32 structHash) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
     }
 }
 
@@ -79,6 +78,16 @@ contract GameLeaderboard {
         uint16  rank;
     }
 
+    struct Season {
+        uint32 startedAt;
+        uint32 endedAt;       // 0 while the season is running
+    }
+
+    struct SignerWindow {
+        uint64 validFrom;     // 0 = not a signer
+        uint64 validUntil;    // 0 = no expiry; inactive from this timestamp on
+    }
+
     struct CheckIn {
         uint32 lastCheckIn;   // Unix timestamp (fits until year 2106)
         uint16 streak;        // Consecutive days
@@ -88,20 +97,48 @@ contract GameLeaderboard {
     // ── Constants ───────────────────────────────────────────────────────
     uint256 public constant MAX_LEADERBOARD_SIZE = 100;
     uint256 public constant MAX_SCORE = 50_000; // Aligned with API validation
+    uint256 public constant MAX_SCORE_SIGNERS = 4;
+    uint256 public constant SIGNER_ROTATION_OVERLAP = 1 hours; // ≥ the API's attestation TTL
+
+    // EIP-712 — adding fields to ScoreAttestation means bumping the domain version
+    bytes32 public constant SCORE_ATTESTATION_TYPEHASH = keccak256(
+        "ScoreAttestation(address player,uint256 score,uint256 nonce,uint256 deadline,bytes32 sessionId)"
+    );
+    // Signed by the scoreSigner once the API has checked the wallet is the
+    // FID's custody or a verified address
+    bytes32 public constant FID_LINK_TYPEHASH = keccak256(
+        "FidLink(address player,uint256 fid,uint256 deadline)"
+    );
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 private constant DOMAIN_NAME_HASH = keccak256("Base Dash");
+    bytes32 private constant DOMAIN_VERSION_HASH = keccak256("1");
 
     // ── State ───────────────────────────────────────────────────────────
     address public owner;
     address public pendingOwner;  // Ownable2Step: pending new owner
-    address public scoreSigner;  // Backend wallet that signs valid scores
+    address public scoreSigner;  // Newest backend signing wallet
+
+    // Every signer whose attestations are accepted, with its validity window
+    mapping(address => SignerWindow) public signerWindows;
+    address[] internal signerList;
 
     // Relayer access control
     mapping(address => bool) public isRelayer;
 
-    // Leaderboard
-    address[] public leaderboardAddresses;
-    mapping(address => PlayerScore) public playerScores;
-    mapping(address => uint256) public leaderboardIndex;  // 1-indexed (0 = not on board)
-    mapping(address => uint256) public playerBestScore;
+    // Players whose scores are refused (cheaters)
+    mapping(address => bool) public isBanned;
+
+    // Seasons (1-indexed; scores only ever go to currentSeason)
+    uint256 public currentSeason;
+    mapping(uint256 => Season) public seasons;
+
+    // Leaderboard — keyed by (season, player)
+    mapping(uint256 => address[]) internal seasonAddresses;
+    mapping(uint256 => mapping(address => PlayerScore)) internal seasonScores;
+    mapping(uint256 => mapping(address => uint256)) internal seasonIndex;      // 1-indexed (0 = not on board)
+    mapping(uint256 => mapping(address => uint256)) internal seasonBestScore;
 
     // Anti-cheat nonces (prevents replay attacks)
     mapping(address => uint256) public scoreNonces;
@@ -127,7 +164,8 @@ contract GameLeaderboard {
         uint256 indexed rank
     );
 
-    event LeaderboardReset(
+    event SeasonStarted(
+        uint256 indexed season,
         address indexed by,
         uint256 timestamp
     );
@@ -143,6 +181,12 @@ contract GameLeaderboard {
         address indexed oldSigner
     );
 
+    event ScoreSignerWindowSet(
+        address indexed signer,
+        uint256 validFrom,
+        uint256 validUntil
+    );
+
     event WalletLinked(
         uint256 indexed fid,
         address indexed wallet,
@@ -154,6 +198,16 @@ contract GameLeaderboard {
         bool indexed status
     );
 
+    event PlayerBanned(
+        address indexed player,
+        bool indexed banned
+    );
+
+    event LeaderboardEntryRemoved(
+        address indexed player,
+        uint256 indexed season
+    );
+
     event OwnershipTransferStarted(
         address indexed previousOwner,
         address indexed newOwner
@@ -178,6 +232,8 @@ contract GameLeaderboard {
     // ── Constructor ─────────────────────────────────────────────────────
     constructor() {
         owner = msg.sender;
+        currentSeason = 1;
+        seasons[1].startedAt = uint32(block.timestamp);
     }
 
     // ── Receive ETH ─────────────────────────────────────────────────────
@@ -188,106 +244,93 @@ contract GameLeaderboard {
     // ====================================================================
 
     /**
-     * @notice Submit your own score with a server-signed proof.
+     * @notice Submit your own score with a server-signed ScoreAttestation.
      * @param score  The game score to record.
      * @param nonce  Must match the player's current nonce (prevents replays).
-     * @param signature  ECDSA signature from the backend scoreSigner.
+     * @param deadline  Unix time after which the attestation is rejected.
+     * @param sessionId  Game session the score came from.
+     * @param signature  EIP-712 signature from the backend scoreSigner.
      */
     function submitScore(
         uint256 score,
         uint256 nonce,
+        uint256 deadline,
+        bytes32 sessionId,
         bytes calldata signature
     ) external {
-        _submitScoreInternal(msg.sender, score, nonce, signature);
+        _verifyAttestation(msg.sender, score, nonce, deadline, sessionId, signature);
+        _recordScore(msg.sender, score);
     }
 
     /**
      * @notice Gasless submission — the backend (or any relayer) submits on
      *         behalf of the player.  The signature still proves the
-     *         scoreSigner approved this exact (player, score, nonce) tuple.
+     *         scoreSigner attested this exact ScoreAttestation.
      *         Only the owner or approved relayers can call this.
      */
     function submitScoreFor(
         address player,
         uint256 score,
         uint256 nonce,
+        uint256 deadline,
+        bytes32 sessionId,
         bytes calldata signature
     ) external onlyRelayerOrOwner {
-        _submitScoreInternal(player, score, nonce, signature);
+        _verifyAttestation(player, score, nonce, deadline, sessionId, signature);
+        _recordScore(player, score);
     }
 
-    function _submitScoreInternal(
+    /// @notice EIP-712 domain separator for ScoreAttestation signatures.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, DOMAIN_NAME_HASH, DOMAIN_VERSION_HASH, block.chainid, address(this))
+        );
+    }
+
+    function _verifyAttestation(
         address player,
         uint256 score,
         uint256 nonce,
+        uint256 deadline,
+        bytes32 sessionId,
         bytes calldata signature
     ) internal {
         require(player != address(0), "Invalid player");
         require(score > 0 && score <= MAX_SCORE, "Invalid score");
         require(nonce == scoreNonces[player], "Invalid nonce");
-        require(scoreSigner != address(0), "Signer not set");
+        require(block.timestamp <= deadline, "Attestation expired");
+        require(signerList.length > 0, "Signer not set");
 
-        // Verify ECDSA signature from backend
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(player, score, nonce, block.chainid, address(this))
+        bytes32 structHash = keccak256(
+            abi.encode(SCORE_ATTESTATION_TYPEHASH, player, score, nonce, deadline, sessionId)
         );
-        bytes32 ethHash = messageHash.toEthSignedMessageHash();
-        address recovered = ethHash.recover(signature);
-        require(recovered == scoreSigner, "Invalid signature");
+        address recovered = ECDSA.toTypedDataHash(DOMAIN_SEPARATOR(), structHash).recover(signature);
+        require(_isActiveSigner(recovered), "Invalid signature");
 
         // Increment nonce (replay protection)
         scoreNonces[player] = nonce + 1;
+    }
 
-        // Only update if this is a new high score
-        if (score <= playerBestScore[player]) {
+    function _recordScore(address player, uint256 score) internal {
+        require(!isBanned[player], "Player banned");
+
+        uint256 season = currentSeason;
+
+        // Only update if this is a new high score for the season
+        if (score <= seasonBestScore[season][player]) {
             return; // Not a new high score, skip leaderboard update
         }
 
-        playerBestScore[player] = score;
+        seasonBestScore[season][player] = score;
 
         // Get current streak for this player
         uint16 streakDays = checkIns[player].streak;
 
         // Update or insert into leaderboard
-        uint256 idx = leaderboardIndex[player];
-
-        if (idx > 0) {
-            // Player already on leaderboard — update score
-            PlayerScore storage ps = playerScores[player];
-            ps.score = uint96(score);
-            ps.timestamp = uint32(block.timestamp);
-            ps.streakDays = streakDays;
-        } else {
-            // New player
-            PlayerScore memory newEntry = PlayerScore({
-                player: player,
-                score: uint96(score),
-                timestamp: uint32(block.timestamp),
-                streakDays: streakDays,
-                rank: 0
-            });
-
-            playerScores[player] = newEntry;
-
-            if (leaderboardAddresses.length < MAX_LEADERBOARD_SIZE) {
-                // Board not full — just append
-                leaderboardAddresses.push(player);
-                leaderboardIndex[player] = leaderboardAddresses.length; // 1-indexed
-            } else {
-                // Board full — replace the lowest scorer
-                (address lowest, uint256 lowestIdx) = _findLowestScorer();
-                if (score > playerScores[lowest].score) {
-                    // Remove old entry
-                    leaderboardIndex[lowest] = 0;
-                    // Replace with new
-                    leaderboardAddresses[lowestIdx] = player;
-                    leaderboardIndex[player] = lowestIdx + 1;
-                }
-            }
-        }
+        _upsertEntry(season, player, score, streakDays);
 
         // Calculate rank for event
-        uint256 rank = _calculateRank(player);
+        uint256 rank = _calculateRank(season, player);
 
         emit ScoreSubmitted(player, score, streakDays, block.timestamp);
         emit LeaderboardUpdated(player, score, rank);
@@ -322,9 +365,9 @@ contract GameLeaderboard {
         ci.lastCheckIn = uint32(block.timestamp);
         streak = ci.streak;
 
-        // Update streak on leaderboard entry if player has one
-        if (leaderboardIndex[msg.sender] > 0) {
-            playerScores[msg.sender].streakDays = uint16(streak);
+        // Update streak on the current season's entry if player has one
+        if (seasonIndex[currentSeason][msg.sender] > 0) {
+            seasonScores[currentSeason][msg.sender].streakDays = uint16(streak);
         }
 
         emit DailyCheckInCompleted(msg.sender, streak, block.timestamp);
@@ -335,11 +378,21 @@ contract GameLeaderboard {
     // ====================================================================
 
     /**
-     * @notice Link a Farcaster FID to your wallet address.
-     *         Overwrites any previous link for this FID or address.
+     * @notice Link a Farcaster FID to your wallet address with a FidLink
+     *         attestation from the backend, which only signs for wallets
+     *         that own the FID. Overwrites any previous link for this FID
+     *         or address.
+     * @param deadline  Unix time after which the attestation is rejected.
+     * @param signature  EIP-712 FidLink signature from the scoreSigner.
      */
-    function linkWallet(uint256 fid) external {
+    function linkWallet(uint256 fid, uint256 deadline, bytes calldata signature) external {
         require(fid > 0, "Invalid FID");
+        require(block.timestamp <= deadline, "Attestation expired");
+        require(signerList.length > 0, "Signer not set");
+
+        bytes32 structHash = keccak256(abi.encode(FID_LINK_TYPEHASH, msg.sender, fid, deadline));
+        address recovered = ECDSA.toTypedDataHash(DOMAIN_SEPARATOR(), structHash).recover(signature);
+        require(_isActiveSigner(recovered), "Invalid signature");
 
         // Clear old link if this address was linked to a different FID
         uint256 oldFid = addressToFid[msg.sender];
@@ -365,81 +418,110 @@ contract GameLeaderboard {
     // ====================================================================
 
     /**
-     * @notice Get the full leaderboard (unsorted), up to `limit` entries.
+     * @notice Current-season board entry by position (unsorted).
+     */
+    function leaderboardAddresses(uint256 i) external view returns (address) {
+        return seasonAddresses[currentSeason][i];
+    }
+
+    /**
+     * @notice A player's current-season leaderboard entry.
+     */
+    function playerScores(address player) external view returns (
+        address, uint96 score, uint32 timestamp, uint16 streakDays, uint16 rank
+    ) {
+        PlayerScore storage ps = seasonScores[currentSeason][player];
+        return (ps.player, ps.score, ps.timestamp, ps.streakDays, ps.rank);
+    }
+
+    /**
+     * @notice 1-indexed position on the current-season board (0 = not on board).
+     */
+    function leaderboardIndex(address player) external view returns (uint256) {
+        return seasonIndex[currentSeason][player];
+    }
+
+    /**
+     * @notice A player's best score in the current season.
+     */
+    function playerBestScore(address player) external view returns (uint256) {
+        return seasonBestScore[currentSeason][player];
+    }
+
+    /**
+     * @notice A player's best score in any season.
+     */
+    function getSeasonBestScore(uint256 season, address player) external view returns (uint256) {
+        return seasonBestScore[season][player];
+    }
+
+    /**
+     * @notice Get the full current-season leaderboard (unsorted), up to `limit` entries.
      */
     function getLeaderboard(uint256 limit) external view returns (PlayerScore[] memory) {
-        uint256 len = leaderboardAddresses.length;
+        address[] storage board = seasonAddresses[currentSeason];
+        uint256 len = board.length;
         if (limit < len) len = limit;
 
         PlayerScore[] memory result = new PlayerScore[](len);
         for (uint256 i = 0; i < len; i++) {
-            address addr = leaderboardAddresses[i];
-            result[i] = playerScores[addr];
+            result[i] = seasonScores[currentSeason][board[i]];
             result[i].rank = uint16(i + 1);
         }
         return result;
     }
 
     /**
-     * @notice Get the leaderboard sorted by score (descending).
-     *         Uses in-memory insertion sort — O(n²) but fine for ≤100 entries.
+     * @notice Get the current-season leaderboard sorted by score (descending).
      */
     function getSortedLeaderboard(uint256 limit) external view returns (PlayerScore[] memory) {
-        uint256 len = leaderboardAddresses.length;
-
-        // Build unsorted array
-        PlayerScore[] memory all = new PlayerScore[](len);
-        for (uint256 i = 0; i < len; i++) {
-            address addr = leaderboardAddresses[i];
-            all[i] = playerScores[addr];
-        }
-
-        // Insertion sort descending by score
-        for (uint256 i = 1; i < len; i++) {
-            PlayerScore memory key = all[i];
-            uint256 j = i;
-            while (j > 0 && all[j - 1].score < key.score) {
-                all[j] = all[j - 1];
-                j--;
-            }
-            all[j] = key;
-        }
+        return _sortedLeaderboard(currentSeason, limit);
+    }
 
-        // Assign ranks and trim to limit
-        if (limit > len) limit = len;
-        PlayerScore[] memory result = new PlayerScore[](limit);
-        for (uint256 i = 0; i < limit; i++) {
-            all[i].rank = uint16(i + 1);
-            result[i] = all[i];
-        }
+    /**
+     * @notice Standings of any season sorted by score (descending).
+     *         For ended seasons these are the final standings.
+     */
+    function getSeasonLeaderboard(uint256 season, uint256 limit) external view returns (PlayerScore[] memory) {
+        require(season > 0 && season <= currentSeason, "Invalid season");
+        return _sortedLeaderboard(season, limit);
+    }
 
-        return result;
+    /**
+     * @notice Season start/end timestamps and how many players made its board.
+     */
+    function getSeasonInfo(uint256 season) external view returns (
+        uint256 startedAt,
+        uint256 endedAt,
+        uint256 size
+    ) {
+        require(season > 0 && season <= currentSeason, "Invalid season");
+        Season storage s = seasons[season];
+        return (s.startedAt, s.endedAt, seasonAddresses[season].length);
     }
 
     /**
-     * @notice Get a player's current rank and score.
-     *         Returns (0, 0) if the player is not on the leaderboard.
+     * @notice Get a player's current-season rank and best score.
+     *         Returns (0, score) if the player is not on the leaderboard —
+     *         score is still their season best, 0 if they haven't submitted.
      */
     function getPlayerRank(address player) external view returns (uint256 rank, uint256 score) {
-        score = playerBestScore[player];
-        if (leaderboardIndex[player] == 0) {
-            return (0, score);
-        }
+        return _playerRank(currentSeason, player);
+    }
 
-        // Count how many players have a higher score
-        rank = 1;
-        for (uint256 i = 0; i < leaderboardAddresses.length; i++) {
-            if (playerScores[leaderboardAddresses[i]].score > uint96(score)) {
-                rank++;
-            }
-        }
+    /**
+     * @notice A player's rank and score in any season — (0, score) if off the board.
+     */
+    function getSeasonPlayerRank(uint256 season, address player) external view returns (uint256 rank, uint256 score) {
+        require(season > 0 && season <= currentSeason, "Invalid season");
+        return _playerRank(season, player);
     }
 
     /**
-     * @notice How many players are on the leaderboard.
+     * @notice How many players are on the current-season leaderboard.
      */
     function getLeaderboardSize() external view returns (uint256) {
-        return leaderboardAddresses.length;
+        return seasonAddresses[currentSeason].length;
     }
 
     /**
@@ -458,6 +540,25 @@ contract GameLeaderboard {
         isActive = (block.timestamp - ci.lastCheckIn) < 172800;
     }
 
+    /**
+     * @notice Whether attestations from `signer` are accepted right now.
+     */
+    function isActiveScoreSigner(address signer) external view returns (bool) {
+        return _isActiveSigner(signer);
+    }
+
+    /**
+     * @notice Every registered signer and its validity window, including
+     *         expired ones not yet pruned.
+     */
+    function getScoreSigners() external view returns (address[] memory signers, SignerWindow[] memory windows) {
+        signers = signerList;
+        windows = new SignerWindow[](signers.length);
+        for (uint256 i = 0; i < signers.length; i++) {
+            windows[i] = signerWindows[signers[i]];
+        }
+    }
+
     /**
      * @notice Contract ETH balance (for owner monitoring).
      */
@@ -470,16 +571,50 @@ contract GameLeaderboard {
     // ====================================================================
 
     /**
-     * @notice Set the backend wallet that signs valid scores.
-     *         MUST be called after deployment!
+     * @notice Rotate to a new signing key, effective immediately. Every other
+     *         signer stays valid for at most SIGNER_ROTATION_OVERLAP more; a key
+     *         staged to start after that keeps its window. If the set is full,
+     *         the earlier superseded key closest to expiring is cut off to
+     *         make room, so back-to-back rotations don't lock the owner out.
      */
     function setScoreSigner(address newSigner) external onlyOwner {
         require(newSigner != address(0), "Invalid signer");
         address old = scoreSigner;
+        uint64 overlapEnd = uint64(block.timestamp + SIGNER_ROTATION_OVERLAP);
+
+        for (uint256 i = 0; i < signerList.length; i++) {
+            address signer = signerList[i];
+            SignerWindow storage w = signerWindows[signer];
+            // Capping a key that starts after overlapEnd would invert its window
+            if (signer != newSigner && w.validFrom < overlapEnd && (w.validUntil == 0 || w.validUntil > overlapEnd)) {
+                _setSignerWindow(signer, w.validFrom, overlapEnd);
+            }
+        }
+        if (signerWindows[newSigner].validFrom == 0) {
+            _pruneExpiredSigners();
+            if (signerList.length >= MAX_SCORE_SIGNERS) _evictSupersededSigner(old);
+        }
+        _setSignerWindow(newSigner, uint64(block.timestamp), 0);
+
         scoreSigner = newSigner;
         emit ScoreSignerUpdated(newSigner, old);
     }
 
+    /**
+     * @notice Set a signer's window directly — stage a key ahead of time
+     *         (validFrom in the future) or cut off a leaked one
+     *         (validUntil = now). validFrom 0 keeps the current start (or
+     *         now for a new signer); validUntil 0 means no expiry.
+     */
+    function setScoreSignerWindow(address signer, uint64 validFrom, uint64 validUntil) external onlyOwner {
+        require(signer != address(0), "Invalid signer");
+        if (validFrom == 0) {
+            validFrom = signerWindows[signer].validFrom != 0 ? signerWindows[signer].validFrom : uint64(block.timestamp);
+        }
+        require(validUntil == 0 || validUntil >= validFrom, "Invalid window");
+        _setSignerWindow(signer, validFrom, validUntil);
+    }
+
     /**
      * @notice Grant or revoke relayer access for gasless submissions.
      */
@@ -489,6 +624,26 @@ contract GameLeaderboard {
         emit RelayerUpdated(relayer, status);
     }
 
+    /**
+     * @notice Ban or unban a player. Banned players can't submit scores;
+     *         removeFromLeaderboard takes an existing entry off the board.
+     */
+    function setBanned(address player, bool banned) external onlyOwner {
+        require(player != address(0), "Invalid player");
+        isBanned[player] = banned;
+        emit PlayerBanned(player, banned);
+    }
+
+    /**
+     * @notice Take a player off the current-season board and clear their
+     *         season best, e.g. after banning them for cheating.
+     */
+    function removeFromLeaderboard(address player) external onlyOwner {
+        uint256 season = currentSeason;
+        require(seasonIndex[season][player] != 0, "Not on leaderboard");
+        _removeEntry(season, player);
+    }
+
     /**
      * @notice Ownable2Step: initiate ownership transfer.
      *         New owner must call acceptOwnership() to complete.
@@ -511,17 +666,15 @@ contract GameLeaderboard {
     }
 
     /**
-     * @notice Nuclear option — wipe the entire leaderboard.
+     * @notice Close the current season and open a fresh, empty board.
+     *         O(1) — the old season's scores stay readable via getSeasonLeaderboard.
      */
-    function resetLeaderboard() external onlyOwner {
-        for (uint256 i = 0; i < leaderboardAddresses.length; i++) {
-            address addr = leaderboardAddresses[i];
-            delete playerScores[addr];
-            delete leaderboardIndex[addr];
-            delete playerBestScore[addr];
-        }
-        delete leaderboardAddresses;
-        emit LeaderboardReset(msg.sender, block.timestamp);
+    function startNewSeason() external onlyOwner returns (uint256 season) {
+        seasons[currentSeason].endedAt = uint32(block.timestamp);
+        season = currentSeason + 1;
+        currentSeason = season;
+        seasons[season].startedAt = uint32(block.timestamp);
+        emit SeasonStarted(season, msg.sender, block.timestamp);
     }
 
     /**
@@ -538,28 +691,183 @@ contract GameLeaderboard {
     //  INTERNAL HELPERS
     // ====================================================================
 
-    function _findLowestScorer() internal view returns (address lowest, uint256 lowestIdx) {
-        lowest = leaderboardAddresses[0];
+    function _isActiveSigner(address signer) internal view returns (bool) {
+        SignerWindow storage w = signerWindows[signer];
+        return w.validFrom != 0
+            && w.validFrom <= block.timestamp
+            && (w.validUntil == 0 || block.timestamp < w.validUntil);
+    }
+
+    /// @dev Adds `signer` if new, pruning expired signers to stay within MAX_SCORE_SIGNERS.
+    function _setSignerWindow(address signer, uint64 validFrom, uint64 validUntil) internal {
+        if (signerWindows[signer].validFrom == 0) {
+            _pruneExpiredSigners();
+            require(signerList.length < MAX_SCORE_SIGNERS, "Too many signers");
+            signerList.push(signer);
+        }
+        signerWindows[signer] = SignerWindow(validFrom, validUntil);
+        emit ScoreSignerWindowSet(signer, validFrom, validUntil);
+    }
+
+    function _pruneExpiredSigners() internal {
+        for (uint256 i = signerList.length; i > 0; i--) {
+            SignerWindow storage w = signerWindows[signerList[i - 1]];
+            if (w.validUntil != 0 && w.validUntil <= block.timestamp) _removeSigner(i - 1);
+        }
+    }
+
+    /// @dev Ends the started, capped signer with the earliest validUntil, if any —
+    ///      never `keep`, the key being rotated out, which is owed its full overlap.
+    function _evictSupersededSigner(address keep) internal {
+        uint256 pick = type(uint256).max;
+        uint64 pickUntil;
+        for (uint256 i = 0; i < signerList.length; i++) {
+            SignerWindow storage w = signerWindows[signerList[i]];
+            if (signerList[i] != keep && w.validUntil != 0 && w.validFrom <= block.timestamp && (pick == type(uint256).max || w.validUntil < pickUntil)) {
+                pick = i;
+                pickUntil = w.validUntil;
+            }
+        }
+        if (pick == type(uint256).max) return; // Nothing superseded — _setSignerWindow reverts
+
+        address signer = signerList[pick];
+        emit ScoreSignerWindowSet(signer, signerWindows[signer].validFrom, uint64(block.timestamp));
+        _removeSigner(pick);
+    }
+
+    function _removeSigner(uint256 i) internal {
+        delete signerWindows[signerList[i]];
+        signerList[i] = signerList[signerList.length - 1];
+        signerList.pop();
+    }
+
+    function _upsertEntry(uint256 season, address player, uint256 score, uint16 streakDays) internal {
+        address[] storage board = seasonAddresses[season];
+        mapping(address => PlayerScore) storage scores = seasonScores[season];
+        mapping(address => uint256) storage index = seasonIndex[season];
+
+        uint256 idx = index[player];
+
+        if (idx > 0) {
+            // Player already on leaderboard — update score
+            PlayerScore storage ps = scores[player];
+            ps.score = uint96(score);
+            ps.timestamp = uint32(block.timestamp);
+            ps.streakDays = streakDays;
+        } else {
+            // New player
+            PlayerScore memory newEntry = PlayerScore({
+                player: player,
+                score: uint96(score),
+                timestamp: uint32(block.timestamp),
+                streakDays: streakDays,
+                rank: 0
+            });
+
+            scores[player] = newEntry;
+
+            if (board.length < MAX_LEADERBOARD_SIZE) {
+                // Board not full — just append
+                board.push(player);
+                index[player] = board.length; // 1-indexed
+            } else {
+                // Board full — replace the lowest scorer
+                (address lowest, uint256 lowestIdx) = _findLowestScorer(season);
+                if (score > scores[lowest].score) {
+                    // Remove old entry
+                    index[lowest] = 0;
+                    // Replace with new
+                    board[lowestIdx] = player;
+                    index[player] = lowestIdx + 1;
+                }
+            }
+        }
+    }
+
+    /// @dev Swap-and-pop, so the board stays dense (order is unsorted anyway).
+    function _removeEntry(uint256 season, address player) internal {
+        address[] storage board = seasonAddresses[season];
+        mapping(address => uint256) storage index = seasonIndex[season];
+
+        uint256 idx = index[player] - 1;
+        address last = board[board.length - 1];
+        board[idx] = last;
+        index[last] = idx + 1;
+        board.pop();
+
+        index[player] = 0;
+        delete seasonScores[season][player];
+        seasonBestScore[season][player] = 0;
+        emit LeaderboardEntryRemoved(player, season);
+    }
+
+    function _findLowestScorer(uint256 season) internal view returns (address lowest, uint256 lowestIdx) {
+        address[] storage board = seasonAddresses[season];
+        mapping(address => PlayerScore) storage scores = seasonScores[season];
+        lowest = board[0];
         lowestIdx = 0;
-        uint96 lowestScore = playerScores[lowest].score;
+        uint96 lowestScore = scores[lowest].score;
 
-        for (uint256 i = 1; i < leaderboardAddresses.length; i++) {
-            address addr = leaderboardAddresses[i];
-            if (playerScores[addr].score < lowestScore) {
+        for (uint256 i = 1; i < board.length; i++) {
+            address addr = board[i];
+            if (scores[addr].score < lowestScore) {
                 lowest = addr;
                 lowestIdx = i;
-                lowestScore = playerScores[addr].score;
+                lowestScore = scores[addr].score;
             }
         }
     }
 
-    function _calculateRank(address player) internal view returns (uint256 rank) {
-        uint96 playerScore = playerScores[player].score;
+    function _calculateRank(uint256 season, address player) internal view returns (uint256 rank) {
+        address[] storage board = seasonAddresses[season];
+        mapping(address => PlayerScore) storage scores = seasonScores[season];
+        uint96 playerScore = scores[player].score;
         rank = 1;
-        for (uint256 i = 0; i < leaderboardAddresses.length; i++) {
-            if (playerScores[leaderboardAddresses[i]].score > playerScore) {
+        for (uint256 i = 0; i < board.length; i++) {
+            if (scores[board[i]].score > playerScore) {
                 rank++;
             }
         }
     }
+
+    function _playerRank(uint256 season, address player) internal view returns (uint256 rank, uint256 score) {
+        score = seasonBestScore[season][player];
+        if (seasonIndex[season][player] == 0) {
+            return (0, score);
+        }
+        rank = _calculateRank(season, player);
+    }
+
+    /// @dev In-memory insertion sort — O(n²) but fine for ≤100 entries.
+    function _sortedLeaderboard(uint256 season, uint256 limit) internal view returns (PlayerScore[] memory) {
+        address[] storage board = seasonAddresses[season];
+        uint256 len = board.length;
+
+        // Build unsorted array
+        PlayerScore[] memory all = new PlayerScore[](len);
+        for (uint256 i = 0; i < len; i++) {
+            all[i] = seasonScores[season][board[i]];
+        }
+
+        // Insertion sort descending by score
+        for (uint256 i = 1; i < len; i++) {
+            PlayerScore memory key = all[i];
+            uint256 j = i;
+            while (j > 0 && all[j - 1].score < key.score) {
+                all[j] = all[j - 1];
+                j--;
+            }
+            all[j] = key;
+        }
+
+        // Assign ranks and trim to limit
+        if (limit > len) limit = len;
+        PlayerScore[] memory result = new PlayerScore[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            all[i].rank = uint16(i + 1);
+            result[i] = all[i];
+        }
+
+        return result;
+    }
 }
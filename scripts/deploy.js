@@ -97,7 +97,7 @@ async function main() {
   console.log(`      ${basescanUrl}/${address}`)
   if (isMainnet) {
     console.log('   3. Call setScoreSigner(backendAddress) on the contract')
-    console.log('   4. Call setRelayer(relayerAddress, true) on the contract')
+    console.log('   4. Register relayers: npm run relayers:base')
     console.log('   5. Set NEXT_PUBLIC_USE_TESTNET=false in your environment')
   }
 }
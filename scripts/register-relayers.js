@@ -0,0 +1,47 @@
+const { ethers } = require('hardhat')
+const fs = require('fs')
+const path = require('path')
+
+// Registers every gasless relayer (RELAYER_PRIVATE_KEYS, comma-separated)
+// via setRelayer and reports balances. Run with the owner key as PRIVATE_KEY.
+async function main() {
+  const networkName = hre.network.name
+  const infoPath = path.join(process.cwd(), 'app', 'contracts', 'contract-info.json')
+  const address = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
+    JSON.parse(fs.readFileSync(infoPath, 'utf8')).address
+
+  const keys = (process.env.RELAYER_PRIVATE_KEYS || process.env.RELAYER_PRIVATE_KEY || '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean)
+  if (keys.length === 0) {
+    console.error('❌ RELAYER_PRIVATE_KEYS not found in .env.local')
+    process.exit(1)
+  }
+
+  console.log(`🔑 Registering ${keys.length} relayer(s) on ${networkName} — ${address}`)
+  const leaderboard = await ethers.getContractAt('GameLeaderboard', address)
+
+  for (const key of keys) {
+    const relayer = new ethers.Wallet(key).address
+    const balance = await ethers.provider.getBalance(relayer)
+
+    if (await leaderboard.isRelayer(relayer)) {
+      console.log(`✓ ${relayer} already registered (${ethers.formatEther(balance)} ETH)`)
+      continue
+    }
+
+    const tx = await leaderboard.setRelayer(relayer, true)
+    await tx.wait()
+    console.log(`✅ ${relayer} registered (${ethers.formatEther(balance)} ETH)`)
+  }
+
+  console.log('\n📝 Keep each relayer above RELAYER_MIN_BALANCE_WEI — check /api/health')
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Relayer registration failed:', error)
+    process.exit(1)
+  })
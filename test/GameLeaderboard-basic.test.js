@@ -1,4 +1,5 @@
 const { expect } = require("chai");
+const { signFidLink } = require("./helpers/scoreAttestation");
 
 describe("GameLeaderboard - Basic Tests", function () {
   let gameLeaderboard;
@@ -23,7 +24,7 @@ describe("GameLeaderboard - Basic Tests", function () {
 
     it("Should link FID to wallet", async function () {
       const fid = 12345;
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await gameLeaderboard.connect(player1).linkWallet(fid, ...(await signFidLink(gameLeaderboard, scoreSigner, player1.address, fid)));
       
       const linkedAddress = await gameLeaderboard.fidToAddress(fid);
       expect(linkedAddress).to.equal(player1.address);
@@ -31,7 +32,7 @@ describe("GameLeaderboard - Basic Tests", function () {
 
     it("Should complete daily check-in", async function () {
       const fid = 12345;
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await gameLeaderboard.connect(player1).linkWallet(fid, ...(await signFidLink(gameLeaderboard, scoreSigner, player1.address, fid)));
       await gameLeaderboard.connect(player1).dailyCheckIn();
 
       const [, streak, isActive] = await gameLeaderboard.getCheckInStatus(player1.address);
@@ -1,5 +1,6 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { TYPES, attestationDomain, signAttestation, signFidLink } = require("./helpers/scoreAttestation");
 
 describe("GameLeaderboard", function () {
   let gameLeaderboard;
@@ -26,6 +27,11 @@ describe("GameLeaderboard", function () {
     await gameLeaderboard.connect(owner).setRelayer(relayer.address, true);
   });
 
+  async function link(player, fid) {
+    const attestation = await signFidLink(gameLeaderboard, scoreSigner, player.address, fid);
+    return gameLeaderboard.connect(player).linkWallet(fid, ...attestation);
+  }
+
   // ============================================================================
   // WALLET LINKING TESTS
   // ============================================================================
@@ -34,7 +40,7 @@ describe("GameLeaderboard", function () {
     it("Should link FID to wallet successfully", async function () {
       const fid = 12345;
 
-      const tx = await gameLeaderboard.connect(player1).linkWallet(fid);
+      const tx = await link(player1, fid);
       await tx.wait();
 
       expect(await gameLeaderboard.fidToAddress(fid)).to.equal(player1.address);
@@ -44,10 +50,10 @@ describe("GameLeaderboard", function () {
     it("Should allow re-linking FID (overwrites previous link)", async function () {
       const fid = 12345;
 
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await link(player1, fid);
 
-      // player2 links same FID — contract allows overwrite
-      const tx = await gameLeaderboard.connect(player2).linkWallet(fid);
+      // player2 proves the same FID (e.g. a newly verified address) — overwrites
+      const tx = await link(player2, fid);
       await tx.wait();
 
       // FID now points to player2
@@ -60,10 +66,10 @@ describe("GameLeaderboard", function () {
       const fid1 = 12345;
       const fid2 = 67890;
 
-      await gameLeaderboard.connect(player1).linkWallet(fid1);
+      await link(player1, fid1);
 
       // Same address links to different FID — contract allows overwrite
-      const tx = await gameLeaderboard.connect(player1).linkWallet(fid2);
+      const tx = await link(player1, fid2);
       await tx.wait();
 
       // Address now points to fid2
@@ -71,6 +77,43 @@ describe("GameLeaderboard", function () {
       // Old FID is cleared
       expect(await gameLeaderboard.fidToAddress(fid1)).to.equal('0x0000000000000000000000000000000000000000');
     });
+
+    it("Should reject a link without the server's attestation", async function () {
+      const fid = 12345;
+      const [deadline, signature] = await signFidLink(gameLeaderboard, nonSigner, player1.address, fid);
+
+      await expect(
+        gameLeaderboard.connect(player1).linkWallet(fid, deadline, signature)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject another wallet's attestation", async function () {
+      const fid = 12345;
+      const attestation = await signFidLink(gameLeaderboard, scoreSigner, player1.address, fid);
+
+      await expect(
+        gameLeaderboard.connect(player2).linkWallet(fid, ...attestation)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject an attestation for a different FID", async function () {
+      const [deadline, signature] = await signFidLink(gameLeaderboard, scoreSigner, player1.address, 12345);
+
+      await expect(
+        gameLeaderboard.connect(player1).linkWallet(67890, deadline, signature)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject an expired attestation", async function () {
+      const latest = await ethers.provider.getBlock("latest");
+      const attestation = await signFidLink(gameLeaderboard, scoreSigner, player1.address, 12345, {
+        deadline: BigInt(latest.timestamp - 1),
+      });
+
+      await expect(
+        gameLeaderboard.connect(player1).linkWallet(12345, ...attestation)
+      ).to.be.revertedWith("Attestation expired");
+    });
   });
 
   // ============================================================================
@@ -81,7 +124,7 @@ describe("GameLeaderboard", function () {
     const fid = 12345;
 
     beforeEach(async function () {
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await link(player1, fid);
     });
 
     it("Should complete daily check-in and start streak", async function () {
@@ -122,10 +165,10 @@ describe("GameLeaderboard", function () {
       // Submit a score first
       const score = 1000;
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
-      await gameLeaderboard.connect(player1).submitScore(score, nonce, signature);
+      await gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation);
 
       // Advance time by 3 days (miss a day)
       await ethers.provider.send("evm_increaseTime", [259200]);
@@ -157,36 +200,22 @@ describe("GameLeaderboard", function () {
   // SCORE SUBMISSION WITH SIGNATURE VERIFICATION
   // ============================================================================
 
-  async function getValidSignature(contract, signer, playerAddress, scoreValue, nonce) {
-    const contractAddress = await contract.getAddress();
-    const chainId = BigInt((await ethers.provider.getNetwork()).chainId);
-
-    // Encoding order MUST match contract: abi.encodePacked(player, score, nonce, chainId, contractAddress)
-    const messageHash = ethers.solidityPackedKeccak256(
-      ["address", "uint256", "uint256", "uint256", "address"],
-      [playerAddress, scoreValue, nonce, chainId, contractAddress]
-    );
-
-    const signature = await signer.signMessage(ethers.getBytes(messageHash));
-    return signature;
-  }
-
   describe("Score Submission with Signature Verification", function () {
     const fid = 12345;
     const score = 1000;
 
     beforeEach(async function () {
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await link(player1, fid);
       await gameLeaderboard.connect(player1).dailyCheckIn();
     });
 
     it("Should accept score with valid signature", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
-      const tx = await gameLeaderboard.connect(player1).submitScore(score, nonce, signature);
+      const tx = await gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation);
       await tx.wait();
 
       const [, bestScore] = await gameLeaderboard.getPlayerRank(player1.address);
@@ -195,34 +224,34 @@ describe("GameLeaderboard", function () {
 
     it("Should reject score with invalid signature", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, nonSigner, player1.address, score, nonce
       );
 
       await expect(
-        gameLeaderboard.connect(player1).submitScore(score, nonce, signature)
+        gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation)
       ).to.be.reverted;
     });
 
     it("Should reject score with wrong nonce", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
       const wrongNonce = nonce + 1n;
 
       await expect(
-        gameLeaderboard.connect(player1).submitScore(score, wrongNonce, signature)
+        gameLeaderboard.connect(player1).submitScore(score, wrongNonce, ...attestation)
       ).to.be.reverted;
     });
 
     it("Should increment nonce after successful submission", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
-      await gameLeaderboard.connect(player1).submitScore(score, nonce, signature);
+      await gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation);
 
       const newNonce = await gameLeaderboard.scoreNonces(player1.address);
       expect(newNonce).to.equal(nonce + 1n);
@@ -230,33 +259,78 @@ describe("GameLeaderboard", function () {
 
     it("Should not update leaderboard for score equal to or less than best", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
-      await gameLeaderboard.connect(player1).submitScore(score, nonce, signature);
+      await gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation);
 
       const newNonce = await gameLeaderboard.scoreNonces(player1.address);
       const lowerScore = score - 100;
-      const newSignature = await getValidSignature(
+      const newAttestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, lowerScore, newNonce
       );
 
       // Lower score still succeeds (nonce increments) but leaderboard doesn't update
-      await gameLeaderboard.connect(player1).submitScore(lowerScore, newNonce, newSignature);
+      await gameLeaderboard.connect(player1).submitScore(lowerScore, newNonce, ...newAttestation);
 
       // Best score should still be the original
       const [, bestScore] = await gameLeaderboard.getPlayerRank(player1.address);
       expect(bestScore).to.equal(score);
     });
 
+    it("Should reject an expired attestation", async function () {
+      const nonce = await gameLeaderboard.scoreNonces(player1.address);
+      const latest = await ethers.provider.getBlock("latest");
+      const attestation = await signAttestation(
+        gameLeaderboard, scoreSigner, player1.address, score, nonce, { deadline: BigInt(latest.timestamp + 60) }
+      );
+
+      await ethers.provider.send("evm_increaseTime", [120]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(
+        gameLeaderboard.connect(player1).submitScore(score, nonce, ...attestation)
+      ).to.be.revertedWith("Attestation expired");
+    });
+
+    it("Should reject an attestation replayed with a different session", async function () {
+      const nonce = await gameLeaderboard.scoreNonces(player1.address);
+      const [deadline, , signature] = await signAttestation(
+        gameLeaderboard, scoreSigner, player1.address, score, nonce, { sessionId: ethers.id("session-a") }
+      );
+
+      await expect(
+        gameLeaderboard.connect(player1).submitScore(score, nonce, deadline, ethers.id("session-b"), signature)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject another player's attestation", async function () {
+      const nonce = await gameLeaderboard.scoreNonces(player2.address);
+      const attestation = await signAttestation(
+        gameLeaderboard, scoreSigner, player1.address, score, nonce
+      );
+
+      await expect(
+        gameLeaderboard.connect(player2).submitScore(score, nonce, ...attestation)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should expose the EIP-712 domain separator", async function () {
+      const expected = ethers.TypedDataEncoder.hashDomain(await attestationDomain(gameLeaderboard));
+      expect(await gameLeaderboard.DOMAIN_SEPARATOR()).to.equal(expected);
+      expect(await gameLeaderboard.SCORE_ATTESTATION_TYPEHASH()).to.equal(
+        ethers.id(ethers.TypedDataEncoder.from(TYPES).encodeType("ScoreAttestation"))
+      );
+    });
+
     it("Should reject score exceeding maximum", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, MAX_SCORE + 1, nonce
       );
 
       await expect(
-        gameLeaderboard.connect(player1).submitScore(MAX_SCORE + 1, nonce, signature)
+        gameLeaderboard.connect(player1).submitScore(MAX_SCORE + 1, nonce, ...attestation)
       ).to.be.reverted;
     });
   });
@@ -270,18 +344,18 @@ describe("GameLeaderboard", function () {
     const score = 2000;
 
     beforeEach(async function () {
-      await gameLeaderboard.connect(player1).linkWallet(fid);
+      await link(player1, fid);
       await gameLeaderboard.connect(player1).dailyCheckIn();
     });
 
     it("Should allow relayer to submit score on behalf of player", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
       const tx = await gameLeaderboard.connect(relayer).submitScoreFor(
-        player1.address, score, nonce, signature
+        player1.address, score, nonce, ...attestation
       );
       await tx.wait();
 
@@ -291,12 +365,12 @@ describe("GameLeaderboard", function () {
 
     it("Should allow owner to submit score on behalf of player", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
       const tx = await gameLeaderboard.connect(owner).submitScoreFor(
-        player1.address, score, nonce, signature
+        player1.address, score, nonce, ...attestation
       );
       await tx.wait();
 
@@ -306,13 +380,13 @@ describe("GameLeaderboard", function () {
 
     it("Should prevent non-relayer/non-owner from submitting", async function () {
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
       await expect(
         gameLeaderboard.connect(player2).submitScoreFor(
-          player1.address, score, nonce, signature
+          player1.address, score, nonce, ...attestation
         )
       ).to.be.reverted;
     });
@@ -321,18 +395,146 @@ describe("GameLeaderboard", function () {
       await gameLeaderboard.connect(owner).setRelayer(relayer.address, false);
 
       const nonce = await gameLeaderboard.scoreNonces(player1.address);
-      const signature = await getValidSignature(
+      const attestation = await signAttestation(
         gameLeaderboard, scoreSigner, player1.address, score, nonce
       );
 
       await expect(
         gameLeaderboard.connect(relayer).submitScoreFor(
-          player1.address, score, nonce, signature
+          player1.address, score, nonce, ...attestation
         )
       ).to.be.reverted;
     });
   });
 
+  // ============================================================================
+  // SIGNER ROTATION
+  // ============================================================================
+
+  describe("Signer Rotation", function () {
+    const score = 1000;
+    const OVERLAP = 3600;
+
+    async function submitSignedBy(signer, player = player1) {
+      const nonce = await gameLeaderboard.scoreNonces(player.address);
+      const attestation = await signAttestation(gameLeaderboard, signer, player.address, score, nonce);
+      return gameLeaderboard.connect(player).submitScore(score, nonce, ...attestation);
+    }
+
+    async function advance(seconds) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine");
+    }
+
+    it("Should keep the previous signer valid through the overlap", async function () {
+      await gameLeaderboard.connect(owner).setScoreSigner(nonSigner.address);
+      expect(await gameLeaderboard.scoreSigner()).to.equal(nonSigner.address);
+
+      await submitSignedBy(scoreSigner, player1);
+      await submitSignedBy(nonSigner, player2);
+
+      await advance(OVERLAP);
+      expect(await gameLeaderboard.isActiveScoreSigner(scoreSigner.address)).to.be.false;
+      await expect(submitSignedBy(scoreSigner, player3)).to.be.revertedWith("Invalid signature");
+      await submitSignedBy(nonSigner, player3);
+    });
+
+    it("Should list signers with their windows", async function () {
+      await gameLeaderboard.connect(owner).setScoreSigner(nonSigner.address);
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+
+      const [signers, windows] = await gameLeaderboard.getScoreSigners();
+      expect(signers).to.deep.equal([scoreSigner.address, nonSigner.address]);
+      expect(windows[0].validUntil).to.equal(BigInt(now + OVERLAP));
+      expect(windows[1].validFrom).to.equal(BigInt(now));
+      expect(windows[1].validUntil).to.equal(0n);
+    });
+
+    it("Should cut off a leaked signer immediately", async function () {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      await gameLeaderboard.connect(owner).setScoreSignerWindow(scoreSigner.address, 0, now + 1);
+      await expect(submitSignedBy(scoreSigner)).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should only accept a staged signer once its window opens", async function () {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      await gameLeaderboard.connect(owner).setScoreSignerWindow(nonSigner.address, now + 600, 0);
+
+      await expect(submitSignedBy(nonSigner)).to.be.revertedWith("Invalid signature");
+      await advance(600);
+      await submitSignedBy(nonSigner);
+    });
+
+    it("Should leave a signer staged past the overlap alone on rotation", async function () {
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      const soon = now + 600;
+      const later = now + 2 * OVERLAP;
+      await gameLeaderboard.connect(owner).setScoreSignerWindow(player2.address, soon, 0);
+      await gameLeaderboard.connect(owner).setScoreSignerWindow(player3.address, later, 0);
+      await gameLeaderboard.connect(owner).setScoreSigner(nonSigner.address);
+      const rotatedAt = (await ethers.provider.getBlock("latest")).timestamp;
+
+      const [signers, windows] = await gameLeaderboard.getScoreSigners();
+      const windowOf = (signer) => windows[signers.indexOf(signer.address)];
+      // Starting inside the overlap: capped like any other key
+      expect(windowOf(player2).validFrom).to.equal(BigInt(soon));
+      expect(windowOf(player2).validUntil).to.equal(BigInt(rotatedAt + OVERLAP));
+      // Starting after it: untouched rather than given validUntil < validFrom
+      expect(windowOf(player3).validFrom).to.equal(BigInt(later));
+      expect(windowOf(player3).validUntil).to.equal(0n);
+
+      await advance(2 * OVERLAP);
+      await submitSignedBy(player3);
+    });
+
+    it("Should prune expired signers to make room", async function () {
+      // scoreSigner plus three short-lived keys fills the set
+      const now = (await ethers.provider.getBlock("latest")).timestamp;
+      for (const signer of [player1, player2, player3]) {
+        await gameLeaderboard.connect(owner).setScoreSignerWindow(signer.address, 0, now + 600);
+      }
+      await expect(
+        gameLeaderboard.connect(owner).setScoreSignerWindow(nonSigner.address, 0, 0)
+      ).to.be.revertedWith("Too many signers");
+
+      await advance(600);
+      await gameLeaderboard.connect(owner).setScoreSignerWindow(nonSigner.address, 0, 0);
+      const [signers] = await gameLeaderboard.getScoreSigners();
+      expect([...signers]).to.have.members([scoreSigner.address, nonSigner.address]);
+    });
+
+    it("Should allow back-to-back rotations by cutting off the oldest superseded key", async function () {
+      // scoreSigner plus four rotations within the overlap
+      for (const signer of [player1, player2, player3, nonSigner]) {
+        await gameLeaderboard.connect(owner).setScoreSigner(signer.address);
+      }
+      expect(await gameLeaderboard.scoreSigner()).to.equal(nonSigner.address);
+
+      const [signers] = await gameLeaderboard.getScoreSigners();
+      expect([...signers]).to.have.members([player1.address, player2.address, player3.address, nonSigner.address]);
+      await expect(submitSignedBy(scoreSigner)).to.be.revertedWith("Invalid signature");
+      // The key just replaced keeps its overlap
+      await submitSignedBy(player3);
+    });
+
+    it("Should not evict signers that were never superseded", async function () {
+      const later = (await ethers.provider.getBlock("latest")).timestamp + 2 * OVERLAP;
+      for (const signer of [player1, player2, player3]) {
+        await gameLeaderboard.connect(owner).setScoreSignerWindow(signer.address, later, 0);
+      }
+      // The only capped key is the one being rotated out, which keeps its overlap
+      await expect(
+        gameLeaderboard.connect(owner).setScoreSigner(nonSigner.address)
+      ).to.be.revertedWith("Too many signers");
+    });
+
+    it("Should prevent non-owner from changing signers", async function () {
+      await expect(
+        gameLeaderboard.connect(player1).setScoreSignerWindow(player1.address, 0, 0)
+      ).to.be.revertedWith("Not owner");
+    });
+  });
+
   // ============================================================================
   // LEADERBOARD TESTS
   // ============================================================================
@@ -350,6 +552,140 @@ describe("GameLeaderboard", function () {
     });
   });
 
+  // ============================================================================
+  // SEASON TESTS
+  // ============================================================================
+
+  describe("Seasons", function () {
+    async function submit(player, score) {
+      const nonce = await gameLeaderboard.scoreNonces(player.address);
+      const attestation = await signAttestation(gameLeaderboard, scoreSigner, player.address, score, nonce);
+      await gameLeaderboard.connect(player).submitScore(score, nonce, ...attestation);
+    }
+
+    it("Should start in season 1", async function () {
+      expect(await gameLeaderboard.currentSeason()).to.equal(1n);
+      const [startedAt, endedAt, size] = await gameLeaderboard.getSeasonInfo(1);
+      expect(startedAt).to.be.greaterThan(0n);
+      expect(endedAt).to.equal(0n);
+      expect(size).to.equal(0n);
+    });
+
+    it("Should keep past season standings after a new season starts", async function () {
+      await submit(player1, 1000);
+      await submit(player2, 2000);
+
+      await expect(gameLeaderboard.connect(owner).startNewSeason())
+        .to.emit(gameLeaderboard, "SeasonStarted");
+
+      const past = await gameLeaderboard.getSeasonLeaderboard(1, 10);
+      expect(past.length).to.equal(2);
+      expect(past[0].player).to.equal(player2.address);
+      expect(past[0].score).to.equal(2000n);
+      expect(past[1].player).to.equal(player1.address);
+
+      const [, endedAt, size] = await gameLeaderboard.getSeasonInfo(1);
+      expect(endedAt).to.be.greaterThan(0n);
+      expect(size).to.equal(2n);
+
+      const [rank, best] = await gameLeaderboard.getSeasonPlayerRank(1, player1.address);
+      expect(rank).to.equal(2n);
+      expect(best).to.equal(1000n);
+    });
+
+    it("Should score the new season from scratch", async function () {
+      await submit(player1, 3000);
+      await gameLeaderboard.connect(owner).startNewSeason();
+
+      expect(await gameLeaderboard.playerBestScore(player1.address)).to.equal(0n);
+      await submit(player1, 500);
+
+      const current = await gameLeaderboard.getSortedLeaderboard(10);
+      expect(current.length).to.equal(1);
+      expect(current[0].score).to.equal(500n);
+      expect(await gameLeaderboard.getSeasonBestScore(1, player1.address)).to.equal(3000n);
+      expect(await gameLeaderboard.getSeasonBestScore(2, player1.address)).to.equal(500n);
+    });
+
+    it("Should reject unknown seasons", async function () {
+      await expect(gameLeaderboard.getSeasonLeaderboard(0, 10)).to.be.revertedWith("Invalid season");
+      await expect(gameLeaderboard.getSeasonLeaderboard(2, 10)).to.be.revertedWith("Invalid season");
+    });
+  });
+
+  // ============================================================================
+  // BAN LIST TESTS
+  // ============================================================================
+
+  describe("Ban List", function () {
+    async function submit(player, score) {
+      const nonce = await gameLeaderboard.scoreNonces(player.address);
+      const attestation = await signAttestation(gameLeaderboard, scoreSigner, player.address, score, nonce);
+      return gameLeaderboard.connect(player).submitScore(score, nonce, ...attestation);
+    }
+
+    it("Should reject scores from a banned player", async function () {
+      await expect(gameLeaderboard.connect(owner).setBanned(player1.address, true))
+        .to.emit(gameLeaderboard, "PlayerBanned")
+        .withArgs(player1.address, true);
+
+      await expect(submit(player1, 1000)).to.be.revertedWith("Player banned");
+
+      const nonce = await gameLeaderboard.scoreNonces(player1.address);
+      const attestation = await signAttestation(gameLeaderboard, scoreSigner, player1.address, 1000, nonce);
+      await expect(
+        gameLeaderboard.connect(relayer).submitScoreFor(player1.address, 1000, nonce, ...attestation)
+      ).to.be.revertedWith("Player banned");
+    });
+
+    it("Should accept scores again once unbanned", async function () {
+      await gameLeaderboard.connect(owner).setBanned(player1.address, true);
+      await gameLeaderboard.connect(owner).setBanned(player1.address, false);
+
+      await submit(player1, 1000);
+      expect(await gameLeaderboard.playerBestScore(player1.address)).to.equal(1000n);
+    });
+
+    it("Should remove a player from the current board", async function () {
+      await submit(player1, 3000);
+      await submit(player2, 2000);
+      await submit(player3, 1000);
+
+      await expect(gameLeaderboard.connect(owner).removeFromLeaderboard(player1.address))
+        .to.emit(gameLeaderboard, "LeaderboardEntryRemoved")
+        .withArgs(player1.address, 1n);
+
+      const board = await gameLeaderboard.getSortedLeaderboard(10);
+      expect(board.map((e) => e.player)).to.deep.equal([player2.address, player3.address]);
+      expect(await gameLeaderboard.playerBestScore(player1.address)).to.equal(0n);
+
+      const [rank] = await gameLeaderboard.getPlayerRank(player1.address);
+      expect(rank).to.equal(0n);
+    });
+
+    it("Should let a removed player back on with a lower score", async function () {
+      await submit(player1, 3000);
+      await gameLeaderboard.connect(owner).removeFromLeaderboard(player1.address);
+
+      await submit(player1, 500);
+      const board = await gameLeaderboard.getSortedLeaderboard(10);
+      expect(board.length).to.equal(1);
+      expect(board[0].score).to.equal(500n);
+    });
+
+    it("Should reject removing a player who isn't on the board", async function () {
+      await expect(
+        gameLeaderboard.connect(owner).removeFromLeaderboard(player1.address)
+      ).to.be.revertedWith("Not on leaderboard");
+    });
+
+    it("Should prevent non-owner from banning or removing", async function () {
+      await submit(player1, 1000);
+      await expect(gameLeaderboard.connect(player2).setBanned(player1.address, true)).to.be.reverted;
+      await expect(gameLeaderboard.connect(player2).removeFromLeaderboard(player1.address)).to.be.reverted;
+    });
+  });
+
   // ============================================================================
   // OWNERSHIP TESTS (Ownable2Step)
   // ============================================================================
@@ -383,16 +719,17 @@ describe("GameLeaderboard", function () {
       ).to.be.reverted;
     });
 
-    it("Should allow owner to reset leaderboard", async function () {
-      await gameLeaderboard.connect(owner).resetLeaderboard();
+    it("Should allow owner to start a new season", async function () {
+      await gameLeaderboard.connect(owner).startNewSeason();
 
+      expect(await gameLeaderboard.currentSeason()).to.equal(2n);
       const leaderboard = await gameLeaderboard.getLeaderboard(50);
       expect(leaderboard.length).to.equal(0);
     });
 
-    it("Should prevent non-owner from resetting leaderboard", async function () {
+    it("Should prevent non-owner from starting a new season", async function () {
       await expect(
-        gameLeaderboard.connect(player1).resetLeaderboard()
+        gameLeaderboard.connect(player1).startNewSeason()
       ).to.be.reverted;
     });
 
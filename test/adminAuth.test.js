@@ -0,0 +1,51 @@
+const { expect } = require("chai");
+const { verifyMessage } = require("viem");
+const { generatePrivateKey, privateKeyToAccount } = require("viem/accounts");
+require("./helpers/register-ts");
+
+const { adminAuthHeaders, adminAuthMessage, verifyAdminRequest } = require("../app/lib/adminAuth");
+
+const CONTRACT = "0x00000000000000000000000000000000000C0DE5";
+const NOW = 1_700_000_000_000;
+
+describe("Admin auth", function () {
+  const owner = privateKeyToAccount(generatePrivateKey());
+  const stranger = privateKeyToAccount(generatePrivateKey());
+
+  // Public client stand-in: real signature checks, fixed owner
+  const client = {
+    verifyMessage: (args) => verifyMessage(args),
+    readContract: async () => owner.address,
+  };
+
+  async function signedHeaders(account, issuedAt = NOW) {
+    const signature = await account.signMessage({ message: adminAuthMessage(account.address, issuedAt) });
+    return new Headers(adminAuthHeaders(account.address, issuedAt, signature));
+  }
+
+  it("Should accept the owner's signature", async function () {
+    const result = await verifyAdminRequest(await signedHeaders(owner), client, CONTRACT, NOW + 1000);
+    expect(result).to.deep.equal({ ok: true, address: owner.address });
+  });
+
+  it("Should reject a valid signature from another wallet", async function () {
+    const result = await verifyAdminRequest(await signedHeaders(stranger), client, CONTRACT, NOW);
+    expect(result).to.deep.equal({ ok: false, reason: "not_owner" });
+  });
+
+  it("Should reject a signature claimed for a different address", async function () {
+    const headers = await signedHeaders(stranger);
+    headers.set("x-admin-address", owner.address);
+    expect((await verifyAdminRequest(headers, client, CONTRACT, NOW)).reason).to.equal("bad_signature");
+  });
+
+  it("Should expire signatures", async function () {
+    const headers = await signedHeaders(owner);
+    expect((await verifyAdminRequest(headers, client, CONTRACT, NOW + 11 * 60_000)).reason).to.equal("expired");
+    expect((await verifyAdminRequest(headers, client, CONTRACT, NOW - 5 * 60_000)).reason).to.equal("expired");
+  });
+
+  it("Should reject requests without auth headers", async function () {
+    expect((await verifyAdminRequest(new Headers(), client, CONTRACT, NOW)).reason).to.equal("missing");
+  });
+});
@@ -0,0 +1,168 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const { emptyCourse } = require("../app/components/Game/gameCourse");
+const { createRunSession, finishRunSession } = require("../app/lib/gameSessions");
+const {
+  createCourse,
+  getCourse,
+  getCourseBoards,
+  getCourseSummary,
+  isCourseId,
+  listCourses,
+  rateCourse,
+  recordCourseRun,
+} = require("../app/lib/courses");
+
+const ALICE = "0x00000000000000000000000000000000000A11CE";
+const BOB = "0x0000000000000000000000000000000000000B0B";
+const CAROL = "0x00000000000000000000000000000000000CA201";
+
+function course(title = "test course") {
+  return {
+    ...emptyCourse(),
+    title,
+    candles: [{ at: 800, kind: "red", height: 60, width: 34 }],
+  };
+}
+
+describe("Courses store", function () {
+  let redis;
+  beforeEach(function () {
+    redis = new FakeRedis();
+  });
+
+  // ============================================================
+  // COURSES
+  // ============================================================
+  describe("Courses", function () {
+    it("Should store a course under a fresh share-style id", async function () {
+      const record = await createCourse(redis, course(), ALICE, 1000);
+      expect(isCourseId(record.id)).to.equal(true);
+      expect(record.author).to.equal(ALICE.toLowerCase());
+      expect(await getCourse(redis, record.id)).to.deep.equal(record);
+      // Published courses don't expire
+      expect(await redis.ttl(`course:${record.id}`)).to.equal(-1);
+    });
+
+    it("Should not look up malformed ids", async function () {
+      expect(await getCourse(redis, "../admin")).to.equal(null);
+      expect(await getCourse(redis, "abcdefgh")).to.equal(null);
+    });
+
+    it("Should list the newest courses first", async function () {
+      const first = await createCourse(redis, course("first"), ALICE, 1000);
+      const second = await createCourse(redis, course("second"), BOB, 2000);
+
+      const list = await listCourses(redis, { sort: "new", limit: 10 });
+      expect(list.map((c) => c.id)).to.deep.equal([second.id, first.id]);
+      expect(list[1]).to.include({ title: "first", author: ALICE.toLowerCase(), items: 1, plays: 0, ratings: 0 });
+      expect(await listCourses(redis, { sort: "new", limit: 1, offset: 1 })).to.have.length(1);
+    });
+  });
+
+  // ============================================================
+  // BOARDS
+  // ============================================================
+  describe("Boards", function () {
+    let id;
+    beforeEach(async function () {
+      id = (await createCourse(redis, course(), ALICE, 1000)).id;
+    });
+
+    it("Should keep each player's best score", async function () {
+      await recordCourseRun(redis, id, ALICE, { score: 300, frames: 900, complete: false });
+      await recordCourseRun(redis, id, BOB, { score: 500, frames: 900, complete: false });
+      const rank = await recordCourseRun(redis, id, ALICE, { score: 100, frames: 400, complete: false });
+
+      expect(rank).to.deep.equal({ scoreRank: 2, timeRank: null });
+      const boards = await getCourseBoards(redis, id, 10);
+      expect(boards.scores).to.deep.equal([
+        { player: BOB.toLowerCase(), score: 500 },
+        { player: ALICE.toLowerCase(), score: 300 },
+      ]);
+      expect((await getCourseSummary(redis, id)).plays).to.equal(3);
+    });
+
+    it("Should only time completed runs, fastest first", async function () {
+      await recordCourseRun(redis, id, ALICE, { score: 300, frames: 1200, complete: true });
+      await recordCourseRun(redis, id, BOB, { score: 300, frames: 1100, complete: true });
+      await recordCourseRun(redis, id, BOB, { score: 300, frames: 1300, complete: true });
+      await recordCourseRun(redis, id, CAROL, { score: 900, frames: 200, complete: false });
+
+      const boards = await getCourseBoards(redis, id, 10);
+      expect(boards.times).to.deep.equal([
+        { player: BOB.toLowerCase(), frames: 1100 },
+        { player: ALICE.toLowerCase(), frames: 1200 },
+      ]);
+    });
+  });
+
+  // ============================================================
+  // RATINGS
+  // ============================================================
+  describe("Ratings", function () {
+    // A run on the course, finished the way /api/session/finish does
+    async function finishedRun(id, player) {
+      const run = await createRunSession(redis, { address: player, seed: 1, course: id }, 1000);
+      await finishRunSession(redis, run.id, { score: 100, frames: 600, durationMs: 10_000, stats: { jumps: 3, collected: 0, maxCombo: 0, streak: 1 } }, 2000);
+      return run.id;
+    }
+
+    // Finish a run and put it on the board — the run id rates as its player
+    async function play(id, player) {
+      await recordCourseRun(redis, id, player, { score: 100, frames: 600, complete: false });
+      return finishedRun(id, player);
+    }
+
+    it("Should only take ratings from players on the board", async function () {
+      const { id } = await createCourse(redis, course(), ALICE, 1000);
+      const run = await finishedRun(id, BOB);
+      expect(await rateCourse(redis, id, run, 5)).to.deep.equal({ ok: false, reason: "not_played" });
+
+      await recordCourseRun(redis, id, BOB, { score: 100, frames: 600, complete: false });
+      expect(await rateCourse(redis, id, run, 5)).to.deep.equal({ ok: true, rating: 5, ratings: 1 });
+    });
+
+    it("Should only rate with a finished run on the same course", async function () {
+      const { id } = await createCourse(redis, course(), ALICE, 1000);
+      const other = (await createCourse(redis, course("other"), ALICE, 2000)).id;
+      await recordCourseRun(redis, id, BOB, { score: 100, frames: 600, complete: false });
+
+      const started = (await createRunSession(redis, { address: BOB, seed: 1, course: id }, 1000)).id;
+      const elsewhere = await finishedRun(other, BOB);
+      const procedural = (await createRunSession(redis, { address: BOB, seed: 1 }, 1000)).id;
+      for (const run of [started, elsewhere, procedural, "0".repeat(32), "not-a-run"]) {
+        expect(await rateCourse(redis, id, run, 5)).to.deep.equal({ ok: false, reason: "no_run" });
+      }
+      expect((await getCourseSummary(redis, id)).ratings).to.equal(0);
+    });
+
+    it("Should replace a player's earlier rating", async function () {
+      const { id } = await createCourse(redis, course(), ALICE, 1000);
+      const bob = await play(id, BOB);
+      const carol = await play(id, CAROL);
+      await rateCourse(redis, id, bob, 1);
+      await rateCourse(redis, id, carol, 4);
+      expect(await rateCourse(redis, id, bob, 2)).to.deep.equal({ ok: true, rating: 3, ratings: 2 });
+
+      const summary = await getCourseSummary(redis, id);
+      expect(summary).to.include({ rating: 3, ratings: 2 });
+    });
+
+    it("Should rank many good ratings above a single perfect one", async function () {
+      const lucky = (await createCourse(redis, course("lucky"), ALICE, 1000)).id;
+      const liked = (await createCourse(redis, course("liked"), ALICE, 2000)).id;
+      const unrated = (await createCourse(redis, course("unrated"), ALICE, 3000)).id;
+
+      await rateCourse(redis, lucky, await play(lucky, BOB), 5);
+      for (const player of [BOB, CAROL, ALICE]) {
+        await rateCourse(redis, liked, await play(liked, player), 5);
+      }
+
+      const top = await listCourses(redis, { sort: "top", limit: 10 });
+      expect(top.map((c) => c.id)).to.deep.equal([liked, lucky, unrated]);
+    });
+  });
+});
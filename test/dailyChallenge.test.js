@@ -0,0 +1,89 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  SECONDS_PER_DAY,
+  getChallengeDay,
+  getChallengeEnd,
+  getDailySeed,
+  recordDailyScore,
+  getDailyBoard,
+  getDailyStanding,
+} = require("../app/lib/dailyChallenge");
+
+const ALICE = "0x00000000000000000000000000000000000A11CE";
+const BOB = "0x0000000000000000000000000000000000000B0B";
+
+describe("Daily challenge", function () {
+  // ============================================================
+  // DAY BOUNDARY & SEED
+  // ============================================================
+  describe("Day boundary", function () {
+    it("Should use the block.timestamp / 86400 day index", function () {
+      const day = 20000;
+      expect(getChallengeDay(day * SECONDS_PER_DAY * 1000)).to.equal(day);
+      expect(getChallengeDay((day + 1) * SECONDS_PER_DAY * 1000 - 1)).to.equal(day);
+      expect(getChallengeEnd(day)).to.equal((day + 1) * SECONDS_PER_DAY);
+    });
+
+    it("Should derive the same seed for everyone on a day", function () {
+      expect(getDailySeed(20000, "secret")).to.equal(getDailySeed(20000, "secret"));
+      expect(getDailySeed(20000, "secret")).to.not.equal(getDailySeed(20001, "secret"));
+    });
+
+    it("Should key the seed with the server secret", function () {
+      expect(getDailySeed(20000, "secret")).to.not.equal(getDailySeed(20000, "other"));
+      const seed = getDailySeed(20000, "secret");
+      expect(Number.isInteger(seed)).to.equal(true);
+      expect(seed).to.be.within(0, 0xffffffff);
+    });
+
+    it("Should refuse to derive a seed without a secret", function () {
+      const original = process.env.CHALLENGE_SECRET;
+      delete process.env.CHALLENGE_SECRET;
+      try {
+        expect(getDailySeed(20000)).to.equal(null);
+        expect(getDailySeed(20000, "")).to.equal(null);
+      } finally {
+        if (original !== undefined) process.env.CHALLENGE_SECRET = original;
+      }
+    });
+  });
+
+  // ============================================================
+  // BOARD
+  // ============================================================
+  describe("Board", function () {
+    let redis;
+    beforeEach(function () {
+      redis = new FakeRedis();
+    });
+
+    it("Should rank players by their best score of the day", async function () {
+      expect(await recordDailyScore(redis, 1, ALICE, 500, 3)).to.equal(1);
+      expect(await recordDailyScore(redis, 1, BOB, 800, 0)).to.equal(1);
+      expect(await recordDailyScore(redis, 1, ALICE, 200, 3)).to.equal(2);
+
+      const board = await getDailyBoard(redis, 1, 10);
+      expect(board).to.deep.equal([
+        { player: BOB.toLowerCase(), score: 800, streakDays: 0 },
+        { player: ALICE.toLowerCase(), score: 500, streakDays: 3 },
+      ]);
+    });
+
+    it("Should keep each day separate", async function () {
+      await recordDailyScore(redis, 1, ALICE, 500, 1);
+      await recordDailyScore(redis, 2, BOB, 100, 2);
+
+      expect(await getDailyBoard(redis, 2, 10)).to.have.length(1);
+      expect(await getDailyStanding(redis, 2, ALICE)).to.equal(null);
+      expect(await getDailyStanding(redis, 1, ALICE)).to.deep.equal({ rank: 1, score: 500 });
+    });
+
+    it("Should expire boards after a week", async function () {
+      await recordDailyScore(redis, 1, ALICE, 500, 1);
+      expect(await redis.ttl("daily:board:1")).to.equal(8 * SECONDS_PER_DAY);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  addToDenylist,
+  getDenyEntry,
+  isDenyMode,
+  listDenyEntries,
+  listedPlayers,
+  removeFromDenylist,
+} = require("../app/lib/denylist");
+
+const PLAYER = "0x00000000000000000000000000000000000000aa";
+const OTHER = "0x00000000000000000000000000000000000000bb";
+const NOW = 1_700_000_000_000;
+
+describe("Denylist", function () {
+  let redis;
+
+  beforeEach(function () {
+    redis = new FakeRedis();
+  });
+
+  it("Should store checksummed addresses and look them up from any case", async function () {
+    const entry = await addToDenylist(redis, PLAYER, "ban", "impossible run", NOW);
+    expect(entry.address).to.equal("0x00000000000000000000000000000000000000AA");
+
+    expect(await getDenyEntry(redis, PLAYER)).to.deep.equal(entry);
+    expect(await getDenyEntry(redis, OTHER)).to.equal(null);
+  });
+
+  it("Should overwrite an entry when the mode changes", async function () {
+    await addToDenylist(redis, PLAYER, "shadow", "suspicious", NOW);
+    await addToDenylist(redis, PLAYER, "ban", "confirmed", NOW + 1);
+
+    const entry = await getDenyEntry(redis, PLAYER);
+    expect(entry.mode).to.equal("ban");
+    expect(entry.reason).to.equal("confirmed");
+    expect(await listDenyEntries(redis)).to.have.length(1);
+  });
+
+  it("Should list entries newest first", async function () {
+    await addToDenylist(redis, PLAYER, "ban", "", NOW);
+    await addToDenylist(redis, OTHER, "shadow", "", NOW + 1000);
+
+    expect((await listDenyEntries(redis)).map((e) => e.mode)).to.deep.equal(["shadow", "ban"]);
+  });
+
+  it("Should cap long reasons", async function () {
+    const entry = await addToDenylist(redis, PLAYER, "ban", "x".repeat(1000), NOW);
+    expect(entry.reason).to.have.length(280);
+  });
+
+  it("Should pick the listed players out of a board", async function () {
+    await addToDenylist(redis, PLAYER, "shadow", "", NOW);
+    const listed = await listedPlayers(redis, [OTHER, PLAYER.toUpperCase().replace("0X", "0x")]);
+    expect([...listed]).to.deep.equal(["0x00000000000000000000000000000000000000AA"]);
+    expect((await listedPlayers(redis, [])).size).to.equal(0);
+  });
+
+  it("Should lift entries and report unknown ones", async function () {
+    await addToDenylist(redis, PLAYER, "ban", "", NOW);
+
+    expect(await removeFromDenylist(redis, PLAYER)).to.equal(true);
+    expect(await getDenyEntry(redis, PLAYER)).to.equal(null);
+    expect(await removeFromDenylist(redis, PLAYER)).to.equal(false);
+  });
+
+  it("Should only accept known modes", function () {
+    expect(isDenyMode("ban")).to.equal(true);
+    expect(isDenyMode("shadow")).to.equal(true);
+    expect(isDenyMode("mute")).to.equal(false);
+  });
+});
@@ -0,0 +1,99 @@
+const { expect } = require("chai");
+const { getAddress, recoverTypedDataAddress } = require("viem");
+const { generatePrivateKey, privateKeyToAccount } = require("viem/accounts");
+require("./helpers/register-ts");
+
+const {
+  FID_LINK_TYPES,
+  fetchFidAddresses,
+  isFidOwner,
+  parseFid,
+  parseHubVerifications,
+  signFidLink,
+} = require("../app/lib/fidLink");
+const { attestationDomain } = require("../app/lib/scoreAttestation");
+
+const CONTRACT = "0x00000000000000000000000000000000000c0de5";
+const CUSTODY = "0x00000000000000000000000000000000000000aa";
+const VERIFIED = "0x00000000000000000000000000000000000000bb";
+const HUB = { url: "https://hub.example" };
+
+function verification(address, extra = {}) {
+  return {
+    data: {
+      type: "MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS",
+      verificationAddAddressBody: { address, protocol: "PROTOCOL_ETHEREUM", ...extra },
+    },
+  };
+}
+
+describe("FID linking", function () {
+  const registry = (custody) => ({ readContract: async () => custody });
+  const hubReturning = (status, body) => async () => ({ ok: status === 200, status, json: async () => body });
+
+  describe("Ownership", function () {
+    it("Should accept the custody address or a verified address", async function () {
+      const owners = await fetchFidAddresses(1n, registry(CUSTODY), HUB, hubReturning(200, { messages: [verification(VERIFIED)] }));
+
+      expect(owners.custody).to.equal(getAddress(CUSTODY));
+      expect(isFidOwner(owners, getAddress(CUSTODY))).to.equal(true);
+      expect(isFidOwner(owners, VERIFIED)).to.equal(true);
+      expect(isFidOwner(owners, "0x00000000000000000000000000000000000000cc")).to.equal(false);
+    });
+
+    it("Should fall back to custody when the hub fails", async function () {
+      const owners = await fetchFidAddresses(1n, registry(CUSTODY), HUB, hubReturning(503, {}));
+      expect(owners.verified).to.deep.equal([]);
+      expect(isFidOwner(owners, CUSTODY)).to.equal(true);
+
+      const offline = await fetchFidAddresses(1n, registry(CUSTODY), HUB, async () => { throw new Error("down"); });
+      expect(isFidOwner(offline, CUSTODY)).to.equal(true);
+    });
+
+    it("Should treat an unregistered FID as having no owner", async function () {
+      const owners = await fetchFidAddresses(1n, registry("0x0000000000000000000000000000000000000000"), null);
+      expect(owners.custody).to.equal(null);
+      expect(isFidOwner(owners, "0x0000000000000000000000000000000000000000")).to.equal(false);
+    });
+
+    it("Should only read Ethereum address verifications from the hub", function () {
+      const addresses = parseHubVerifications({
+        messages: [
+          verification(VERIFIED),
+          verification("0x00000000000000000000000000000000000000dd", { protocol: "PROTOCOL_SOLANA" }),
+          verification("not-an-address"),
+          { data: { type: "MESSAGE_TYPE_CAST_ADD" } },
+          { data: { type: "MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS", verificationAddEthAddressBody: { address: CUSTODY } } },
+        ],
+      });
+      expect(addresses).to.deep.equal([getAddress(VERIFIED), getAddress(CUSTODY)]);
+      expect(parseHubVerifications(null)).to.deep.equal([]);
+    });
+  });
+
+  describe("Attestation", function () {
+    it("Should parse only positive integer FIDs", function () {
+      expect(parseFid("12345")).to.equal(12345n);
+      expect(parseFid(42)).to.equal(42n);
+      expect(parseFid("0")).to.equal(null);
+      expect(parseFid("-1")).to.equal(null);
+      expect(parseFid("1e3")).to.equal(null);
+      expect(parseFid(undefined)).to.equal(null);
+    });
+
+    it("Should sign a FidLink the signer can be recovered from", async function () {
+      const signer = privateKeyToAccount(generatePrivateKey());
+      const link = { player: VERIFIED, fid: 12345n, deadline: 1_700_000_600n };
+      const signature = await signFidLink(signer, 8453, CONTRACT, link);
+
+      const recovered = await recoverTypedDataAddress({
+        domain: attestationDomain(8453, CONTRACT),
+        types: FID_LINK_TYPES,
+        primaryType: "FidLink",
+        message: link,
+        signature,
+      });
+      expect(recovered).to.equal(signer.address);
+    });
+  });
+});
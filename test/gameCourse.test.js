@@ -0,0 +1,181 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+
+const { CFG, SPEEDS, createEngine } = require("../app/components/Game/gameConfig");
+const { stepEngine, NO_INPUT } = require("../app/components/Game/gameSimulation");
+const { ReplayRecorder, simulateReplay } = require("../app/components/Game/gameReplay");
+const {
+  COURSE_LIMITS,
+  courseProblems,
+  courseProgress,
+  courseSeed,
+  createCourseEngine,
+  decodeCourse,
+  emptyCourse,
+  encodeCourse,
+  parseCourse,
+} = require("../app/components/Game/gameCourse");
+
+function course(overrides = {}) {
+  return {
+    ...emptyCourse(),
+    title: "test course",
+    length: 3000,
+    candles: [
+      { at: 800, kind: "red", height: 60, width: 34 },
+      { at: 1200, kind: "green", height: 80, width: 34, lift: 40 },
+      { at: 1800, kind: "red", height: 50, width: 34, moving: true },
+    ],
+    powerUps: [{ at: 1500, kind: "moon_boost", lift: 90 }],
+    ...overrides,
+  };
+}
+
+// Play a course with no input until it ends; returns the engine and its events
+function runCourse(c, maxFrames = 60 * 60 * 5) {
+  const e = createCourseEngine(c);
+  const events = [];
+  while (e.alive && e.frame < maxFrames) stepEngine(e, NO_INPUT, CFG.STEP, events);
+  return { e, events };
+}
+
+describe("Courses", function () {
+  // ============================================================
+  // FORMAT
+  // ============================================================
+  describe("Format", function () {
+    it("Should accept a well-formed course", function () {
+      expect(courseProblems(course())).to.deep.equal([]);
+      expect(parseCourse(course())).to.deep.equal(course());
+    });
+
+    it("Should reject out-of-range and unsorted items", function () {
+      const tall = course({ candles: [{ at: 800, kind: "red", height: COURSE_LIMITS.HEIGHT[1] + 1, width: 34 }] });
+      const offTrack = course({ powerUps: [{ at: 5000, kind: "moon_boost", lift: 90 }] });
+      const badKind = course({ powerUps: [{ at: 500, kind: "rocket", lift: 90 }] });
+      const badSpeed = course({ speed: SPEEDS.length });
+      const unsorted = course({ candles: course().candles.slice().reverse() });
+      for (const bad of [tall, offTrack, badKind, badSpeed, unsorted, null, "course"]) {
+        expect(parseCourse(bad)).to.equal(null);
+      }
+      expect(courseProblems(tall)[0]).to.match(/candle 0: height/);
+    });
+
+    it("Should drop unknown fields from a parsed course", function () {
+      const parsed = parseCourse({ ...course(), extra: 1, candles: [{ ...course().candles[0], extra: 2 }] });
+      expect(parsed).to.not.have.property("extra");
+      expect(parsed.candles[0]).to.deep.equal(course().candles[0]);
+    });
+
+    it("Should round-trip through a share code", function () {
+      const c = course({ title: "ünïcødé 🚀" });
+      const code = encodeCourse(c);
+      expect(code).to.match(/^[\w-]+$/);
+      expect(decodeCourse(code)).to.deep.equal(c);
+    });
+
+    it("Should reject a corrupted share code", function () {
+      expect(decodeCourse("not a course")).to.equal(null);
+      expect(decodeCourse(encodeCourse(course()).slice(0, -6))).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // PLAY
+  // ============================================================
+  describe("Play", function () {
+    it("Should place items where the course puts them", function () {
+      const e = createCourseEngine(course());
+      const [red] = e.candles;
+      expect(red.x).to.equal(CFG.PLAYER_X + 800);
+      expect(red.wickBottom).to.be.closeTo(CFG.GROUND, 1e-6);
+
+      const preview = createCourseEngine(course(), 1200);
+      const green = preview.candles.find((c) => c.kind === "green");
+      expect(green.x).to.equal(CFG.PLAYER_X);
+      expect(green.wickBottom).to.be.closeTo(CFG.GROUND - 40, 1e-6);
+      expect(preview.powerUps[0].y).to.equal(CFG.GROUND - 90);
+      // Items behind the preview window aren't spawned
+      expect(preview.candles.some((c) => c.kind === "red" && !c.isMoving)).to.equal(false);
+    });
+
+    it("Should not spawn procedural patterns in a course run", function () {
+      const { e } = runCourse(course({ candles: [] }));
+      expect(e.nextCandleId).to.equal(1);
+    });
+
+    it("Should finish at the end of the track with a courseComplete event", function () {
+      const { e, events } = runCourse(course({ candles: [course().candles[1]] }));
+      expect(e.courseComplete).to.equal(true);
+      expect(courseProgress(e)).to.equal(1);
+      expect(events.filter((ev) => ev.type === "courseComplete")).to.have.length(1);
+      expect(events.some((ev) => ev.type === "died")).to.equal(false);
+      expect(e.market).to.equal("neutral");
+    });
+
+    it("Should die on an unjumped red candle", function () {
+      const { e, events } = runCourse(course());
+      expect(e.courseComplete).to.equal(false);
+      expect(courseProgress(e)).to.be.within(0.2, 0.3);
+      expect(events.some((ev) => ev.type === "died")).to.equal(true);
+    });
+
+    it("Should run at the course's speed tier", function () {
+      const slow = createCourseEngine(course({ candles: [], powerUps: [], speed: 0 }));
+      const fast = createCourseEngine(course({ candles: [], powerUps: [], speed: SPEEDS.length - 1 }));
+      // Past the 8s warmup, once the speed has eased in
+      slow.gameTime = fast.gameTime = 10;
+      for (let i = 0; i < 300; i++) {
+        stepEngine(slow, NO_INPUT, CFG.STEP);
+        stepEngine(fast, NO_INPUT, CFG.STEP);
+      }
+      expect(fast.speed / slow.speed).to.be.closeTo(SPEEDS[SPEEDS.length - 1].multiplier / SPEEDS[0].multiplier, 0.01);
+    });
+
+    it("Should play the same way every time", function () {
+      const a = runCourse(course());
+      const b = runCourse(course());
+      expect(a.e.frame).to.equal(b.e.frame);
+      expect(a.e.distance).to.equal(b.e.distance);
+    });
+
+    it("Should leave procedural runs alone", function () {
+      const e = createEngine(42);
+      expect(e.course).to.equal(null);
+      for (let i = 0; i < 600 && e.alive; i++) stepEngine(e, NO_INPUT, CFG.STEP);
+      expect(e.courseComplete).to.equal(false);
+    });
+  });
+
+  // ============================================================
+  // REPLAYS
+  // ============================================================
+  describe("Replays", function () {
+    // Jump every grounded red as it comes up, recording like the editor does
+    function playRecorded(c) {
+      const e = createCourseEngine(c);
+      const recorder = new ReplayRecorder(courseSeed(c), 1);
+      while (e.alive) {
+        const red = e.candles.find((k) => k.kind === "red" && k.x > CFG.PLAYER_X + CFG.PLAYER_SIZE);
+        const press = red && e.player.onGround && red.x - (CFG.PLAYER_X + CFG.PLAYER_SIZE) < 90 ? 1 : 0;
+        if (press) recorder.press(e.frame);
+        stepEngine(e, { presses: press, releases: 0 }, CFG.STEP);
+      }
+      return { e, replay: recorder.finish(e.frame) };
+    }
+
+    it("Should verify a completed course run from its replay", function () {
+      const { e, replay } = playRecorded(course());
+      expect(e.courseComplete).to.equal(true);
+
+      const result = simulateReplay(replay, course());
+      expect(result).to.include({ score: e.score, frames: e.frame, died: true, complete: true });
+    });
+
+    it("Should not complete the run on a different course", function () {
+      const { replay } = playRecorded(course());
+      const harder = course({ candles: [...course().candles, { at: 2600, kind: "red", height: 190, width: 80 }] });
+      expect(simulateReplay(replay, harder).complete).to.equal(false);
+    });
+  });
+});
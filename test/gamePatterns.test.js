@@ -0,0 +1,154 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+
+const { CFG, PATTERN_LIBRARY } = require("../app/components/Game/gameConfig");
+const {
+  MAX_COMPLEXITY,
+  checkPattern,
+  jumpHeight,
+  loadPatternLibrary,
+  minCandleSpacing,
+  pickPattern,
+} = require("../app/components/Game/gamePatterns");
+const patternData = require("../app/components/Game/patterns.json");
+
+function pattern(candles, extra = {}) {
+  return { id: "p", weight: 1, complexity: [1, 1], candles, ...extra };
+}
+
+// One valid pattern per complexity level, so a library can always load
+const FILLER = Array.from({ length: MAX_COMPLEXITY + 1 }, (_, level) => ({
+  id: `filler-${level}`,
+  weight: 1,
+  complexity: [level, level],
+  candles: [{ offset: 0, kind: "red" }],
+}));
+
+describe("Spawn patterns", function () {
+  // ============================================================
+  // BUILT-IN LIBRARY
+  // ============================================================
+  describe("Built-in library", function () {
+    it("Should load every pattern under the default physics", function () {
+      expect(PATTERN_LIBRARY.rejected).to.deep.equal([]);
+      expect(PATTERN_LIBRARY.patterns.length).to.equal(patternData.length);
+    });
+
+    it("Should have patterns for every complexity level", function () {
+      expect(PATTERN_LIBRARY.byComplexity).to.have.length(MAX_COMPLEXITY + 1);
+      for (const level of PATTERN_LIBRARY.byComplexity) expect(level.length).to.be.greaterThan(0);
+    });
+
+    it("Should report the tightest candle spacing", function () {
+      expect(minCandleSpacing(PATTERN_LIBRARY.patterns)).to.equal(85);
+    });
+  });
+
+  // ============================================================
+  // SELECTION
+  // ============================================================
+  describe("Selection", function () {
+    const candidates = [
+      { id: "a", weight: 1 },
+      { id: "b", weight: 3 },
+    ];
+
+    it("Should pick by weight", function () {
+      expect(pickPattern(candidates, 0).id).to.equal("a");
+      expect(pickPattern(candidates, 0.24).id).to.equal("a");
+      expect(pickPattern(candidates, 0.25).id).to.equal("b");
+      expect(pickPattern(candidates, 0.999).id).to.equal("b");
+    });
+  });
+
+  // ============================================================
+  // VALIDATION
+  // ============================================================
+  describe("Validation", function () {
+    it("Should accept a well-formed pattern", function () {
+      const def = pattern([
+        { offset: 0, kind: "red", height: 0.8 },
+        { offset: 120, kind: "green", lift: 100, moving: true },
+        { offset: 240, kind: "red", air: 0.5 },
+      ]);
+      expect(checkPattern(def, CFG)).to.deep.equal([]);
+    });
+
+    it("Should reject malformed patterns", function () {
+      expect(checkPattern(null, CFG)).to.deep.equal(["not an object"]);
+      expect(checkPattern(pattern([]), CFG)).to.have.length(1);
+      expect(checkPattern(pattern([{ offset: 0, kind: "red" }], { weight: 0 }), CFG)).to.have.length(1);
+      expect(checkPattern(pattern([{ offset: 0, kind: "red" }], { complexity: [3, 2] }), CFG)).to.have.length(1);
+      expect(checkPattern(pattern([{ offset: 0, kind: "red" }], { complexity: [0, 6] }), CFG)).to.have.length(1);
+    });
+
+    it("Should reject bad candles", function () {
+      const problems = checkPattern(pattern([
+        { offset: 100, kind: "blue" },
+        { offset: 50, kind: "red", height: 2 },
+        { offset: 150, kind: "red", width: 0.2 },
+        { offset: 200, kind: "red", lift: 100, air: 0.5 },
+        { offset: 250, kind: "red", air: 1.5 },
+      ]), CFG);
+      expect(problems).to.deep.equal([
+        "candle 0: kind must be red or green",
+        "candle 1: height must be 0.4-1.3",
+        "candle 2: width must be 0.6-1.4",
+        "candle 3: use lift or air, not both",
+        "candle 4: air must be a chance between 0 and 1",
+        "candle 1: offsets must ascend",
+      ]);
+    });
+
+    it("Should reject candles too tall for the jump physics", function () {
+      const weak = { ...CFG, JUMP: -400, DOUBLE_JUMP: -200 };
+      expect(jumpHeight(weak, true)).to.be.lessThan(162);
+
+      const [problem] = checkPattern(pattern([{ offset: 0, kind: "red", height: 1.3 }]), weak);
+      expect(problem).to.match(/can reach \d+px, jump apex is \d+px/);
+      // Greens are pickups, not obstacles
+      expect(checkPattern(pattern([{ offset: 0, kind: "green", height: 1.3 }]), weak)).to.deep.equal([]);
+    });
+
+    it("Should hold complexity 0 to a single jump", function () {
+      // Single jump clears ~107px, double ~191px; a 1.3x candle rolls up to ~162px
+      const physics = { ...CFG, JUMP: -600, DOUBLE_JUMP: -500, GRAVITY_UP: 1680 };
+      const tall = [{ offset: 0, kind: "red", height: 1.3 }];
+      expect(checkPattern(pattern(tall, { complexity: [1, 2] }), physics)).to.deep.equal([]);
+      expect(checkPattern(pattern(tall, { complexity: [0, 2] }), physics)).to.have.length(1);
+    });
+
+    it("Should reject air candles too low to run under and too high to jump", function () {
+      const low = pattern([{ offset: 0, kind: "red", height: 1.3, lift: 30 }], { complexity: [0, 0] });
+      expect(checkPattern(low, CFG)[0]).to.match(/too low to run under/);
+      expect(checkPattern(pattern([{ offset: 0, kind: "red", lift: CFG.PLAYER_SIZE }]), CFG)).to.deep.equal([]);
+    });
+  });
+
+  // ============================================================
+  // LOADING
+  // ============================================================
+  describe("Loading", function () {
+    it("Should drop invalid and duplicate patterns and keep the rest", function () {
+      const library = loadPatternLibrary([
+        ...FILLER,
+        { ...FILLER[2], weight: -1, id: "broken" },
+        { ...FILLER[3] },
+      ], CFG);
+
+      expect(library.patterns.map((p) => p.id)).to.deep.equal(FILLER.map((p) => p.id));
+      expect(library.rejected.map((r) => r.id)).to.deep.equal(["broken", "filler-3"]);
+      expect(library.rejected[1].problems).to.deep.equal(["duplicate id"]);
+    });
+
+    it("Should file a pattern under every level in its complexity range", function () {
+      const library = loadPatternLibrary([...FILLER, { ...FILLER[0], id: "wide", complexity: [2, 4] }], CFG);
+      expect(library.byComplexity.map((level) => level.some((p) => p.id === "wide")))
+        .to.deep.equal([false, false, true, true, true, false]);
+    });
+
+    it("Should refuse a library that leaves a level empty", function () {
+      expect(() => loadPatternLibrary(FILLER.slice(1), CFG)).to.throw(/complexity 0/);
+    });
+  });
+});
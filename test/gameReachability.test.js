@@ -0,0 +1,155 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+
+const {
+  CFG,
+  GAMEPLAY,
+  SPEEDS,
+  createEngine,
+  getJumps,
+  scaledPhysics,
+  spawnPattern,
+  updateGameConfig,
+} = require("../app/components/Game/gameConfig");
+const { stepEngine } = require("../app/components/Game/gameSimulation");
+const { jumpHeight } = require("../app/components/Game/gamePatterns");
+const {
+  findSurvivableInputs,
+  groundedPlayer,
+  isPatternSurvivable,
+  stepPlayer,
+  tierSpeed,
+} = require("../app/components/Game/gameReachability");
+
+const DEFAULT_CFG = { ...CFG };
+
+// Portrait and landscape sizes scaledPhysics() rescales for
+const SCREEN_SIZES = [
+  [1920, 1080],
+  [1280, 720],
+  [800, 600],
+  [768, 1024],
+  [430, 932],
+  [390, 844],
+  [360, 640],
+];
+
+// A static red candle standing on the ground (or `lift` px above it)
+function red(x, height, { width = 34, lift = 0 } = {}) {
+  const bodyY = CFG.GROUND - height - lift;
+  return {
+    kind: "red", x, width, bodyY, bodyHeight: height,
+    isMoving: false, targetY: bodyY, movePhase: 0, moveSpeed: 0, moveAmplitude: 0,
+  };
+}
+
+function options(maxJumps, speed = tierSpeed(CFG, SPEEDS[0].multiplier)) {
+  return { speed, maxJumps, hitboxPad: GAMEPLAY.HITBOX_PAD };
+}
+
+// Roll patterns the way the engine does mid-run at each speed tier
+function everyTierRoll(seeds, check) {
+  for (const tier of SPEEDS) {
+    for (let seed = 1; seed <= seeds; seed++) {
+      const e = createEngine(seed * 7919 + tier.startScore);
+      e.score = tier.startScore;
+      e.gameTime = 60;
+      e.spawnCount = 10;
+      spawnPattern(e);
+      check(e.candles, tier, e.score);
+    }
+  }
+}
+
+describe("Jump reachability", function () {
+  afterEach(function () {
+    Object.assign(CFG, DEFAULT_CFG);
+  });
+
+  // ============================================================
+  // PLAYER PHYSICS
+  // ============================================================
+  describe("Player physics", function () {
+    it("Should follow the same arc as stepEngine for a jump and double jump", function () {
+      const e = createEngine(1);
+      e.score = 200;
+      e.nextSpawnDistance = Infinity;
+      let p = groundedPlayer(CFG);
+
+      for (let frame = 0; frame < 90; frame++) {
+        const press = frame === 0 || frame === 20;
+        stepEngine(e, { presses: press ? 1 : 0, releases: 0 }, CFG.STEP);
+        p = stepPlayer(p, press, CFG, getJumps(e.score));
+        expect(p.y).to.be.closeTo(e.player.y, 1e-6);
+        expect(p.onGround).to.equal(e.player.onGround);
+      }
+    });
+  });
+
+  // ============================================================
+  // SOLVER
+  // ============================================================
+  describe("Solver", function () {
+    it("Should find presses that clear a grounded candle", function () {
+      const presses = findSurvivableInputs([red(900, 80)], CFG, options(1));
+      expect(presses).to.have.length.greaterThan(0);
+    });
+
+    it("Should need no presses to run under a high air candle", function () {
+      expect(findSurvivableInputs([red(900, 60, { lift: CFG.PLAYER_SIZE + 10 })], CFG, options(1))).to.deep.equal([]);
+    });
+
+    it("Should reject a wall taller than a double jump", function () {
+      const wall = jumpHeight(CFG, true) + 20;
+      expect(findSurvivableInputs([red(900, wall)], CFG, options(2))).to.equal(null);
+    });
+
+    it("Should only clear a candle between the two apexes with the double jump", function () {
+      const height = (jumpHeight(CFG, false) + jumpHeight(CFG, true)) / 2;
+      expect(isPatternSurvivable([red(900, height)], CFG, options(1))).to.equal(false);
+      expect(isPatternSurvivable([red(900, height)], CFG, options(2))).to.equal(true);
+    });
+
+    it("Should reject candles too close together to land between", function () {
+      const height = jumpHeight(CFG, false) - CFG.PLAYER_SIZE;
+      const row = [red(900, height), red(1000, height), red(1100, height)].map((c) => ({ ...c, width: 80 }));
+      expect(isPatternSurvivable(row, CFG, options(1))).to.equal(false);
+    });
+
+    it("Should ignore green candles", function () {
+      const green = { ...red(900, jumpHeight(CFG, true) + 20), kind: "green" };
+      expect(findSurvivableInputs([green], CFG, options(1))).to.deep.equal([]);
+    });
+  });
+
+  // ============================================================
+  // SCREEN-SIZE SWEEP — every rolled pattern must be survivable
+  // ============================================================
+  describe("Screen-size sweep", function () {
+    it("Should clear every roll at every speed tier with the default physics", function () {
+      expect(CFG.REROLL_UNREACHABLE).to.equal(false);
+      everyTierRoll(20, (candles, tier, score) => {
+        const opts = options(getJumps(score), tierSpeed(CFG, tier.multiplier));
+        expect(isPatternSurvivable(candles, CFG, opts), `${tier.label} roll`).to.equal(true);
+      });
+    });
+
+    it("Should leave gameplay constants alone when the screen changes", function () {
+      const gameplay = Object.keys(scaledPhysics(960, 540));
+      for (const [width, height] of SCREEN_SIZES) {
+        updateGameConfig(width, height);
+        for (const key of [...gameplay, "REROLL_UNREACHABLE"]) expect(CFG[key], key).to.equal(DEFAULT_CFG[key]);
+      }
+    });
+
+    for (const [width, height] of SCREEN_SIZES) {
+      it(`Should clear every roll at every speed tier at ${width}x${height}`, function () {
+        Object.assign(CFG, scaledPhysics(width, height), { REROLL_UNREACHABLE: true });
+        everyTierRoll(20, (candles, tier, score) => {
+          const opts = options(getJumps(score), tierSpeed(CFG, tier.multiplier));
+          expect(isPatternSurvivable(candles, CFG, opts), `${tier.label} roll`).to.equal(true);
+        });
+      });
+    }
+  });
+});
@@ -0,0 +1,175 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  createRunSession,
+  getRunSession,
+  finishRunSession,
+  markRunSigned,
+  markRunSubmitted,
+  createSharedRun,
+  getSharedRun,
+  getSharedReplay,
+  getGhostShareId,
+  getRunShare,
+  getReplayRun,
+} = require("../app/lib/gameSessions");
+
+const ALICE = "0x00000000000000000000000000000000000A11CE";
+const NOW = 1_700_000_000_000;
+const RESULT = {
+  score: 1234,
+  frames: 2400,
+  durationMs: 40_000,
+  stats: { jumps: 20, collected: 3, maxCombo: 4, streak: 1 },
+};
+const REPLAY = { version: 1, seed: 7, frames: 2400, inputs: [] };
+
+function share(overrides = {}) {
+  return { score: 1234, time: 40, dodged: 12, buys: 3, jumps: 20, combo: 4, address: ALICE, ...overrides };
+}
+
+describe("Game sessions", function () {
+  let redis;
+  beforeEach(function () {
+    redis = new FakeRedis();
+  });
+
+  // ============================================================
+  // RUN LIFECYCLE
+  // ============================================================
+  describe("Runs", function () {
+    it("Should open runs in the started state", async function () {
+      const run = await createRunSession(redis, { address: ALICE, seed: 42 }, NOW);
+      expect(run.id).to.match(/^[0-9a-f]{32}$/);
+      expect(await getRunSession(redis, run.id)).to.deep.include({
+        state: "started",
+        address: ALICE.toLowerCase(),
+        seed: 42,
+        startedAt: NOW,
+        score: null,
+      });
+      expect(await redis.get(`session:${run.id}`)).to.equal(null);
+    });
+
+    it("Should move through finished, signed and submitted", async function () {
+      const { id } = await createRunSession(redis, { address: ALICE, seed: 42 }, NOW);
+
+      const finished = await finishRunSession(redis, id, RESULT, NOW + 41_000);
+      expect(finished.ok).to.equal(true);
+      expect(finished.session).to.deep.include({ state: "finished", ...RESULT, finishedAt: NOW + 41_000 });
+
+      expect((await markRunSigned(redis, id, "3", NOW + 42_000)).session).to.deep.include({
+        state: "signed",
+        scoreNonce: "3",
+        signedAt: NOW + 42_000,
+      });
+      expect((await markRunSubmitted(redis, id, "job-1", NOW + 43_000)).session).to.deep.include({
+        state: "submitted",
+        relayJobId: "job-1",
+      });
+      expect((await getRunSession(redis, id)).score).to.equal(RESULT.score);
+    });
+
+    it("Should refuse to skip or repeat a state", async function () {
+      const { id } = await createRunSession(redis, { address: ALICE, seed: 42 }, NOW);
+      expect(await markRunSigned(redis, id, "0")).to.deep.equal({ ok: false, reason: "wrong_state" });
+
+      await finishRunSession(redis, id, RESULT);
+      expect(await finishRunSession(redis, id, { ...RESULT, score: 9999 })).to.deep.equal({
+        ok: false,
+        reason: "wrong_state",
+      });
+      expect((await getRunSession(redis, id)).score).to.equal(RESULT.score);
+    });
+
+    it("Should let only one of two racing transitions through", async function () {
+      const { id } = await createRunSession(redis, { address: ALICE, seed: 42 }, NOW);
+      await finishRunSession(redis, id, RESULT);
+      const results = await Promise.all([markRunSigned(redis, id, "0"), markRunSigned(redis, id, "0")]);
+      expect(results.filter((r) => r.ok)).to.have.length(1);
+    });
+
+    it("Should report unknown and malformed ids as not found", async function () {
+      expect(await finishRunSession(redis, "ab".repeat(16), RESULT)).to.deep.equal({ ok: false, reason: "not_found" });
+      expect(await getRunSession(redis, "Abc12345")).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // SHARES
+  // ============================================================
+  describe("Shares", function () {
+    it("Should store shares in their own keyspace", async function () {
+      const stored = await createSharedRun(redis, share(), {}, NOW);
+      expect(stored.id).to.match(/^[A-Za-z0-9_-]{8}$/);
+      expect(await getSharedRun(redis, stored.id)).to.deep.equal({ ...share(), id: stored.id, createdAt: NOW });
+      expect(await getRunSession(redis, stored.id)).to.equal(null);
+    });
+
+    it("Should still read shares written under the old keys", async function () {
+      const legacy = { ...share(), id: "Legacy01", createdAt: NOW };
+      await redis.set("session:Legacy01", JSON.stringify(legacy));
+      expect(await getSharedRun(redis, "Legacy01")).to.deep.equal(legacy);
+    });
+
+    it("Should link a share to its run without publishing the run id", async function () {
+      const { id } = await createRunSession(redis, { address: ALICE, seed: 42 }, NOW);
+      const stored = await createSharedRun(redis, share(), { runId: id }, NOW);
+      await createSharedRun(redis, share({ score: 1 }), { runId: id }, NOW);
+      expect(await getRunShare(redis, id)).to.deep.equal(stored);
+      expect(JSON.stringify(stored)).to.not.include(id);
+    });
+
+    // A finished run on REPLAY's seed that recorded `score`
+    async function finishedRun(score, address = ALICE) {
+      const { id } = await createRunSession(redis, { address, seed: REPLAY.seed }, NOW);
+      await finishRunSession(redis, id, { ...RESULT, score }, NOW);
+      return id;
+    }
+
+    it("Should keep the player's best replay as their ghost", async function () {
+      const first = await createSharedRun(redis, share({ score: 500 }), { replay: REPLAY, runId: await finishedRun(500) }, NOW);
+      expect(await getSharedReplay(redis, first.id)).to.deep.equal(REPLAY);
+      expect(await getGhostShareId(redis, ALICE)).to.equal(first.id);
+
+      const better = await createSharedRun(redis, share({ score: 900 }), { replay: REPLAY, runId: await finishedRun(900) }, NOW);
+      await createSharedRun(redis, share({ score: 100 }), { replay: REPLAY, runId: await finishedRun(100) }, NOW);
+      expect(await getGhostShareId(redis, ALICE.toLowerCase())).to.equal(better.id);
+    });
+
+    it("Should only take a ghost from a finished run that matches the replay", async function () {
+      const started = (await createRunSession(redis, { address: ALICE, seed: REPLAY.seed }, NOW)).id;
+      const finished = await finishedRun(500);
+      const course = (await createRunSession(redis, { address: ALICE, seed: REPLAY.seed, course: "Course01" }, NOW)).id;
+      await finishRunSession(redis, course, { ...RESULT, score: 500 }, NOW);
+
+      for (const [runId, replay, score] of [
+        [undefined, REPLAY, 500],
+        [started, REPLAY, 500],
+        [finished, REPLAY, 900],
+        [finished, { ...REPLAY, seed: 8 }, 500],
+        [finished, { ...REPLAY, frames: 2401 }, 500],
+        [course, REPLAY, 500],
+      ]) {
+        expect(await getReplayRun(redis, runId, replay, score)).to.equal(null);
+        const stored = await createSharedRun(redis, share({ score }), { replay, runId }, NOW);
+        expect(await getSharedReplay(redis, stored.id)).to.equal(null);
+      }
+      expect(await getGhostShareId(redis, ALICE)).to.equal(null);
+    });
+
+    it("Should file the ghost under the run's address, not the share's", async function () {
+      const BOB = "0x0000000000000000000000000000000000000B0B";
+      const stored = await createSharedRun(redis, share({ score: 500, address: BOB }), { replay: REPLAY, runId: await finishedRun(500) }, NOW);
+      expect(await getGhostShareId(redis, ALICE)).to.equal(stored.id);
+      expect(await getGhostShareId(redis, BOB)).to.equal(null);
+    });
+
+    it("Should not give anonymous runs a ghost", async function () {
+      const runId = await finishedRun(500, "anonymous");
+      expect(await getReplayRun(redis, runId, REPLAY, 500)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+
+const {
+  CFG,
+  MARKET_CONFIG,
+  createEngine,
+  spawnPattern,
+} = require("../app/components/Game/gameConfig");
+const { stepEngine, stepMarket, NO_INPUT } = require("../app/components/Game/gameSimulation");
+const {
+  ReplayRecorder,
+  REPLAY_VERSION,
+  parseReplay,
+  simulateReplay,
+  createGhost,
+  stepGhost,
+} = require("../app/components/Game/gameReplay");
+
+// Simple deterministic pilot: jump any grounded red candle coming up close
+function pilot(e) {
+  for (const c of e.candles) {
+    if (c.kind !== "red" || c.x + c.width < CFG.PLAYER_X) continue;
+    const grounded = c.bodyY + c.bodyHeight > CFG.GROUND - CFG.PLAYER_SIZE;
+    const dist = c.x - (CFG.PLAYER_X + CFG.PLAYER_SIZE);
+    return grounded && e.player.onGround && dist > 0 && dist < 110 ? 1 : 0;
+  }
+  return 0;
+}
+
+// Play a whole run with the pilot, recording it like GameEngine does
+function playRecordedRun(seed, maxFrames = 60 * 60 * 5) {
+  const e = createEngine(seed);
+  const recorder = new ReplayRecorder(e.seed, 1);
+  const events = [];
+  while (e.alive && e.frame < maxFrames) {
+    const presses = pilot(e);
+    for (let i = 0; i < presses; i++) recorder.press(e.frame);
+    stepEngine(e, { presses, releases: 0 }, CFG.STEP, events);
+  }
+  return { engine: e, replay: recorder.finish(e.frame), events };
+}
+
+function spawnStream(seed, patterns) {
+  const e = createEngine(seed);
+  for (let i = 0; i < patterns; i++) spawnPattern(e);
+  return e.candles.map((c) => [c.kind, c.x, c.height, c.width, c.bodyY, c.isMoving]);
+}
+
+describe("Game simulation", function () {
+  // ============================================================
+  // SEEDED SPAWNING
+  // ============================================================
+  describe("Seeded spawning", function () {
+    it("Should produce the same obstacle stream for the same seed", function () {
+      expect(spawnStream(42, 12)).to.deep.equal(spawnStream(42, 12));
+    });
+
+    it("Should produce different obstacle streams for different seeds", function () {
+      expect(spawnStream(42, 12)).to.not.deep.equal(spawnStream(43, 12));
+    });
+  });
+
+  // ============================================================
+  // STEP & EVENTS
+  // ============================================================
+  describe("stepEngine", function () {
+    it("Should emit a jumped event for a press on the ground", function () {
+      const e = createEngine(1);
+      const events = stepEngine(e, { presses: 1, releases: 0 }, CFG.STEP);
+
+      expect(events).to.deep.include({ type: "jumped", double: false });
+      expect(e.player.onGround).to.equal(false);
+      expect(e.totalJumps).to.equal(1);
+    });
+
+    it("Should buffer a press in the air when no double jump is available", function () {
+      const e = createEngine(1);
+      stepEngine(e, { presses: 1, releases: 0 }, CFG.STEP);
+      const events = stepEngine(e, { presses: 1, releases: 0 }, CFG.STEP);
+
+      expect(events.filter((ev) => ev.type === "jumped")).to.have.length(0);
+      expect(e.player.jumpBufferTimer).to.be.greaterThan(0);
+    });
+
+    it("Should die running into candles without input and then stop stepping", function () {
+      const e = createEngine(7);
+      let died = null;
+      for (let i = 0; i < 60 * 60 && !died; i++) {
+        died = stepEngine(e, NO_INPUT, CFG.STEP).find((ev) => ev.type === "died") || null;
+      }
+
+      expect(died).to.not.equal(null);
+      expect(e.alive).to.equal(false);
+
+      const frame = e.frame;
+      expect(stepEngine(e, { presses: 1, releases: 0 }, CFG.STEP)).to.have.length(0);
+      expect(e.frame).to.equal(frame);
+    });
+
+    it("Should ignore garbage dt values", function () {
+      const e = createEngine(1);
+      stepEngine(e, NO_INPUT, NaN);
+      stepEngine(e, NO_INPUT, 5);
+
+      expect(e.frame).to.equal(0);
+      expect(e.gameTime).to.equal(0);
+    });
+
+    it("Should be deterministic for the same seed and inputs", function () {
+      const a = playRecordedRun(99);
+      const b = playRecordedRun(99);
+
+      expect(a.engine.frame).to.equal(b.engine.frame);
+      expect(a.engine.score).to.equal(b.engine.score);
+      expect(a.events.map((ev) => ev.type)).to.deep.equal(b.events.map((ev) => ev.type));
+    });
+  });
+
+  // ============================================================
+  // MARKET CYCLE
+  // ============================================================
+  describe("Market cycle", function () {
+    // An engine that never spawns, so it can run for as long as a test needs
+    function emptyEngine(seed = 1) {
+      const e = createEngine(seed);
+      e.nextSpawnDistance = Infinity;
+      return e;
+    }
+
+    // Step the market just past the end of its current phase
+    function endPhase(e) {
+      e.marketTimer = CFG.STEP / 2;
+      stepMarket(e, CFG.STEP, []);
+    }
+
+    it("Should turn bull after the neutral warmup", function () {
+      const e = emptyEngine();
+      const events = [];
+      for (let i = 0; i < MARKET_CONFIG.CYCLE_TIME * 60 + 1; i++) stepEngine(e, NO_INPUT, CFG.STEP, events);
+
+      expect(e.market).to.equal("bull");
+      expect(events).to.deep.include({ type: "milestone", kind: "market", market: "bull", rugPull: false });
+    });
+
+    it("Should count a cycle each time a bear market ends", function () {
+      const e = emptyEngine();
+      endPhase(e);
+      endPhase(e);
+      expect(e.market).to.equal("bear");
+      expect(e.marketCycles).to.equal(0);
+
+      endPhase(e);
+      expect(e.market).to.equal("bull");
+      expect(e.marketCycles).to.equal(1);
+    });
+
+    it("Should end some bull markets in a rug pull, deterministically per seed", function () {
+      const rugs = [];
+      for (let seed = 1; seed <= 40; seed++) {
+        const e = emptyEngine(seed);
+        e.market = "bull";
+        const events = [];
+        e.marketTimer = CFG.STEP / 2;
+        stepMarket(e, CFG.STEP, events);
+        rugs.push(events[0].rugPull);
+        expect(e.rugPullTimer > 0).to.equal(events[0].rugPull);
+      }
+
+      expect(rugs).to.include(true);
+      expect(rugs).to.include(false);
+    });
+
+    it("Should drop the floor out from under the player and bring it back", function () {
+      const e = emptyEngine();
+      e.rugPullTimer = MARKET_CONFIG.RUG_PULL_DURATION;
+      for (let i = 0; i < 10; i++) stepEngine(e, NO_INPUT, CFG.STEP);
+
+      expect(e.floorDrop).to.equal(MARKET_CONFIG.RUG_PULL_DEPTH);
+      expect(e.player.onGround).to.equal(false);
+
+      for (let i = 0; i < (MARKET_CONFIG.RUG_PULL_DURATION + 1) * 60; i++) stepEngine(e, NO_INPUT, CFG.STEP);
+      expect(e.rugPullTimer).to.equal(0);
+      expect(e.floorDrop).to.equal(0);
+      expect(e.player.onGround).to.equal(true);
+      expect(e.player.y).to.equal(CFG.GROUND - CFG.PLAYER_SIZE);
+    });
+
+    it("Should run faster in a bear market", function () {
+      const calm = emptyEngine();
+      const bear = emptyEngine();
+      bear.market = "bear";
+      for (let i = 0; i < 600; i++) {
+        stepEngine(calm, NO_INPUT, CFG.STEP);
+        stepEngine(bear, NO_INPUT, CFG.STEP);
+      }
+
+      expect(bear.speed / calm.speed).to.be.closeTo(MARKET_CONFIG.BEAR_SPEED_MULT, 1e-6);
+    });
+  });
+
+  // ============================================================
+  // REPLAYS
+  // ============================================================
+  describe("Replays", function () {
+    it("Should reproduce a recorded run's score from its replay", function () {
+      const { engine, replay } = playRecordedRun(2024);
+      expect(engine.score).to.be.greaterThan(0);
+
+      const result = simulateReplay(replay);
+      expect(result.died).to.equal(!engine.alive);
+      expect(result.frames).to.equal(engine.frame);
+      expect(result.score).to.equal(engine.score);
+    });
+
+    it("Should not reproduce the score on a different seed", function () {
+      const { engine, replay } = playRecordedRun(2024);
+      const result = simulateReplay({ ...replay, seed: replay.seed + 1 });
+
+      expect(result.died && result.frames === engine.frame && result.score === engine.score).to.equal(false);
+    });
+
+    it("Should accept a well-formed replay", function () {
+      const { replay } = playRecordedRun(5);
+      expect(parseReplay(JSON.parse(JSON.stringify(replay)))).to.deep.equal(replay);
+    });
+
+    it("Should reject malformed replays", function () {
+      const valid = { v: REPLAY_VERSION, seed: 1, streak: 1, frames: 100, inputs: [10, ~5] };
+      expect(parseReplay(valid)).to.not.equal(null);
+
+      expect(parseReplay(null)).to.equal(null);
+      expect(parseReplay({ ...valid, v: REPLAY_VERSION + 1 })).to.equal(null);
+      expect(parseReplay({ ...valid, seed: -1 })).to.equal(null);
+      expect(parseReplay({ ...valid, streak: 0.5 })).to.equal(null);
+      expect(parseReplay({ ...valid, frames: 0 })).to.equal(null);
+      expect(parseReplay({ ...valid, inputs: [1.5] })).to.equal(null);
+      expect(parseReplay({ ...valid, inputs: [101] })).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // GHOSTS
+  // ============================================================
+  describe("Ghosts", function () {
+    it("Should retrace the recorded run step for step", function () {
+      const { engine, replay } = playRecordedRun(2024);
+      const ghost = createGhost(replay);
+
+      while (ghost.engine.alive && ghost.engine.frame < replay.frames) stepGhost(ghost);
+
+      expect(ghost.engine.alive).to.equal(false);
+      expect(ghost.engine.frame).to.equal(engine.frame);
+      expect(ghost.engine.score).to.equal(engine.score);
+      expect(ghost.engine.groundOffset).to.equal(engine.groundOffset);
+    });
+
+    it("Should stop stepping once the recording ends", function () {
+      const { replay } = playRecordedRun(2024);
+      const ghost = createGhost(replay);
+      for (let i = 0; i < replay.frames + 120; i++) stepGhost(ghost);
+
+      expect(ghost.engine.frame).to.equal(replay.frames);
+    });
+
+    it("Should share the obstacle stream with a live run on the same seed", function () {
+      const { replay } = playRecordedRun(77);
+      const ghost = createGhost(replay);
+      const live = createEngine(replay.seed);
+
+      for (let i = 0; i < 120; i++) {
+        stepEngine(live, NO_INPUT, CFG.STEP);
+        stepGhost(ghost);
+      }
+      expect(live.candles[0].height).to.equal(ghost.engine.candles[0].height);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+// In-memory stand-in for the subset of ioredis the API libs use.
+// TTLs are recorded but never enforced — tests control time explicitly.
+
+class FakeRedis {
+  constructor() {
+    this.strings = new Map();
+    this.zsets = new Map();
+    this.hashes = new Map();
+    this.lists = new Map();
+    this.ttls = new Map();
+  }
+
+  // ------------------------------------------------------------------ strings
+  async get(key) {
+    return this.strings.has(key) ? this.strings.get(key) : null;
+  }
+
+  async set(key, value, ...args) {
+    const nx = args.includes("NX");
+    if (nx && this.strings.has(key)) return null;
+    this.strings.set(key, String(value));
+    const ex = args.indexOf("EX");
+    const px = args.indexOf("PX");
+    if (ex !== -1) this.ttls.set(key, Number(args[ex + 1]));
+    else if (px !== -1) this.ttls.set(key, Math.ceil(Number(args[px + 1]) / 1000));
+    else if (!args.includes("KEEPTTL")) this.ttls.delete(key);
+    return "OK";
+  }
+
+  async incrby(key, by) {
+    const next = Number(this.strings.get(key) || 0) + Number(by);
+    this.strings.set(key, String(next));
+    return next;
+  }
+
+  async incr(key) {
+    return this.incrby(key, 1);
+  }
+
+  async del(...keys) {
+    let n = 0;
+    for (const key of keys.flat()) {
+      if (this.strings.delete(key) | this.zsets.delete(key) | this.hashes.delete(key) | this.lists.delete(key)) n++;
+      this.ttls.delete(key);
+    }
+    return n;
+  }
+
+  async exists(key) {
+    return this.keyNames().includes(key) ? 1 : 0;
+  }
+
+  keyNames() {
+    return [...this.strings.keys(), ...this.zsets.keys(), ...this.hashes.keys(), ...this.lists.keys()];
+  }
+
+  // Single pass — the cursor always comes back "0"
+  async scan(cursor, ...args) {
+    const match = args.indexOf("MATCH");
+    const pattern = match === -1 ? "*" : args[match + 1];
+    const re = new RegExp("^" + pattern.split("*").map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$");
+    return ["0", this.keyNames().filter((k) => re.test(k))];
+  }
+
+  async expire(key, seconds) {
+    if (!(await this.exists(key))) return 0;
+    this.ttls.set(key, Number(seconds));
+    return 1;
+  }
+
+  async pexpire(key, ms) {
+    return this.expire(key, Math.ceil(Number(ms) / 1000));
+  }
+
+  async ttl(key) {
+    if (!(await this.exists(key))) return -2;
+    return this.ttls.has(key) ? this.ttls.get(key) : -1;
+  }
+
+  // ------------------------------------------------------------- sorted sets
+  zset(key) {
+    if (!this.zsets.has(key)) this.zsets.set(key, new Map());
+    return this.zsets.get(key);
+  }
+
+  async zadd(key, ...args) {
+    const flags = [];
+    while (typeof args[0] === "string" && /^[A-Z]+$/.test(args[0])) flags.push(args.shift());
+    const z = this.zset(key);
+    let added = 0;
+    for (let i = 0; i < args.length; i += 2) {
+      const score = Number(args[i]);
+      const member = String(args[i + 1]);
+      const current = z.get(member);
+      if (current === undefined) {
+        if (flags.includes("XX")) continue;
+        added++;
+      } else {
+        if (flags.includes("NX")) continue;
+        if (flags.includes("GT") && score <= current) continue;
+        if (flags.includes("LT") && score >= current) continue;
+      }
+      z.set(member, score);
+    }
+    return added;
+  }
+
+  async zrem(key, ...members) {
+    const z = this.zset(key);
+    let n = 0;
+    for (const m of members.flat()) if (z.delete(String(m))) n++;
+    return n;
+  }
+
+  async zscore(key, member) {
+    const z = this.zsets.get(key);
+    const score = z && z.get(String(member));
+    return score === undefined ? null : String(score);
+  }
+
+  async zcard(key) {
+    const z = this.zsets.get(key);
+    return z ? z.size : 0;
+  }
+
+  // Redis orders equal scores by member, lexicographically
+  sorted(key, desc) {
+    const z = this.zsets.get(key);
+    if (!z) return [];
+    const entries = [...z.entries()].sort((a, b) =>
+      a[1] !== b[1] ? a[1] - b[1] : a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0
+    );
+    return desc ? entries.reverse() : entries;
+  }
+
+  range(key, start, stop, desc, withScores) {
+    const entries = this.sorted(key, desc);
+    const len = entries.length;
+    const from = start < 0 ? Math.max(len + start, 0) : start;
+    const to = stop < 0 ? len + stop : Math.min(stop, len - 1);
+    const out = [];
+    for (let i = from; i <= to; i++) {
+      out.push(entries[i][0]);
+      if (withScores) out.push(String(entries[i][1]));
+    }
+    return out;
+  }
+
+  async zrange(key, start, stop, ...args) {
+    return this.range(key, Number(start), Number(stop), false, args.includes("WITHSCORES"));
+  }
+
+  async zrevrange(key, start, stop, ...args) {
+    return this.range(key, Number(start), Number(stop), true, args.includes("WITHSCORES"));
+  }
+
+  async zrank(key, member) {
+    const idx = this.sorted(key, false).findIndex(([m]) => m === String(member));
+    return idx === -1 ? null : idx;
+  }
+
+  async zrevrank(key, member) {
+    const idx = this.sorted(key, true).findIndex(([m]) => m === String(member));
+    return idx === -1 ? null : idx;
+  }
+
+  // ------------------------------------------------------------------ hashes
+  hash(key) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    return this.hashes.get(key);
+  }
+
+  async hset(key, ...args) {
+    const h = this.hash(key);
+    const pairs = typeof args[0] === "object" && args[0] !== null ? Object.entries(args[0]).flat() : args;
+    let added = 0;
+    for (let i = 0; i < pairs.length; i += 2) {
+      if (!h.has(String(pairs[i]))) added++;
+      h.set(String(pairs[i]), String(pairs[i + 1]));
+    }
+    return added;
+  }
+
+  async hget(key, field) {
+    const h = this.hashes.get(key);
+    return h && h.has(String(field)) ? h.get(String(field)) : null;
+  }
+
+  async hmget(key, ...fields) {
+    return Promise.all(fields.flat().map((f) => this.hget(key, f)));
+  }
+
+  async hgetall(key) {
+    return Object.fromEntries(this.hashes.get(key) || []);
+  }
+
+  async hdel(key, ...fields) {
+    const h = this.hashes.get(key);
+    let n = 0;
+    for (const f of fields.flat()) if (h && h.delete(String(f))) n++;
+    return n;
+  }
+
+  // ------------------------------------------------------------------- lists
+  list(key) {
+    if (!this.lists.has(key)) this.lists.set(key, []);
+    return this.lists.get(key);
+  }
+
+  async lpush(key, ...values) {
+    const l = this.list(key);
+    for (const v of values.flat()) l.unshift(String(v));
+    return l.length;
+  }
+
+  async rpush(key, ...values) {
+    const l = this.list(key);
+    for (const v of values.flat()) l.push(String(v));
+    return l.length;
+  }
+
+  async lpop(key) {
+    const l = this.lists.get(key);
+    if (!l || l.length === 0) return null;
+    const v = l.shift();
+    if (l.length === 0) this.lists.delete(key);
+    return v;
+  }
+
+  async rpop(key) {
+    const l = this.lists.get(key);
+    if (!l || l.length === 0) return null;
+    const v = l.pop();
+    if (l.length === 0) this.lists.delete(key);
+    return v;
+  }
+
+  async llen(key) {
+    const l = this.lists.get(key);
+    return l ? l.length : 0;
+  }
+
+  async lrange(key, start, stop) {
+    const l = this.lists.get(key) || [];
+    const len = l.length;
+    const from = start < 0 ? Math.max(len + start, 0) : start;
+    const to = stop < 0 ? len + stop : Math.min(stop, len - 1);
+    return l.slice(from, to + 1);
+  }
+
+  async ltrim(key, start, stop) {
+    const kept = await this.lrange(key, start, stop);
+    if (kept.length === 0) this.lists.delete(key);
+    else this.lists.set(key, kept);
+    return "OK";
+  }
+
+  // ----------------------------------------------------------------- scripts
+  // Only the compare-and-delete from lib/redisLock is understood
+  async eval(script, numKeys, key, token) {
+    if (!script.includes('redis.call("get", KEYS[1]) == ARGV[1]')) throw new Error("FakeRedis: unsupported script");
+    if (this.strings.get(key) !== String(token)) return 0;
+    return this.del(key);
+  }
+
+  // ------------------------------------------------------------ transactions
+  multi() {
+    const queue = [];
+    const tx = new Proxy(
+      {},
+      {
+        get: (_, name) => {
+          if (name === "exec") {
+            return async () => {
+              const results = [];
+              for (const [cmd, args] of queue) results.push([null, await this[cmd](...args)]);
+              return results;
+            };
+          }
+          return (...args) => {
+            queue.push([name, args]);
+            return tx;
+          };
+        },
+      }
+    );
+    return tx;
+  }
+
+  pipeline() {
+    return this.multi();
+  }
+}
+
+module.exports = { FakeRedis };
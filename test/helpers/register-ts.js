@@ -0,0 +1,18 @@
+// Lets mocha require the app's TypeScript modules (game engine, API libs)
+// alongside the contract tests. Mirrors the "@/*" path alias from tsconfig.
+const path = require("path");
+const Module = require("module");
+
+require("ts-node").register({
+  transpileOnly: true,
+  compilerOptions: { module: "commonjs", moduleResolution: "node", target: "es2020" },
+});
+
+const ROOT = path.join(__dirname, "..", "..");
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request.startsWith("@/")) {
+    request = path.join(ROOT, request.slice(2));
+  }
+  return resolveFilename.call(this, request, ...rest);
+};
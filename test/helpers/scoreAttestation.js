@@ -0,0 +1,59 @@
+const { ethers } = require("hardhat");
+
+// EIP-712 ScoreAttestation / FidLink signing for contract tests — mirrors
+// app/lib/scoreAttestation.ts and app/lib/fidLink.ts
+const TYPES = {
+  ScoreAttestation: [
+    { name: "player", type: "address" },
+    { name: "score", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "sessionId", type: "bytes32" },
+  ],
+};
+
+async function attestationDomain(contract) {
+  return {
+    name: "Base Dash",
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await contract.getAddress(),
+  };
+}
+
+// Returns the trailing submitScore / submitScoreFor args: [deadline, sessionId, signature]
+async function signAttestation(contract, signer, player, score, nonce, opts = {}) {
+  const latest = await ethers.provider.getBlock("latest");
+  const deadline = opts.deadline ?? BigInt(latest.timestamp + 3600);
+  const sessionId = opts.sessionId ?? ethers.ZeroHash;
+  const signature = await signer.signTypedData(await attestationDomain(contract), TYPES, {
+    player,
+    score,
+    nonce,
+    deadline,
+    sessionId,
+  });
+  return [deadline, sessionId, signature];
+}
+
+const FID_LINK_TYPES = {
+  FidLink: [
+    { name: "player", type: "address" },
+    { name: "fid", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// Returns the trailing linkWallet args: [deadline, signature]
+async function signFidLink(contract, signer, player, fid, opts = {}) {
+  const latest = await ethers.provider.getBlock("latest");
+  const deadline = opts.deadline ?? BigInt(latest.timestamp + 600);
+  const signature = await signer.signTypedData(await attestationDomain(contract), FID_LINK_TYPES, {
+    player,
+    fid,
+    deadline,
+  });
+  return [deadline, signature];
+}
+
+module.exports = { TYPES, FID_LINK_TYPES, attestationDomain, signAttestation, signFidLink };
@@ -0,0 +1,248 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { createPublicClient, custom } = require("viem");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+const { signAttestation } = require("./helpers/scoreAttestation");
+
+const {
+  syncLeaderboardIndex,
+  getIndexedSeason,
+  getLeaderboardPage,
+  getPlayerStanding,
+  getAroundPlayer,
+  getPlayerRanking,
+  refreshLeaderboardIndex,
+  setPlayerHidden,
+} = require("../app/lib/leaderboardIndex");
+
+describe("Leaderboard index", function () {
+  let gameLeaderboard;
+  let contractAddress;
+  let deployBlock;
+  let owner;
+  let scoreSigner;
+  let redis;
+  let client;
+
+  beforeEach(async function () {
+    [owner, scoreSigner] = await ethers.getSigners();
+
+    const GameLeaderboard = await ethers.getContractFactory("GameLeaderboard");
+    gameLeaderboard = await GameLeaderboard.deploy();
+    await gameLeaderboard.waitForDeployment();
+    await gameLeaderboard.connect(owner).setScoreSigner(scoreSigner.address);
+    contractAddress = await gameLeaderboard.getAddress();
+    deployBlock = BigInt(await ethers.provider.getBlockNumber());
+
+    redis = new FakeRedis();
+    client = createPublicClient({ transport: custom(network.provider) });
+  });
+
+  // Owner relays the submission, so test players never need gas
+  async function submit(player, score) {
+    const nonce = await gameLeaderboard.scoreNonces(player);
+    const attestation = await signAttestation(gameLeaderboard, scoreSigner, player, score, nonce);
+    await gameLeaderboard.connect(owner).submitScoreFor(player, score, nonce, ...attestation);
+  }
+
+  function playerAt(i) {
+    return ethers.getAddress("0x" + (i + 1).toString(16).padStart(40, "0"));
+  }
+
+  const sync = (opts = {}) => syncLeaderboardIndex(redis, client, contractAddress, { fromBlock: deployBlock, confirmations: 0n, ...opts });
+  // Bury the latest blocks under enough confirmations for the default depth
+  const confirm = () => network.provider.send("hardhat_mine", ["0x10"]);
+
+  // ============================================================
+  // SYNC
+  // ============================================================
+  describe("Sync", function () {
+    it("Should mirror the on-chain board", async function () {
+      await submit(playerAt(0), 100);
+      await submit(playerAt(1), 300);
+      await submit(playerAt(2), 200);
+
+      const result = await sync();
+      expect(result.events).to.equal(3);
+
+      const page = await getLeaderboardPage(redis, 1, 0, 10);
+      expect(page.total).to.equal(3);
+      expect(page.entries.map((e) => [e.player, e.score, e.rank])).to.deep.equal([
+        [playerAt(1), 300, 1],
+        [playerAt(2), 200, 2],
+        [playerAt(0), 100, 3],
+      ]);
+      expect(page.entries[0].timestamp).to.be.greaterThan(0);
+
+      const onChain = await gameLeaderboard.getSortedLeaderboard(10);
+      expect(page.entries.map((e) => e.player)).to.deep.equal(onChain.map((e) => e.player));
+    });
+
+    it("Should resume from the stored block and keep best scores", async function () {
+      await submit(playerAt(0), 100);
+      await sync();
+
+      await submit(playerAt(0), 50); // not a best — no event
+      await submit(playerAt(0), 400);
+      const result = await sync();
+      expect(result.events).to.equal(1);
+
+      expect(await getPlayerStanding(redis, 1, playerAt(0))).to.deep.equal({ rank: 1, score: 400 });
+    });
+
+    it("Should catch up over several small batches", async function () {
+      for (let i = 0; i < 4; i++) await submit(playerAt(i), 100 + i);
+
+      const first = await sync({ batchSize: 2n, maxBatches: 1 });
+      let total = first.events;
+      while (true) {
+        const next = await sync({ batchSize: 2n, maxBatches: 1 });
+        if (next.fromBlock > next.toBlock) break;
+        total += next.events;
+      }
+      expect(total).to.equal(4);
+      expect((await getLeaderboardPage(redis, 1, 0, 10)).total).to.equal(4);
+    });
+
+    it("Should refresh at most once per interval", async function () {
+      await submit(playerAt(0), 100);
+      await confirm();
+      await refreshLeaderboardIndex(redis, client, contractAddress, deployBlock);
+      await submit(playerAt(1), 200);
+      await confirm();
+      await refreshLeaderboardIndex(redis, client, contractAddress, deployBlock);
+      expect((await getLeaderboardPage(redis, 1, 0, 10)).total).to.equal(1);
+
+      await redis.del("lb:idx:fresh");
+      await refreshLeaderboardIndex(redis, client, contractAddress, deployBlock);
+      expect((await getLeaderboardPage(redis, 1, 0, 10)).total).to.equal(2);
+    });
+
+    it("Should leave blocks short of the confirmation depth for a later sync", async function () {
+      await submit(playerAt(0), 100);
+      await submit(playerAt(1), 200);
+      const result = await sync({ confirmations: 1n });
+      expect(result.events).to.equal(1);
+      expect((await getLeaderboardPage(redis, 1, 0, 10)).entries.map((e) => e.player)).to.deep.equal([playerAt(0)]);
+
+      await network.provider.send("hardhat_mine", ["0x1"]);
+      expect((await sync({ confirmations: 1n })).events).to.equal(1);
+    });
+
+    it("Should skip while another sync holds the lock", async function () {
+      await redis.set("lb:idx:lock", "1", "EX", 60, "NX");
+      expect(await sync()).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // SEASONS
+  // ============================================================
+  describe("Seasons", function () {
+    it("Should file scores under the season they were set in", async function () {
+      await submit(playerAt(0), 500);
+      await gameLeaderboard.connect(owner).startNewSeason();
+      await submit(playerAt(1), 100);
+      await sync();
+
+      expect(await getIndexedSeason(redis)).to.equal(2);
+      expect((await getLeaderboardPage(redis, 1, 0, 10)).entries.map((e) => e.player)).to.deep.equal([playerAt(0)]);
+      expect((await getLeaderboardPage(redis, 2, 0, 10)).entries.map((e) => e.player)).to.deep.equal([playerAt(1)]);
+      expect(await getPlayerStanding(redis, 2, playerAt(0))).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // HIDDEN PLAYERS
+  // ============================================================
+  describe("Hidden players", function () {
+    const boardOf = async (season = 1) => (await getLeaderboardPage(redis, season, 0, 10)).entries.map((e) => e.player);
+
+    it("Should drop a hidden player from the board and ranks", async function () {
+      for (let i = 0; i < 3; i++) await submit(playerAt(i), 100 + i);
+      await sync();
+
+      await setPlayerHidden(redis, playerAt(2), true);
+      expect(await boardOf()).to.deep.equal([playerAt(1), playerAt(0)]);
+      expect(await getPlayerStanding(redis, 1, playerAt(2))).to.equal(null);
+      expect((await getPlayerStanding(redis, 1, playerAt(1))).rank).to.equal(1);
+    });
+
+    it("Should keep indexing a hidden player's new bests out of sight", async function () {
+      await submit(playerAt(0), 100);
+      await sync();
+      await setPlayerHidden(redis, playerAt(0), true);
+
+      await submit(playerAt(0), 500);
+      await submit(playerAt(1), 200);
+      await sync();
+      expect(await boardOf()).to.deep.equal([playerAt(1)]);
+
+      await setPlayerHidden(redis, playerAt(0), false);
+      expect(await boardOf()).to.deep.equal([playerAt(0), playerAt(1)]);
+      expect((await getPlayerStanding(redis, 1, playerAt(0))).score).to.equal(500);
+    });
+
+    it("Should drop entries the owner removes on-chain", async function () {
+      await submit(playerAt(0), 100);
+      await submit(playerAt(1), 200);
+      await sync();
+
+      await gameLeaderboard.connect(owner).removeFromLeaderboard(playerAt(1));
+      await sync();
+      expect(await boardOf()).to.deep.equal([playerAt(0)]);
+    });
+  });
+
+  // ============================================================
+  // READS
+  // ============================================================
+  describe("Reads", function () {
+    it("Should rank players the contract drops past its 100-entry cap", async function () {
+      this.timeout(120000);
+      for (let i = 0; i < 105; i++) await submit(playerAt(i), 1000 + i);
+      await sync();
+
+      expect(await gameLeaderboard.getLeaderboardSize()).to.equal(100n);
+      expect(await getPlayerStanding(redis, 1, playerAt(0))).to.deep.equal({ rank: 105, score: 1000 });
+
+      const page = await getLeaderboardPage(redis, 1, 100, 10);
+      expect(page.total).to.equal(105);
+      expect(page.entries.map((e) => e.rank)).to.deep.equal([101, 102, 103, 104, 105]);
+    });
+
+    it("Should return a window around a player", async function () {
+      for (let i = 0; i < 20; i++) await submit(playerAt(i), 100 + i);
+      await sync();
+
+      // playerAt(10) is 10th best
+      const around = await getAroundPlayer(redis, 1, playerAt(10), 2);
+      expect(around.entries.map((e) => e.rank)).to.deep.equal([8, 9, 10, 11, 12]);
+      expect(around.entries[2].player).to.equal(playerAt(10));
+
+      const top = await getAroundPlayer(redis, 1, playerAt(19), 2);
+      expect(top.entries.map((e) => e.rank)).to.deep.equal([1, 2, 3, 4, 5]);
+    });
+
+    it("Should give a global rank, percentile and neighbours", async function () {
+      for (let i = 0; i < 10; i++) await submit(playerAt(i), 100 + i);
+      await sync();
+
+      const ranking = await getPlayerRanking(redis, 1, playerAt(2), 1);
+      expect(ranking.rank).to.equal(8);
+      expect(ranking.total).to.equal(10);
+      expect(ranking.percentile).to.equal(30);
+      expect(ranking.neighbours.map((e) => e.player)).to.deep.equal([playerAt(3), playerAt(2), playerAt(1)]);
+
+      expect((await getPlayerRanking(redis, 1, playerAt(9), 1)).percentile).to.equal(100);
+      expect(await getPlayerRanking(redis, 1, playerAt(50), 1)).to.equal(null);
+    });
+
+    it("Should look addresses up case-insensitively", async function () {
+      await submit(playerAt(0), 100);
+      await sync();
+      expect(await getPlayerStanding(redis, 1, playerAt(0).toLowerCase())).to.deep.equal({ rank: 1, score: 100 });
+    });
+  });
+});
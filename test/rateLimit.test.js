@@ -0,0 +1,168 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  createRateLimiter,
+  memoryStore,
+  issueChallenge,
+  verifyChallenge,
+  claimChallenge,
+  clientIp,
+} = require("../app/lib/rateLimit");
+
+const RULE = { name: "test", limit: 5, challengeAt: 2, windowMs: 60_000 };
+// Start of a fixed bucket, so the window position is easy to reason about
+const T0 = 1_700_000_040_000;
+const SECRET = "challenge-secret";
+
+describe("Rate limiter", function () {
+  let redis;
+  let limiter;
+  beforeEach(function () {
+    redis = new FakeRedis();
+    limiter = createRateLimiter(redis);
+  });
+
+  async function hit(n, id = "1.2.3.4", now = T0) {
+    const decisions = [];
+    for (let i = 0; i < n; i++) decisions.push((await limiter.check(RULE, id, now)).action);
+    return decisions;
+  }
+
+  // ============================================================
+  // ESCALATION
+  // ============================================================
+  describe("Escalation", function () {
+    it("Should allow, then challenge, then block", async function () {
+      expect(await hit(6)).to.deep.equal(["allow", "allow", "challenge", "challenge", "challenge", "block"]);
+    });
+
+    it("Should tell blocked callers when to retry", async function () {
+      await hit(5);
+      const decision = await limiter.check(RULE, "1.2.3.4", T0 + 15_000);
+      expect(decision).to.deep.equal({ action: "block", retryAfter: 45 });
+    });
+
+    it("Should keep budgets per id and per rule", async function () {
+      await hit(5, "1.2.3.4");
+      expect(await hit(1, "5.6.7.8")).to.deep.equal(["allow"]);
+      expect((await limiter.check({ ...RULE, name: "other" }, "1.2.3.4", T0)).action).to.equal("allow");
+    });
+
+    it("Should treat addresses case-insensitively", async function () {
+      await hit(5, "0xABC");
+      expect(await hit(1, "0xabc")).to.deep.equal(["block"]);
+    });
+  });
+
+  // ============================================================
+  // SLIDING WINDOW
+  // ============================================================
+  describe("Sliding window", function () {
+    it("Should carry the previous bucket in proportion to its overlap", async function () {
+      await hit(4);
+      // Halfway into the next bucket, half of the previous 4 still count
+      expect(await hit(1, "1.2.3.4", T0 + 90_000)).to.deep.equal(["challenge"]);
+    });
+
+    it("Should forget requests once the window has passed", async function () {
+      await hit(6);
+      expect(await hit(1, "1.2.3.4", T0 + 120_000)).to.deep.equal(["allow"]);
+    });
+  });
+
+  describe("checkAll", function () {
+    it("Should return the strictest decision", async function () {
+      await hit(5, "0xabc");
+      const decision = await limiter.checkAll([
+        { rule: RULE, id: "1.2.3.4" },
+        { rule: RULE, id: "0xabc" },
+      ], T0);
+      expect(decision.action).to.equal("block");
+    });
+
+    it("Should challenge when any budget is past its challenge tier", async function () {
+      await hit(2, "0xabc");
+      const decision = await limiter.checkAll([
+        { rule: RULE, id: "1.2.3.4" },
+        { rule: RULE, id: "0xabc" },
+      ], T0);
+      expect(decision.action).to.equal("challenge");
+    });
+  });
+
+  // ============================================================
+  // FALLBACK
+  // ============================================================
+  describe("Fallback", function () {
+    it("Should limit in memory without Redis", async function () {
+      const local = createRateLimiter(null, memoryStore());
+      const actions = [];
+      for (let i = 0; i < 6; i++) actions.push((await local.check(RULE, "9.9.9.9", T0)).action);
+      expect(actions[5]).to.equal("block");
+    });
+
+    it("Should fall back to memory when Redis errors", async function () {
+      redis.multi = () => {
+        throw new Error("connection lost");
+      };
+      const original = console.error;
+      console.error = () => {};
+      try {
+        const actions = await hit(6, "fallback-ip");
+        expect(actions[5]).to.equal("block");
+      } finally {
+        console.error = original;
+      }
+    });
+
+    it("Should evict the oldest keys past its size cap", async function () {
+      const store = memoryStore(2);
+      await store.incr("a", 60_000);
+      await store.incr("b", 60_000);
+      await store.incr("c", 60_000);
+      expect(await store.get("a")).to.equal(0);
+      expect(await store.get("c")).to.equal(1);
+    });
+  });
+
+  // ============================================================
+  // CHALLENGES
+  // ============================================================
+  describe("Challenges", function () {
+    it("Should verify a challenge issued to the same IP", function () {
+      const challenge = issueChallenge(SECRET, "1.2.3.4", T0);
+      expect(verifyChallenge(SECRET, "1.2.3.4", challenge, T0 + 1000)).to.equal(challenge);
+      expect(verifyChallenge(SECRET, "5.6.7.8", challenge, T0 + 1000)).to.equal(null);
+      expect(verifyChallenge("other-secret", "1.2.3.4", challenge, T0 + 1000)).to.equal(null);
+    });
+
+    it("Should reject expired and malformed challenges", function () {
+      const challenge = issueChallenge(SECRET, "1.2.3.4", T0);
+      expect(verifyChallenge(SECRET, "1.2.3.4", challenge, T0 + 301_000)).to.equal(null);
+      expect(verifyChallenge(SECRET, "1.2.3.4", "nonsense", T0)).to.equal(null);
+      expect(verifyChallenge(SECRET, "1.2.3.4", `${T0}.zz`, T0)).to.equal(null);
+    });
+
+    it("Should reject a valid challenge with anything appended or re-cased", function () {
+      const challenge = issueChallenge(SECRET, "1.2.3.4", T0);
+      const [timestamp, digest] = challenge.split(".");
+      for (const variant of [`${challenge}z`, `${challenge}zz`, `${challenge}0`, `${timestamp}.${digest.toUpperCase()}`]) {
+        expect(verifyChallenge(SECRET, "1.2.3.4", variant, T0 + 1000), variant).to.equal(null);
+      }
+    });
+
+    it("Should accept each challenge once", async function () {
+      const challenge = issueChallenge(SECRET, "1.2.3.4", T0);
+      const verified = verifyChallenge(SECRET, "1.2.3.4", challenge, T0 + 1000);
+      expect(await claimChallenge(redis, verified)).to.equal(true);
+      expect(await claimChallenge(redis, verified)).to.equal(false);
+    });
+  });
+
+  it("Should take the first forwarded IP", function () {
+    expect(clientIp(new Headers({ "x-forwarded-for": "1.2.3.4, 10.0.0.1" }))).to.equal("1.2.3.4");
+    expect(clientIp(new Headers())).to.equal("unknown");
+  });
+});
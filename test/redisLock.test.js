@@ -0,0 +1,32 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const { acquireLock, releaseLock } = require("../app/lib/redisLock");
+
+describe("Redis locks", function () {
+  let redis;
+  beforeEach(function () {
+    redis = new FakeRedis();
+  });
+
+  it("Should hand the lock to one holder at a time", async function () {
+    const token = await acquireLock(redis, "lock", 30);
+    expect(token).to.match(/^[0-9a-f]{32}$/);
+    expect(await acquireLock(redis, "lock", 30)).to.equal(null);
+    expect(await redis.ttl("lock")).to.equal(30);
+
+    expect(await releaseLock(redis, "lock", token)).to.equal(true);
+    expect(await acquireLock(redis, "lock", 30)).to.be.a("string");
+  });
+
+  it("Should not release a lock someone else has taken since", async function () {
+    const stale = await acquireLock(redis, "lock", 30);
+    // The lease ran out and another holder took over
+    await redis.del("lock");
+    const current = await acquireLock(redis, "lock", 30);
+
+    expect(await releaseLock(redis, "lock", stale)).to.equal(false);
+    expect(await redis.get("lock")).to.equal(current);
+  });
+});
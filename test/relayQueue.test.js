@@ -0,0 +1,438 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  MAX_ATTEMPTS,
+  enqueueRelayJob,
+  getRelayJob,
+  allocateRelayerNonce,
+  processRelayQueue,
+  getRelayPoolHealth,
+} = require("../app/lib/relayQueue");
+const { RETRY_QUEUE_KEY } = require("../app/lib/webhookEvents");
+
+const ALICE = "0x00000000000000000000000000000000000A11CE";
+const BOB = "0x0000000000000000000000000000000000000B0B";
+const SIG = "0x" + "11".repeat(65);
+const T0 = 1_700_000_000_000;
+
+// In-memory chain: records every send, mines only what the test says
+class FakeChain {
+  constructor(relayer = "0x00000000000000000000000000000000000E1A70") {
+    this.relayer = relayer;
+    this.balance = 10n ** 18n;
+    this.registered = true;
+    this.pendingNonce = 7;
+    this.fees = { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+    this.sent = [];
+    this.receipts = new Map();
+    this.failSends = 0;
+    // Players whose submissions the contract reverts, and how (at simulate or only at send)
+    this.reverting = new Set();
+    this.revertOnSendOnly = false;
+  }
+  async getBalance() {
+    return this.balance;
+  }
+  async isRegistered() {
+    return this.registered;
+  }
+  async getPendingNonce() {
+    return this.pendingNonce;
+  }
+  async estimateFees() {
+    return this.fees;
+  }
+  async simulate(job) {
+    if (this.reverting.has(job.player) && !this.revertOnSendOnly) throw reverted();
+  }
+  async send(job, nonce, fees) {
+    if (this.reverting.has(job.player)) throw reverted();
+    if (this.failSends > 0) {
+      this.failSends--;
+      throw new Error("rpc unavailable");
+    }
+    const hash = "0x" + String(this.sent.length + 1).padStart(64, "0");
+    this.sent.push({ job: job.id, nonce, fees, hash });
+    return hash;
+  }
+  async getReceipt(hash) {
+    return this.receipts.get(hash) || null;
+  }
+  mine(hash, status = "success") {
+    this.receipts.set(hash, { status, blockNumber: 123n });
+  }
+  classifyError(err) {
+    return err.reverted ? "job" : "relayer";
+  }
+}
+
+function reverted() {
+  return Object.assign(new Error("execution reverted: Nonce already used"), { reverted: true });
+}
+
+const SESSION = "0x" + "ab".repeat(16) + "00".repeat(16);
+const DEADLINE = String(T0 / 1000 + 3600);
+
+function submission(player = ALICE, scoreNonce = "0") {
+  return { player, score: 1500, scoreNonce, deadline: DEADLINE, sessionId: SESSION, signature: SIG };
+}
+
+function poolOf(...relayers) {
+  return { relayers, minBalance: 10n ** 15n };
+}
+
+describe("Relay queue", function () {
+  let redis;
+  let chain;
+  let pool;
+  beforeEach(function () {
+    redis = new FakeRedis();
+    chain = new FakeChain();
+    pool = poolOf(chain);
+  });
+
+  async function enqueue(sub, now) {
+    const queued = await enqueueRelayJob(redis, sub, now);
+    expect(queued.ok).to.equal(true);
+    return queued.job;
+  }
+
+  // ============================================================
+  // QUEUE
+  // ============================================================
+  describe("Queue", function () {
+    it("Should persist queued jobs", async function () {
+      const job = await enqueue(submission(), T0);
+      expect(job.status).to.equal("queued");
+      expect(await getRelayJob(redis, job.id)).to.deep.equal(job);
+      expect(await redis.lrange("relay:queue", 0, -1)).to.deep.equal([job.id]);
+    });
+
+    it("Should return the existing job for the same signed nonce", async function () {
+      const first = await enqueue(submission(), T0);
+      const again = await enqueue(submission(), T0 + 1);
+      expect(again.id).to.equal(first.id);
+      expect(await redis.llen("relay:queue")).to.equal(1);
+    });
+
+    it("Should refuse a different run signed at a pending nonce", async function () {
+      const first = await enqueue(submission(), T0);
+      const other = { ...submission(), sessionId: "0x" + "cd".repeat(16) + "00".repeat(16) };
+      const conflict = await enqueueRelayJob(redis, other, T0 + 1);
+      expect(conflict).to.deep.include({ ok: false, reason: "nonce_taken" });
+      expect(conflict.job.id).to.equal(first.id);
+      expect(await redis.llen("relay:queue")).to.equal(1);
+    });
+
+    it("Should re-queue a failed job with bumped fees", async function () {
+      const job = await enqueue(submission(), T0);
+      await processRelayQueue(redis, pool, T0);
+      chain.mine(chain.sent[0].hash, "reverted");
+      await processRelayQueue(redis, pool, T0 + 1000);
+
+      const again = await enqueue(submission(), T0 + 2000);
+      expect(again).to.include({ id: job.id, status: "queued", attempts: 0, relayerNonce: null });
+      expect(again.txHashes).to.deep.equal([]);
+
+      await processRelayQueue(redis, pool, T0 + 3000);
+      expect(chain.sent).to.have.length(2);
+      expect(chain.sent[1].fees).to.deep.equal({ maxFeePerGas: 125n, maxPriorityFeePerGas: 12n });
+      expect((await getRelayJob(redis, job.id)).status).to.equal("submitted");
+    });
+
+    it("Should skip malformed webhook retries without stopping the drain", async function () {
+      await redis.rpush(RETRY_QUEUE_KEY, "{not json");
+      await redis.rpush(RETRY_QUEUE_KEY, JSON.stringify({ player: BOB, score: 900, nonce: "4", deadline: DEADLINE, sessionId: SESSION, signature: SIG }));
+      const error = console.error;
+      console.error = () => {};
+      try {
+        expect((await processRelayQueue(redis, pool, T0)).submitted).to.equal(1);
+      } finally {
+        console.error = error;
+      }
+      expect(await redis.llen(RETRY_QUEUE_KEY)).to.equal(0);
+    });
+
+    it("Should pick up failed submissions reported by the webhook", async function () {
+      await redis.rpush(RETRY_QUEUE_KEY, JSON.stringify({ player: BOB, score: 900, nonce: "4", deadline: DEADLINE, sessionId: SESSION, signature: SIG }));
+      const result = await processRelayQueue(redis, pool, T0);
+      expect(result.submitted).to.equal(1);
+      expect(chain.sent).to.have.length(1);
+      expect(await redis.llen(RETRY_QUEUE_KEY)).to.equal(0);
+    });
+  });
+
+  // ============================================================
+  // NONCES
+  // ============================================================
+  describe("Relayer nonces", function () {
+    it("Should hand out consecutive nonces from the chain's pending count", async function () {
+      const nonces = await Promise.all([1, 2, 3, 4].map(() => allocateRelayerNonce(redis, chain)));
+      expect(nonces.sort((a, b) => a - b)).to.deep.equal([7, 8, 9, 10]);
+    });
+
+    it("Should give concurrent players distinct nonces", async function () {
+      await enqueue(submission(ALICE), T0);
+      await enqueue(submission(BOB), T0);
+      await processRelayQueue(redis, pool, T0);
+      expect(chain.sent.map((s) => s.nonce)).to.deep.equal([7, 8]);
+    });
+
+    it("Should resync from the chain after a failed send", async function () {
+      const job = await enqueue(submission(), T0);
+      chain.failSends = 1;
+      await processRelayQueue(redis, pool, T0);
+
+      const retried = await getRelayJob(redis, job.id);
+      expect(retried.status).to.equal("queued");
+      expect(retried.error).to.equal("rpc unavailable");
+
+      // The only relayer sits out its cooldown first
+      await processRelayQueue(redis, pool, T0 + 1000);
+      expect(chain.sent).to.have.length(0);
+
+      await processRelayQueue(redis, pool, T0 + 61_000);
+      // Nonce 7 was never broadcast, so it's reused rather than left as a gap
+      expect(chain.sent.map((s) => s.nonce)).to.deep.equal([7]);
+    });
+  });
+
+  // ============================================================
+  // RECEIPTS
+  // ============================================================
+  describe("Receipts", function () {
+    it("Should stay submitted until a receipt arrives", async function () {
+      const job = await enqueue(submission(), T0);
+      await processRelayQueue(redis, pool, T0);
+      expect((await getRelayJob(redis, job.id)).status).to.equal("submitted");
+
+      await processRelayQueue(redis, pool, T0 + 5000);
+      expect((await getRelayJob(redis, job.id)).status).to.equal("submitted");
+
+      chain.mine(chain.sent[0].hash);
+      const result = await processRelayQueue(redis, pool, T0 + 10000);
+      expect(result.confirmed).to.equal(1);
+
+      const done = await getRelayJob(redis, job.id);
+      expect(done.status).to.equal("confirmed");
+      expect(done.blockNumber).to.equal("123");
+    });
+
+    it("Should mark reverted transactions failed", async function () {
+      const job = await enqueue(submission(), T0);
+      await processRelayQueue(redis, pool, T0);
+      chain.mine(chain.sent[0].hash, "reverted");
+      await processRelayQueue(redis, pool, T0 + 1000);
+
+      const failed = await getRelayJob(redis, job.id);
+      expect(failed.status).to.equal("failed");
+      expect(failed.error).to.equal("transaction reverted");
+    });
+  });
+
+  // ============================================================
+  // GAS BUMPS
+  // ============================================================
+  describe("Stuck transactions", function () {
+    it("Should re-send at the same nonce with bumped fees", async function () {
+      const job = await enqueue(submission(), T0);
+      await processRelayQueue(redis, pool, T0);
+
+      const result = await processRelayQueue(redis, pool, T0 + 60_000);
+      expect(result.bumped).to.equal(1);
+      expect(chain.sent).to.have.length(2);
+      expect(chain.sent[1].nonce).to.equal(chain.sent[0].nonce);
+      expect(chain.sent[1].fees).to.deep.equal({ maxFeePerGas: 125n, maxPriorityFeePerGas: 12n });
+
+      // The original can still be the one that lands
+      chain.mine(chain.sent[0].hash);
+      await processRelayQueue(redis, pool, T0 + 61_000);
+      expect((await getRelayJob(redis, job.id)).status).to.equal("confirmed");
+    });
+
+    it("Should give up after the last attempt", async function () {
+      const job = await enqueue(submission(), T0);
+      let now = T0;
+      await processRelayQueue(redis, pool, now);
+      for (let i = 0; i < MAX_ATTEMPTS; i++) {
+        now += 60_000;
+        await processRelayQueue(redis, pool, now);
+      }
+
+      const failed = await getRelayJob(redis, job.id);
+      expect(failed.status).to.equal("failed");
+      expect(failed.attempts).to.equal(MAX_ATTEMPTS);
+      expect(chain.sent).to.have.length(MAX_ATTEMPTS);
+    });
+  });
+
+  // ============================================================
+  // EXPIRY
+  // ============================================================
+  describe("Expired attestations", function () {
+    it("Should fail queued jobs past their deadline without sending", async function () {
+      const job = await enqueue(submission(), T0);
+      const result = await processRelayQueue(redis, pool, T0 + 3600_000);
+
+      expect(result.failed).to.equal(1);
+      expect(chain.sent).to.have.length(0);
+      expect((await getRelayJob(redis, job.id)).error).to.equal("attestation expired");
+    });
+
+    it("Should stop bumping once the deadline passes", async function () {
+      const job = await enqueue({ ...submission(), deadline: String(T0 / 1000 + 50) }, T0);
+      await processRelayQueue(redis, pool, T0);
+      await processRelayQueue(redis, pool, T0 + 60_000);
+
+      const failed = await getRelayJob(redis, job.id);
+      expect(failed.status).to.equal("failed");
+      expect(failed.error).to.equal("attestation expired");
+      expect(chain.sent).to.have.length(1);
+    });
+  });
+
+  // ============================================================
+  // RELAYER POOL
+  // ============================================================
+  describe("Relayer pool", function () {
+    let second;
+    beforeEach(function () {
+      second = new FakeChain("0x00000000000000000000000000000000000E1A71");
+      second.pendingNonce = 30;
+      pool = poolOf(chain, second);
+    });
+
+    it("Should spread jobs round-robin across relayers", async function () {
+      for (let i = 0; i < 4; i++) await enqueue(submission(ALICE, String(i)), T0);
+      await processRelayQueue(redis, pool, T0);
+
+      expect(chain.sent.map((s) => s.nonce)).to.deep.equal([7, 8]);
+      expect(second.sent.map((s) => s.nonce)).to.deep.equal([30, 31]);
+    });
+
+    it("Should leave relayers below the minimum balance out of rotation", async function () {
+      second.balance = 10n ** 14n;
+      for (let i = 0; i < 3; i++) await enqueue(submission(ALICE, String(i)), T0);
+      await processRelayQueue(redis, pool, T0);
+
+      expect(chain.sent).to.have.length(3);
+      expect(second.sent).to.have.length(0);
+
+      const health = await getRelayPoolHealth(redis, pool, T0);
+      expect(health.map((h) => h.healthy)).to.deep.equal([true, false]);
+      expect(health[1].balance).to.equal(String(10n ** 14n));
+    });
+
+    it("Should leave unregistered relayers out of rotation", async function () {
+      chain.registered = false;
+      await enqueue(submission(), T0);
+      await processRelayQueue(redis, pool, T0);
+      expect(chain.sent).to.have.length(0);
+      expect(second.sent).to.have.length(1);
+    });
+
+    it("Should re-check balances once the cached health is stale", async function () {
+      second.balance = 0n;
+      await getRelayPoolHealth(redis, pool, T0);
+
+      second.balance = 10n ** 18n;
+      expect((await getRelayPoolHealth(redis, pool, T0 + 1000))[1].healthy).to.equal(false);
+      expect((await getRelayPoolHealth(redis, pool, T0 + 60_000))[1].healthy).to.equal(true);
+    });
+
+    it("Should fail over to the next relayer when a send errors", async function () {
+      const job = await enqueue(submission(), T0);
+      chain.failSends = 1;
+      await processRelayQueue(redis, pool, T0);
+
+      const sent = await getRelayJob(redis, job.id);
+      expect(sent.status).to.equal("submitted");
+      expect(sent.relayer).to.equal(second.relayer);
+      expect(sent.attempts).to.equal(1);
+
+      const health = await getRelayPoolHealth(redis, pool, T0 + 1000);
+      expect(health.map((h) => h.down)).to.deep.equal([true, false]);
+      expect((await getRelayPoolHealth(redis, pool, T0 + 61_000))[0].down).to.equal(false);
+    });
+
+    it("Should fail a reverting job without blaming the relayer", async function () {
+      pool = poolOf(chain);
+      chain.reverting.add(ALICE);
+      const bad = await enqueue(submission(ALICE), T0);
+      const good = await enqueue(submission(BOB), T0);
+      const result = await processRelayQueue(redis, pool, T0);
+
+      expect(result.failed).to.equal(1);
+      const failed = await getRelayJob(redis, bad.id);
+      expect(failed.status).to.equal("failed");
+      expect(failed.error).to.include("reverted");
+      expect(failed.attempts).to.equal(0);
+
+      // The good job still gets the relayer's first nonce
+      const sent = await getRelayJob(redis, good.id);
+      expect(sent.status).to.equal("submitted");
+      expect(sent.relayer).to.equal(chain.relayer);
+      expect(sent.relayerNonce).to.equal(7);
+
+      expect((await getRelayPoolHealth(redis, pool, T0 + 1000))[0].down).to.equal(false);
+    });
+
+    it("Should fail a job that only reverts at send without failing over", async function () {
+      chain.reverting.add(ALICE);
+      chain.revertOnSendOnly = true;
+      const bad = await enqueue(submission(ALICE), T0);
+      const good = await enqueue(submission(BOB), T0);
+      await processRelayQueue(redis, pool, T0);
+
+      expect((await getRelayJob(redis, bad.id)).status).to.equal("failed");
+      expect(second.sent.map((s) => s.job)).to.deep.equal([good.id]);
+      // Nothing went out at 7, so the resync hands it out again
+      expect(await allocateRelayerNonce(redis, chain)).to.equal(7);
+
+      const health = await getRelayPoolHealth(redis, pool, T0 + 1000);
+      expect(health.map((h) => h.down)).to.deep.equal([false, false]);
+    });
+
+    it("Should bump fees from the relayer that sent the original", async function () {
+      const job = await enqueue(submission(), T0);
+      await enqueue(submission(BOB), T0);
+      await processRelayQueue(redis, pool, T0);
+      expect((await getRelayJob(redis, job.id)).relayer).to.equal(chain.relayer);
+
+      await processRelayQueue(redis, pool, T0 + 60_000);
+      expect(chain.sent).to.have.length(2);
+      expect(chain.sent[1].nonce).to.equal(chain.sent[0].nonce);
+      expect(second.sent).to.have.length(2);
+    });
+
+    it("Should keep jobs queued while no relayer is usable", async function () {
+      chain.balance = 0n;
+      second.registered = false;
+      const job = await enqueue(submission(), T0);
+      const result = await processRelayQueue(redis, pool, T0);
+
+      expect(result.submitted).to.equal(0);
+      expect((await getRelayJob(redis, job.id)).status).to.equal("queued");
+      expect(await redis.llen("relay:queue")).to.equal(1);
+    });
+  });
+
+  it("Should skip a tick while another holds the lock", async function () {
+    await redis.set("relay:lock", "1", "EX", 30, "NX");
+    expect(await processRelayQueue(redis, pool, T0)).to.equal(null);
+  });
+
+  it("Should leave the lock alone once another tick has taken it over", async function () {
+    await enqueue(submission(), T0);
+    const send = chain.send.bind(chain);
+    chain.send = async (...args) => {
+      // This tick outlived its lease and another one started
+      await redis.set("relay:lock", "other-tick");
+      return send(...args);
+    };
+    await processRelayQueue(redis, pool, T0);
+    expect(await redis.get("relay:lock")).to.equal("other-tick");
+  });
+});
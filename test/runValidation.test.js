@@ -0,0 +1,175 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const { CFG, createEngine } = require("../app/components/Game/gameConfig");
+const { stepEngine, NO_INPUT } = require("../app/components/Game/gameSimulation");
+const {
+  maxPlausibleScore,
+  checkRunPlausibility,
+  flagRunForReview,
+  getRunReview,
+  getReviewQueue,
+  checkRunForSigning,
+} = require("../app/lib/runValidation");
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const NOW = 1_700_000_000_000;
+
+function finishedRun(overrides = {}) {
+  return {
+    id: "ab".repeat(16),
+    state: "finished",
+    address: ALICE,
+    seed: 42,
+    startedAt: NOW - 60_000,
+    finishedAt: NOW,
+    score: 1234,
+    frames: 2400,
+    durationMs: 40_000,
+    stats: { jumps: 20, collected: 3, maxCombo: 4, streak: 1 },
+    signedAt: null,
+    scoreNonce: null,
+    submittedAt: null,
+    relayJobId: null,
+    ...overrides,
+  };
+}
+
+function shareOf(run, overrides = {}) {
+  return {
+    id: "Share001",
+    score: run.score,
+    time: Math.floor(run.durationMs / 1000),
+    dodged: 50,
+    buys: run.stats.collected,
+    jumps: run.stats.jumps,
+    combo: run.stats.maxCombo,
+    address: "0x00000000000000000000000000000000000A11CE",
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("Run validation", function () {
+  // ============================================================
+  // PLAUSIBILITY
+  // ============================================================
+  describe("checkRunPlausibility", function () {
+    it("Should pass a run the engine actually played", function () {
+      const e = createEngine(42);
+      while (e.alive && e.frame < 60 * 60) stepEngine(e, NO_INPUT, CFG.STEP);
+      const run = finishedRun({
+        score: e.score,
+        frames: e.frame,
+        durationMs: Math.round(e.gameTime * 1000),
+        stats: { jumps: e.totalJumps, collected: e.totalCollected, maxCombo: e.maxCombo, streak: 1 },
+      });
+      expect(checkRunPlausibility(run, shareOf(run))).to.deep.equal({ ok: true });
+    });
+
+    it("Should flag 49,999 after 3 seconds", function () {
+      const result = checkRunPlausibility(finishedRun({ score: 49_999, durationMs: 3000 }));
+      expect(result.ok).to.equal(false);
+      expect(result.reasons[0]).to.match(/exceeds the maximum/);
+    });
+
+    it("Should measure against the wall clock when it is shorter than the replay", function () {
+      const run = finishedRun({ startedAt: NOW - 3000, durationMs: 600_000, score: 20_000 });
+      expect(checkRunPlausibility(run).ok).to.equal(false);
+    });
+
+    it("Should scale the limit with the streak multiplier", function () {
+      expect(maxPlausibleScore(10_000, 2, 10)).to.be.above(maxPlausibleScore(10_000, 1, 10));
+      expect(maxPlausibleScore(0, 2, 10)).to.equal(0);
+    });
+
+    it("Should flag posted stats that disagree with the replay", function () {
+      const run = finishedRun();
+      const result = checkRunPlausibility(run, shareOf(run, { buys: 40, combo: 40 }));
+      expect(result).to.deep.equal({ ok: false, reasons: ["posted stats disagree with the replay: buys, combo"] });
+    });
+
+    it("Should ignore a share posted for another address", function () {
+      const run = finishedRun();
+      const share = shareOf(run, { buys: 40, address: "0x0000000000000000000000000000000000000B0B" });
+      expect(checkRunPlausibility(run, share)).to.deep.equal({ ok: true });
+    });
+  });
+
+  // ============================================================
+  // REVIEW QUEUE
+  // ============================================================
+  describe("Review queue", function () {
+    let redis;
+    beforeEach(function () {
+      redis = new FakeRedis();
+    });
+
+    it("Should queue a flagged run once", async function () {
+      const run = finishedRun({ score: 49_999 });
+      expect(await flagRunForReview(redis, run, ["too fast"], NOW)).to.equal(true);
+      expect(await flagRunForReview(redis, run, ["too fast"], NOW + 1)).to.equal(false);
+
+      const queue = await getReviewQueue(redis);
+      expect(queue).to.deep.equal([
+        { runId: run.id, address: ALICE, score: 49_999, durationMs: 40_000, reasons: ["too fast"], flaggedAt: NOW },
+      ]);
+      expect(await getRunReview(redis, run.id)).to.deep.equal(queue[0]);
+    });
+
+    it("Should list the newest flags first", async function () {
+      await flagRunForReview(redis, finishedRun({ id: "01".repeat(16) }), ["a"], NOW);
+      await flagRunForReview(redis, finishedRun({ id: "02".repeat(16) }), ["b"], NOW + 1);
+      expect((await getReviewQueue(redis)).map((r) => r.reasons[0])).to.deep.equal(["b", "a"]);
+      expect(await getReviewQueue(redis, 1)).to.have.length(1);
+    });
+  });
+
+  // ============================================================
+  // SIGNING GATE
+  // ============================================================
+  describe("Signing gate", function () {
+    let redis;
+    beforeEach(function () {
+      redis = new FakeRedis();
+    });
+
+    async function storeRun(run) {
+      await redis.set(`run:${run.id}`, JSON.stringify(run));
+      return run;
+    }
+
+    it("Should pass a finished, plausible run for its own address and score", async function () {
+      const run = await storeRun(finishedRun());
+      const check = await checkRunForSigning(redis, run.id, ALICE, run.score);
+      expect(check.ok).to.equal(true);
+    });
+
+    it("Should refuse runs that aren't finished, or for another score", async function () {
+      const started = await storeRun(finishedRun({ id: "01".repeat(16), state: "started" }));
+      const course = await storeRun(finishedRun({ id: "02".repeat(16), course: "Course01" }));
+      const run = await storeRun(finishedRun());
+
+      expect(await checkRunForSigning(redis, started.id, ALICE, 1234)).to.include({ ok: false, status: 403 });
+      expect(await checkRunForSigning(redis, course.id, ALICE, 1234)).to.include({ ok: false, status: 403 });
+      expect(await checkRunForSigning(redis, run.id, ALICE, 9999)).to.include({ ok: false, status: 403 });
+      expect(await checkRunForSigning(redis, "03".repeat(16), ALICE, 1234)).to.include({ ok: false, status: 403 });
+    });
+
+    it("Should fail closed when the store errors", async function () {
+      const run = await storeRun(finishedRun());
+      redis.get = async () => {
+        throw new Error("connection lost");
+      };
+      const error = console.error;
+      console.error = () => {};
+      try {
+        const check = await checkRunForSigning(redis, run.id, ALICE, run.score);
+        expect(check).to.deep.equal({ ok: false, status: 503, error: "game session store unavailable" });
+      } finally {
+        console.error = error;
+      }
+    });
+  });
+});
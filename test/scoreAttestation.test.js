@@ -0,0 +1,79 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { generatePrivateKey, privateKeyToAccount } = require("viem/accounts");
+require("./helpers/register-ts");
+
+const {
+  ATTESTATION_TTL_SECONDS,
+  attestationDeadline,
+  sessionIdToBytes32,
+  signScoreAttestation,
+} = require("../app/lib/scoreAttestation");
+
+// The route signs with viem; the contract verifies in Solidity — both sides must agree
+describe("Score attestations", function () {
+  let gameLeaderboard;
+  let owner;
+  let player;
+  let signer;
+
+  beforeEach(async function () {
+    [owner, player] = await ethers.getSigners();
+    signer = privateKeyToAccount(generatePrivateKey());
+
+    const GameLeaderboard = await ethers.getContractFactory("GameLeaderboard");
+    gameLeaderboard = await GameLeaderboard.deploy();
+    await gameLeaderboard.waitForDeployment();
+    await gameLeaderboard.connect(owner).setScoreSigner(signer.address);
+  });
+
+  async function sign(overrides = {}) {
+    const latest = await ethers.provider.getBlock("latest");
+    const attestation = {
+      player: player.address,
+      score: 4200n,
+      nonce: await gameLeaderboard.scoreNonces(player.address),
+      deadline: attestationDeadline(latest.timestamp * 1000),
+      sessionId: sessionIdToBytes32("0123456789abcdef0123456789abcdef"),
+      ...overrides,
+    };
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const signature = await signScoreAttestation(signer, chainId, await gameLeaderboard.getAddress(), attestation);
+    return { attestation, signature };
+  }
+
+  it("Should be accepted by the contract", async function () {
+    const { attestation: a, signature } = await sign();
+    await gameLeaderboard.connect(player).submitScore(a.score, a.nonce, a.deadline, a.sessionId, signature);
+    expect(await gameLeaderboard.playerBestScore(player.address)).to.equal(4200n);
+  });
+
+  it("Should be accepted when relayed", async function () {
+    const { attestation: a, signature } = await sign();
+    await gameLeaderboard.connect(owner).submitScoreFor(a.player, a.score, a.nonce, a.deadline, a.sessionId, signature);
+    expect(await gameLeaderboard.scoreNonces(player.address)).to.equal(1n);
+  });
+
+  it("Should bind the signed score", async function () {
+    const { attestation: a, signature } = await sign();
+    await expect(
+      gameLeaderboard.connect(player).submitScore(a.score + 1n, a.nonce, a.deadline, a.sessionId, signature)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("Should expire after the TTL", async function () {
+    const { attestation: a, signature } = await sign();
+    await ethers.provider.send("evm_increaseTime", [ATTESTATION_TTL_SECONDS + 1]);
+    await ethers.provider.send("evm_mine");
+    await expect(
+      gameLeaderboard.connect(player).submitScore(a.score, a.nonce, a.deadline, a.sessionId, signature)
+    ).to.be.revertedWith("Attestation expired");
+  });
+
+  it("Should encode session ids as bytes32", function () {
+    expect(sessionIdToBytes32(undefined)).to.equal(ethers.ZeroHash);
+    expect(sessionIdToBytes32("0123456789abcdef0123456789abcdef")).to.equal(
+      "0x0123456789abcdef0123456789abcdef00000000000000000000000000000000"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { createPublicClient, custom } = require("viem");
+const { generatePrivateKey, privateKeyToAccount } = require("viem/accounts");
+require("./helpers/register-ts");
+
+const { fetchSignerWindows, pickSigningAccount } = require("../app/lib/scoreSigners");
+
+const NOW = 1_700_000_000;
+
+describe("Score signers", function () {
+  const newest = privateKeyToAccount(generatePrivateKey());
+  const previous = privateKeyToAccount(generatePrivateKey());
+  const accounts = [newest, previous];
+
+  function window(account, validFrom, validUntil = null) {
+    return { address: account.address, validFrom, validUntil };
+  }
+
+  // ============================================================
+  // SELECTION
+  // ============================================================
+  describe("pickSigningAccount", function () {
+    it("Should sign with the newest active key", function () {
+      const windows = [window(previous, NOW - 100, NOW + 7200), window(newest, NOW - 10)];
+      expect(pickSigningAccount(accounts, windows, NOW)).to.equal(newest);
+    });
+
+    it("Should keep the previous key until a staged one opens", function () {
+      const windows = [window(previous, NOW - 100), window(newest, NOW + 600)];
+      expect(pickSigningAccount(accounts, windows, NOW)).to.equal(previous);
+      expect(pickSigningAccount(accounts, windows, NOW + 600)).to.equal(newest);
+    });
+
+    it("Should avoid a key that expires before the attestation would", function () {
+      const windows = [window(newest, NOW - 100, NOW + 60), window(previous, NOW - 100)];
+      expect(pickSigningAccount(accounts, windows, NOW)).to.equal(previous);
+    });
+
+    it("Should fall back to an expiring key when nothing else is active", function () {
+      const windows = [window(newest, NOW - 100, NOW + 60)];
+      expect(pickSigningAccount(accounts, windows, NOW)).to.equal(newest);
+    });
+
+    it("Should return null when no configured key is on-chain", function () {
+      expect(pickSigningAccount(accounts, [], NOW)).to.equal(null);
+    });
+
+    it("Should assume the newest key without on-chain data", function () {
+      expect(pickSigningAccount(accounts, null, NOW)).to.equal(newest);
+    });
+  });
+
+  it("Should read signer windows from the contract", async function () {
+    const [owner, signer] = await ethers.getSigners();
+    const GameLeaderboard = await ethers.getContractFactory("GameLeaderboard");
+    const gameLeaderboard = await GameLeaderboard.deploy();
+    await gameLeaderboard.waitForDeployment();
+    await gameLeaderboard.connect(owner).setScoreSigner(signer.address);
+    await gameLeaderboard.connect(owner).setScoreSigner(newest.address);
+    const now = (await ethers.provider.getBlock("latest")).timestamp;
+
+    const client = createPublicClient({ transport: custom(network.provider) });
+    const windows = await fetchSignerWindows(client, await gameLeaderboard.getAddress());
+    expect(windows).to.deep.equal([
+      { address: signer.address, validFrom: now - 1, validUntil: now + 3600 },
+      { address: newest.address, validFrom: now, validUntil: null },
+    ]);
+  });
+});
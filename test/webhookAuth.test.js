@@ -0,0 +1,114 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+
+const {
+  parseWebhookSecrets,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} = require("../app/lib/webhookAuth");
+
+const BODY = JSON.stringify({ type: "score_submission", status: "success" });
+const NOW = 1_700_000_000;
+
+function verify(overrides = {}) {
+  return verifyWebhookSignature({
+    rawBody: BODY,
+    signature: `v1=${signWebhookPayload(BODY, "current", NOW)}`,
+    timestamp: String(NOW),
+    secrets: ["current"],
+    now: NOW,
+    ...overrides,
+  });
+}
+
+describe("Webhook auth", function () {
+  // ============================================================
+  // SIGNATURES
+  // ============================================================
+  describe("Signatures", function () {
+    it("Should accept a correctly signed request", function () {
+      const result = verify();
+      expect(result.ok).to.equal(true);
+      expect(result.signature).to.equal(signWebhookPayload(BODY, "current", NOW));
+    });
+
+    it("Should reject a tampered body or wrong secret", function () {
+      expect(verify({ rawBody: BODY + " " })).to.deep.equal({ ok: false, reason: "bad_signature" });
+      expect(verify({ secrets: ["other"] })).to.deep.equal({ ok: false, reason: "bad_signature" });
+    });
+
+    it("Should bind the signature to its timestamp", function () {
+      const signature = `v1=${signWebhookPayload(BODY, "current", NOW)}`;
+      expect(verify({ signature, timestamp: String(NOW + 1) }).ok).to.equal(false);
+    });
+
+    it("Should reject the old sha256(payload + secret) scheme", function () {
+      const legacy = require("crypto").createHash("sha256").update(BODY + "current").digest("hex");
+      expect(verify({ signature: legacy }).ok).to.equal(false);
+      expect(verify({ signature: `v1=${legacy}` }).ok).to.equal(false);
+    });
+
+    it("Should reject malformed signatures without throwing", function () {
+      expect(verify({ signature: "v1=zz" }).ok).to.equal(false);
+      expect(verify({ signature: "v1=" }).ok).to.equal(false);
+    });
+
+    it("Should reject a valid signature with anything appended", function () {
+      const signature = signWebhookPayload(BODY, "current", NOW);
+      for (const suffix of ["zz", "0", "00", " x"]) {
+        expect(verify({ signature: `v1=${signature}${suffix}` }).ok, suffix).to.equal(false);
+      }
+    });
+
+    it("Should return the computed signature whatever case it was sent in", function () {
+      const signature = signWebhookPayload(BODY, "current", NOW);
+      expect(verify({ signature: `v1=${signature.toUpperCase()}` })).to.deep.equal({ ok: true, signature });
+    });
+  });
+
+  // ============================================================
+  // REPLAY WINDOW
+  // ============================================================
+  describe("Timestamp window", function () {
+    it("Should accept timestamps inside the tolerance", function () {
+      expect(verify({ now: NOW + 300 }).ok).to.equal(true);
+      expect(verify({ now: NOW - 300 }).ok).to.equal(true);
+    });
+
+    it("Should reject stale or future timestamps", function () {
+      expect(verify({ now: NOW + 301 })).to.deep.equal({ ok: false, reason: "stale_timestamp" });
+      expect(verify({ now: NOW - 301 })).to.deep.equal({ ok: false, reason: "stale_timestamp" });
+      expect(verify({ now: NOW + 31, toleranceSeconds: 30 }).ok).to.equal(false);
+    });
+
+    it("Should require both headers", function () {
+      expect(verify({ signature: null })).to.deep.equal({ ok: false, reason: "missing_signature" });
+      expect(verify({ timestamp: null })).to.deep.equal({ ok: false, reason: "missing_timestamp" });
+      expect(verify({ timestamp: "soon" })).to.deep.equal({ ok: false, reason: "missing_timestamp" });
+    });
+  });
+
+  // ============================================================
+  // ROTATION
+  // ============================================================
+  describe("Secret rotation", function () {
+    it("Should accept any active secret", function () {
+      const secrets = parseWebhookSecrets("next, current");
+      expect(secrets).to.deep.equal(["next", "current"]);
+      expect(verify({ secrets }).ok).to.equal(true);
+    });
+
+    it("Should accept a header carrying signatures for several secrets", function () {
+      const signature = [
+        `v1=${signWebhookPayload(BODY, "retired", NOW)}`,
+        `v1=${signWebhookPayload(BODY, "current", NOW)}`,
+      ].join(",");
+      expect(verify({ signature }).ok).to.equal(true);
+    });
+
+    it("Should fail closed with no secrets configured", function () {
+      expect(parseWebhookSecrets(undefined)).to.deep.equal([]);
+      expect(verify({ secrets: [] })).to.deep.equal({ ok: false, reason: "no_secrets" });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+const { expect } = require("chai");
+require("./helpers/register-ts");
+const { FakeRedis } = require("./helpers/fakeRedis");
+
+const {
+  RETRY_QUEUE_KEY,
+  parseWebhookEvent,
+  handleWebhookEvent,
+  getActivity,
+  purgeLeaderboardCache,
+} = require("../app/lib/webhookEvents");
+
+const ALICE = "0x00000000000000000000000000000000000A11CE";
+const TX = "0x" + "ab".repeat(32);
+const NOW = 1_700_000_000_000;
+
+function scoreEvent(status, data = {}) {
+  return parseWebhookEvent({
+    type: "score_submission",
+    status,
+    transactionHash: TX,
+    data: { player: ALICE, score: 1234, ...data },
+  });
+}
+
+describe("Webhook events", function () {
+  let redis;
+  beforeEach(function () {
+    redis = new FakeRedis();
+  });
+
+  // ============================================================
+  // PARSING
+  // ============================================================
+  describe("Parsing", function () {
+    it("Should type known events and checksum players", function () {
+      const event = parseWebhookEvent({
+        type: "daily_checkin",
+        status: "success",
+        data: { player: ALICE.toLowerCase(), streak: "4" },
+      });
+      expect(event.type).to.equal("daily_checkin");
+      expect(event.data).to.deep.equal({ player: ALICE, streak: 4, error: undefined });
+    });
+
+    it("Should reject unknown types and malformed payloads", function () {
+      expect(parseWebhookEvent({ type: "mystery", status: "success" })).to.equal(null);
+      expect(parseWebhookEvent({ type: "score_submission", status: "success", data: { player: "nope", score: 1 } })).to.equal(null);
+      expect(parseWebhookEvent({ type: "score_submission", status: "done", data: { player: ALICE, score: 1 } })).to.equal(null);
+      expect(parseWebhookEvent(null)).to.equal(null);
+    });
+  });
+
+  // ============================================================
+  // SCORE SUBMISSION
+  // ============================================================
+  describe("score_submission", function () {
+    it("Should purge cached boards and record activity on success", async function () {
+      await redis.set("lb:sorted:10", "[]", "EX", 30);
+      await redis.set("lb:sorted:s1:33", "[]", "EX", 3600);
+      await redis.set("lb:idx:fresh", "1", "EX", 10);
+      await redis.set("session:keep", "1");
+
+      const effects = await handleWebhookEvent(redis, scoreEvent("success"), NOW);
+      expect(effects).to.deep.equal(["cache_purged", "activity"]);
+
+      expect(await redis.exists("lb:sorted:10")).to.equal(0);
+      expect(await redis.exists("lb:sorted:s1:33")).to.equal(0);
+      expect(await redis.exists("lb:idx:fresh")).to.equal(0);
+      expect(await redis.exists("session:keep")).to.equal(1);
+
+      expect(await getActivity(redis, ALICE)).to.deep.equal([{ type: "score", score: 1234, tx: TX, at: NOW }]);
+    });
+
+    it("Should queue failed gasless submissions for retry", async function () {
+      const signature = "0x" + "11".repeat(65);
+      const sessionId = "0x" + "ab".repeat(32);
+      const effects = await handleWebhookEvent(
+        redis,
+        scoreEvent("failed", { nonce: 3, deadline: 1700003600, sessionId, signature, error: "replacement underpriced" }),
+        NOW
+      );
+      expect(effects).to.deep.equal(["activity", "retry_queued"]);
+
+      const queued = await redis.lrange(RETRY_QUEUE_KEY, 0, -1);
+      expect(queued.map((j) => JSON.parse(j))).to.deep.equal([
+        {
+          player: ALICE,
+          score: 1234,
+          nonce: "3",
+          deadline: "1700003600",
+          sessionId,
+          signature,
+          failedTx: TX,
+          error: "replacement underpriced",
+          attempts: 0,
+          queuedAt: NOW,
+        },
+      ]);
+      expect((await getActivity(redis, ALICE))[0].type).to.equal("score_failed");
+    });
+
+    it("Should reject malformed retry fields", function () {
+      const valid = { nonce: "3", deadline: "1700003600", sessionId: "0x" + "ab".repeat(32), signature: "0x" + "11".repeat(65) };
+      expect(scoreEvent("failed", valid)).to.not.equal(null);
+      for (const bad of [
+        { nonce: "-1" },
+        { nonce: "3.5" },
+        { deadline: "soon" },
+        { deadline: 1.5 },
+        { sessionId: "0x" + "ab".repeat(31) },
+        { sessionId: "ab".repeat(32) },
+        { signature: "0x" + "11".repeat(64) },
+        { signature: "0x" + "zz".repeat(65) },
+      ]) {
+        expect(scoreEvent("failed", { ...valid, ...bad }), JSON.stringify(bad)).to.equal(null);
+      }
+      expect(scoreEvent("failed", { score: 12.5 })).to.equal(null);
+    });
+
+    it("Should not queue failures that can't be resent", async function () {
+      const effects = await handleWebhookEvent(redis, scoreEvent("failed"), NOW);
+      expect(effects).to.deep.equal(["activity"]);
+      expect(await redis.llen(RETRY_QUEUE_KEY)).to.equal(0);
+    });
+
+    it("Should ignore pending transactions", async function () {
+      await redis.set("lb:sorted:10", "[]");
+      expect(await handleWebhookEvent(redis, scoreEvent("pending"), NOW)).to.deep.equal([]);
+      expect(await redis.exists("lb:sorted:10")).to.equal(1);
+    });
+  });
+
+  // ============================================================
+  // DAILY CHECK-IN
+  // ============================================================
+  describe("daily_checkin", function () {
+    it("Should purge cached boards and record the streak", async function () {
+      await redis.set("lb:sorted:10", "[]");
+      const event = parseWebhookEvent({ type: "daily_checkin", status: "success", transactionHash: TX, data: { player: ALICE, streak: 7 } });
+
+      expect(await handleWebhookEvent(redis, event, NOW)).to.deep.equal(["cache_purged", "activity"]);
+      expect(await redis.exists("lb:sorted:10")).to.equal(0);
+      expect(await getActivity(redis, ALICE)).to.deep.equal([{ type: "checkin", streak: 7, tx: TX, at: NOW }]);
+    });
+  });
+
+  // ============================================================
+  // HISTORY
+  // ============================================================
+  describe("Activity history", function () {
+    it("Should keep the newest 50 entries per player with a TTL", async function () {
+      for (let i = 0; i < 55; i++) {
+        await handleWebhookEvent(redis, scoreEvent("success", { score: i + 1 }), NOW + i);
+      }
+      const history = await getActivity(redis, ALICE.toLowerCase());
+      expect(history).to.have.length(50);
+      expect(history[0].score).to.equal(55);
+      expect(history[49].score).to.equal(6);
+      expect(await redis.ttl(`activity:${ALICE.toLowerCase()}`)).to.equal(30 * 24 * 60 * 60);
+    });
+
+    it("Should report how many cached reads were purged", async function () {
+      await redis.set("lb:sorted:a", "1");
+      await redis.set("lb:sorted:b", "1");
+      expect(await purgeLeaderboardCache(redis)).to.equal(2);
+      expect(await purgeLeaderboardCache(redis)).to.equal(0);
+    });
+  });
+});